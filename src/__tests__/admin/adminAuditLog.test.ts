@@ -0,0 +1,112 @@
+import { EventEmitter } from 'events';
+import { Request, Response } from 'express';
+import { AdminAuditLog } from '../../models/AdminAuditLog.model';
+import { adminAuditService } from '../../services/adminAudit.service';
+import { auditAdminAction } from '../../middlewares/adminAudit.middleware';
+
+jest.mock('../../models/AdminAuditLog.model', () => ({
+  AdminAuditLog: { create: jest.fn() },
+}));
+
+const mockedAuditLog = AdminAuditLog as unknown as { create: jest.Mock };
+
+const ADMIN_ID = '64b000000000000000000099';
+const USER_ID = '64b000000000000000000001';
+
+const createResponse = () => {
+  const res = new EventEmitter() as unknown as Response & { status: jest.Mock; json: jest.Mock };
+  res.statusCode = 200;
+  res.status = jest.fn().mockImplementation((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const banRequest = () =>
+  ({
+    user: { id: ADMIN_ID, role: 'admin', adminRole: 'support' },
+    params: { userId: USER_ID },
+    body: { reason: 'spam', password: 'hunter2' },
+    method: 'POST',
+    originalUrl: `/api/v1/admin/users/${USER_ID}/ban`,
+    ip: '203.0.113.7',
+    headers: {},
+  }) as unknown as Request;
+
+// Let the background record() call finish
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Admin audit log', () => {
+  it('redacts secrets at any depth', () => {
+    expect(
+      adminAuditService.redact({ name: 'Jane', password: 'x', stripe: { apiKey: 'k' }, otp: ['1'] })
+    ).toEqual({ name: 'Jane', password: '[REDACTED]', stripe: { apiKey: '[REDACTED]' }, otp: '[REDACTED]' });
+  });
+
+  it('diffs only the fields that changed', () => {
+    const changes = adminAuditService.diff(
+      { _id: USER_ID, isBanned: false, name: 'Jane', updatedAt: '2026-03-01' },
+      { _id: USER_ID, isBanned: true, name: 'Jane', updatedAt: '2026-03-02' }
+    );
+
+    expect(changes).toEqual([{ field: 'isBanned', before: false, after: true }]);
+  });
+
+  it('records who changed what once the admin request finishes', async () => {
+    const snapshot = jest
+      .spyOn(adminAuditService, 'snapshot')
+      .mockResolvedValueOnce({ _id: USER_ID, isBanned: false })
+      .mockResolvedValueOnce({ _id: USER_ID, isBanned: true });
+    const req = banRequest();
+    const res = createResponse();
+    const next = jest.fn();
+
+    await auditAdminAction({ action: 'user.ban', entityType: 'User', idParam: 'userId' })(req, res, next);
+    expect(next).toHaveBeenCalled();
+    expect(mockedAuditLog.create).not.toHaveBeenCalled();
+
+    res.status(200).json({ success: true });
+    res.emit('finish');
+    await flush();
+
+    expect(snapshot).toHaveBeenCalledWith('User', USER_ID);
+    expect(mockedAuditLog.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actorId: ADMIN_ID,
+        actorRole: 'support',
+        action: 'user.ban',
+        entityId: USER_ID,
+        success: true,
+        changes: [{ field: 'isBanned', before: false, after: true }],
+        body: { reason: 'spam', password: '[REDACTED]' },
+      })
+    );
+  });
+
+  it('records a refused action without a diff', async () => {
+    jest.spyOn(adminAuditService, 'snapshot').mockResolvedValue({ _id: USER_ID, isBanned: false });
+    const res = createResponse();
+
+    await auditAdminAction({ action: 'user.ban', entityType: 'User', idParam: 'userId' })(
+      banRequest(),
+      res,
+      jest.fn()
+    );
+    res.status(403).json({ success: false });
+    res.emit('finish');
+    await flush();
+
+    expect(mockedAuditLog.create).toHaveBeenCalledWith(
+      expect.objectContaining({ success: false, statusCode: 403, changes: [] })
+    );
+  });
+
+  it('finds the id of a created entity in the response', () => {
+    const created = { data: { coupon: { _id: 'c1', code: 'SPRING' } } };
+
+    expect(adminAuditService.getCreatedEntityId(created)).toBe('c1');
+    expect(adminAuditService.getCreatedEntityId({ data: null })).toBeUndefined();
+  });
+});
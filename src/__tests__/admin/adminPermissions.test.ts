@@ -0,0 +1,54 @@
+import { Request, Response } from 'express';
+import { authorizePermission } from '../../middlewares/auth.middleware';
+import { getRolePermissions, hasPermission } from '../../config/permissions';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const requestAs = (role: string, adminRole?: string) =>
+  ({ user: { id: '64b000000000000000000099', role, adminRole } }) as unknown as Request;
+
+const check = (req: Request, ...permissions: Parameters<typeof authorizePermission>) => {
+  const res = createResponse();
+  const next = jest.fn();
+  authorizePermission(...permissions)(req, res, next);
+  return { res, next };
+};
+
+describe('Admin permissions', () => {
+  it('lets a role through only with every listed permission', () => {
+    expect(check(requestAs('admin', 'support'), 'users:ban').next).toHaveBeenCalled();
+
+    const { res, next } = check(requestAs('admin', 'support'), 'users:ban', 'payments:refund');
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('keeps each role to its own area', () => {
+    expect(hasPermission('finance', 'payments:refund')).toBe(true);
+    expect(hasPermission('finance', 'content:write')).toBe(false);
+    expect(hasPermission('content_editor', 'users:read')).toBe(false);
+    expect(getRolePermissions('super_admin')).toContain('roles:manage');
+  });
+
+  it('gives admins created before roles existed full access', () => {
+    expect(check(requestAs('admin'), 'roles:manage', 'audit:read').next).toHaveBeenCalled();
+  });
+
+  it('refuses regular users whatever role field they carry', () => {
+    const { res, next } = check(requestAs('user', 'super_admin'), 'users:read');
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('asks for a login when no user is attached', () => {
+    const { res } = check({} as Request, 'users:read');
+
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+});
@@ -0,0 +1,127 @@
+import { Request, Response } from 'express';
+import { User } from '../../models/User.model';
+import { updateUser, banUser, unbanUser } from '../../controllers/adminUser.controller';
+import { canManageUser } from '../../config/permissions';
+
+jest.mock('../../models/User.model', () => ({
+  User: {
+    findOne: jest.fn(),
+    findOneAndUpdate: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/ban.service', () => ({
+  banService: { liftBan: jest.fn() },
+}));
+
+const mockedUser = User as unknown as {
+  findOne: jest.Mock;
+  findOneAndUpdate: jest.Mock;
+};
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const createRequest = (adminRole: string, body: Record<string, unknown> = {}) =>
+  ({
+    params: { userId: '64b000000000000000000001' },
+    body,
+    user: { id: '64b000000000000000000099', role: 'admin', adminRole },
+  }) as unknown as Request;
+
+// findOne(...).select(...) resolves to the target; findOne(...) alone too
+const findTarget = (target: Record<string, unknown> | null) => {
+  const query = Promise.resolve(target) as Promise<unknown> & { select: jest.Mock };
+  query.select = jest.fn().mockResolvedValue(target);
+  mockedUser.findOne.mockReturnValue(query);
+};
+
+describe('Admin user management of admin accounts', () => {
+  describe('canManageUser', () => {
+    it('lets any admin role manage regular users', () => {
+      expect(canManageUser('support', 'user')).toBe(true);
+      expect(canManageUser('content_editor', 'user')).toBe(true);
+    });
+
+    it('only lets roles with roles:manage manage admins', () => {
+      expect(canManageUser('support', 'admin')).toBe(false);
+      expect(canManageUser('finance', 'admin')).toBe(false);
+      expect(canManageUser('super_admin', 'admin')).toBe(true);
+      // Admins without a role predate RBAC and keep full access
+      expect(canManageUser(undefined, 'admin')).toBe(true);
+    });
+  });
+
+  describe('updateUser', () => {
+    it('refuses a support admin changing an admin email', async () => {
+      findTarget({ role: 'admin' });
+      const res = createResponse();
+
+      await updateUser(createRequest('support', { email: 'attacker@example.com' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(mockedUser.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('lets a super admin update an admin', async () => {
+      findTarget({ role: 'admin' });
+      const select = jest.fn().mockResolvedValue({ _id: 'x', email: 'new@example.com' });
+      mockedUser.findOneAndUpdate.mockReturnValue({ select });
+      const res = createResponse();
+
+      await updateUser(createRequest('super_admin', { email: 'new@example.com' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(mockedUser.findOneAndUpdate).toHaveBeenCalled();
+    });
+
+    it('lets a support admin update a regular user', async () => {
+      findTarget({ role: 'user' });
+      const select = jest.fn().mockResolvedValue({ _id: 'x', name: 'New' });
+      mockedUser.findOneAndUpdate.mockReturnValue({ select });
+      const res = createResponse();
+
+      await updateUser(createRequest('support', { name: 'New' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+  });
+
+  describe('banUser and unbanUser', () => {
+    it('refuses a support admin banning an admin', async () => {
+      const target = { role: 'admin', isBanned: false, save: jest.fn() };
+      findTarget(target);
+      const res = createResponse();
+
+      await banUser(createRequest('support', { reason: 'spam' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(target.isBanned).toBe(false);
+      expect(target.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses a support admin unbanning an admin', async () => {
+      findTarget({ role: 'admin', isBanned: true });
+      const res = createResponse();
+
+      await unbanUser(createRequest('support'), res);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    it('lets a support admin ban a regular user', async () => {
+      const target = { role: 'user', isBanned: false, save: jest.fn().mockResolvedValue(undefined) };
+      findTarget(target);
+      const res = createResponse();
+
+      await banUser(createRequest('support', { reason: 'spam' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(target.isBanned).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { BanAppeal } from '../../models/BanAppeal.model';
+import { User } from '../../models/User.model';
+import { createNotification } from '../../services/notification.service';
+import { banService } from '../../services/ban.service';
+
+jest.mock('../../models/BanAppeal.model', () => ({
+  BanAppeal: { findOneAndUpdate: jest.fn(), findById: jest.fn(), updateMany: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findOne: jest.fn() },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+}));
+
+const mockedBanAppeal = BanAppeal as unknown as {
+  findOneAndUpdate: jest.Mock;
+  findById: jest.Mock;
+  updateMany: jest.Mock;
+};
+const mockedUser = User as unknown as { findOne: jest.Mock };
+
+const APPEAL_ID = '64b0000000000000000000a1';
+const USER_ID = '64b000000000000000000001';
+const ADMIN_ID = '64b000000000000000000099';
+
+const reviewed = (status: string) => ({ _id: APPEAL_ID, userId: USER_ID, status });
+
+const bannedUser = () => ({
+  _id: USER_ID,
+  isBanned: true,
+  bannedUntil: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  banReason: 'Spam',
+  save: jest.fn(),
+});
+
+describe('Ban appeals', () => {
+  describe('reviewAppeal', () => {
+    it('approves a pending appeal and lifts the ban', async () => {
+      mockedBanAppeal.findOneAndUpdate.mockResolvedValue(reviewed('approved'));
+      const user = bannedUser();
+      mockedUser.findOne.mockResolvedValue(user);
+
+      await banService.reviewAppeal(APPEAL_ID, ADMIN_ID, 'approved', 'Fair enough');
+
+      expect(mockedBanAppeal.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: APPEAL_ID, status: 'pending' },
+        expect.objectContaining({ status: 'approved', reviewNote: 'Fair enough' }),
+        { new: true }
+      );
+      expect(user.isBanned).toBe(false);
+      expect(createNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('keeps the ban when the appeal is denied', async () => {
+      mockedBanAppeal.findOneAndUpdate.mockResolvedValue(reviewed('denied'));
+
+      await banService.reviewAppeal(APPEAL_ID, ADMIN_ID, 'denied');
+
+      expect(mockedUser.findOne).not.toHaveBeenCalled();
+      expect(createNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('refuses an appeal another admin already decided', async () => {
+      mockedBanAppeal.findOneAndUpdate.mockResolvedValue(null);
+      mockedBanAppeal.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ status: 'denied' }) });
+
+      await expect(banService.reviewAppeal(APPEAL_ID, ADMIN_ID, 'approved')).rejects.toMatchObject({
+        statusCode: 409,
+        message: 'Appeal has already been denied',
+      });
+      expect(mockedUser.findOne).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    it('answers 404 for an unknown appeal', async () => {
+      mockedBanAppeal.findOneAndUpdate.mockResolvedValue(null);
+      mockedBanAppeal.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(null) });
+
+      await expect(banService.reviewAppeal(APPEAL_ID, ADMIN_ID, 'denied')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+
+    it('answers 404 for a malformed appeal id without querying', async () => {
+      await expect(banService.reviewAppeal('not-an-id', ADMIN_ID, 'denied')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+      expect(mockedBanAppeal.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('liftBan', () => {
+    it('closes open appeals instead of approving them', async () => {
+      const user = bannedUser();
+
+      await banService.liftBan(user as never);
+
+      expect(mockedBanAppeal.updateMany).toHaveBeenCalledWith(
+        { userId: USER_ID, status: 'pending' },
+        expect.objectContaining({ status: 'closed' })
+      );
+    });
+  });
+});
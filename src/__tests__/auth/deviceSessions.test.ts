@@ -0,0 +1,104 @@
+import { cacheGet, cacheSet, cacheDel, getRedisClient } from '../../config/redis';
+import { tokenService, DeviceSession } from '../../services/token.service';
+import { JWTUtil } from '../../utils/jwt';
+
+jest.mock('../../config/redis', () => ({
+  getRedisClient: jest.fn(),
+  cacheGet: jest.fn(),
+  cacheSet: jest.fn(),
+  cacheDel: jest.fn(),
+  cacheExists: jest.fn(),
+}));
+
+const mockedCache = {
+  get: cacheGet as jest.Mock,
+  set: cacheSet as jest.Mock,
+  del: cacheDel as jest.Mock,
+};
+const client = { sAdd: jest.fn(), sMembers: jest.fn(), sRem: jest.fn(), expire: jest.fn(), del: jest.fn() };
+
+const USER_ID = '64b000000000000000000001';
+
+const deviceSession = (
+  id: string,
+  lastUsedAt: string,
+  fields: Partial<DeviceSession> = {}
+): DeviceSession => ({
+  id,
+  userId: USER_ID,
+  deviceName: `Device ${id}`,
+  refreshToken: `refresh-${id}`,
+  accessTokens: [],
+  createdAt: lastUsedAt,
+  lastUsedAt,
+  ...fields,
+});
+
+// Sessions stored in Redis, keyed like the service keys them
+const storeSessions = (...sessions: DeviceSession[]) => {
+  mockedCache.get.mockImplementation(
+    async (key: string) => sessions.find((session) => key === `session:${session.id}`) ?? null
+  );
+};
+
+describe('Device sessions', () => {
+  beforeEach(() => {
+    (getRedisClient as jest.Mock).mockReturnValue(client);
+  });
+
+  it('creates a session per login and indexes it under the user', async () => {
+    const session = await tokenService.createSession('s1', USER_ID, 'refresh-1', 'access-1', {
+      platform: 'ios',
+      ipAddress: '203.0.113.7',
+    });
+
+    expect(session).toEqual(
+      expect.objectContaining({ deviceName: 'ios', refreshToken: 'refresh-1', accessTokens: ['access-1'] })
+    );
+    expect(mockedCache.set).toHaveBeenCalledWith('session:s1', session, tokenService.REFRESH_TOKEN_EXPIRY);
+    expect(client.sAdd).toHaveBeenCalledWith(`sessions:user:${USER_ID}`, 's1');
+  });
+
+  it('lists sessions most recently used first and prunes expired ones', async () => {
+    client.sMembers.mockResolvedValue(['old', 'expired', 'recent']);
+    storeSessions(
+      deviceSession('old', '2026-03-01T10:00:00.000Z'),
+      deviceSession('recent', '2026-03-09T10:00:00.000Z')
+    );
+
+    const sessions = await tokenService.listSessions(USER_ID);
+
+    expect(sessions.map((session) => session.id)).toEqual(['recent', 'old']);
+    expect(client.sRem).toHaveBeenCalledWith(`sessions:user:${USER_ID}`, 'expired');
+  });
+
+  it('revokes one device and blacklists its outstanding access tokens', async () => {
+    const accessToken = JWTUtil.generateAccessToken({ id: USER_ID, sid: 's1' });
+    storeSessions(deviceSession('s1', new Date().toISOString(), { accessTokens: [accessToken] }));
+
+    await expect(tokenService.revokeSession(USER_ID, 's1')).resolves.toBe(true);
+
+    expect(mockedCache.set).toHaveBeenCalledWith(`blacklist:token:${accessToken}`, true, expect.any(Number));
+    expect(mockedCache.del).toHaveBeenCalledWith('session:s1');
+    expect(client.sRem).toHaveBeenCalledWith(`sessions:user:${USER_ID}`, 's1');
+  });
+
+  it("refuses to revoke another user's session", async () => {
+    storeSessions(deviceSession('s1', new Date().toISOString(), { userId: '64b000000000000000000002' }));
+
+    await expect(tokenService.revokeSession(USER_ID, 's1')).resolves.toBe(false);
+    expect(mockedCache.del).not.toHaveBeenCalled();
+  });
+
+  it('signs out every device at once', async () => {
+    client.sMembers.mockResolvedValue(['s1', 's2']);
+    const now = new Date().toISOString();
+    storeSessions(deviceSession('s1', now), deviceSession('s2', now));
+
+    await expect(tokenService.revokeAllSessions(USER_ID)).resolves.toBe(2);
+
+    expect(mockedCache.del).toHaveBeenCalledWith('session:s1');
+    expect(mockedCache.del).toHaveBeenCalledWith('session:s2');
+    expect(mockedCache.del).toHaveBeenCalledWith(`sessions:user:${USER_ID}`);
+  });
+});
@@ -0,0 +1,127 @@
+import { Request } from 'express';
+import { LoginEvent } from '../../models/LoginEvent.model';
+import { User } from '../../models/User.model';
+import { emailService } from '../../services/email.service';
+import { createNotification } from '../../services/notification.service';
+import { loginAuditService } from '../../services/loginAudit.service';
+
+jest.mock('../../models/LoginEvent.model', () => ({
+  LoginEvent: { create: jest.fn(), hasSuccessfulLogin: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn() },
+}));
+
+jest.mock('../../services/email.service', () => ({
+  emailService: { sendNewLoginAlertEmail: jest.fn() },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+}));
+
+const mockedLoginEvent = LoginEvent as unknown as { create: jest.Mock; hasSuccessfulLogin: jest.Mock };
+const mockedUser = User as unknown as { findById: jest.Mock };
+
+const USER_ID = '64b000000000000000000001';
+const IPHONE_17 = 'MeditationApp/2.3.1 (iPhone; iOS 17.4)';
+const IPHONE_18 = 'MeditationApp/2.4.0 (iPhone; iOS 18.0)';
+const DESKTOP = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/124.0';
+
+// Earlier successful logins of the user
+const signedInBefore = (history: Array<{ userAgent: string; country?: string }>) => {
+  const fingerprints = history.map(({ userAgent }) => loginAuditService.getDeviceFingerprint({ userAgent }));
+  mockedLoginEvent.hasSuccessfulLogin.mockImplementation(
+    async (_userId: string, filter: { deviceFingerprint?: string; country?: string } = {}) => {
+      if (filter.deviceFingerprint) return fingerprints.includes(filter.deviceFingerprint);
+      if (filter.country) return history.some(({ country }) => country === filter.country);
+      return history.length > 0;
+    }
+  );
+};
+
+const signIn = (userAgent: string, country?: string) =>
+  loginAuditService.record({
+    userId: USER_ID,
+    method: 'password',
+    success: true,
+    device: { userAgent, ipAddress: '203.0.113.7' },
+    country,
+  });
+
+// Alerts are sent in the background
+const flushAlerts = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Login audit', () => {
+  beforeEach(() => {
+    mockedUser.findById.mockResolvedValue({ _id: USER_ID, email: 'jane@example.com' });
+  });
+
+  it('reads the country from proxy headers and ignores unknown ones', () => {
+    const request = (headers: Record<string, string>) => ({ headers }) as unknown as Request;
+
+    expect(loginAuditService.getCountry(request({ 'cf-ipcountry': 'sa' }))).toBe('SA');
+    expect(loginAuditService.getCountry(request({ 'cf-ipcountry': 'XX' }))).toBeUndefined();
+  });
+
+  it('does not alert on the very first login', async () => {
+    signedInBefore([]);
+
+    await signIn(IPHONE_17, 'SA');
+    await flushAlerts();
+
+    expect(mockedLoginEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ success: true, isNewDevice: false, isNewCountry: false })
+    );
+    expect(emailService.sendNewLoginAlertEmail).not.toHaveBeenCalled();
+  });
+
+  it('treats an app or OS update as the same device', async () => {
+    signedInBefore([{ userAgent: IPHONE_17, country: 'SA' }]);
+
+    await signIn(IPHONE_18, 'SA');
+    await flushAlerts();
+
+    expect(mockedLoginEvent.create).toHaveBeenCalledWith(expect.objectContaining({ isNewDevice: false }));
+    expect(emailService.sendNewLoginAlertEmail).not.toHaveBeenCalled();
+  });
+
+  it('emails and notifies the user about a new device', async () => {
+    signedInBefore([{ userAgent: IPHONE_17, country: 'SA' }]);
+
+    await signIn(DESKTOP, 'SA');
+    await flushAlerts();
+
+    expect(mockedLoginEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ isNewDevice: true, isNewCountry: false })
+    );
+    expect(emailService.sendNewLoginAlertEmail).toHaveBeenCalledWith(
+      'jane@example.com',
+      expect.objectContaining({ ipAddress: '203.0.113.7', country: 'SA' })
+    );
+    expect(createNotification).toHaveBeenCalledWith(
+      USER_ID,
+      expect.objectContaining({ data: expect.objectContaining({ isNewDevice: true }) })
+    );
+  });
+
+  it('alerts about a login from a new country on a known device', async () => {
+    signedInBefore([{ userAgent: IPHONE_17, country: 'SA' }]);
+
+    await signIn(IPHONE_17, 'BR');
+    await flushAlerts();
+
+    expect(mockedLoginEvent.create).toHaveBeenCalledWith(
+      expect.objectContaining({ isNewDevice: false, isNewCountry: true, country: 'BR' })
+    );
+    expect(emailService.sendNewLoginAlertEmail).toHaveBeenCalled();
+  });
+
+  it('never lets an audit failure break the login', async () => {
+    signedInBefore([]);
+    mockedLoginEvent.create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(signIn(IPHONE_17)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { cacheSet, getRedisClient } from '../../config/redis';
+import { User } from '../../models/User.model';
+import { emailService } from '../../services/email.service';
+import { magicLinkService } from '../../services/magicLink.service';
+import { tokenService } from '../../services/token.service';
+import { requestMagicLink, verifyMagicLink } from '../../controllers/auth.controller';
+import { JWTUtil } from '../../utils/jwt';
+
+jest.mock('../../config/redis', () => ({
+  cacheSet: jest.fn(),
+  cacheGet: jest.fn(),
+  cacheDel: jest.fn(),
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findOne: jest.fn(), findById: jest.fn() },
+}));
+
+jest.mock('../../services/email.service', () => ({
+  emailService: { sendMagicLinkEmail: jest.fn() },
+}));
+
+jest.mock('../../services/token.service', () => ({
+  tokenService: { generateSessionId: jest.fn(), createSession: jest.fn() },
+}));
+
+jest.mock('../../services/accountDeletion.service', () => ({
+  accountDeletionService: { canRestore: jest.fn(), restore: jest.fn() },
+}));
+
+jest.mock('../../services/loginAudit.service', () => ({
+  loginAuditService: { record: jest.fn(), getCountry: jest.fn() },
+}));
+
+const mockedUser = User as unknown as { findOne: jest.Mock; findById: jest.Mock };
+const mockedTokenService = tokenService as unknown as { createSession: jest.Mock };
+const redisClient = { del: jest.fn() };
+
+const USER_ID = '64b000000000000000000001';
+const EMAIL = 'jane@example.com';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const accountUser = (fields: Record<string, unknown> = {}) => ({
+  _id: USER_ID,
+  email: EMAIL,
+  role: 'user',
+  isVerified: false,
+  save: jest.fn(),
+  generateJWT: jest.fn().mockReturnValue('access-1'),
+  generateRefreshToken: jest.fn().mockReturnValue('refresh-1'),
+  ...fields,
+});
+
+const tokenId = (token: string) => (jwt.decode(token) as { jti: string }).jti;
+
+describe('Magic link sign-in', () => {
+  beforeEach(() => {
+    (getRedisClient as jest.Mock).mockReturnValue(redisClient);
+    (cacheSet as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe('magicLinkService', () => {
+    it('redeems a link once', async () => {
+      const token = await magicLinkService.createToken(USER_ID);
+      expect(cacheSet).toHaveBeenCalledWith(
+        `magiclink:${tokenId(token)}`,
+        USER_ID,
+        magicLinkService.LINK_EXPIRY
+      );
+
+      redisClient.del.mockResolvedValueOnce(1).mockResolvedValueOnce(0);
+
+      await expect(magicLinkService.consumeToken(token)).resolves.toBe(USER_ID);
+      await expect(magicLinkService.consumeToken(token)).resolves.toBeNull();
+    });
+
+    it('does not accept an access token as a link', async () => {
+      const accessToken = JWTUtil.generateAccessToken({ id: USER_ID });
+
+      await expect(magicLinkService.consumeToken(accessToken)).resolves.toBeNull();
+      expect(redisClient.del).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('requestMagicLink', () => {
+    it('emails a link to an existing account', async () => {
+      mockedUser.findOne.mockResolvedValue(accountUser());
+      const res = createResponse();
+
+      await requestMagicLink({ body: { email: 'Jane@Example.com' } } as Request, res);
+
+      expect(mockedUser.findOne).toHaveBeenCalledWith({ email: EMAIL });
+      expect(emailService.sendMagicLinkEmail).toHaveBeenCalledWith(
+        EMAIL,
+        expect.stringContaining('/auth/magic-link?token=')
+      );
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('answers the same way for an unknown email', async () => {
+      mockedUser.findOne.mockResolvedValue(null);
+      const res = createResponse();
+
+      await requestMagicLink({ body: { email: 'nobody@example.com' } } as Request, res);
+
+      expect(emailService.sendMagicLinkEmail).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+      const [body] = res.json.mock.calls[0];
+      expect(body.message).toBe('If an account exists for this email, a sign-in link has been sent');
+    });
+  });
+
+  describe('verifyMagicLink', () => {
+    const verifyRequest = (token: string) =>
+      ({ query: { token }, headers: {}, ip: '203.0.113.7' }) as unknown as Request;
+
+    it('signs the user in and marks the email as verified', async () => {
+      const token = await magicLinkService.createToken(USER_ID);
+      redisClient.del.mockResolvedValue(1);
+      const user = accountUser();
+      mockedUser.findById.mockResolvedValue(user);
+      const res = createResponse();
+
+      await verifyMagicLink(verifyRequest(token), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(user.isVerified).toBe(true);
+      expect(user.save).toHaveBeenCalled();
+      expect(mockedTokenService.createSession).toHaveBeenCalled();
+    });
+
+    it('refuses a link that was already used', async () => {
+      const token = await magicLinkService.createToken(USER_ID);
+      redisClient.del.mockResolvedValue(0);
+      const res = createResponse();
+
+      await verifyMagicLink(verifyRequest(token), res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(mockedUser.findById).not.toHaveBeenCalled();
+      expect(mockedTokenService.createSession).not.toHaveBeenCalled();
+    });
+  });
+});
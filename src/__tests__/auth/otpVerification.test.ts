@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { User } from '../../models/User.model';
+import { otpService } from '../../services/otp.service';
+import { tokenService } from '../../services/token.service';
+import { verifyOTP } from '../../controllers/auth.controller';
+
+jest.mock('../../models/User.model', () => ({
+  User: { findOne: jest.fn(), findByIdAndUpdate: jest.fn(), updateOne: jest.fn() },
+}));
+
+jest.mock('../../services/token.service', () => ({
+  tokenService: { generateSessionId: jest.fn(), createSession: jest.fn() },
+}));
+
+jest.mock('../../services/accountDeletion.service', () => ({
+  accountDeletionService: { canRestore: jest.fn(), restore: jest.fn() },
+}));
+
+const mockedUser = User as unknown as {
+  findOne: jest.Mock;
+  findByIdAndUpdate: jest.Mock;
+  updateOne: jest.Mock;
+};
+const mockedTokenService = tokenService as unknown as { createSession: jest.Mock };
+
+const USER_ID = '64b000000000000000000001';
+const EMAIL = 'jane@example.com';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock; setHeader: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  res.setHeader = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const createRequest = (otp: string) =>
+  ({
+    body: { email: EMAIL, otp },
+    headers: {},
+    ip: '203.0.113.7',
+  }) as unknown as Request;
+
+const pendingUser = (fields: Record<string, unknown> = {}) => ({
+  _id: USER_ID,
+  email: EMAIL,
+  role: 'user',
+  isVerified: false,
+  otp: otpService.hashOTP('123456'),
+  otpExpires: new Date(Date.now() + 60 * 1000),
+  save: jest.fn(),
+  generateJWT: jest.fn().mockReturnValue('access-1'),
+  generateRefreshToken: jest.fn().mockReturnValue('refresh-1'),
+  ...fields,
+});
+
+const findUser = (user: ReturnType<typeof pendingUser>) => {
+  mockedUser.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(user) });
+};
+
+// The atomic $inc returns the attempt count including this one
+const countAttempt = (otpAttempts: number) => {
+  mockedUser.findByIdAndUpdate.mockReturnValue({ select: jest.fn().mockResolvedValue({ otpAttempts }) });
+};
+
+describe('OTP verification', () => {
+  it('stores a keyed hash instead of the code', () => {
+    const hash = otpService.hashOTP('123456');
+
+    expect(hash).not.toContain('123456');
+    expect(otpService.verifyOTP(hash, '123456', new Date(Date.now() + 60 * 1000))).toBe(true);
+    expect(otpService.verifyOTP(hash, '123456', new Date(Date.now() - 1000))).toBe(false);
+  });
+
+  it('signs the user in with the right code and resets the counter', async () => {
+    const user = pendingUser();
+    findUser(user);
+    countAttempt(1);
+    const res = createResponse();
+
+    await verifyOTP(createRequest('123456'), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(user.isVerified).toBe(true);
+    expect(mockedUser.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      { $set: { otpAttempts: 0 }, $unset: { otpLockedUntil: 1 } }
+    );
+    expect(mockedTokenService.createSession).toHaveBeenCalled();
+  });
+
+  it('counts the attempt atomically before checking the code', async () => {
+    findUser(pendingUser());
+    countAttempt(2);
+    const res = createResponse();
+
+    await verifyOTP(createRequest('654321'), res);
+
+    expect(mockedUser.findByIdAndUpdate).toHaveBeenCalledWith(
+      USER_ID,
+      { $inc: { otpAttempts: 1 } },
+      { new: true }
+    );
+    expect(res.status).toHaveBeenCalledWith(400);
+    const [body] = res.json.mock.calls[0];
+    expect(body.error.message).toContain('3 attempts left');
+  });
+
+  it('locks verification and burns the code after too many wrong codes', async () => {
+    findUser(pendingUser());
+    countAttempt(otpService.MAX_ATTEMPTS);
+    const res = createResponse();
+
+    await verifyOTP(createRequest('654321'), res);
+
+    expect(mockedUser.updateOne).toHaveBeenCalledWith(
+      { _id: USER_ID },
+      {
+        $set: { otpAttempts: 0, otpLockedUntil: expect.any(Date) },
+        $unset: { otp: 1, otpExpires: 1 },
+      }
+    );
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', String(otpService.LOCKOUT_DURATION / 1000));
+  });
+
+  it('refuses even the right code once the cap was passed by parallel guesses', async () => {
+    findUser(pendingUser());
+    countAttempt(otpService.MAX_ATTEMPTS + 1);
+    const res = createResponse();
+
+    await verifyOTP(createRequest('123456'), res);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(mockedTokenService.createSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses any code while verification is locked', async () => {
+    findUser(pendingUser({ otpLockedUntil: new Date(Date.now() + 10 * 60 * 1000) }));
+    const res = createResponse();
+
+    await verifyOTP(createRequest('123456'), res);
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '600');
+    expect(mockedUser.findByIdAndUpdate).not.toHaveBeenCalled();
+  });
+});
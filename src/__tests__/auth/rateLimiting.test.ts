@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import type { Options } from 'express-rate-limit';
+import { cacheSet, cacheTTL, getRedisClient } from '../../config/redis';
+import { User } from '../../models/User.model';
+import { RedisStore } from '../../middlewares/rateLimitStore';
+import { loginBackoffService } from '../../services/loginBackoff.service';
+import { login } from '../../controllers/auth.controller';
+
+jest.mock('../../config/redis', () => ({
+  getRedisClient: jest.fn(),
+  cacheGet: jest.fn(),
+  cacheSet: jest.fn(),
+  cacheDel: jest.fn(),
+  cacheTTL: jest.fn(),
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findOne: jest.fn() },
+}));
+
+jest.mock('../../services/loginAudit.service', () => ({
+  loginAuditService: { record: jest.fn(), getCountry: jest.fn() },
+}));
+
+const client = { eval: jest.fn(), incr: jest.fn(), expire: jest.fn(), get: jest.fn(), pTTL: jest.fn() };
+const mockedUser = User as unknown as { findOne: jest.Mock };
+
+const EMAIL = 'jane@example.com';
+const IP = '203.0.113.7';
+
+describe('Auth rate limiting', () => {
+  beforeEach(() => {
+    (getRedisClient as jest.Mock).mockReturnValue(client);
+  });
+
+  describe('RedisStore', () => {
+    it('counts hits in Redis within the configured window', async () => {
+      const store = new RedisStore('login');
+      store.init({ windowMs: 15 * 60 * 1000 } as Options);
+      client.eval.mockResolvedValue([3, 60 * 1000]);
+
+      const { totalHits, resetTime } = await store.increment(IP);
+
+      expect(client.eval).toHaveBeenCalledWith(expect.any(String), {
+        keys: [`ratelimit:login:${IP}`],
+        arguments: [String(15 * 60 * 1000)],
+      });
+      expect(totalHits).toBe(3);
+      expect(resetTime?.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('reports no hits for a client it has not seen', async () => {
+      client.get.mockResolvedValue(null);
+      client.pTTL.mockResolvedValue(-2);
+
+      await expect(new RedisStore('login').get(IP)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('loginBackoffService', () => {
+    const failAfter = (previousFailures: number) => {
+      client.incr.mockResolvedValue(previousFailures + 1);
+      return loginBackoffService.recordFailure(' Jane@Example.com ', IP);
+    };
+
+    it('allows a few failed logins before backing off', async () => {
+      await expect(failAfter(loginBackoffService.FREE_ATTEMPTS - 1)).resolves.toBe(0);
+      expect(client.incr).toHaveBeenCalledWith(`login:failures:${EMAIL}:${IP}`);
+      expect(cacheSet).not.toHaveBeenCalled();
+    });
+
+    it('doubles the delay on every further failure up to an hour', async () => {
+      await expect(failAfter(loginBackoffService.FREE_ATTEMPTS)).resolves.toBe(30);
+      await expect(failAfter(loginBackoffService.FREE_ATTEMPTS + 1)).resolves.toBe(60);
+      await expect(failAfter(loginBackoffService.FREE_ATTEMPTS + 20)).resolves.toBe(60 * 60);
+
+      expect(cacheSet).toHaveBeenCalledWith(`login:backoff:${EMAIL}:${IP}`, true, 30);
+    });
+  });
+
+  describe('login', () => {
+    const createResponse = () => {
+      const res = {} as Response & { status: jest.Mock; json: jest.Mock; setHeader: jest.Mock };
+      res.status = jest.fn().mockReturnValue(res);
+      res.json = jest.fn().mockReturnValue(res);
+      res.setHeader = jest.fn().mockReturnValue(res);
+      return res;
+    };
+
+    const request = { body: { email: EMAIL, password: 'secret' }, headers: {}, ip: IP } as unknown as Request;
+
+    it('refuses to check the password while the client is backed off', async () => {
+      (cacheTTL as jest.Mock).mockResolvedValue(45);
+      const res = createResponse();
+
+      await login(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(429);
+      expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '45');
+      expect(mockedUser.findOne).not.toHaveBeenCalled();
+    });
+
+    it('counts a wrong password against the account and client', async () => {
+      (cacheTTL as jest.Mock).mockResolvedValue(-2);
+      client.incr.mockResolvedValue(1);
+      mockedUser.findOne.mockReturnValue({
+        select: jest.fn().mockResolvedValue({
+          _id: '64b000000000000000000001',
+          password: '$2a$10$hash',
+          comparePassword: jest.fn().mockResolvedValue(false),
+        }),
+      });
+      const res = createResponse();
+
+      await login(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(client.incr).toHaveBeenCalledWith(`login:failures:${EMAIL}:${IP}`);
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { Request, Response } from 'express';
+import { User } from '../../models/User.model';
+import { tokenService } from '../../services/token.service';
+import { createNotification } from '../../services/notification.service';
+import { refreshToken } from '../../controllers/auth.controller';
+import { JWTUtil } from '../../utils/jwt';
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn() },
+}));
+
+jest.mock('../../services/token.service', () => ({
+  tokenService: {
+    getSession: jest.fn(),
+    getRefreshToken: jest.fn(),
+    revokeSession: jest.fn(),
+    rotateSessionTokens: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+}));
+
+jest.mock('../../services/loginAudit.service', () => ({
+  loginAuditService: { record: jest.fn(), getCountry: jest.fn() },
+}));
+
+const mockedUser = User as unknown as { findById: jest.Mock };
+const mockedTokenService = tokenService as unknown as {
+  getSession: jest.Mock;
+  revokeSession: jest.Mock;
+  rotateSessionTokens: jest.Mock;
+};
+
+const USER_ID = '64b000000000000000000001';
+const SESSION_ID = 'session-1';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const createRequest = (token: string) =>
+  ({
+    body: { refreshToken: token },
+    headers: {},
+    ip: '203.0.113.7',
+  }) as unknown as Request;
+
+const deviceSession = (currentToken: string) => ({
+  id: SESSION_ID,
+  userId: USER_ID,
+  deviceName: 'Pixel 8',
+  refreshToken: currentToken,
+  accessTokens: [],
+  createdAt: new Date().toISOString(),
+  lastUsedAt: new Date().toISOString(),
+});
+
+const sessionUser = () => ({
+  _id: USER_ID,
+  generateJWT: jest.fn().mockReturnValue('access-2'),
+  generateRefreshToken: jest.fn().mockReturnValue('refresh-2'),
+});
+
+describe('Refresh token rotation', () => {
+  it('rotates the pair when the current refresh token is used', async () => {
+    const current = JWTUtil.generateRefreshToken({ id: USER_ID, sid: SESSION_ID });
+    const session = deviceSession(current);
+    mockedTokenService.getSession.mockResolvedValue(session);
+    mockedTokenService.rotateSessionTokens.mockResolvedValue(true);
+    mockedUser.findById.mockResolvedValue(sessionUser());
+    const res = createResponse();
+
+    await refreshToken(createRequest(current), res);
+
+    expect(mockedTokenService.rotateSessionTokens).toHaveBeenCalledWith(session, 'refresh-2', 'access-2');
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { accessToken: 'access-2', refreshToken: 'refresh-2' } })
+    );
+    expect(mockedTokenService.revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('refuses the slower of two refreshes racing with the same token', async () => {
+    const current = JWTUtil.generateRefreshToken({ id: USER_ID, sid: SESSION_ID });
+    mockedTokenService.getSession.mockResolvedValue(deviceSession(current));
+    mockedTokenService.rotateSessionTokens.mockResolvedValue(false);
+    mockedUser.findById.mockResolvedValue(sessionUser());
+    const res = createResponse();
+
+    await refreshToken(createRequest(current), res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json).not.toHaveBeenCalledWith(expect.objectContaining({ success: true }));
+    expect(mockedTokenService.revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('revokes the session and warns the user when a rotated token is replayed', async () => {
+    const rotated = JWTUtil.generateRefreshToken({ id: USER_ID, sid: SESSION_ID });
+    const current = JWTUtil.generateRefreshToken({ id: USER_ID, sid: SESSION_ID });
+    mockedTokenService.getSession.mockResolvedValue(deviceSession(current));
+    const res = createResponse();
+
+    await refreshToken(createRequest(rotated), res);
+
+    expect(mockedTokenService.revokeSession).toHaveBeenCalledWith(USER_ID, SESSION_ID);
+    expect(createNotification).toHaveBeenCalledWith(
+      USER_ID,
+      expect.objectContaining({
+        data: { sessionId: SESSION_ID, deviceName: 'Pixel 8', ipAddress: '203.0.113.7' },
+      })
+    );
+    expect(mockedTokenService.rotateSessionTokens).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+  });
+
+  it('refuses a token whose session was already revoked', async () => {
+    const token = JWTUtil.generateRefreshToken({ id: USER_ID, sid: SESSION_ID });
+    mockedTokenService.getSession.mockResolvedValue(null);
+    const res = createResponse();
+
+    await refreshToken(createRequest(token), res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(mockedUser.findById).not.toHaveBeenCalled();
+    expect(mockedTokenService.rotateSessionTokens).not.toHaveBeenCalled();
+  });
+
+  it('refuses a token issued for a session of another user', async () => {
+    const token = JWTUtil.generateRefreshToken({ id: '64b000000000000000000002', sid: SESSION_ID });
+    mockedTokenService.getSession.mockResolvedValue(deviceSession(token));
+    const res = createResponse();
+
+    await refreshToken(createRequest(token), res);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(mockedTokenService.revokeSession).not.toHaveBeenCalled();
+  });
+});
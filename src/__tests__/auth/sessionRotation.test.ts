@@ -0,0 +1,48 @@
+import { getRedisClient } from '../../config/redis';
+import { tokenService, DeviceSession } from '../../services/token.service';
+
+jest.mock('../../config/redis', () => ({
+  getRedisClient: jest.fn(),
+  cacheGet: jest.fn(),
+  cacheSet: jest.fn(),
+  cacheDel: jest.fn(),
+  cacheExists: jest.fn(),
+}));
+
+const client = { eval: jest.fn(), expire: jest.fn() };
+
+const session: DeviceSession = {
+  id: 'session-1',
+  userId: '64b000000000000000000001',
+  deviceName: 'Pixel 8',
+  refreshToken: 'refresh-1',
+  accessTokens: [],
+  createdAt: new Date().toISOString(),
+  lastUsedAt: new Date().toISOString(),
+};
+
+describe('rotateSessionTokens', () => {
+  beforeEach(() => {
+    (getRedisClient as jest.Mock).mockReturnValue(client);
+  });
+
+  it('swaps the tokens only while the session still holds the token it was read with', async () => {
+    client.eval.mockResolvedValue(1);
+
+    await expect(tokenService.rotateSessionTokens(session, 'refresh-2', 'access-2')).resolves.toBe(true);
+
+    const [, { keys, arguments: args }] = client.eval.mock.calls[0];
+    expect(keys).toEqual(['session:session-1']);
+    expect(args[0]).toBe('refresh-1');
+    expect(JSON.parse(args[1])).toEqual(
+      expect.objectContaining({ refreshToken: 'refresh-2', accessTokens: ['access-2'] })
+    );
+  });
+
+  it('reports a lost race when another refresh already rotated the session', async () => {
+    client.eval.mockResolvedValue(0);
+
+    await expect(tokenService.rotateSessionTokens(session, 'refresh-2', 'access-2')).resolves.toBe(false);
+    expect(client.expire).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { cacheGet, cacheSet, cacheDel, getRedisClient } from '../../config/redis';
+import { User } from '../../models/User.model';
+import { tokenService } from '../../services/token.service';
+import { twoFactorService } from '../../services/twoFactor.service';
+import { verifyTwoFactor } from '../../controllers/auth.controller';
+
+jest.mock('../../config/redis', () => ({
+  cacheGet: jest.fn(),
+  cacheSet: jest.fn(),
+  cacheDel: jest.fn(),
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn() },
+}));
+
+jest.mock('../../services/token.service', () => ({
+  tokenService: { generateSessionId: jest.fn(), createSession: jest.fn() },
+}));
+
+jest.mock('../../services/accountDeletion.service', () => ({
+  accountDeletionService: { canRestore: jest.fn(), restore: jest.fn() },
+}));
+
+jest.mock('../../services/loginAudit.service', () => ({
+  loginAuditService: { record: jest.fn(), getCountry: jest.fn() },
+}));
+
+const mockedCache = {
+  get: cacheGet as jest.Mock,
+  set: cacheSet as jest.Mock,
+  del: cacheDel as jest.Mock,
+};
+const redisClient = { set: jest.fn() };
+const mockedUser = User as unknown as { findById: jest.Mock };
+const mockedTokenService = tokenService as unknown as {
+  generateSessionId: jest.Mock;
+  createSession: jest.Mock;
+};
+
+// RFC 6238 test secret ("12345678901234567890") and its code at T = 59s
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_CODE = '287082';
+
+const USER_ID = '64b000000000000000000001';
+const CHALLENGE_TOKEN = 'challenge-token';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const createRequest = (code: string) =>
+  ({
+    body: { twoFactorToken: CHALLENGE_TOKEN, code },
+    headers: {},
+    ip: '203.0.113.7',
+  }) as unknown as Request;
+
+const adminUser = (recoveryCodes: string[] = []) => ({
+  _id: USER_ID,
+  role: 'admin',
+  twoFactorEnabled: true,
+  twoFactorSecret: RFC_SECRET,
+  twoFactorRecoveryCodes: recoveryCodes,
+  save: jest.fn(),
+  generateJWT: jest.fn().mockReturnValue('access-1'),
+  generateRefreshToken: jest.fn().mockReturnValue('refresh-1'),
+});
+
+const findUser = (user: ReturnType<typeof adminUser>) => {
+  mockedUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(user) });
+};
+
+describe('Admin two-factor authentication', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(59 * 1000);
+    (getRedisClient as jest.Mock).mockReturnValue(redisClient);
+  });
+
+  describe('verifyCode', () => {
+    it('accepts the RFC 6238 code for the current step', () => {
+      expect(twoFactorService.verifyCode(RFC_SECRET, RFC_CODE)).toBe(true);
+    });
+
+    it('accepts one step of clock drift but not more', () => {
+      (Date.now as jest.Mock).mockReturnValue(89 * 1000);
+      expect(twoFactorService.verifyCode(RFC_SECRET, RFC_CODE)).toBe(true);
+
+      (Date.now as jest.Mock).mockReturnValue(119 * 1000);
+      expect(twoFactorService.verifyCode(RFC_SECRET, RFC_CODE)).toBe(false);
+    });
+
+    it('rejects codes that are not six digits', () => {
+      expect(twoFactorService.verifyCode(RFC_SECRET, '28708')).toBe(false);
+      expect(twoFactorService.verifyCode(RFC_SECRET, 'abcdef')).toBe(false);
+    });
+  });
+
+  describe('verifyCodeOnce', () => {
+    it('claims an accepted code for the drift window', async () => {
+      redisClient.set.mockResolvedValue('OK');
+
+      await expect(twoFactorService.verifyCodeOnce(USER_ID, RFC_SECRET, RFC_CODE)).resolves.toBe(true);
+      expect(redisClient.set).toHaveBeenCalledWith(`2fa:used:${USER_ID}:${RFC_CODE}`, '1', {
+        condition: 'NX',
+        expiration: { type: 'EX', value: 90 },
+      });
+    });
+
+    it('refuses a code another request already claimed', async () => {
+      redisClient.set.mockResolvedValue(null);
+
+      await expect(twoFactorService.verifyCodeOnce(USER_ID, RFC_SECRET, RFC_CODE)).resolves.toBe(false);
+    });
+
+    it('does not claim a wrong code', async () => {
+      await expect(twoFactorService.verifyCodeOnce(USER_ID, RFC_SECRET, '000000')).resolves.toBe(false);
+      expect(redisClient.set).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyTwoFactor', () => {
+    beforeEach(() => {
+      mockedCache.get.mockResolvedValue({ userId: USER_ID, attempts: 0, device: {} });
+      mockedTokenService.generateSessionId.mockReturnValue('session-1');
+    });
+
+    it('issues tokens once the authenticator code is accepted', async () => {
+      redisClient.set.mockResolvedValue('OK');
+      findUser(adminUser());
+      const res = createResponse();
+
+      await verifyTwoFactor(createRequest(RFC_CODE), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(mockedTokenService.createSession).toHaveBeenCalledWith(
+        'session-1',
+        USER_ID,
+        'refresh-1',
+        'access-1',
+        {}
+      );
+      expect(mockedCache.del).toHaveBeenCalledWith(`2fa:challenge:${CHALLENGE_TOKEN}`);
+    });
+
+    it('accepts a recovery code only once', async () => {
+      const user = adminUser([twoFactorService.hashRecoveryCode('abcde-12345')]);
+      findUser(user);
+      const res = createResponse();
+
+      await verifyTwoFactor(createRequest('ABCDE-12345'), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(user.twoFactorRecoveryCodes).toEqual([]);
+      expect(user.save).toHaveBeenCalled();
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ recoveryCodesRemaining: 0 }) })
+      );
+    });
+
+    it('counts a wrong code against the challenge', async () => {
+      findUser(adminUser());
+      const res = createResponse();
+
+      await verifyTwoFactor(createRequest('000000'), res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(mockedCache.set).toHaveBeenCalledWith(
+        `2fa:challenge:${CHALLENGE_TOKEN}`,
+        expect.objectContaining({ attempts: 1 }),
+        twoFactorService.CHALLENGE_EXPIRY
+      );
+      expect(mockedTokenService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('drops the challenge after too many wrong codes', async () => {
+      mockedCache.get.mockResolvedValue({
+        userId: USER_ID,
+        attempts: twoFactorService.MAX_CHALLENGE_ATTEMPTS - 1,
+        device: {},
+      });
+      findUser(adminUser());
+      const res = createResponse();
+
+      await verifyTwoFactor(createRequest('000000'), res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(mockedCache.del).toHaveBeenCalledWith(`2fa:challenge:${CHALLENGE_TOKEN}`);
+      expect(mockedTokenService.createSession).not.toHaveBeenCalled();
+    });
+  });
+});
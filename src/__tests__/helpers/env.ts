@@ -0,0 +1,22 @@
+/**
+ * Environment for tests
+ * Loaded before each test file so config/env validates without a .env file
+ */
+const testEnv: Record<string, string> = {
+  NODE_ENV: 'test',
+  PORT: '5001',
+  MONGODB_URI: 'mongodb://localhost:27017/naturacalm-test',
+  JWT_SECRET: 'test-jwt-secret',
+  JWT_REFRESH_SECRET: 'test-jwt-refresh-secret',
+  JWT_EXPIRE: '15m',
+  JWT_REFRESH_EXPIRE: '7d',
+  STRIPE_SECRET_KEY: 'sk_test_123',
+  STRIPE_PUBLISHABLE_KEY: 'pk_test_123',
+  STRIPE_WEBHOOK_SECRET: 'whsec_test_123',
+};
+
+for (const [key, value] of Object.entries(testEnv)) {
+  if (!process.env[key]) {
+    process.env[key] = value;
+  }
+}
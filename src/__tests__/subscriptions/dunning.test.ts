@@ -0,0 +1,114 @@
+import stripe from '../../config/stripe';
+import { Subscription } from '../../models/Subscription.model';
+import { User } from '../../models/User.model';
+import { createNotification, sendEmailNotification } from '../../services/notification.service';
+import { dunningService } from '../../services/dunning.service';
+
+jest.mock('../../config/stripe', () => ({
+  __esModule: true,
+  default: {
+    invoices: { pay: jest.fn() },
+    subscriptions: { cancel: jest.fn() },
+  },
+}));
+
+jest.mock('../../models/Subscription.model', () => ({
+  Subscription: { find: jest.fn(), updateOne: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn(), findByIdAndUpdate: jest.fn() },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+  sendEmailNotification: jest.fn(),
+}));
+
+jest.mock('../../services/notificationDelivery.service', () => ({
+  notificationDeliveryService: { isChannelEnabled: jest.fn() },
+}));
+
+const mockedStripe = stripe as unknown as { invoices: { pay: jest.Mock } };
+const mockedSubscription = Subscription as unknown as { find: jest.Mock; updateOne: jest.Mock };
+const mockedUser = User as unknown as { findById: jest.Mock };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pastDue = (id: string, retryCount = 0) => ({
+  _id: id,
+  userId: '64b000000000000000000001',
+  status: 'past_due',
+  dunning: {
+    startedAt: new Date(Date.now() - DAY_MS),
+    graceEndsAt: new Date(Date.now() + 10 * DAY_MS),
+    retryCount,
+    nextRetryAt: new Date(Date.now() - 1000),
+    remindersSent: 1,
+    invoiceId: `in_${id}`,
+  },
+  save: jest.fn(),
+});
+
+describe('Dunning retries', () => {
+  it('records the attempt before charging the invoice', async () => {
+    const subscription = pastDue('s1');
+    mockedSubscription.find.mockResolvedValue([subscription]);
+    mockedSubscription.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    mockedStripe.invoices.pay.mockResolvedValue({ status: 'paid' });
+
+    await expect(dunningService.retryDuePayments()).resolves.toEqual({ recovered: 1, failed: 0 });
+
+    expect(mockedSubscription.updateOne).toHaveBeenCalledWith(
+      expect.objectContaining({ _id: 's1', 'dunning.invoiceId': 'in_s1', 'dunning.retryCount': 0 }),
+      expect.objectContaining({ $inc: { 'dunning.retryCount': 1 } })
+    );
+    expect(mockedSubscription.updateOne.mock.invocationCallOrder[0]).toBeLessThan(
+      mockedStripe.invoices.pay.mock.invocationCallOrder[0]
+    );
+    expect(subscription.save).not.toHaveBeenCalled();
+  });
+
+  it('skips a subscription another run already retried', async () => {
+    mockedSubscription.find.mockResolvedValue([pastDue('s1')]);
+    mockedSubscription.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+    await expect(dunningService.retryDuePayments()).resolves.toEqual({ recovered: 0, failed: 0 });
+
+    expect(mockedStripe.invoices.pay).not.toHaveBeenCalled();
+  });
+
+  it('reminds the user when the retry is declined', async () => {
+    mockedSubscription.find.mockResolvedValue([pastDue('s1')]);
+    mockedSubscription.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    mockedStripe.invoices.pay.mockRejectedValue(new Error('Your card was declined.'));
+    mockedUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ preferences: {} }) });
+
+    await expect(dunningService.retryDuePayments()).resolves.toEqual({ recovered: 0, failed: 1 });
+
+    expect(mockedSubscription.updateOne).toHaveBeenLastCalledWith(
+      { _id: 's1', 'dunning.invoiceId': 'in_s1' },
+      {
+        $set: { 'dunning.lastFailureReason': 'Your card was declined.' },
+        $inc: { 'dunning.remindersSent': 1 },
+      }
+    );
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(sendEmailNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps retrying the batch when recording one failure errors', async () => {
+    mockedSubscription.find.mockResolvedValue([pastDue('s1'), pastDue('s2')]);
+    mockedSubscription.updateOne
+      .mockResolvedValueOnce({ modifiedCount: 1 })
+      .mockRejectedValueOnce(new Error('Write conflict'))
+      .mockResolvedValue({ modifiedCount: 1 });
+    mockedStripe.invoices.pay
+      .mockRejectedValueOnce(new Error('Your card was declined.'))
+      .mockResolvedValueOnce({ status: 'paid' });
+
+    await expect(dunningService.retryDuePayments()).resolves.toEqual({ recovered: 1, failed: 1 });
+
+    expect(mockedStripe.invoices.pay).toHaveBeenCalledWith('in_s2');
+  });
+});
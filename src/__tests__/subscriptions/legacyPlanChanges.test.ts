@@ -0,0 +1,52 @@
+import { Request, Response } from 'express';
+import { Subscription } from '../../models/Subscription.model';
+import { Package } from '../../models/Package.model';
+import { stripeSubscriptionService } from '../../services/stripeSubscription.service';
+import { upgradeSubscription } from '../../controllers/subscriptions.controller';
+
+jest.mock('../../models/Subscription.model', () => ({
+  Subscription: { findOne: jest.fn(), findById: jest.fn() },
+}));
+
+jest.mock('../../models/Package.model', () => ({
+  Package: { findById: jest.fn() },
+}));
+
+const mockedSubscription = Subscription as unknown as { findOne: jest.Mock };
+const mockedPackage = Package as unknown as { findById: jest.Mock };
+
+// asyncHandler does not hand back the handler's promise, so wait for the reply instead
+const respond = (req: unknown) =>
+  new Promise<Response & { status: jest.Mock; json: jest.Mock }>((resolve, reject) => {
+    const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+    res.status = jest.fn().mockReturnValue(res);
+    res.json = jest.fn().mockImplementation(() => {
+      resolve(res);
+      return res;
+    });
+    upgradeSubscription(req as Request, res, reject);
+  });
+
+describe('Package changes on a subscription billed before Stripe', () => {
+  it('refuses the change instead of converting the remaining value into days', async () => {
+    const subscription = {
+      _id: 's1',
+      packageId: { _id: 'pkg_basic', price: 10, periodType: 'month', periodCount: 1 },
+      endDate: new Date(Date.now() + 10 * 24 * 60 * 60 * 1000),
+      save: jest.fn(),
+    };
+    mockedSubscription.findOne.mockReturnValue({ populate: jest.fn().mockResolvedValue(subscription) });
+    mockedPackage.findById.mockResolvedValue({ _id: 'pkg_premium', isActive: true, price: 30 });
+    const changeNow = jest.spyOn(stripeSubscriptionService, 'changePackageNow');
+    const req = { user: { id: '64b000000000000000000001' }, body: { newPackageId: 'pkg_premium' } };
+
+    const res = await respond(req);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('Renew your subscription first') })
+    );
+    expect(subscription.save).not.toHaveBeenCalled();
+    expect(changeNow).not.toHaveBeenCalled();
+  });
+});
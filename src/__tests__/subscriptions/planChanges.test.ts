@@ -0,0 +1,155 @@
+import Stripe from 'stripe';
+import stripe from '../../config/stripe';
+import { Payment } from '../../models/Payment.model';
+import { stripeSubscriptionService } from '../../services/stripeSubscription.service';
+
+jest.mock('../../config/stripe', () => ({
+  __esModule: true,
+  default: {
+    subscriptions: { retrieve: jest.fn(), update: jest.fn() },
+    subscriptionSchedules: { create: jest.fn(), retrieve: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('../../models/Payment.model', () => ({
+  Payment: { create: jest.fn() },
+}));
+
+const mockedStripe = stripe as unknown as {
+  subscriptions: { retrieve: jest.Mock; update: jest.Mock };
+  subscriptionSchedules: { create: jest.Mock; retrieve: jest.Mock; update: jest.Mock };
+};
+const mockedPayment = Payment as unknown as { create: jest.Mock };
+
+const PERIOD_START = 1_790_000_000;
+const PERIOD_END = PERIOD_START + 30 * 86400;
+
+const basic = { _id: 'pkg_basic', price: 10, durationInDays: 30, periodType: 'month', periodCount: 1 } as never;
+const premium = { _id: 'pkg_premium', price: 30, durationInDays: 30, periodType: 'month', periodCount: 1 } as never;
+
+const localSubscription = () =>
+  ({
+    _id: 's1',
+    userId: 'u1',
+    stripeSubscriptionId: 'sub_1',
+    save: jest.fn(),
+  }) as never;
+
+const stripeSubscription = (overrides: Partial<Stripe.Subscription> = {}): Stripe.Subscription =>
+  ({
+    id: 'sub_1',
+    status: 'active',
+    schedule: null,
+    trial_end: null,
+    metadata: { userId: 'u1', packageId: 'pkg_premium' },
+    items: {
+      data: [
+        {
+          id: 'si_1',
+          price: { id: 'price_premium' },
+          current_period_start: PERIOD_START,
+          current_period_end: PERIOD_END,
+        },
+      ],
+    },
+    ...overrides,
+  }) as unknown as Stripe.Subscription;
+
+describe('Package changes', () => {
+  beforeEach(() => {
+    jest.spyOn(stripeSubscriptionService, 'syncPackagePrice').mockResolvedValue('price_new');
+  });
+
+  describe('getChangeDirection', () => {
+    it('compares packages by price per day', () => {
+      expect(stripeSubscriptionService.getChangeDirection(basic, premium)).toBe('upgrade');
+      expect(stripeSubscriptionService.getChangeDirection(premium, basic)).toBe('downgrade');
+    });
+  });
+
+  describe('scheduleChangeAtPeriodEnd', () => {
+    it('switches price when the current period ends', async () => {
+      mockedStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription());
+      mockedStripe.subscriptionSchedules.create.mockResolvedValue({ id: 'sched_1' });
+      const subscription = localSubscription();
+
+      const result = await stripeSubscriptionService.scheduleChangeAtPeriodEnd(subscription, basic);
+
+      const [, params] = mockedStripe.subscriptionSchedules.update.mock.calls[0];
+      expect(params.phases[0]).toEqual(
+        expect.objectContaining({ start_date: PERIOD_START, end_date: PERIOD_END })
+      );
+      expect(params.phases[0]).not.toHaveProperty('trial_end');
+      expect(params.phases[1]).toEqual(
+        expect.objectContaining({
+          items: [{ price: 'price_new', quantity: 1 }],
+          metadata: expect.objectContaining({ packageId: 'pkg_basic' }),
+        })
+      );
+      expect(result).toEqual(
+        expect.objectContaining({ effective: 'period_end', effectiveAt: new Date(PERIOD_END * 1000) })
+      );
+      expect(mockedPayment.create).not.toHaveBeenCalled();
+    });
+
+    it('keeps a running trial free until it ends', async () => {
+      mockedStripe.subscriptions.retrieve.mockResolvedValue(
+        stripeSubscription({ status: 'trialing', trial_end: PERIOD_END })
+      );
+      mockedStripe.subscriptionSchedules.create.mockResolvedValue({ id: 'sched_1' });
+
+      await stripeSubscriptionService.scheduleChangeAtPeriodEnd(localSubscription(), basic);
+
+      const [, params] = mockedStripe.subscriptionSchedules.update.mock.calls[0];
+      expect(params.phases[0]).toEqual(expect.objectContaining({ trial_end: PERIOD_END }));
+    });
+
+    it('reuses the schedule the subscription already has', async () => {
+      mockedStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription({ schedule: 'sched_1' }));
+      mockedStripe.subscriptionSchedules.retrieve.mockResolvedValue({ id: 'sched_1' });
+
+      await stripeSubscriptionService.scheduleChangeAtPeriodEnd(localSubscription(), basic);
+
+      expect(mockedStripe.subscriptionSchedules.create).not.toHaveBeenCalled();
+      expect(mockedStripe.subscriptionSchedules.update).toHaveBeenCalledWith('sched_1', expect.anything());
+    });
+  });
+
+  describe('changePackageNow', () => {
+    it('records the prorated charge as a plan change payment', async () => {
+      mockedStripe.subscriptions.retrieve.mockResolvedValue(stripeSubscription());
+      mockedStripe.subscriptions.update.mockResolvedValue({
+        ...stripeSubscription(),
+        pending_update: { expires_at: PERIOD_END },
+        latest_invoice: {
+          id: 'in_1',
+          status: 'open',
+          total: 1500,
+          currency: 'usd',
+          lines: { data: [{ amount: -500 }, { amount: 2000 }] },
+          confirmation_secret: { client_secret: 'pi_secret' },
+        },
+      });
+      mockedPayment.create.mockImplementation(async (data) => data);
+
+      const result = await stripeSubscriptionService.changePackageNow(localSubscription(), basic, premium);
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          unusedCredit: 5,
+          newCharge: 20,
+          amountDue: 15,
+          creditedAmount: 0,
+          clientSecret: 'pi_secret',
+        })
+      );
+      expect(mockedPayment.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'pending',
+          finalAmount: 15,
+          metadata: expect.objectContaining({ type: 'plan_change', direction: 'upgrade' }),
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import Stripe from 'stripe';
+import stripe from '../../config/stripe';
+import { Referral } from '../../models/Referral.model';
+import { Subscription } from '../../models/Subscription.model';
+import { User } from '../../models/User.model';
+import { Package } from '../../models/Package.model';
+import { TrialFingerprint } from '../../models/TrialFingerprint.model';
+import { createNotification } from '../../services/notification.service';
+import { referralService } from '../../services/referral.service';
+import { stripeSubscriptionService } from '../../services/stripeSubscription.service';
+
+jest.mock('../../config/stripe', () => ({
+  __esModule: true,
+  default: {
+    subscriptions: { update: jest.fn() },
+  },
+}));
+
+jest.mock('../../models/Referral.model', () => ({
+  Referral: { find: jest.fn(), findOneAndUpdate: jest.fn(), updateMany: jest.fn() },
+}));
+
+jest.mock('../../models/Subscription.model', () => ({
+  Subscription: { findOne: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn(), findByIdAndUpdate: jest.fn() },
+}));
+
+jest.mock('../../models/Package.model', () => ({
+  Package: { findOne: jest.fn(), findById: jest.fn() },
+}));
+
+jest.mock('../../models/TrialFingerprint.model', () => ({
+  TrialFingerprint: { exists: jest.fn() },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+  sendEmailNotification: jest.fn(),
+}));
+
+const mockedStripe = stripe as unknown as { subscriptions: { update: jest.Mock } };
+const mockedReferral = Referral as unknown as {
+  find: jest.Mock;
+  findOneAndUpdate: jest.Mock;
+  updateMany: jest.Mock;
+};
+const mockedSubscription = Subscription as unknown as { findOne: jest.Mock };
+const mockedUser = User as unknown as { findById: jest.Mock };
+const mockedPackage = Package as unknown as { findOne: jest.Mock };
+const mockedFingerprint = TrialFingerprint as unknown as { exists: jest.Mock };
+
+const REFERRER_ID = '64b000000000000000000001';
+const PAYER_ID = '64b000000000000000000002';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const activeSubscription = (endDate: Date) => ({
+  _id: 's1',
+  userId: REFERRER_ID,
+  status: 'active',
+  endDate,
+  stripeSubscriptionId: 'sub_1',
+  save: jest.fn(),
+});
+
+describe('Referrals', () => {
+  describe('handleCompletedPayment', () => {
+    it('converts the payer referral once and rewards the referrer', async () => {
+      mockedReferral.findOneAndUpdate.mockResolvedValueOnce({ _id: 'r1', referrerId: REFERRER_ID });
+      const applyRewards = jest.spyOn(referralService, 'applyPendingRewards').mockResolvedValue(0);
+
+      await referralService.handleCompletedPayment({ _id: 'p1', userId: PAYER_ID } as never);
+
+      expect(mockedReferral.findOneAndUpdate).toHaveBeenCalledWith(
+        { referredUserId: PAYER_ID, status: 'pending' },
+        expect.objectContaining({ status: 'converted', paymentId: 'p1' }),
+        { new: true }
+      );
+      expect(applyRewards).toHaveBeenCalledWith(REFERRER_ID);
+      expect(applyRewards).toHaveBeenCalledWith(PAYER_ID);
+    });
+
+    it('rewards nobody else when the referral was already converted', async () => {
+      mockedReferral.findOneAndUpdate.mockResolvedValue(null);
+      const applyRewards = jest.spyOn(referralService, 'applyPendingRewards').mockResolvedValue(0);
+
+      await referralService.handleCompletedPayment({ _id: 'p2', userId: PAYER_ID } as never);
+
+      expect(applyRewards).toHaveBeenCalledTimes(1);
+      expect(applyRewards).toHaveBeenCalledWith(PAYER_ID);
+    });
+  });
+
+  describe('applyPendingRewards', () => {
+    it('grants each converted referral once and marks the free time in Stripe', async () => {
+      const endDate = new Date(Date.now() + 10 * DAY_MS);
+      const subscription = activeSubscription(endDate);
+      mockedSubscription.findOne.mockResolvedValue(subscription);
+      mockedReferral.find.mockResolvedValue([
+        { _id: 'r1', rewardDays: 7 },
+        { _id: 'r2', rewardDays: 7 },
+      ]);
+      // r2 was claimed by a concurrent run
+      mockedReferral.findOneAndUpdate.mockResolvedValueOnce({ _id: 'r1' }).mockResolvedValueOnce(null);
+
+      await expect(referralService.applyPendingRewards(REFERRER_ID)).resolves.toBe(7);
+
+      const rewardEnd = Math.floor((endDate.getTime() + 7 * DAY_MS) / 1000);
+      expect(mockedStripe.subscriptions.update).toHaveBeenCalledWith('sub_1', {
+        trial_end: rewardEnd,
+        proration_behavior: 'none',
+        metadata: { referralExtensionUntil: String(rewardEnd) },
+      });
+      expect(subscription.save).toHaveBeenCalled();
+      expect(createNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('hands the rewards back when Stripe refuses the extension', async () => {
+      mockedSubscription.findOne.mockResolvedValue(activeSubscription(new Date(Date.now() + DAY_MS)));
+      mockedReferral.find.mockResolvedValue([{ _id: 'r1', rewardDays: 7 }]);
+      mockedReferral.findOneAndUpdate.mockResolvedValue({ _id: 'r1' });
+      mockedStripe.subscriptions.update.mockRejectedValue(new Error('Stripe unavailable'));
+
+      await expect(referralService.applyPendingRewards(REFERRER_ID)).rejects.toThrow('Stripe unavailable');
+
+      expect(mockedReferral.updateMany).toHaveBeenCalledWith(
+        { _id: { $in: ['r1'] } },
+        { status: 'converted', $unset: { rewardedAt: 1 } }
+      );
+    });
+  });
+
+  describe('syncing a rewarded subscription that began as a trial', () => {
+    const TRIAL_START = 1_790_000_000;
+    const TRIAL_END = TRIAL_START + 7 * 86400;
+    const REWARD_END = TRIAL_END + 60 * 86400;
+
+    const stripeSubscription = (overrides: Partial<Stripe.Subscription>) =>
+      ({
+        id: 'sub_1',
+        status: 'trialing',
+        metadata: { userId: REFERRER_ID, packageId: 'pkg_1', trial: 'true' },
+        items: { data: [{ price: { id: 'price_1' }, current_period_end: REWARD_END }] },
+        trial_start: TRIAL_START,
+        trial_end: TRIAL_END,
+        ...overrides,
+      }) as unknown as Stripe.Subscription;
+
+    const localTrial = () => ({
+      userId: REFERRER_ID,
+      stripeSubscriptionId: 'sub_1',
+      trialStartedAt: new Date(TRIAL_START * 1000),
+      trialEndsAt: new Date(TRIAL_END * 1000),
+      save: jest.fn(),
+    });
+
+    beforeEach(() => {
+      mockedFingerprint.exists.mockResolvedValue({ _id: 'fp_1' });
+      mockedUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({}) });
+      mockedPackage.findOne.mockResolvedValue({ _id: 'pkg_1' });
+    });
+
+    it('keeps the original trial dates during the referral free time', async () => {
+      const subscription = localTrial();
+      mockedSubscription.findOne.mockResolvedValue(subscription);
+
+      await stripeSubscriptionService.syncFromStripe(
+        stripeSubscription({
+          trial_start: TRIAL_END,
+          trial_end: REWARD_END,
+          metadata: {
+            userId: REFERRER_ID,
+            packageId: 'pkg_1',
+            trial: 'true',
+            referralExtensionUntil: String(REWARD_END),
+          },
+        })
+      );
+
+      expect(subscription.trialStartedAt).toEqual(new Date(TRIAL_START * 1000));
+      expect(subscription.trialEndsAt).toEqual(new Date(TRIAL_END * 1000));
+    });
+
+    it('still records the package trial itself', async () => {
+      const subscription = { ...localTrial(), trialStartedAt: undefined, trialEndsAt: undefined };
+      mockedSubscription.findOne.mockResolvedValue(subscription);
+
+      await stripeSubscriptionService.syncFromStripe(stripeSubscription({}));
+
+      expect(subscription.trialEndsAt).toEqual(new Date(TRIAL_END * 1000));
+    });
+  });
+});
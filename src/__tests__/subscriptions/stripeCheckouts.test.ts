@@ -0,0 +1,163 @@
+import Stripe from 'stripe';
+import stripe from '../../config/stripe';
+import { Subscription } from '../../models/Subscription.model';
+import { User } from '../../models/User.model';
+import { TrialFingerprint } from '../../models/TrialFingerprint.model';
+import { accountDeletionService } from '../../services/accountDeletion.service';
+import { stripeSubscriptionService } from '../../services/stripeSubscription.service';
+
+jest.mock('../../config/stripe', () => ({
+  __esModule: true,
+  default: {
+    subscriptions: { list: jest.fn(), cancel: jest.fn(), update: jest.fn(), retrieve: jest.fn() },
+  },
+}));
+
+jest.mock('../../models/Subscription.model', () => ({
+  Subscription: { findOne: jest.fn(), updateOne: jest.fn(), deleteMany: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn(), updateOne: jest.fn(), deleteOne: jest.fn() },
+}));
+
+jest.mock('../../models/TrialFingerprint.model', () => ({
+  TrialFingerprint: { exists: jest.fn() },
+}));
+
+jest.mock('../../services/token.service', () => ({
+  tokenService: { revokeAllSessions: jest.fn() },
+}));
+
+// Everything else an account purge removes
+jest.mock('../../models/UserFavorite.model', () => ({ UserFavorite: { deleteMany: jest.fn() } }));
+jest.mock('../../models/UserProgram.model', () => ({ UserProgram: { deleteMany: jest.fn() } }));
+jest.mock('../../models/CustomProgram.model', () => ({ CustomProgram: { deleteMany: jest.fn() } }));
+jest.mock('../../models/ListeningSession.model', () => ({ ListeningSession: { deleteMany: jest.fn() } }));
+jest.mock('../../models/Notification.model', () => ({ Notification: { deleteMany: jest.fn() } }));
+jest.mock('../../models/LoginEvent.model', () => ({ LoginEvent: { deleteMany: jest.fn() } }));
+jest.mock('../../models/Referral.model', () => ({ Referral: { deleteMany: jest.fn() } }));
+jest.mock('../../models/BanAppeal.model', () => ({ BanAppeal: { deleteMany: jest.fn() } }));
+jest.mock('../../services/dataExport.service', () => ({
+  dataExportService: { deleteUserExports: jest.fn() },
+}));
+jest.mock('../../services/avatar.service', () => ({ avatarService: { deleteImages: jest.fn() } }));
+jest.mock('../../services/family.service', () => ({
+  familyService: { deleteUserMemberships: jest.fn() },
+}));
+
+const mockedStripe = stripe as unknown as {
+  subscriptions: { list: jest.Mock; cancel: jest.Mock; update: jest.Mock };
+};
+const mockedSubscription = Subscription as unknown as { findOne: jest.Mock; deleteMany: jest.Mock };
+const mockedUser = User as unknown as {
+  findById: jest.Mock;
+  updateOne: jest.Mock;
+  deleteOne: jest.Mock;
+};
+const mockedFingerprint = TrialFingerprint as unknown as { exists: jest.Mock };
+
+const USER_ID = '64b000000000000000000001';
+
+const pendingSubscription = (id: string, status: Stripe.Subscription.Status, trial?: string) =>
+  ({ id, status, metadata: trial ? { trial } : {} }) as unknown as Stripe.Subscription;
+
+const listSubscriptions = (incomplete: Stripe.Subscription[], trialing: Stripe.Subscription[] = []) => {
+  mockedStripe.subscriptions.list.mockImplementation(async ({ status }: { status: string }) => ({
+    data: status === 'incomplete' ? incomplete : trialing,
+  }));
+};
+
+const customer = (fields: Record<string, unknown> = {}) =>
+  ({ _id: USER_ID, stripeCustomerId: 'cus_1', trialUsedAt: new Date(), ...fields }) as never;
+
+const localSubscription = () => ({
+  _id: 's1',
+  userId: USER_ID,
+  status: 'active',
+  stripeSubscriptionId: 'sub_1',
+  save: jest.fn(),
+});
+
+describe('Stripe billing', () => {
+  describe('cancelPendingCheckouts', () => {
+    it('cancels a checkout the user never paid for', async () => {
+      listSubscriptions([pendingSubscription('sub_abandoned', 'incomplete')]);
+
+      await stripeSubscriptionService.cancelPendingCheckouts(customer());
+
+      expect(mockedStripe.subscriptions.cancel).toHaveBeenCalledWith('sub_abandoned');
+      expect(mockedUser.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('cancels a trial still waiting for its card and gives the trial back', async () => {
+      listSubscriptions([], [pendingSubscription('sub_trial', 'trialing', 'true')]);
+      mockedFingerprint.exists.mockResolvedValue(null);
+      const user = customer();
+
+      await stripeSubscriptionService.cancelPendingCheckouts(user);
+
+      expect(mockedStripe.subscriptions.cancel).toHaveBeenCalledWith('sub_trial');
+      expect(mockedUser.updateOne).toHaveBeenCalledWith({ _id: USER_ID }, { $unset: { trialUsedAt: 1 } });
+      expect(user).toHaveProperty('trialUsedAt', undefined);
+    });
+
+    it('keeps a trial whose card was accepted', async () => {
+      listSubscriptions([], [pendingSubscription('sub_trial', 'trialing', 'true')]);
+      mockedFingerprint.exists.mockResolvedValue({ _id: 'fp_1' });
+
+      await stripeSubscriptionService.cancelPendingCheckouts(customer());
+
+      expect(mockedStripe.subscriptions.cancel).not.toHaveBeenCalled();
+    });
+
+    it('does nothing for a user who never reached Stripe', async () => {
+      await stripeSubscriptionService.cancelPendingCheckouts(customer({ stripeCustomerId: undefined }));
+
+      expect(mockedStripe.subscriptions.list).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('account deletion', () => {
+    it('stops renewal in Stripe when the account is deleted', async () => {
+      mockedSubscription.findOne.mockResolvedValue(localSubscription());
+      const user = { _id: USER_ID, subscription: { status: 'active' }, save: jest.fn() } as never;
+
+      await accountDeletionService.scheduleDeletion(user);
+
+      expect(mockedStripe.subscriptions.update).toHaveBeenCalledWith('sub_1', { cancel_at_period_end: true });
+    });
+
+    it('resumes renewal in Stripe when the account is restored', async () => {
+      mockedSubscription.findOne.mockResolvedValue({ ...localSubscription(), status: 'cancelled' });
+      jest.spyOn(stripeSubscriptionService, 'syncFromStripe').mockResolvedValue(null);
+      const user = {
+        _id: USER_ID,
+        deletedAt: new Date(),
+        deletionScheduledFor: new Date(Date.now() + 24 * 60 * 60 * 1000),
+        subscription: { status: 'cancelled' },
+        save: jest.fn(),
+      } as never;
+
+      await accountDeletionService.restore(user);
+
+      expect(mockedStripe.subscriptions.update).toHaveBeenCalledWith('sub_1', {
+        cancel_at_period_end: false,
+      });
+      expect(user).toHaveProperty('deletedAt', undefined);
+    });
+
+    it('cancels the Stripe subscription before purging the account', async () => {
+      mockedSubscription.findOne.mockResolvedValue(localSubscription());
+      mockedUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue({ avatarImages: [] }) });
+
+      await accountDeletionService.purgeAccount(USER_ID);
+
+      expect(mockedStripe.subscriptions.cancel).toHaveBeenCalledWith('sub_1');
+      expect(mockedStripe.subscriptions.cancel.mock.invocationCallOrder[0]).toBeLessThan(
+        mockedSubscription.deleteMany.mock.invocationCallOrder[0]
+      );
+      expect(mockedUser.deleteOne).toHaveBeenCalledWith({ _id: USER_ID });
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import Stripe from 'stripe';
+import stripe from '../../config/stripe';
+import { Subscription } from '../../models/Subscription.model';
+import { User } from '../../models/User.model';
+import { Payment } from '../../models/Payment.model';
+import { TrialFingerprint } from '../../models/TrialFingerprint.model';
+import { createNotification } from '../../services/notification.service';
+import { trialService } from '../../services/trial.service';
+import { stripeSubscriptionService } from '../../services/stripeSubscription.service';
+
+jest.mock('../../config/stripe', () => ({
+  __esModule: true,
+  default: {
+    paymentMethods: { retrieve: jest.fn() },
+    subscriptions: { retrieve: jest.fn(), update: jest.fn() },
+  },
+}));
+
+jest.mock('../../models/Subscription.model', () => ({
+  Subscription: { exists: jest.fn(), findOne: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn(), updateOne: jest.fn(), findByIdAndUpdate: jest.fn() },
+}));
+
+jest.mock('../../models/Payment.model', () => ({
+  Payment: { findOne: jest.fn() },
+}));
+
+jest.mock('../../models/TrialFingerprint.model', () => ({
+  TrialFingerprint: { create: jest.fn(), findOne: jest.fn(), exists: jest.fn() },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+  sendEmailNotification: jest.fn(),
+}));
+
+const mockedStripe = stripe as unknown as {
+  paymentMethods: { retrieve: jest.Mock };
+  subscriptions: { retrieve: jest.Mock; update: jest.Mock };
+};
+const mockedSubscription = Subscription as unknown as { exists: jest.Mock; findOne: jest.Mock };
+const mockedUser = User as unknown as { findById: jest.Mock; updateOne: jest.Mock };
+const mockedPayment = Payment as unknown as { findOne: jest.Mock };
+const mockedFingerprint = TrialFingerprint as unknown as {
+  create: jest.Mock;
+  findOne: jest.Mock;
+  exists: jest.Mock;
+};
+
+const trialSubscription = (overrides: Partial<Stripe.Subscription> = {}): Stripe.Subscription =>
+  ({
+    id: 'sub_trial',
+    status: 'trialing',
+    metadata: { userId: '64b000000000000000000001', packageId: '64b0000000000000000000aa', trial: 'true' },
+    default_payment_method: null,
+    items: { data: [] },
+    ...overrides,
+  }) as unknown as Stripe.Subscription;
+
+const duplicateKeyError = Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+describe('Free trials', () => {
+  describe('claimTrial', () => {
+    const pkg = { trialDays: 7 } as never;
+
+    it('gives a new user the package trial once', async () => {
+      mockedSubscription.exists.mockResolvedValue(null);
+      mockedUser.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      await expect(trialService.claimTrial({ _id: 'u1' } as never, pkg)).resolves.toBe(7);
+      expect(mockedUser.updateOne).toHaveBeenCalledWith(
+        { _id: 'u1', trialUsedAt: null },
+        expect.objectContaining({ trialUsedAt: expect.any(Date) })
+      );
+    });
+
+    it('refuses a user who already used their trial', async () => {
+      await expect(
+        trialService.claimTrial({ _id: 'u1', trialUsedAt: new Date() } as never, pkg)
+      ).resolves.toBe(0);
+      expect(mockedUser.updateOne).not.toHaveBeenCalled();
+    });
+
+    it('refuses a user who has subscribed before', async () => {
+      mockedSubscription.exists.mockResolvedValue({ _id: 's1' });
+
+      await expect(trialService.claimTrial({ _id: 'u1' } as never, pkg)).resolves.toBe(0);
+    });
+
+    it('lets only one of two concurrent requests claim the trial', async () => {
+      mockedSubscription.exists.mockResolvedValue(null);
+      mockedUser.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      await expect(trialService.claimTrial({ _id: 'u1' } as never, pkg)).resolves.toBe(0);
+    });
+  });
+
+  describe('trial without a card', () => {
+    it('is awaiting its card', async () => {
+      mockedFingerprint.exists.mockResolvedValue(null);
+
+      await expect(trialService.isAwaitingCard(trialSubscription())).resolves.toBe(true);
+    });
+
+    it('does not create a local subscription (no access)', async () => {
+      mockedFingerprint.exists.mockResolvedValue(null);
+
+      const result = await stripeSubscriptionService.syncFromStripe(trialSubscription(), true);
+
+      expect(result).toBeNull();
+      expect(mockedSubscription.findOne).not.toHaveBeenCalled();
+    });
+
+    it('ignores the $0 first invoice', async () => {
+      mockedFingerprint.exists.mockResolvedValue(null);
+      mockedPayment.findOne.mockResolvedValue(null);
+      mockedStripe.subscriptions.retrieve.mockResolvedValue(trialSubscription());
+
+      await stripeSubscriptionService.handleInvoicePaid({
+        id: 'in_1',
+        billing_reason: 'subscription_create',
+        amount_paid: 0,
+        parent: { subscription_details: { subscription: 'sub_trial' } },
+      } as unknown as Stripe.Invoice);
+
+      expect(mockedSubscription.findOne).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+
+    it('does nothing on updates until a card is saved', async () => {
+      mockedFingerprint.exists.mockResolvedValue(null);
+      mockedSubscription.exists.mockResolvedValue(null);
+      mockedStripe.subscriptions.retrieve.mockResolvedValue(trialSubscription());
+
+      await stripeSubscriptionService.handleSubscriptionUpdated(trialSubscription());
+
+      expect(mockedStripe.paymentMethods.retrieve).not.toHaveBeenCalled();
+      expect(mockedSubscription.findOne).not.toHaveBeenCalled();
+      expect(createNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkTrialCard', () => {
+    const withCard = trialSubscription({ default_payment_method: 'pm_1' } as never);
+
+    it('accepts a card that has not had a trial', async () => {
+      mockedStripe.paymentMethods.retrieve.mockResolvedValue({ card: { fingerprint: 'fp_new' } });
+      mockedFingerprint.create.mockResolvedValue({});
+
+      await trialService.checkTrialCard(withCard);
+
+      expect(mockedFingerprint.create).toHaveBeenCalledWith({
+        fingerprint: 'fp_new',
+        userId: '64b000000000000000000001',
+        stripeSubscriptionId: 'sub_trial',
+      });
+      expect(mockedStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('ends the trial when the card was used for another trial', async () => {
+      mockedStripe.paymentMethods.retrieve.mockResolvedValue({ card: { fingerprint: 'fp_used' } });
+      mockedFingerprint.create.mockRejectedValue(duplicateKeyError);
+      mockedFingerprint.findOne.mockResolvedValue({
+        userId: '64b000000000000000000002',
+        stripeSubscriptionId: 'sub_other_account',
+      });
+
+      await trialService.checkTrialCard(withCard);
+
+      expect(mockedStripe.subscriptions.update).toHaveBeenCalledWith('sub_trial', {
+        trial_end: 'now',
+        proration_behavior: 'none',
+        metadata: expect.objectContaining({ trial: 'denied' }),
+      });
+      expect(createNotification).toHaveBeenCalledWith(
+        '64b000000000000000000001',
+        expect.objectContaining({ data: { stripeSubscriptionId: 'sub_trial' } })
+      );
+    });
+
+    it('keeps the trial when the same subscription is checked again', async () => {
+      mockedStripe.paymentMethods.retrieve.mockResolvedValue({ card: { fingerprint: 'fp_new' } });
+      mockedFingerprint.create.mockRejectedValue(duplicateKeyError);
+      mockedFingerprint.findOne.mockResolvedValue({ stripeSubscriptionId: 'sub_trial' });
+
+      await trialService.checkTrialCard(withCard);
+
+      expect(mockedStripe.subscriptions.update).not.toHaveBeenCalled();
+    });
+
+    it('ends the trial when the payment method has no card fingerprint', async () => {
+      mockedStripe.paymentMethods.retrieve.mockResolvedValue({ card: null });
+
+      await trialService.checkTrialCard(withCard);
+
+      expect(mockedFingerprint.create).not.toHaveBeenCalled();
+      expect(mockedStripe.subscriptions.update).toHaveBeenCalledWith(
+        'sub_trial',
+        expect.objectContaining({ trial_end: 'now' })
+      );
+    });
+
+    it('ignores subscriptions that are not package trials', async () => {
+      await trialService.checkTrialCard(
+        trialSubscription({
+          default_payment_method: 'pm_1',
+          metadata: { userId: '64b000000000000000000001', trial: 'denied' },
+        } as never)
+      );
+
+      expect(mockedStripe.paymentMethods.retrieve).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import Stripe from 'stripe';
+import stripe from '../../config/stripe';
+import { WebhookEvent } from '../../models/WebhookEvent.model';
+import { stripeWebhookService } from '../../services/stripeWebhook.service';
+import { stripeSubscriptionService } from '../../services/stripeSubscription.service';
+
+jest.mock('../../config/stripe', () => ({
+  __esModule: true,
+  default: {
+    subscriptions: { retrieve: jest.fn() },
+  },
+}));
+
+jest.mock('../../models/WebhookEvent.model', () => ({
+  WebhookEvent: { create: jest.fn(), findOneAndUpdate: jest.fn(), findById: jest.fn() },
+}));
+
+const mockedStripe = stripe as unknown as { subscriptions: { retrieve: jest.Mock } };
+const mockedWebhookEvent = WebhookEvent as unknown as {
+  create: jest.Mock;
+  findOneAndUpdate: jest.Mock;
+  findById: jest.Mock;
+};
+
+const subscriptionEvent = (status: Stripe.Subscription.Status): Stripe.Event =>
+  ({
+    id: 'evt_1',
+    type: 'customer.subscription.updated',
+    data: { object: { id: 'sub_1', status, metadata: {} } },
+  }) as unknown as Stripe.Event;
+
+const record = (fields: Record<string, unknown> = {}) => ({
+  eventId: 'evt_1',
+  status: 'received',
+  save: jest.fn().mockResolvedValue(undefined),
+  ...fields,
+});
+
+const duplicateKeyError = Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+
+describe('Stripe webhook events', () => {
+  describe('handleEvent', () => {
+    it('processes a new event once and marks it processed', async () => {
+      const stored = record();
+      mockedWebhookEvent.create.mockResolvedValue(stored);
+      const dispatch = jest
+        .spyOn(stripeSubscriptionService, 'handleSubscriptionUpdated')
+        .mockResolvedValue(undefined);
+
+      await expect(stripeWebhookService.handleEvent(subscriptionEvent('active'))).resolves.toBe(true);
+
+      expect(dispatch).toHaveBeenCalledTimes(1);
+      expect(stored.status).toBe('processed');
+      expect(stored.save).toHaveBeenCalled();
+    });
+
+    it('skips a redelivered event that was already processed', async () => {
+      mockedWebhookEvent.create.mockRejectedValue(duplicateKeyError);
+      mockedWebhookEvent.findOneAndUpdate.mockResolvedValue(null);
+      const dispatch = jest.spyOn(stripeSubscriptionService, 'handleSubscriptionUpdated');
+
+      await expect(stripeWebhookService.handleEvent(subscriptionEvent('active'))).resolves.toBe(false);
+
+      expect(dispatch).not.toHaveBeenCalled();
+    });
+
+    it('stores the failure so the event can be retried', async () => {
+      const stored = record();
+      mockedWebhookEvent.create.mockResolvedValue(stored);
+      jest
+        .spyOn(stripeSubscriptionService, 'handleSubscriptionUpdated')
+        .mockRejectedValue(new Error('Stripe unavailable'));
+
+      await expect(stripeWebhookService.handleEvent(subscriptionEvent('active'))).rejects.toThrow(
+        'Stripe unavailable'
+      );
+
+      expect(stored.status).toBe('failed');
+      expect(stored).toHaveProperty('lastError', 'Stripe unavailable');
+    });
+  });
+
+  describe('reprocess', () => {
+    it('refuses events that did not fail', async () => {
+      mockedWebhookEvent.findOneAndUpdate.mockResolvedValue(null);
+      mockedWebhookEvent.findById.mockResolvedValue(record({ status: 'processed' }));
+
+      await expect(
+        stripeWebhookService.reprocess('64b0000000000000000000ee', '64b0000000000000000000ad')
+      ).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('syncs from the current Stripe subscription, not the stored payload', async () => {
+      const stored = record({ status: 'failed', payload: subscriptionEvent('active') });
+      mockedWebhookEvent.findOneAndUpdate.mockResolvedValue(stored);
+      const current = { id: 'sub_1', status: 'canceled', metadata: {} } as unknown as Stripe.Subscription;
+      mockedStripe.subscriptions.retrieve.mockResolvedValue(current);
+      const sync = jest.spyOn(stripeSubscriptionService, 'syncFromStripe').mockResolvedValue(null);
+
+      await stripeWebhookService.reprocess('64b0000000000000000000ee', '64b0000000000000000000ad');
+
+      expect(mockedStripe.subscriptions.retrieve).toHaveBeenCalledWith('sub_1');
+      expect(sync).toHaveBeenCalledWith(current, false);
+      expect(stored.status).toBe('processed');
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { User } from '../../models/User.model';
+import { Subscription } from '../../models/Subscription.model';
+import { tokenService } from '../../services/token.service';
+import { accountDeletionService } from '../../services/accountDeletion.service';
+
+jest.mock('../../config/stripe', () => ({
+  __esModule: true,
+  default: { subscriptions: { retrieve: jest.fn() } },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { find: jest.fn() },
+}));
+
+jest.mock('../../models/Subscription.model', () => ({
+  Subscription: { findOne: jest.fn(), updateOne: jest.fn() },
+}));
+
+jest.mock('../../services/token.service', () => ({
+  tokenService: { revokeAllSessions: jest.fn() },
+}));
+
+jest.mock('../../services/stripeSubscription.service', () => ({
+  stripeSubscriptionService: {
+    setAutoRenew: jest.fn(),
+    syncFromStripe: jest.fn(),
+    cancelImmediately: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/dataExport.service', () => ({
+  dataExportService: { deleteUserExports: jest.fn() },
+}));
+jest.mock('../../services/avatar.service', () => ({ avatarService: { deleteImages: jest.fn() } }));
+jest.mock('../../services/family.service', () => ({
+  familyService: { deleteUserMemberships: jest.fn() },
+}));
+
+const mockedUser = User as unknown as { find: jest.Mock };
+const mockedSubscription = Subscription as unknown as { findOne: jest.Mock; updateOne: jest.Mock };
+
+const USER_ID = '64b000000000000000000001';
+const DAY = 24 * 60 * 60 * 1000;
+
+interface DeletableAccount {
+  _id: string;
+  deletedAt?: Date;
+  deletionScheduledFor?: Date;
+  subscription: { status: string; autoRenew: boolean };
+  save: jest.Mock;
+}
+
+const account = (fields: Partial<DeletableAccount> = {}): DeletableAccount => ({
+  _id: USER_ID,
+  subscription: { status: 'active', autoRenew: true },
+  save: jest.fn(),
+  ...fields,
+});
+
+const canRestore = (fields: Partial<DeletableAccount>) =>
+  accountDeletionService.canRestore(account(fields) as never);
+
+describe('Account deletion', () => {
+  it('deactivates the account, cancels the subscription and signs out every device', async () => {
+    mockedSubscription.findOne.mockResolvedValue(null);
+    const user = account();
+
+    const purgeOn = await accountDeletionService.scheduleDeletion(user as never);
+
+    expect(user.deletedAt).toBeInstanceOf(Date);
+    expect(Math.round((purgeOn.getTime() - user.deletedAt!.getTime()) / DAY)).toBe(
+      accountDeletionService.GRACE_PERIOD_DAYS
+    );
+    expect(user.subscription).toEqual({ status: 'cancelled', autoRenew: false });
+    expect(mockedSubscription.updateOne).toHaveBeenCalledWith(
+      { userId: USER_ID, status: { $in: ['active', 'past_due'] } },
+      expect.objectContaining({ $set: expect.objectContaining({ status: 'cancelled' }) })
+    );
+    expect(tokenService.revokeAllSessions).toHaveBeenCalledWith(USER_ID);
+  });
+
+  it('can only be restored during the grace period', () => {
+    const deletedAt = new Date(Date.now() - DAY);
+
+    expect(canRestore({ deletedAt, deletionScheduledFor: new Date(Date.now() + DAY) })).toBe(true);
+    expect(canRestore({ deletedAt, deletionScheduledFor: new Date(Date.now() - 1) })).toBe(false);
+    // Deleted by an admin: nothing scheduled, nothing to restore
+    expect(canRestore({ deletedAt })).toBe(false);
+  });
+
+  it('reactivates the account and the subscription the deletion cancelled', async () => {
+    const subscription = { status: 'cancelled', cancellationDate: new Date(), save: jest.fn() };
+    mockedSubscription.findOne.mockResolvedValue(subscription);
+    const user = account({
+      deletedAt: new Date(Date.now() - DAY),
+      deletionScheduledFor: new Date(Date.now() + DAY),
+      subscription: { status: 'cancelled', autoRenew: false },
+    });
+
+    await accountDeletionService.restore(user as never);
+
+    expect(user.deletedAt).toBeUndefined();
+    expect(user.deletionScheduledFor).toBeUndefined();
+    expect(subscription.status).toBe('active');
+    expect(subscription.cancellationDate).toBeUndefined();
+    expect(user.subscription.status).toBe('active');
+  });
+
+  it('keeps purging the other due accounts when one fails', async () => {
+    mockedUser.find.mockReturnValue({
+      select: jest.fn().mockResolvedValue([{ _id: 'u1' }, { _id: 'u2' }, { _id: 'u3' }]),
+    });
+    const purge = jest
+      .spyOn(accountDeletionService, 'purgeAccount')
+      .mockResolvedValueOnce()
+      .mockRejectedValueOnce(new Error('S3 unavailable'))
+      .mockResolvedValueOnce();
+
+    await expect(accountDeletionService.purgeExpiredAccounts()).resolves.toBe(2);
+
+    expect(mockedUser.find).toHaveBeenCalledWith({
+      deletedAt: { $ne: null },
+      deletionScheduledFor: { $lte: expect.any(Date) },
+    });
+    expect(purge).toHaveBeenCalledTimes(3);
+  });
+});
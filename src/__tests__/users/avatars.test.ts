@@ -0,0 +1,118 @@
+import { isR2Configured } from '../../config/r2';
+import { Settings } from '../../models/Settings.model';
+import { processImage, uploadToR2, deleteFromR2 } from '../../utils/fileUpload';
+import { uploadToLocal, deleteFromLocal } from '../../utils/localStorage';
+import { avatarService } from '../../services/avatar.service';
+
+jest.mock('../../config/r2', () => ({
+  isR2Configured: jest.fn(),
+}));
+
+jest.mock('../../models/Settings.model', () => ({
+  Settings: { findOne: jest.fn() },
+}));
+
+jest.mock('../../utils/fileUpload', () => ({
+  processImage: jest.fn(),
+  uploadToR2: jest.fn(),
+  deleteFromR2: jest.fn(),
+}));
+
+jest.mock('../../utils/localStorage', () => ({
+  uploadToLocal: jest.fn(),
+  deleteFromLocal: jest.fn(),
+}));
+
+const mockedSettings = Settings as unknown as { findOne: jest.Mock };
+const mockedProcessImage = processImage as jest.Mock;
+const mockedUploadToLocal = uploadToLocal as jest.Mock;
+
+const USER_ID = '64b000000000000000000001';
+const UPLOAD = Buffer.from('image');
+
+const storedImage = (size: 'small' | 'medium' | 'large', key: string) => ({
+  size,
+  width: avatarService.SIZES[size],
+  key,
+  url: `/uploads/${key}`,
+  storageType: 'local' as const,
+});
+
+const avatarUser = (avatarImages: ReturnType<typeof storedImage>[] = []) => ({
+  _id: USER_ID,
+  avatar: avatarImages[0]?.url as string | undefined,
+  avatarImages,
+  save: jest.fn(),
+});
+
+describe('Avatar uploads', () => {
+  beforeEach(() => {
+    mockedSettings.findOne.mockResolvedValue({ storageType: 'local' });
+    mockedProcessImage.mockImplementation(async (_buffer: Buffer, { width }: { width: number }) =>
+      Buffer.from(`webp-${width}`)
+    );
+    mockedUploadToLocal.mockImplementation(async (_buffer: Buffer, key: string) => ({
+      key,
+      url: `/uploads/${key}`,
+    }));
+  });
+
+  it('stores a square WebP crop for every size', async () => {
+    const images = await avatarService.processAndStore(USER_ID, UPLOAD);
+
+    for (const width of [64, 256, 512]) {
+      expect(mockedProcessImage).toHaveBeenCalledWith(UPLOAD, {
+        width,
+        height: width,
+        format: 'webp',
+        quality: 85,
+      });
+    }
+    expect(images.map((image) => image.size)).toEqual(['small', 'medium', 'large']);
+    expect(images[0].key).toMatch(new RegExp(`^images/avatar/${USER_ID}/.+-small\\.webp$`));
+    expect(uploadToR2).not.toHaveBeenCalled();
+  });
+
+  it('removes the sizes already stored when an upload fails', async () => {
+    mockedUploadToLocal
+      .mockImplementationOnce(async (_buffer: Buffer, key: string) => ({ key, url: `/uploads/${key}` }))
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(avatarService.processAndStore(USER_ID, UPLOAD)).rejects.toThrow('disk full');
+
+    expect(deleteFromLocal).toHaveBeenCalledTimes(1);
+    expect(deleteFromLocal).toHaveBeenCalledWith(expect.stringContaining('-small.webp'));
+  });
+
+  it('refuses to upload when R2 is selected but not configured', async () => {
+    mockedSettings.findOne.mockResolvedValue({ storageType: 'r2' });
+    (isR2Configured as jest.Mock).mockReturnValue(false);
+
+    await expect(avatarService.processAndStore(USER_ID, UPLOAD)).rejects.toThrow('not configured');
+    expect(mockedProcessImage).not.toHaveBeenCalled();
+  });
+
+  it('replaces the avatar and deletes the previous files', async () => {
+    const previous = storedImage('medium', 'images/avatar/old-medium.webp');
+    const user = avatarUser([previous]);
+
+    await avatarService.updateAvatar(user as never, UPLOAD);
+
+    expect(user.avatarImages).toHaveLength(3);
+    expect(user.avatar).toMatch(/-medium\.webp$/);
+    expect(user.save).toHaveBeenCalled();
+    expect(deleteFromLocal).toHaveBeenCalledWith(previous.key);
+  });
+
+  it('keeps the previous files when the new avatar cannot be saved', async () => {
+    const previous = storedImage('medium', 'images/avatar/old-medium.webp');
+    const user = avatarUser([previous]);
+    user.save.mockRejectedValue(new Error('validation failed'));
+
+    await expect(avatarService.updateAvatar(user as never, UPLOAD)).rejects.toThrow('validation failed');
+
+    expect(deleteFromLocal).toHaveBeenCalledTimes(3);
+    expect(deleteFromLocal).not.toHaveBeenCalledWith(previous.key);
+    expect(deleteFromR2).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,130 @@
+import { DataExport } from '../../models/DataExport.model';
+import { User } from '../../models/User.model';
+import { Settings } from '../../models/Settings.model';
+import { savePrivateFile } from '../../utils/localStorage';
+import { emailService } from '../../services/email.service';
+import { createNotification } from '../../services/notification.service';
+import { dataExportService } from '../../services/dataExport.service';
+
+jest.mock('../../models/DataExport.model', () => ({
+  DataExport: { findOneAndUpdate: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn() },
+}));
+
+jest.mock('../../models/Settings.model', () => ({
+  Settings: { findOne: jest.fn() },
+}));
+
+jest.mock('../../utils/localStorage', () => ({
+  savePrivateFile: jest.fn(),
+  readPrivateFile: jest.fn(),
+  deletePrivateFile: jest.fn(),
+}));
+
+jest.mock('../../services/email.service', () => ({
+  emailService: { sendDataExportEmail: jest.fn() },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+}));
+
+const mockedDataExport = DataExport as unknown as { findOneAndUpdate: jest.Mock };
+const mockedUser = User as unknown as { findById: jest.Mock };
+const mockedSettings = Settings as unknown as { findOne: jest.Mock };
+
+const USER_ID = '64b000000000000000000001';
+
+const queuedExport = (): { status: string; error?: string; save: jest.Mock } => ({
+  _id: '64b0000000000000000000e1',
+  userId: USER_ID,
+  status: 'processing',
+  requestedAt: new Date(),
+  save: jest.fn(),
+} as never);
+
+const findUser = (user: Record<string, unknown> | null) => {
+  const select = jest.fn().mockResolvedValue(user);
+  mockedUser.findById.mockReturnValue({ select });
+  return select;
+};
+
+describe('Data exports', () => {
+  describe('processPendingExports', () => {
+    beforeEach(() => {
+      jest.spyOn(dataExportService, 'processExport').mockResolvedValue(undefined);
+    });
+
+    it('claims queued exports and exports left behind by a dead worker', async () => {
+      mockedDataExport.findOneAndUpdate.mockResolvedValueOnce(queuedExport()).mockResolvedValueOnce(null);
+
+      await expect(dataExportService.processPendingExports()).resolves.toBe(1);
+
+      const [filter, update] = mockedDataExport.findOneAndUpdate.mock.calls[0];
+      expect(filter.$or).toEqual(
+        expect.arrayContaining([
+          { status: 'pending' },
+          { status: 'processing', claimedAt: { $lte: expect.any(Date) } },
+        ])
+      );
+      expect(update).toEqual({ $set: { status: 'processing', claimedAt: expect.any(Date) } });
+    });
+
+    it('only reclaims a processing export once it has gone stale', async () => {
+      mockedDataExport.findOneAndUpdate.mockResolvedValue(null);
+
+      await dataExportService.processPendingExports();
+
+      const [filter] = mockedDataExport.findOneAndUpdate.mock.calls[0];
+      const stale = filter.$or.find((clause: { claimedAt?: unknown }) => clause.claimedAt);
+      expect(stale.claimedAt.$lte.getTime()).toBeLessThanOrEqual(Date.now() - 10 * 60 * 1000);
+    });
+  });
+
+  describe('processExport', () => {
+    beforeEach(() => {
+      mockedSettings.findOne.mockResolvedValue(null);
+      jest.spyOn(dataExportService, 'buildArchive').mockResolvedValue(Buffer.from('zip'));
+    });
+
+    it('stores the archive and emails the download link', async () => {
+      findUser({ email: 'jane@example.com' });
+      const exportDoc = queuedExport();
+
+      await dataExportService.processExport(exportDoc as never);
+
+      expect(savePrivateFile).toHaveBeenCalledWith(expect.any(Buffer), expect.stringContaining(USER_ID));
+      expect(exportDoc.status).toBe('completed');
+      expect(emailService.sendDataExportEmail).toHaveBeenCalledWith(
+        'jane@example.com',
+        expect.stringContaining('/users/exports/download?token='),
+        expect.any(Date)
+      );
+    });
+
+    it('refuses an account that is pending deletion', async () => {
+      const select = findUser({ email: 'jane@example.com', deletedAt: new Date() });
+      const exportDoc = queuedExport();
+
+      await dataExportService.processExport(exportDoc as never);
+
+      expect(select).toHaveBeenCalledWith(expect.stringContaining('deletedAt'));
+      expect(exportDoc.status).toBe('failed');
+      expect(savePrivateFile).not.toHaveBeenCalled();
+    });
+
+    it('keeps a delivered export completed when the notification fails', async () => {
+      findUser({ email: 'jane@example.com' });
+      (createNotification as jest.Mock).mockRejectedValue(new Error('Notification store down'));
+      const exportDoc = queuedExport();
+
+      await dataExportService.processExport(exportDoc as never);
+
+      expect(exportDoc.status).toBe('completed');
+      expect(exportDoc.error).toBeUndefined();
+    });
+  });
+});
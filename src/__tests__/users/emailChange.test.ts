@@ -0,0 +1,140 @@
+import { Request, Response } from 'express';
+import { User } from '../../models/User.model';
+import { emailChangeService } from '../../services/emailChange.service';
+import { tokenService } from '../../services/token.service';
+import { confirmEmailChange, revertEmailChange } from '../../controllers/user.controller';
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn(), findOne: jest.fn() },
+}));
+
+jest.mock('../../services/emailChange.service', () => ({
+  emailChangeService: {
+    confirmChange: jest.fn(),
+    sendChangeNotice: jest.fn(),
+    consumeRevertToken: jest.fn(),
+    cancelChange: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/token.service', () => ({
+  tokenService: { revokeAllSessions: jest.fn() },
+}));
+
+const mockedUser = User as unknown as { findById: jest.Mock; findOne: jest.Mock };
+const mockedEmailChange = emailChangeService as unknown as {
+  confirmChange: jest.Mock;
+  sendChangeNotice: jest.Mock;
+  consumeRevertToken: jest.Mock;
+  cancelChange: jest.Mock;
+};
+
+const USER_ID = '64b000000000000000000001';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const account = (fields: Record<string, unknown> = {}) => ({
+  _id: USER_ID,
+  email: 'old@example.com',
+  password: '$2a$10$hash',
+  save: jest.fn(),
+  set: jest.fn(function (this: Record<string, unknown>, path: string, value: unknown) {
+    this[path] = value;
+  }),
+  ...fields,
+});
+
+describe('Email change', () => {
+  describe('confirmEmailChange', () => {
+    const request = { user: { id: USER_ID }, body: { otp: '123456' } } as unknown as Request;
+
+    it('switches the email and signs out every device', async () => {
+      const user = account();
+      mockedUser.findById.mockResolvedValue(user);
+      mockedUser.findOne.mockResolvedValue(null);
+      mockedEmailChange.confirmChange.mockResolvedValue({ status: 'confirmed', newEmail: 'new@example.com' });
+      const res = createResponse();
+
+      await confirmEmailChange(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(user.email).toBe('new@example.com');
+      expect(tokenService.revokeAllSessions).toHaveBeenCalledWith(USER_ID);
+      expect(mockedEmailChange.sendChangeNotice).toHaveBeenCalledWith(
+        USER_ID,
+        'old@example.com',
+        'new@example.com'
+      );
+    });
+
+    it('answers 409 when another account took the address at the same moment', async () => {
+      const user = account();
+      user.save.mockRejectedValue(Object.assign(new Error('E11000 duplicate key error'), { code: 11000 }));
+      mockedUser.findById.mockResolvedValue(user);
+      mockedUser.findOne.mockResolvedValue(null);
+      mockedEmailChange.confirmChange.mockResolvedValue({ status: 'confirmed', newEmail: 'new@example.com' });
+      const res = createResponse();
+
+      await confirmEmailChange(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(res.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: { message: 'Email is already in use', statusCode: 409 } })
+      );
+      expect(tokenService.revokeAllSessions).not.toHaveBeenCalled();
+    });
+
+    it('counts a wrong code without changing anything', async () => {
+      const user = account();
+      mockedUser.findById.mockResolvedValue(user);
+      mockedEmailChange.confirmChange.mockResolvedValue({ status: 'invalid', attemptsLeft: 3 });
+      const res = createResponse();
+
+      await confirmEmailChange(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(user.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revertEmailChange', () => {
+    const request = { body: { token: 'revert-token' } } as unknown as Request;
+
+    it('restores the old email, clears the password and signs out everywhere', async () => {
+      const user = account({ email: 'attacker@example.com' });
+      mockedEmailChange.consumeRevertToken.mockResolvedValue({
+        id: USER_ID,
+        oldEmail: 'old@example.com',
+        newEmail: 'attacker@example.com',
+        purpose: 'email_change_revert',
+      });
+      mockedUser.findById.mockResolvedValue(user);
+      mockedUser.findOne.mockResolvedValue(null);
+      const res = createResponse();
+
+      await revertEmailChange(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(user.email).toBe('old@example.com');
+      expect(user.set).toHaveBeenCalledWith('password', undefined);
+      expect(user.save).toHaveBeenCalled();
+      expect(mockedEmailChange.cancelChange).toHaveBeenCalledWith(USER_ID);
+      expect(tokenService.revokeAllSessions).toHaveBeenCalledWith(USER_ID);
+    });
+
+    it('refuses a used or expired link', async () => {
+      mockedEmailChange.consumeRevertToken.mockResolvedValue(null);
+      const res = createResponse();
+
+      await revertEmailChange(request, res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(mockedUser.findById).not.toHaveBeenCalled();
+    });
+  });
+});
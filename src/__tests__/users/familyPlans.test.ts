@@ -0,0 +1,104 @@
+import { FamilyMember } from '../../models/FamilyMember.model';
+import { Subscription } from '../../models/Subscription.model';
+import { User } from '../../models/User.model';
+import { emailService } from '../../services/email.service';
+import { familyService } from '../../services/family.service';
+
+jest.mock('../../models/FamilyMember.model', () => ({
+  FamilyMember: Object.assign(jest.fn(), {
+    findOne: jest.fn(),
+    countDocuments: jest.fn(),
+    deleteOne: jest.fn(),
+  }),
+}));
+
+jest.mock('../../models/Subscription.model', () => ({
+  Subscription: { findWithAccess: jest.fn() },
+}));
+
+jest.mock('../../models/User.model', () => ({
+  User: { findOne: jest.fn() },
+}));
+
+jest.mock('../../services/email.service', () => ({
+  emailService: { sendFamilyInviteEmail: jest.fn() },
+}));
+
+jest.mock('../../services/notification.service', () => ({
+  createNotification: jest.fn(),
+}));
+
+const mockedFamilyMember = FamilyMember as unknown as jest.Mock & {
+  findOne: jest.Mock;
+  countDocuments: jest.Mock;
+  deleteOne: jest.Mock;
+};
+const mockedSubscription = Subscription as unknown as { findWithAccess: jest.Mock };
+const mockedUser = User as unknown as { findOne: jest.Mock };
+
+const OWNER_ID = '64b000000000000000000001';
+const owner = { _id: OWNER_ID, name: 'Jane', email: 'jane@example.com' } as never;
+
+describe('Family plans', () => {
+  describe('inviteMember', () => {
+    beforeEach(() => {
+      mockedSubscription.findWithAccess.mockResolvedValue({
+        _id: 's1',
+        packageId: { type: 'family', maxFamilyMembers: 2 },
+      });
+      mockedFamilyMember.findOne.mockResolvedValue(null);
+      mockedFamilyMember.mockImplementation((fields: Record<string, unknown>) => ({
+        _id: 'm_new',
+        ...fields,
+        save: jest.fn(),
+      }));
+      mockedUser.findOne.mockReturnValue({ select: jest.fn().mockResolvedValue(null) });
+    });
+
+    it('sends an invite while a seat is free', async () => {
+      mockedFamilyMember.countDocuments.mockResolvedValueOnce(1).mockResolvedValueOnce(2);
+
+      const membership = await familyService.inviteMember(owner, ' Sam@Example.com ');
+
+      expect(membership).toHaveProperty('email', 'sam@example.com');
+      expect(emailService.sendFamilyInviteEmail).toHaveBeenCalledWith(
+        'sam@example.com',
+        'Jane',
+        expect.stringContaining('/family/join?token='),
+        expect.any(Date)
+      );
+      expect(mockedFamilyMember.deleteOne).not.toHaveBeenCalled();
+    });
+
+    it('refuses an invite when every seat is taken', async () => {
+      mockedFamilyMember.countDocuments.mockResolvedValue(2);
+
+      await expect(familyService.inviteMember(owner, 'sam@example.com')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(mockedFamilyMember).not.toHaveBeenCalled();
+    });
+
+    it('gives the seat back when a concurrent invite took the last one', async () => {
+      // Both invites saw one free seat; this one counts three after saving
+      mockedFamilyMember.countDocuments.mockResolvedValueOnce(1).mockResolvedValueOnce(3);
+
+      await expect(familyService.inviteMember(owner, 'sam@example.com')).rejects.toMatchObject({
+        statusCode: 409,
+      });
+      expect(mockedFamilyMember.deleteOne).toHaveBeenCalledWith({ _id: 'm_new' });
+      expect(emailService.sendFamilyInviteEmail).not.toHaveBeenCalled();
+    });
+
+    it('re-sends an existing invite without taking another seat', async () => {
+      const existing = { _id: 'm1', email: 'sam@example.com', status: 'invited', save: jest.fn() };
+      mockedFamilyMember.findOne.mockResolvedValue(existing);
+      mockedFamilyMember.countDocuments.mockResolvedValue(2);
+
+      await familyService.inviteMember(owner, 'sam@example.com');
+
+      expect(existing.save).toHaveBeenCalled();
+      expect(mockedFamilyMember.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+});
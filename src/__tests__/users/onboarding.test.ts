@@ -0,0 +1,144 @@
+import { OnboardingQuestion } from '../../models/OnboardingQuestion.model';
+import { Category } from '../../models/Category.model';
+import { Program } from '../../models/Program.model';
+import { onboardingService } from '../../services/onboarding.service';
+
+jest.mock('../../models/OnboardingQuestion.model', () => ({
+  OnboardingQuestion: { find: jest.fn() },
+}));
+
+jest.mock('../../models/Category.model', () => ({
+  Category: { find: jest.fn() },
+}));
+
+jest.mock('../../models/Program.model', () => ({
+  Program: { findOne: jest.fn() },
+}));
+
+const mockedQuestion = OnboardingQuestion as unknown as { find: jest.Mock };
+const mockedCategory = Category as unknown as { find: jest.Mock };
+const mockedProgram = Program as unknown as { findOne: jest.Mock };
+
+const QUESTIONS = [
+  {
+    key: 'goal',
+    title: 'What brings you here?',
+    required: true,
+    multiple: true,
+    options: [
+      { value: 'sleep', categories: ['c-sleep'], level: 'مبتدأ' },
+      { value: 'focus', categories: ['c-focus', 'c-retired'] },
+    ],
+  },
+  {
+    key: 'time',
+    title: 'When do you want to practise?',
+    required: false,
+    multiple: false,
+    options: [
+      { value: 'morning', categories: [], reminderTime: 7 },
+      { value: 'evening', categories: [], reminderTime: 21, level: 'متوسط' },
+    ],
+  },
+];
+
+const SLEEP_PROGRAM = { _id: 'p-sleep', level: 'مبتدأ' };
+
+// Plain object standing in for the user document; set() writes dotted paths
+const newUser = () => {
+  const user = {
+    _id: '64b000000000000000000001',
+    preferences: { reminderTime: 8 } as Record<string, unknown>,
+    onboarding: undefined as unknown,
+    save: jest.fn(),
+    set: jest.fn((path: string, value: unknown) => {
+      if (path.startsWith('preferences.')) {
+        user.preferences[path.slice('preferences.'.length)] = value;
+      } else {
+        user.onboarding = value;
+      }
+    }),
+  };
+  return user;
+};
+
+const submit = (user: ReturnType<typeof newUser>, answers: unknown) =>
+  onboardingService.submitAnswers(user as never, answers);
+
+describe('Onboarding questionnaire', () => {
+  beforeEach(() => {
+    mockedQuestion.find.mockReturnValue({ sort: jest.fn().mockResolvedValue(QUESTIONS) });
+    // c-retired was disabled after the question was written
+    mockedCategory.find.mockReturnValue({ distinct: jest.fn().mockResolvedValue(['c-sleep', 'c-focus']) });
+  });
+
+  it('seeds categories, reminder time and a starting program from the answers', async () => {
+    mockedProgram.findOne.mockReturnValue({ sort: jest.fn().mockResolvedValue(SLEEP_PROGRAM) });
+    const user = newUser();
+
+    const result = await submit(user, [
+      { questionKey: 'goal', values: ['sleep', 'focus'] },
+      { questionKey: 'time', values: ['evening'] },
+    ]);
+
+    expect(result).toEqual({
+      status: 'completed',
+      categories: ['c-sleep', 'c-focus'],
+      reminderTime: 21,
+      level: 'مبتدأ',
+      recommendedProgram: SLEEP_PROGRAM,
+    });
+    expect(mockedProgram.findOne).toHaveBeenCalledWith(
+      expect.objectContaining({ level: 'مبتدأ', category: { $in: ['c-sleep', 'c-focus'] } })
+    );
+    expect(user.onboarding).toEqual(
+      expect.objectContaining({
+        answers: [
+          { questionKey: 'goal', values: ['sleep', 'focus'] },
+          { questionKey: 'time', values: ['evening'] },
+        ],
+        recommendedProgram: 'p-sleep',
+      })
+    );
+    expect(user.save).toHaveBeenCalled();
+  });
+
+  it('recommends any program of the level when none matches the categories', async () => {
+    const anyProgram = { _id: 'p-general', level: 'مبتدأ' };
+    mockedProgram.findOne
+      .mockReturnValueOnce({ sort: jest.fn().mockResolvedValue(null) })
+      .mockReturnValueOnce({ sort: jest.fn().mockResolvedValue(anyProgram) });
+
+    const result = await submit(newUser(), [{ questionKey: 'goal', values: ['sleep'] }]);
+
+    expect(result).toEqual(expect.objectContaining({ reminderTime: 8, recommendedProgram: anyProgram }));
+    expect(mockedProgram.findOne).toHaveBeenLastCalledWith({
+      level: 'مبتدأ',
+      isActive: true,
+      deletedAt: null,
+    });
+  });
+
+  it.each([
+    ['an unknown option', [{ questionKey: 'goal', values: ['wealth'] }], 'Invalid option for goal: wealth'],
+    [
+      'two options for a single-choice question',
+      [
+        { questionKey: 'goal', values: ['sleep'] },
+        { questionKey: 'time', values: ['morning', 'evening'] },
+      ],
+      'Only one option can be chosen for time',
+    ],
+    [
+      'a missing required answer',
+      [{ questionKey: 'time', values: ['morning'] }],
+      'Please answer: What brings you here?',
+    ],
+    ['an unknown question', [{ questionKey: 'age', values: ['30'] }], 'Unknown question: age'],
+  ])('rejects %s without saving', async (_case, answers, message) => {
+    const user = newUser();
+
+    await expect(submit(user, answers)).resolves.toEqual({ status: 'invalid', message });
+    expect(user.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import { User } from '../../models/User.model';
+import { Notification } from '../../models/Notification.model';
+import { getRedisClient } from '../../config/redis';
+import { sendMulticastFCMNotification } from '../../config/firebase';
+import { createNotification, sendDeferredPushes } from '../../services/notification.service';
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn() },
+}));
+
+jest.mock('../../models/Notification.model', () => ({
+  Notification: { create: jest.fn() },
+}));
+
+jest.mock('../../config/redis', () => ({
+  getRedisClient: jest.fn(),
+}));
+
+jest.mock('../../config/firebase', () => ({
+  sendFCMNotification: jest.fn(),
+  sendMulticastFCMNotification: jest.fn(),
+}));
+
+jest.mock('../../services/fcmTokenCleanup.service', () => ({
+  removeInvalidFCMToken: jest.fn(),
+}));
+
+jest.mock('../../services/email.service', () => ({
+  emailService: { sendNotificationEmail: jest.fn() },
+}));
+
+const mockedUser = User as unknown as { findById: jest.Mock };
+const mockedNotification = Notification as unknown as { create: jest.Mock };
+const mockedMulticast = sendMulticastFCMNotification as jest.Mock;
+const redisClient = {
+  del: jest.fn(),
+  get: jest.fn(),
+  incr: jest.fn(),
+  expire: jest.fn(),
+  zAdd: jest.fn(),
+  zRangeByScore: jest.fn(),
+  zRem: jest.fn(),
+};
+
+const USER_ID = '64b000000000000000000001';
+
+// 23:30 in Riyadh (UTC+3), inside quiet hours of 22:00 - 07:00
+const NIGHT = new Date('2026-03-10T20:30:00.000Z');
+const QUIET_HOURS_END = new Date('2026-03-11T04:00:00.000Z');
+// 12:00 in Riyadh
+const NOON = new Date('2026-03-11T09:00:00.000Z');
+
+const recipient = () => ({
+  _id: USER_ID,
+  timezone: 'Asia/Riyadh',
+  fcmTokens: [{ token: 'fcm-1' }],
+  preferences: {
+    notifications: {
+      quietHours: { enabled: true, start: '22:00', end: '07:00' },
+      dailyPushLimit: 3,
+    },
+  },
+  save: jest.fn(),
+});
+
+const notify = (type: 'new_content' | 'reminder') =>
+  createNotification(USER_ID, { type, title: 'Hello', message: 'New session' });
+
+describe('Quiet hours and push limits', () => {
+  beforeEach(() => {
+    (getRedisClient as jest.Mock).mockReturnValue(redisClient);
+    mockedUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(recipient()) });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('stores the in-app record and defers the push until quiet hours end', async () => {
+    jest.useFakeTimers({ now: NIGHT });
+
+    await notify('new_content');
+
+    expect(mockedNotification.create).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: USER_ID, type: 'new_content' })
+    );
+    expect(redisClient.zAdd).toHaveBeenCalledWith('notification:deferred-push', {
+      score: QUIET_HOURS_END.getTime(),
+      value: expect.stringContaining('"type":"new_content"'),
+    });
+    expect(mockedMulticast).not.toHaveBeenCalled();
+  });
+
+  it('stores the in-app record but drops a reminder during quiet hours', async () => {
+    jest.useFakeTimers({ now: NIGHT });
+
+    await notify('reminder');
+
+    expect(mockedNotification.create).toHaveBeenCalledWith(expect.objectContaining({ type: 'reminder' }));
+    expect(redisClient.zAdd).not.toHaveBeenCalled();
+    expect(mockedMulticast).not.toHaveBeenCalled();
+  });
+
+  it('stores the in-app record but drops the push once the daily limit is reached', async () => {
+    jest.useFakeTimers({ now: NOON });
+    redisClient.get.mockResolvedValue('3');
+
+    await notify('new_content');
+
+    expect(redisClient.get).toHaveBeenCalledWith(`notification:push-count:${USER_ID}:2026-03-11`);
+    expect(mockedNotification.create).toHaveBeenCalled();
+    expect(redisClient.zAdd).not.toHaveBeenCalled();
+    expect(mockedMulticast).not.toHaveBeenCalled();
+  });
+
+  it('sends outside quiet hours and counts the push on the local day', async () => {
+    jest.useFakeTimers({ now: NOON });
+    redisClient.get.mockResolvedValue('2');
+    mockedMulticast.mockResolvedValue({ successCount: 1, failureCount: 0 });
+
+    await notify('new_content');
+
+    expect(mockedMulticast).toHaveBeenCalledWith(
+      ['fcm-1'],
+      expect.objectContaining({ title: 'Hello' }),
+      {}
+    );
+    expect(redisClient.incr).toHaveBeenCalledWith(`notification:push-count:${USER_ID}:2026-03-11`);
+  });
+
+  it('sends a deferred push once it is due', async () => {
+    jest.useFakeTimers({ now: QUIET_HOURS_END });
+    const entry = JSON.stringify({ userId: USER_ID, type: 'new_content', title: 'Hello', message: 'Hi' });
+    redisClient.zRangeByScore.mockResolvedValue([entry]);
+    redisClient.zRem.mockResolvedValue(1);
+    redisClient.get.mockResolvedValue(null);
+    mockedMulticast.mockResolvedValue({ successCount: 1, failureCount: 0 });
+
+    await expect(sendDeferredPushes()).resolves.toBe(1);
+
+    expect(redisClient.zRem).toHaveBeenCalledWith('notification:deferred-push', entry);
+    expect(mockedMulticast).toHaveBeenCalledTimes(1);
+  });
+});
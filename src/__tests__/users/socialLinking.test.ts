@@ -0,0 +1,120 @@
+import { Request, Response } from 'express';
+import { User } from '../../models/User.model';
+import { socialAuthService } from '../../services/socialAuth.service';
+import { linkSocialProvider, unlinkSocialProvider } from '../../controllers/user.controller';
+
+jest.mock('../../models/User.model', () => ({
+  User: { findById: jest.fn(), findOne: jest.fn() },
+}));
+
+jest.mock('../../services/socialAuth.service', () => ({
+  socialAuthService: { verifySocialToken: jest.fn() },
+}));
+
+const mockedUser = User as unknown as { findById: jest.Mock; findOne: jest.Mock };
+const mockedSocialAuth = socialAuthService as unknown as { verifySocialToken: jest.Mock };
+
+const USER_ID = '64b000000000000000000001';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const createRequest = (provider: string, body: Record<string, unknown> = {}) =>
+  ({ user: { id: USER_ID }, params: { provider }, body }) as unknown as Request;
+
+const account = (fields: Record<string, unknown> = {}) => ({
+  _id: USER_ID,
+  email: 'jane@example.com',
+  password: '$2a$10$hash',
+  socialProviders: [] as Array<{ provider: string; providerId: string; email?: string }>,
+  save: jest.fn(),
+  ...fields,
+});
+
+const google = { provider: 'google', providerId: 'g-1', email: 'jane@gmail.com' };
+
+describe('Social provider linking', () => {
+  describe('linkSocialProvider', () => {
+    it('links a verified provider account', async () => {
+      const user = account();
+      mockedUser.findById.mockResolvedValue(user);
+      mockedUser.findOne.mockResolvedValue(null);
+      mockedSocialAuth.verifySocialToken.mockResolvedValue({ providerId: 'g-1', email: 'jane@gmail.com' });
+      const res = createResponse();
+
+      await linkSocialProvider(createRequest('google', { token: 'id-token' }), res);
+
+      expect(mockedSocialAuth.verifySocialToken).toHaveBeenCalledWith('google', 'id-token', undefined);
+      expect(user.socialProviders).toEqual([google]);
+      expect(user.save).toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('refuses a provider account already linked to another user', async () => {
+      const user = account();
+      mockedUser.findById.mockResolvedValue(user);
+      mockedUser.findOne.mockResolvedValue(account({ _id: '64b000000000000000000002' }));
+      mockedSocialAuth.verifySocialToken.mockResolvedValue({ providerId: 'g-1' });
+      const res = createResponse();
+
+      await linkSocialProvider(createRequest('google', { token: 'id-token' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(409);
+      expect(user.save).not.toHaveBeenCalled();
+    });
+
+    it('refuses a token the provider does not accept', async () => {
+      mockedUser.findById.mockResolvedValue(account());
+      mockedSocialAuth.verifySocialToken.mockRejectedValue(new Error('Invalid Google token'));
+      const res = createResponse();
+
+      await linkSocialProvider(createRequest('google', { token: 'forged' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(mockedUser.findOne).not.toHaveBeenCalled();
+    });
+
+    it('rejects an unknown provider', async () => {
+      const res = createResponse();
+
+      await linkSocialProvider(createRequest('myspace', { token: 'id-token' }), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(mockedUser.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unlinkSocialProvider', () => {
+    const findAccount = (user: ReturnType<typeof account>) => {
+      mockedUser.findById.mockReturnValue({ select: jest.fn().mockResolvedValue(user) });
+    };
+
+    it('unlinks a provider when a password is still set', async () => {
+      const user = account({ socialProviders: [google] });
+      findAccount(user);
+      const res = createResponse();
+
+      await unlinkSocialProvider(createRequest('google'), res);
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(user.socialProviders).toEqual([]);
+      expect(user.save).toHaveBeenCalled();
+    });
+
+    it('keeps the last way to sign in', async () => {
+      const user = account({ password: undefined, socialProviders: [google] });
+      findAccount(user);
+      const res = createResponse();
+
+      await unlinkSocialProvider(createRequest('google'), res);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(user.socialProviders).toEqual([google]);
+      expect(user.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import { Request, Response } from 'express';
+import { ListeningSession } from '../../models/ListeningSession.model';
+import { getUserStreak } from '../../controllers/userStats.controller';
+
+jest.mock('../../models/ListeningSession.model', () => ({
+  ListeningSession: { find: jest.fn() },
+}));
+
+jest.mock('../../utils/cache', () => ({
+  __esModule: true,
+  default: { get: jest.fn(), set: jest.fn() },
+}));
+
+const mockedSession = ListeningSession as unknown as { find: jest.Mock };
+
+const USER_ID = '64b000000000000000000001';
+
+const createResponse = () => {
+  const res = {} as Response & { status: jest.Mock; json: jest.Mock };
+  res.status = jest.fn().mockReturnValue(res);
+  res.json = jest.fn().mockReturnValue(res);
+  return res;
+};
+
+const listened = (...startTimes: string[]) => {
+  const sessions = startTimes.map((startTime) => ({ startTime: new Date(startTime) }));
+  mockedSession.find.mockReturnValue({
+    select: jest.fn().mockReturnValue({ sort: jest.fn().mockResolvedValue(sessions) }),
+  });
+};
+
+const streakFor = async (timezone?: string) => {
+  const res = createResponse();
+  await getUserStreak({ user: { id: USER_ID, timezone } } as unknown as Request, res);
+  const [body] = res.json.mock.calls[0];
+  return body.data;
+};
+
+describe('Listening streaks', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("buckets sessions by the user's local day", async () => {
+    // 23:00 and 01:00 the next night in Tokyo (UTC+9), both on March 9 in UTC
+    listened('2026-03-09T14:00:00.000Z', '2026-03-09T16:00:00.000Z');
+    jest.useFakeTimers({ now: new Date('2026-03-10T03:00:00.000Z') });
+
+    await expect(streakFor('Asia/Tokyo')).resolves.toMatchObject({ currentStreak: 2, longestStreak: 2 });
+    await expect(streakFor()).resolves.toMatchObject({ currentStreak: 1, longestStreak: 1 });
+  });
+
+  it("keeps the streak alive until the user's own day is over", async () => {
+    // 16:00 on March 9 in Los Angeles (UTC-7); it is still March 10 there at 03:00 UTC on March 11
+    listened('2026-03-09T23:00:00.000Z');
+    jest.useFakeTimers({ now: new Date('2026-03-11T03:00:00.000Z') });
+
+    await expect(streakFor('America/Los_Angeles')).resolves.toMatchObject({ currentStreak: 1 });
+    await expect(streakFor()).resolves.toMatchObject({ currentStreak: 0 });
+  });
+
+  it('falls back to UTC for an unknown timezone', async () => {
+    listened('2026-03-09T14:00:00.000Z', '2026-03-09T16:00:00.000Z');
+    jest.useFakeTimers({ now: new Date('2026-03-10T03:00:00.000Z') });
+
+    await expect(streakFor('Mars/Olympus_Mons')).resolves.toMatchObject({ currentStreak: 1 });
+  });
+});
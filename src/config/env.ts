@@ -24,6 +24,7 @@ interface EnvConfig {
   R2_SECRET_ACCESS_KEY?: string;
   R2_BUCKET_NAME?: string;
   R2_PUBLIC_URL?: string;
+  R2_PRIVATE_BUCKET_NAME?: string; // Non-public bucket for personal data (exports)
   // Resend Email Configuration
   RESEND_API_KEY?: string;
   // Twilio (optional, for backwards compatibility)
@@ -45,6 +46,10 @@ interface EnvConfig {
   FIREBASE_PRIVATE_KEY?: string;
   FIREBASE_CLIENT_EMAIL?: string;
   FIREBASE_SERVICE_ACCOUNT_BASE64?: string;
+  ACCOUNT_DELETION_GRACE_DAYS: number;
+  REFERRAL_REWARD_DAYS: number;
+  DUNNING_GRACE_DAYS: number;
+  DUNNING_RETRY_INTERVAL_DAYS: number;
 }
 
 class EnvValidator {
@@ -101,6 +106,7 @@ class EnvValidator {
       R2_SECRET_ACCESS_KEY: process.env.R2_SECRET_ACCESS_KEY,
       R2_BUCKET_NAME: process.env.R2_BUCKET_NAME,
       R2_PUBLIC_URL: process.env.R2_PUBLIC_URL,
+      R2_PRIVATE_BUCKET_NAME: process.env.R2_PRIVATE_BUCKET_NAME,
       // Resend Email Configuration
       RESEND_API_KEY: process.env.RESEND_API_KEY,
       // Twilio (optional)
@@ -131,6 +137,18 @@ class EnvValidator {
       FIREBASE_PRIVATE_KEY: process.env.FIREBASE_PRIVATE_KEY,
       FIREBASE_CLIENT_EMAIL: process.env.FIREBASE_CLIENT_EMAIL,
       FIREBASE_SERVICE_ACCOUNT_BASE64: process.env.FIREBASE_SERVICE_ACCOUNT_BASE64,
+      ACCOUNT_DELETION_GRACE_DAYS: process.env.ACCOUNT_DELETION_GRACE_DAYS
+        ? this.validateNumber('ACCOUNT_DELETION_GRACE_DAYS', process.env.ACCOUNT_DELETION_GRACE_DAYS)
+        : 30,
+      REFERRAL_REWARD_DAYS: process.env.REFERRAL_REWARD_DAYS
+        ? this.validateNumber('REFERRAL_REWARD_DAYS', process.env.REFERRAL_REWARD_DAYS)
+        : 30,
+      DUNNING_GRACE_DAYS: process.env.DUNNING_GRACE_DAYS
+        ? this.validateNumber('DUNNING_GRACE_DAYS', process.env.DUNNING_GRACE_DAYS)
+        : 7,
+      DUNNING_RETRY_INTERVAL_DAYS: process.env.DUNNING_RETRY_INTERVAL_DAYS
+        ? this.validateNumber('DUNNING_RETRY_INTERVAL_DAYS', process.env.DUNNING_RETRY_INTERVAL_DAYS)
+        : 2,
     };
   }
 }
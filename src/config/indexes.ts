@@ -14,6 +14,20 @@ import Package from '../models/Package.model';
 import Payment from '../models/Payment.model';
 import Coupon from '../models/Coupon.model';
 import Notification from '../models/Notification.model';
+import LoginEvent from '../models/LoginEvent.model';
+import AdminAuditLog from '../models/AdminAuditLog.model';
+import DataExport from '../models/DataExport.model';
+import FamilyMember from '../models/FamilyMember.model';
+import OnboardingQuestion from '../models/OnboardingQuestion.model';
+import Referral from '../models/Referral.model';
+import BanAppeal from '../models/BanAppeal.model';
+import WebhookEvent from '../models/WebhookEvent.model';
+import TrialFingerprint from '../models/TrialFingerprint.model';
+
+// Models whose unique indexes the app relies on for correctness (one
+// subscription per user, each webhook event once, one trial per card).
+// Startup fails when these can't be built, e.g. because of duplicate data.
+const REQUIRED_INDEX_MODELS = ['Subscription', 'WebhookEvent', 'TrialFingerprint'];
 
 /**
  * Create all database indexes
@@ -37,6 +51,15 @@ export const createIndexes = async (): Promise<void> => {
       { name: 'Payment', model: Payment },
       { name: 'Coupon', model: Coupon },
       { name: 'Notification', model: Notification },
+      { name: 'LoginEvent', model: LoginEvent },
+      { name: 'AdminAuditLog', model: AdminAuditLog },
+      { name: 'DataExport', model: DataExport },
+      { name: 'FamilyMember', model: FamilyMember },
+      { name: 'OnboardingQuestion', model: OnboardingQuestion },
+      { name: 'Referral', model: Referral },
+      { name: 'BanAppeal', model: BanAppeal },
+      { name: 'WebhookEvent', model: WebhookEvent },
+      { name: 'TrialFingerprint', model: TrialFingerprint },
     ];
 
     // Create indexes for all models
@@ -59,6 +82,15 @@ export const createIndexes = async (): Promise<void> => {
     ).length;
     const failed = results.length - successful;
 
+    const missingRequired = results
+      .filter((r) => r.status === 'fulfilled' && !r.value.success)
+      .map((r) => (r as PromiseFulfilledResult<{ name: string }>).value.name)
+      .filter((name) => REQUIRED_INDEX_MODELS.includes(name));
+
+    if (missingRequired.length > 0) {
+      throw new Error(`Required indexes could not be created for: ${missingRequired.join(', ')}`);
+    }
+
     if (failed === 0) {
       logger.info(`✅ All indexes created successfully (${successful}/${results.length})`);
     } else {
@@ -94,6 +126,15 @@ export const dropIndexes = async (): Promise<void> => {
       Payment,
       Coupon,
       Notification,
+      LoginEvent,
+      AdminAuditLog,
+      DataExport,
+      FamilyMember,
+      OnboardingQuestion,
+      Referral,
+      BanAppeal,
+      WebhookEvent,
+      TrialFingerprint,
     ];
 
     await Promise.all(
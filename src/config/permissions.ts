@@ -0,0 +1,109 @@
+/**
+ * Admin permissions and the roles that grant them
+ */
+
+export const PERMISSIONS = [
+  'users:read',
+  'users:write',
+  'users:ban',
+  'users:delete',
+  'users:export',
+  'subscriptions:grant',
+  'coupons:read',
+  'coupons:write',
+  'content:read',
+  'content:write',
+  'packages:read',
+  'packages:write',
+  'payments:read',
+  'payments:refund',
+  'payments:export',
+  'payments:webhooks',
+  'analytics:read',
+  'notifications:read',
+  'notifications:send',
+  'notifications:broadcast',
+  'search:manage',
+  'settings:manage',
+  'system:health',
+  'roles:manage',
+  'audit:read',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+export const ADMIN_ROLES = ['super_admin', 'content_editor', 'support', 'finance'] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+/**
+ * Permissions granted by each admin role
+ */
+export const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  content_editor: [
+    'content:read',
+    'content:write',
+    'packages:read',
+    'analytics:read',
+    'notifications:read',
+    'notifications:send',
+  ],
+  support: [
+    'users:read',
+    'users:write',
+    'users:ban',
+    'users:export',
+    'subscriptions:grant',
+    'coupons:read',
+    'content:read',
+    'payments:read',
+    'notifications:read',
+    'notifications:send',
+  ],
+  finance: [
+    'users:read',
+    'coupons:read',
+    'coupons:write',
+    'packages:read',
+    'packages:write',
+    'payments:read',
+    'payments:refund',
+    'payments:export',
+    'payments:webhooks',
+    'analytics:read',
+  ],
+};
+
+/**
+ * Admins created before roles existed have no adminRole and keep full access
+ */
+export const DEFAULT_ADMIN_ROLE: AdminRole = 'super_admin';
+
+/**
+ * Check whether an admin role grants a permission
+ */
+export const hasPermission = (
+  adminRole: AdminRole | undefined,
+  permission: Permission
+): boolean => {
+  return ROLE_PERMISSIONS[adminRole || DEFAULT_ADMIN_ROLE].includes(permission);
+};
+
+/**
+ * Check whether an admin role may manage (edit, ban, unban) an account with the given role
+ * Other admins can only be managed by roles that can also manage roles
+ */
+export const canManageUser = (
+  adminRole: AdminRole | undefined,
+  targetRole: string
+): boolean => {
+  return targetRole !== 'admin' || hasPermission(adminRole, 'roles:manage');
+};
+
+/**
+ * Get every permission granted by an admin role
+ */
+export const getRolePermissions = (adminRole: AdminRole | undefined): Permission[] => {
+  return [...ROLE_PERMISSIONS[adminRole || DEFAULT_ADMIN_ROLE]];
+};
@@ -53,6 +53,19 @@ export const getR2BucketName = (): string => {
   return env.R2_BUCKET_NAME;
 };
 
+// Check if the private bucket (never served publicly) is configured
+export const isR2PrivateConfigured = (): boolean => {
+  return isR2Configured() && !!env.R2_PRIVATE_BUCKET_NAME;
+};
+
+// Get R2 private bucket name
+export const getR2PrivateBucketName = (): string => {
+  if (!env.R2_PRIVATE_BUCKET_NAME) {
+    throw new Error('R2_PRIVATE_BUCKET_NAME is not configured');
+  }
+  return env.R2_PRIVATE_BUCKET_NAME;
+};
+
 // Get R2 public URL
 export const getR2PublicUrl = (): string => {
   if (!env.R2_PUBLIC_URL) {
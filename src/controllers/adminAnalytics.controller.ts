@@ -3,8 +3,10 @@ import { User } from '../models/User.model';
 import { Track } from '../models/Track.model';
 import { Program } from '../models/Program.model';
 import { Payment } from '../models/Payment.model';
+import { Subscription } from '../models/Subscription.model';
 import { ListeningSession } from '../models/ListeningSession.model';
 import { UserProgram } from '../models/UserProgram.model';
+import { Referral } from '../models/Referral.model';
 import { successResponse, errorResponse } from '../utils/response';
 import logger from '../utils/logger';
 import cache from '../utils/cache';
@@ -383,6 +385,12 @@ export const getRevenueAnalytics = async (
       revenueByPackage: unknown[];
       revenueOverTime: unknown[];
       churnRate: number;
+      trials: {
+        started: number;
+        active: number;
+        converted: number;
+        conversionRate: number;
+      };
     }>(cacheKey);
 
     if (cached) {
@@ -398,7 +406,7 @@ export const getRevenueAnalytics = async (
     const thirtyDaysAgo = new Date(now);
     thirtyDaysAgo.setDate(now.getDate() - 30);
 
-    const [totalRevenueData, monthlyRevenue, revenueByPackage, churnData] =
+    const [totalRevenueData, monthlyRevenue, revenueByPackage, churnData, trialData] =
       await Promise.all([
         Payment.aggregate([
           {
@@ -498,6 +506,33 @@ export const getRevenueAnalytics = async (
             },
           },
         ]),
+
+        Subscription.aggregate([
+          {
+            $match: { trialStartedAt: { $ne: null }, deletedAt: null },
+          },
+          {
+            $group: {
+              _id: null,
+              started: { $sum: 1 },
+              active: {
+                $sum: {
+                  $cond: [{ $eq: ['$stripeStatus', 'trialing'] }, 1, 0],
+                },
+              },
+              ended: {
+                $sum: {
+                  $cond: [{ $lte: ['$trialEndsAt', now] }, 1, 0],
+                },
+              },
+              converted: {
+                $sum: {
+                  $cond: [{ $ifNull: ['$trialConvertedAt', false] }, 1, 0],
+                },
+              },
+            },
+          },
+        ]),
       ]);
 
     const totalRevenue = totalRevenueData[0]?.totalRevenue || 0;
@@ -557,6 +592,13 @@ export const getRevenueAnalytics = async (
     const churnRate =
       (cancelledSubscriptions / totalSubscriptions) * 100;
 
+    // Conversion is measured against trials that have ended
+    const trialsEnded = trialData[0]?.ended || 0;
+    const trialsConverted = trialData[0]?.converted || 0;
+    const trialConversionRate = trialsEnded
+      ? (trialsConverted / trialsEnded) * 100
+      : 0;
+
     const analytics = {
       totalRevenue: Math.round(totalRevenue * 100) / 100,
       mrr: Math.round(mrr * 100) / 100,
@@ -564,6 +606,12 @@ export const getRevenueAnalytics = async (
       revenueByPackage,
       revenueOverTime,
       churnRate: Math.round(churnRate * 100) / 100,
+      trials: {
+        started: trialData[0]?.started || 0,
+        active: trialData[0]?.active || 0,
+        converted: trialsConverted,
+        conversionRate: Math.round(trialConversionRate * 100) / 100,
+      },
     };
 
     cache.set(cacheKey, analytics, 300);
@@ -930,3 +978,116 @@ export const getPopularTracksAnalytics = async (
     errorResponse(res, message, 500);
   }
 };
+
+/**
+ * @desc    Get referral program analytics
+ * @route   GET /api/v1/admin/analytics/referrals
+ * @access  Private (Admin)
+ */
+export const getReferralAnalytics = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { limit = '10' } = req.query;
+
+    const cacheKey = `admin_referrals_${limit}`;
+    const cached = cache.get<Record<string, unknown>>(cacheKey);
+
+    if (cached) {
+      successResponse(
+        res,
+        cached,
+        'Referral analytics retrieved successfully'
+      );
+      return;
+    }
+
+    const thirtyDaysAgo = new Date();
+    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
+
+    const [statusCounts, recentSignups, recentConversions, topReferrers] = await Promise.all([
+      Referral.aggregate([
+        {
+          $group: {
+            _id: '$status',
+            count: { $sum: 1 },
+            rewardDays: { $sum: '$rewardDays' },
+          },
+        },
+      ]),
+      Referral.countDocuments({ createdAt: { $gte: thirtyDaysAgo } }),
+      Referral.countDocuments({ convertedAt: { $gte: thirtyDaysAgo } }),
+      Referral.aggregate([
+        {
+          $group: {
+            _id: '$referrerId',
+            referrals: { $sum: 1 },
+            conversions: {
+              $sum: { $cond: [{ $in: ['$status', ['converted', 'rewarded']] }, 1, 0] },
+            },
+            rewardDays: {
+              $sum: { $cond: [{ $eq: ['$status', 'rewarded'] }, '$rewardDays', 0] },
+            },
+          },
+        },
+        { $sort: { conversions: -1, referrals: -1 } },
+        { $limit: parseInt(limit as string) },
+        {
+          $lookup: {
+            from: 'users',
+            localField: '_id',
+            foreignField: '_id',
+            as: 'user',
+          },
+        },
+        { $unwind: { path: '$user', preserveNullAndEmptyArrays: true } },
+      ]),
+    ]);
+
+    const countFor = (status: string) =>
+      statusCounts.find((item) => item._id === status) || { count: 0, rewardDays: 0 };
+
+    const totalReferrals = statusCounts.reduce((sum, item) => sum + item.count, 0);
+    const totalConversions = countFor('converted').count + countFor('rewarded').count;
+
+    const result = {
+      totalReferrals,
+      totalConversions,
+      conversionRate:
+        totalReferrals > 0 ? Math.round((totalConversions / totalReferrals) * 10000) / 100 : 0,
+      pendingReferrals: countFor('pending').count,
+      rewardsGranted: countFor('rewarded').count,
+      rewardDaysGranted: countFor('rewarded').rewardDays,
+      rewardsAwaitingSubscription: countFor('converted').count,
+      last30Days: {
+        referrals: recentSignups,
+        conversions: recentConversions,
+      },
+      topReferrers: topReferrers.map((item) => ({
+        userId: item._id,
+        name: item.user?.name || 'Deleted user',
+        email: item.user?.email,
+        referralCode: item.user?.referralCode,
+        referrals: item.referrals,
+        conversions: item.conversions,
+        rewardDays: item.rewardDays,
+      })),
+    };
+
+    cache.set(cacheKey, result, 300);
+
+    successResponse(
+      res,
+      result,
+      'Referral analytics retrieved successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Get referral analytics error:', error);
+    const message =
+      error instanceof Error
+        ? error.message
+        : 'Failed to get referral analytics';
+    errorResponse(res, message, 500);
+  }
+};
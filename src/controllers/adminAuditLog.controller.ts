@@ -0,0 +1,114 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import { AdminAuditLog, AUDIT_ENTITY_TYPES, AuditEntityType } from '../models/AdminAuditLog.model';
+import logger from '../utils/logger';
+
+/**
+ * List admin actions from the audit log
+ * GET /api/v1/admin/audit-log
+ * Query: actor, entityType, entityId, action, success, from, to, page, limit
+ */
+export const getAuditLog = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const {
+      page = '1',
+      limit = '50',
+      actor,
+      entityType,
+      entityId,
+      action,
+      success,
+      from,
+      to,
+    } = req.query;
+
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    // Build query
+    const query: Record<string, unknown> = {};
+
+    if (actor) {
+      if (typeof actor !== 'string' || !mongoose.Types.ObjectId.isValid(actor)) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid actor ID',
+        });
+        return;
+      }
+      query.actorId = actor;
+    }
+
+    if (entityType) {
+      if (!AUDIT_ENTITY_TYPES.includes(entityType as AuditEntityType)) {
+        res.status(400).json({
+          success: false,
+          message: `entityType must be one of: ${AUDIT_ENTITY_TYPES.join(', ')}`,
+        });
+        return;
+      }
+      query.entityType = entityType;
+    }
+
+    if (entityId && typeof entityId === 'string') {
+      query.entityId = entityId;
+    }
+
+    if (action && typeof action === 'string') {
+      query.action = action;
+    }
+
+    if (success !== undefined) {
+      query.success = success === 'true';
+    }
+
+    // Filter by date range
+    if (from || to) {
+      const fromDate = from ? new Date(from as string) : undefined;
+      const toDate = to ? new Date(to as string) : undefined;
+
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        res.status(400).json({
+          success: false,
+          message: 'Invalid date range',
+        });
+        return;
+      }
+
+      query.timestamp = {
+        ...(fromDate && { $gte: fromDate }),
+        ...(toDate && { $lte: toDate }),
+      };
+    }
+
+    const [entries, total] = await Promise.all([
+      AdminAuditLog.find(query)
+        .populate('actorId', 'name email adminRole')
+        .sort({ timestamp: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      AdminAuditLog.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        entries,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          pages: Math.ceil(total / limitNum),
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('Get audit log error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch audit log',
+    });
+  }
+};
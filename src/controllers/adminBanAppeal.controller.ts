@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { BanAppeal } from '../models/BanAppeal.model';
+import { banService } from '../services/ban.service';
+import { AppError } from '../middlewares/errorHandler';
+import logger from '../utils/logger';
+
+/**
+ * List ban appeals (pending first, oldest first) with pagination
+ * GET /api/v1/admin/appeals
+ */
+export const listBanAppeals = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { page = '1', limit = '20', status = 'pending' } = req.query;
+
+    if (!['pending', 'approved', 'denied', 'closed', 'all'].includes(status as string)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status. Must be pending, approved, denied, closed, or all',
+      });
+      return;
+    }
+
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const query: Record<string, unknown> = {};
+    if (status !== 'all') {
+      query.status = status;
+    }
+
+    const [appeals, total] = await Promise.all([
+      BanAppeal.find(query)
+        .populate('userId', 'name email phone avatar isBanned bannedUntil banReason')
+        .populate('reviewedBy', 'name email')
+        .sort({ createdAt: status === 'pending' ? 1 : -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      BanAppeal.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: appeals,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    logger.error('List ban appeals error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch ban appeals',
+    });
+  }
+};
+
+/**
+ * Review a ban appeal: approve lifts the ban, deny keeps it
+ * Shared by the approve and deny routes
+ */
+const reviewBanAppeal = async (
+  req: Request,
+  res: Response,
+  decision: 'approved' | 'denied'
+): Promise<void> => {
+  try {
+    const { appealId } = req.params;
+    const { note } = req.body;
+
+    if (note !== undefined && (typeof note !== 'string' || note.length > 1000)) {
+      res.status(400).json({
+        success: false,
+        message: 'Note must be a string of at most 1000 characters',
+      });
+      return;
+    }
+
+    const appeal = await banService.reviewAppeal(
+      appealId,
+      req.user?.id as string,
+      decision,
+      note?.trim() || undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      message: decision === 'approved' ? 'Appeal approved and user unbanned' : 'Appeal denied',
+      data: appeal,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+    logger.error('Review ban appeal error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review ban appeal',
+    });
+  }
+};
+
+/**
+ * Approve a ban appeal and unban the user
+ * POST /api/v1/admin/appeals/:appealId/approve
+ */
+export const approveBanAppeal = (req: Request, res: Response): Promise<void> =>
+  reviewBanAppeal(req, res, 'approved');
+
+/**
+ * Deny a ban appeal
+ * POST /api/v1/admin/appeals/:appealId/deny
+ */
+export const denyBanAppeal = (req: Request, res: Response): Promise<void> =>
+  reviewBanAppeal(req, res, 'denied');
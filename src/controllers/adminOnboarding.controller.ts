@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { OnboardingQuestion } from '../models/OnboardingQuestion.model';
+import logger from '../utils/logger';
+import { successResponse, errorResponse } from '../utils/response';
+
+/**
+ * @desc    Get all onboarding questions (including inactive)
+ * @route   GET /api/v1/admin/onboarding/questions
+ * @access  Private/Admin
+ */
+export const getAllOnboardingQuestions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const questions = await OnboardingQuestion.find({ deletedAt: null })
+      .sort({ displayOrder: 1, createdAt: 1 })
+      .populate('options.categories', 'name nameEn')
+      .select('-deletedAt');
+
+    successResponse(res, questions, 'Onboarding questions retrieved successfully', 200);
+  } catch (error: unknown) {
+    logger.error('Admin get onboarding questions error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to retrieve onboarding questions';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Create onboarding question
+ * @route   POST /api/v1/admin/onboarding/questions
+ * @access  Private/Admin
+ */
+export const createOnboardingQuestion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { key, title, description, multiple, required, options, displayOrder, isActive = true } = req.body;
+
+    // Check if a question already uses this key
+    const existingQuestion = await OnboardingQuestion.findOne({ key: String(key).toLowerCase() });
+    if (existingQuestion) {
+      errorResponse(res, 'Onboarding question with this key already exists', 400);
+      return;
+    }
+
+    const question = await OnboardingQuestion.create({
+      key,
+      title,
+      description,
+      multiple,
+      required,
+      options,
+      displayOrder: displayOrder || 0,
+      isActive,
+    });
+
+    logger.info(`Onboarding question created: ${question.key} by admin ${req.user?.id}`);
+    successResponse(res, question, 'Onboarding question created successfully', 201);
+  } catch (error: unknown) {
+    logger.error('Create onboarding question error:', error);
+    if (error instanceof Error && error.name === 'ValidationError') {
+      errorResponse(res, error.message, 400);
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to create onboarding question';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Update onboarding question
+ * @route   PUT /api/v1/admin/onboarding/questions/:id
+ * @access  Private/Admin
+ */
+export const updateOnboardingQuestion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { title, description, multiple, required, options, displayOrder, isActive } = req.body;
+
+    const question = await OnboardingQuestion.findOne({ _id: id, deletedAt: null });
+    if (!question) {
+      errorResponse(res, 'Onboarding question not found', 404);
+      return;
+    }
+
+    // The key is not editable: submitted answers refer to it
+    if (title !== undefined) question.title = title;
+    if (description !== undefined) question.description = description;
+    if (multiple !== undefined) question.multiple = multiple;
+    if (required !== undefined) question.required = required;
+    if (options !== undefined) question.options = options;
+    if (displayOrder !== undefined) question.displayOrder = displayOrder;
+    if (isActive !== undefined) question.isActive = isActive;
+
+    await question.save();
+
+    logger.info(`Onboarding question updated: ${question.key} by admin ${req.user?.id}`);
+    successResponse(res, question, 'Onboarding question updated successfully');
+  } catch (error: unknown) {
+    logger.error('Update onboarding question error:', error);
+    if (error instanceof Error && error.name === 'ValidationError') {
+      errorResponse(res, error.message, 400);
+      return;
+    }
+    const message = error instanceof Error ? error.message : 'Failed to update onboarding question';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Delete onboarding question
+ * @route   DELETE /api/v1/admin/onboarding/questions/:id
+ * @access  Private/Admin
+ */
+export const deleteOnboardingQuestion = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const question = await OnboardingQuestion.findOne({ _id: id, deletedAt: null });
+    if (!question) {
+      errorResponse(res, 'Onboarding question not found', 404);
+      return;
+    }
+
+    // Hard delete: users keep their stored answers, and the key becomes reusable
+    await question.deleteOne();
+
+    logger.info(`Onboarding question deleted: ${question.key} by admin ${req.user?.id}`);
+    successResponse(res, null, 'Onboarding question deleted successfully');
+  } catch (error: unknown) {
+    logger.error('Delete onboarding question error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to delete onboarding question';
+    errorResponse(res, message, 500);
+  }
+};
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { Package } from '../models/Package.model';
 import logger from '../utils/logger';
 import { cacheDel } from '../config/redis';
+import { stripeSubscriptionService } from '../services/stripeSubscription.service';
 
 /**
  * Get all packages (admin)
@@ -86,7 +87,9 @@ export const updatePackage = async (
       'price',
       'discount',
       'durationInDays',
+      'trialDays',
       'features',
+      'maxFamilyMembers',
       'isActive',
       'displayOrder',
     ];
@@ -133,6 +136,15 @@ export const updatePackage = async (
       return;
     }
 
+    // Keep the Stripe price in step; new subscribers are billed the new price
+    if (pkg.stripePriceId) {
+      try {
+        await stripeSubscriptionService.syncPackagePrice(pkg);
+      } catch (error) {
+        logger.error(`Failed to sync Stripe price for package ${pkg._id}:`, error);
+      }
+    }
+
     // Clear cache
     await cacheDel('subscription:packages:active');
 
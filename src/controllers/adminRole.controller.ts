@@ -0,0 +1,181 @@
+import { Request, Response } from 'express';
+import { User } from '../models/User.model';
+import {
+  ADMIN_ROLES,
+  AdminRole,
+  DEFAULT_ADMIN_ROLE,
+  ROLE_PERMISSIONS,
+  getRolePermissions,
+} from '../config/permissions';
+import logger from '../utils/logger';
+
+/**
+ * List admin roles and the permissions they grant
+ * GET /api/v1/admin/roles
+ */
+export const getRoles = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const roles = ADMIN_ROLES.map((role) => ({
+      role,
+      permissions: ROLE_PERMISSIONS[role],
+    }));
+
+    res.status(200).json({
+      success: true,
+      data: { roles },
+    });
+  } catch (error) {
+    logger.error('Get roles error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch roles',
+    });
+  }
+};
+
+/**
+ * Get the current admin's role and permissions
+ * GET /api/v1/admin/roles/me
+ */
+export const getMyPermissions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const adminRole = req.user?.adminRole || DEFAULT_ADMIN_ROLE;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        adminRole,
+        permissions: getRolePermissions(adminRole),
+      },
+    });
+  } catch (error) {
+    logger.error('Get my permissions error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch permissions',
+    });
+  }
+};
+
+/**
+ * List admin staff with their roles
+ * GET /api/v1/admin/staff
+ */
+export const listStaff = async (_req: Request, res: Response): Promise<void> => {
+  try {
+    const staff = await User.find({ role: 'admin', deletedAt: null })
+      .select('name email avatar adminRole twoFactorEnabled createdAt')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        staff: staff.map((admin) => ({
+          ...admin,
+          adminRole: admin.adminRole || DEFAULT_ADMIN_ROLE,
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error('List staff error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch staff',
+    });
+  }
+};
+
+/**
+ * Assign an admin role to a user, or revoke admin access
+ * PUT /api/v1/admin/users/:userId/role
+ * Body: { adminRole: 'super_admin' | 'content_editor' | 'support' | 'finance' | null }
+ */
+export const updateUserRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+    const { adminRole } = req.body as { adminRole?: AdminRole | null };
+
+    if (adminRole !== null && (!adminRole || !ADMIN_ROLES.includes(adminRole))) {
+      res.status(400).json({
+        success: false,
+        message: `adminRole must be one of: ${ADMIN_ROLES.join(', ')}, or null to revoke admin access`,
+      });
+      return;
+    }
+
+    const user = await User.findOne({ _id: userId, deletedAt: null });
+
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    // Don't let an admin lock themselves out of role management
+    if (String(user._id) === req.user?.id && adminRole !== 'super_admin') {
+      res.status(400).json({
+        success: false,
+        message: 'You cannot change your own admin role',
+      });
+      return;
+    }
+
+    // Always keep at least one super admin
+    const isSuperAdmin =
+      user.role === 'admin' && (user.adminRole || DEFAULT_ADMIN_ROLE) === 'super_admin';
+
+    if (isSuperAdmin && adminRole !== 'super_admin') {
+      const superAdminCount = await User.countDocuments({
+        role: 'admin',
+        deletedAt: null,
+        $or: [{ adminRole: 'super_admin' }, { adminRole: { $exists: false } }, { adminRole: null }],
+      });
+
+      if (superAdminCount <= 1) {
+        res.status(400).json({
+          success: false,
+          message: 'Cannot remove the last super admin',
+        });
+        return;
+      }
+    }
+
+    if (adminRole) {
+      user.role = 'admin';
+      user.adminRole = adminRole;
+    } else {
+      user.role = 'user';
+      user.adminRole = undefined;
+    }
+
+    await user.save();
+
+    logger.info(
+      `Admin ${req.user?.id} set role of user ${userId} to ${adminRole ? `admin (${adminRole})` : 'user'}`
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'User role updated successfully',
+      data: {
+        user: {
+          id: user._id,
+          name: user.name,
+          email: user.email,
+          role: user.role,
+          adminRole: user.adminRole,
+          permissions: user.role === 'admin' ? getRolePermissions(user.adminRole) : [],
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('Update user role error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update user role',
+    });
+  }
+};
@@ -7,6 +7,9 @@ import { ListeningSession } from '../models/ListeningSession.model';
 import { Notification } from '../models/Notification.model';
 import { Payment } from '../models/Payment.model';
 import { Package } from '../models/Package.model';
+import { banService } from '../services/ban.service';
+import { stripeSubscriptionService } from '../services/stripeSubscription.service';
+import { canManageUser } from '../config/permissions';
 import logger from '../utils/logger';
 import { Parser } from 'json2csv';
 
@@ -171,12 +174,11 @@ export const updateUser = async (
     const { userId } = req.params;
     const updateData = req.body;
 
-    // Fields that can be updated
+    // Fields that can be updated (roles are changed via PUT /admin/users/:userId/role)
     const allowedFields = [
       'name',
       'email',
       'phone',
-      'role',
       'isVerified',
       'avatar',
     ];
@@ -197,6 +199,25 @@ export const updateUser = async (
       return;
     }
 
+    const target = await User.findOne({ _id: userId, deletedAt: null }).select('role');
+
+    if (!target) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    // Changing an admin's email or verification would let the caller take the account over
+    if (!canManageUser(req.user?.adminRole, target.role)) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to modify admin accounts',
+      });
+      return;
+    }
+
     // Update user
     const user = await User.findOneAndUpdate(
       { _id: userId, deletedAt: null },
@@ -270,6 +291,9 @@ export const deleteUser = async (
     });
 
     if (subscription) {
+      if (subscription.stripeSubscriptionId) {
+        await stripeSubscriptionService.setAutoRenew(subscription, false);
+      }
       subscription.status = 'cancelled';
       subscription.cancellationDate = new Date();
       await subscription.save();
@@ -326,6 +350,14 @@ export const banUser = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    if (!canManageUser(req.user?.adminRole, user.role)) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to ban admin accounts',
+      });
+      return;
+    }
+
     // Set ban
     user.isBanned = true;
     user.banReason = reason;
@@ -383,6 +415,14 @@ export const unbanUser = async (
       return;
     }
 
+    if (!canManageUser(req.user?.adminRole, user.role)) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to unban admin accounts',
+      });
+      return;
+    }
+
     if (!user.isBanned) {
       res.status(400).json({
         success: false,
@@ -391,12 +431,8 @@ export const unbanUser = async (
       return;
     }
 
-    // Remove ban
-    user.isBanned = false;
-    user.bannedUntil = undefined;
-    user.banReason = undefined;
-
-    await user.save();
+    // Remove ban (also closes any open appeal)
+    await banService.liftBan(user);
 
     logger.info(`Admin ${req.user?.id} unbanned user ${userId}`);
 
@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { WebhookEvent } from '../models/WebhookEvent.model';
+import { stripeWebhookService } from '../services/stripeWebhook.service';
+import { AppError } from '../middlewares/errorHandler';
+import logger from '../utils/logger';
+
+/**
+ * List Stripe webhook events (failed ones by default), newest first
+ * GET /api/v1/admin/webhooks/events
+ */
+export const listWebhookEvents = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { page = '1', limit = '20', status = 'failed', type } = req.query;
+
+    if (!['received', 'processed', 'failed', 'all'].includes(status as string)) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid status. Must be received, processed, failed, or all',
+      });
+      return;
+    }
+
+    const pageNum = Math.max(1, parseInt(page as string));
+    const limitNum = Math.min(100, Math.max(1, parseInt(limit as string)));
+    const skip = (pageNum - 1) * limitNum;
+
+    const query: Record<string, unknown> = {};
+    if (status !== 'all') {
+      query.status = status;
+    }
+    if (type) {
+      query.type = type;
+    }
+
+    const [events, total] = await Promise.all([
+      WebhookEvent.find(query)
+        .select('-payload')
+        .populate('reprocessedBy', 'name email')
+        .sort({ receivedAt: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      WebhookEvent.countDocuments(query),
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: events,
+      pagination: {
+        page: pageNum,
+        limit: limitNum,
+        total,
+        totalPages: Math.ceil(total / limitNum),
+      },
+    });
+  } catch (error) {
+    logger.error('List webhook events error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch webhook events',
+    });
+  }
+};
+
+/**
+ * Get a webhook event with its Stripe payload
+ * GET /api/v1/admin/webhooks/events/:id
+ */
+export const getWebhookEvent = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const event = await WebhookEvent.findById(req.params.id)
+      .populate('reprocessedBy', 'name email')
+      .lean();
+
+    if (!event) {
+      res.status(404).json({
+        success: false,
+        message: 'Webhook event not found',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: event,
+    });
+  } catch (error) {
+    logger.error('Get webhook event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch webhook event',
+    });
+  }
+};
+
+/**
+ * Process a failed webhook event again
+ * POST /api/v1/admin/webhooks/events/:id/reprocess
+ */
+export const reprocessWebhookEvent = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const event = await stripeWebhookService.reprocess(req.params.id, req.user?.id as string);
+    const succeeded = event.status === 'processed';
+
+    res.status(succeeded ? 200 : 502).json({
+      success: succeeded,
+      message: succeeded ? 'Webhook event processed' : `Reprocessing failed: ${event.lastError}`,
+      data: event,
+    });
+  } catch (error) {
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        message: error.message,
+      });
+      return;
+    }
+    logger.error('Reprocess webhook event error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to reprocess webhook event',
+    });
+  }
+};
@@ -1,12 +1,222 @@
 import { Request, Response } from 'express';
-import { User } from '../models/User.model';
+import { User, IUser } from '../models/User.model';
 import { otpService } from '../services/otp.service';
-import { tokenService } from '../services/token.service';
+import { accountDeletionService } from '../services/accountDeletion.service';
+import { tokenService, DeviceInfo, DeviceSession } from '../services/token.service';
 import { socialAuthService } from '../services/socialAuth.service';
+import { twoFactorService } from '../services/twoFactor.service';
+import { magicLinkService } from '../services/magicLink.service';
+import { loginAuditService, LoginAttempt } from '../services/loginAudit.service';
+import { loginBackoffService } from '../services/loginBackoff.service';
+import { referralService } from '../services/referral.service';
+import { LoginMethod } from '../models/LoginEvent.model';
+import { createNotification } from '../services/notification.service';
 import { JWTUtil } from '../utils/jwt';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
 import logger from '../utils/logger';
 import { successResponse, errorResponse } from '../utils/response';
 
+const OTP_LOCKED_MESSAGE = 'Too many invalid OTP attempts. Please try again later.';
+
+/**
+ * Read device details for a new session from the request
+ */
+const getDeviceInfo = (req: Request): DeviceInfo => {
+  const { deviceName, platform } = req.body || {};
+
+  return {
+    deviceName: typeof deviceName === 'string' ? deviceName.trim().substring(0, 100) : undefined,
+    platform: typeof platform === 'string' ? platform.trim().substring(0, 30) : undefined,
+    userAgent: req.headers['user-agent'],
+    ipAddress: req.ip,
+  };
+};
+
+/**
+ * Create a device session and issue its access/refresh token pair
+ */
+const issueSessionTokens = async (
+  user: IUser,
+  req: Request,
+  device: DeviceInfo = getDeviceInfo(req)
+): Promise<{ accessToken: string; refreshToken: string; sessionId: string }> => {
+  const sessionId = tokenService.generateSessionId();
+  const accessToken = user.generateJWT(sessionId);
+  const refreshToken = user.generateRefreshToken(sessionId);
+
+  await tokenService.createSession(
+    sessionId,
+    String(user._id),
+    refreshToken,
+    accessToken,
+    device
+  );
+
+  return { accessToken, refreshToken, sessionId };
+};
+
+/**
+ * Write a sign-in attempt to the login audit trail
+ */
+const auditLogin = (
+  req: Request,
+  userId: string,
+  method: LoginMethod,
+  success: boolean,
+  details: Partial<Omit<LoginAttempt, 'userId' | 'method' | 'success'>> = {}
+): Promise<void> => {
+  return loginAuditService.record({
+    userId,
+    method,
+    success,
+    device: getDeviceInfo(req),
+    country: loginAuditService.getCountry(req),
+    ...details,
+  });
+};
+
+/**
+ * Admins with 2FA enabled must complete a second login step before tokens are issued
+ */
+const requiresTwoFactor = (user: IUser): boolean => {
+  return user.role === 'admin' && user.twoFactorEnabled;
+};
+
+/**
+ * Start the second login step instead of issuing tokens
+ */
+const sendTwoFactorChallenge = async (
+  user: IUser,
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const twoFactorToken = await twoFactorService.createChallenge(
+    String(user._id),
+    getDeviceInfo(req)
+  );
+
+  if (!twoFactorToken) {
+    errorResponse(res, 'Two-factor authentication is temporarily unavailable', 503);
+    return;
+  }
+
+  successResponse(
+    res,
+    {
+      twoFactorRequired: true,
+      twoFactorToken,
+      expiresIn: twoFactorService.CHALLENGE_EXPIRY,
+    },
+    'Two-factor authentication required'
+  );
+};
+
+/**
+ * Revoke a token family after one of its rotated refresh tokens was replayed
+ */
+const handleRefreshTokenReuse = async (session: DeviceSession, req: Request): Promise<void> => {
+  logger.warn(
+    `Refresh token reuse detected for user ${session.userId} (session ${session.id}, ip ${req.ip})`
+  );
+
+  // Revoking the session blacklists every access token issued in the family
+  await tokenService.revokeSession(session.userId, session.id);
+
+  const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.REFRESH_TOKEN_REUSE, {
+    deviceName: session.deviceName,
+  });
+
+  if (notificationData) {
+    notificationData.data = {
+      sessionId: session.id,
+      deviceName: session.deviceName,
+      ipAddress: req.ip,
+    };
+    await createNotification(session.userId, notificationData);
+  }
+};
+
+/**
+ * Store a new OTP on the user (hashed) and return the plain code to send
+ */
+const assignOTP = (user: IUser): string => {
+  const otp = otpService.generateOTP();
+
+  user.otp = otpService.hashOTP(otp);
+  user.otpExpires = otpService.getOTPExpiration();
+  user.otpAttempts = 0;
+
+  return otp;
+};
+
+/**
+ * Respond with a lockout/backoff error and when the request can be retried
+ */
+const sendRetryLaterResponse = (res: Response, message: string, retryAfter: number): void => {
+  res.setHeader('Retry-After', String(retryAfter));
+  res.status(429).json({
+    success: false,
+    error: {
+      message,
+      statusCode: 429,
+      retryAfter,
+    },
+  });
+};
+
+/**
+ * Check a submitted OTP, counting wrong codes toward a lockout.
+ * Sends the error response and returns false when the code is not accepted.
+ */
+const checkOTP = async (user: IUser, otp: string, res: Response): Promise<boolean> => {
+  const retryAfter = otpService.getRetryAfterSeconds(user.otpLockedUntil);
+  if (retryAfter > 0) {
+    sendRetryLaterResponse(res, OTP_LOCKED_MESSAGE, retryAfter);
+    return false;
+  }
+
+  if (!user.otp || !user.otpExpires) {
+    errorResponse(res, 'No OTP found. Please request a new one.', 400);
+    return false;
+  }
+
+  // Count the attempt atomically before checking so parallel guesses can't exceed the cap
+  const counted = await User.findByIdAndUpdate(
+    user._id,
+    { $inc: { otpAttempts: 1 } },
+    { new: true }
+  ).select('+otpAttempts');
+  const attempts = counted?.otpAttempts ?? otpService.MAX_ATTEMPTS + 1;
+
+  if (attempts <= otpService.MAX_ATTEMPTS && otpService.verifyOTP(user.otp, otp, user.otpExpires)) {
+    await User.updateOne(
+      { _id: user._id },
+      { $set: { otpAttempts: 0 }, $unset: { otpLockedUntil: 1 } }
+    );
+    return true;
+  }
+
+  if (attempts >= otpService.MAX_ATTEMPTS) {
+    // Lock verification and burn the current code
+    const lockedUntil = otpService.getLockoutExpiration();
+    await User.updateOne(
+      { _id: user._id },
+      {
+        $set: { otpAttempts: 0, otpLockedUntil: lockedUntil },
+        $unset: { otp: 1, otpExpires: 1 },
+      }
+    );
+
+    logger.warn(`OTP verification locked for user ${String(user._id)}`);
+    sendRetryLaterResponse(res, OTP_LOCKED_MESSAGE, otpService.getRetryAfterSeconds(lockedUntil));
+    return false;
+  }
+
+  const attemptsLeft = otpService.MAX_ATTEMPTS - attempts;
+  errorResponse(res, `Invalid or expired OTP. ${attemptsLeft} attempts left`, 400);
+  return false;
+};
+
 /**
  * @desc    Register a new user
  * @route   POST /api/v1/auth/register
@@ -14,7 +224,7 @@ import { successResponse, errorResponse } from '../utils/response';
  */
 export const register = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { name, email, password } = req.body;
+    const { name, email, password, referralCode } = req.body;
 
     // Check if user already exists
     const existingUser = await User.findOne({ email: email.toLowerCase() });
@@ -23,20 +233,29 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    // Resolve the friend's referral code, if one was given
+    const referrer = referralCode ? await referralService.findReferrer(referralCode) : null;
+    if (referralCode && !referrer) {
+      errorResponse(res, 'Invalid referral code', 400);
+      return;
+    }
+
     // Create user
     const user = await User.create({
       name,
       email: email.toLowerCase(),
       password,
       isVerified: false,
+      referredBy: referrer?._id,
     });
 
-    // Generate and send OTP
-    const otp = otpService.generateOTP();
-    const otpExpires = otpService.getOTPExpiration();
+    if (referrer) {
+      await referralService.recordReferral(referrer, String(user._id));
+    }
+    await referralService.getOrCreateCode(user);
 
-    user.otp = otp;
-    user.otpExpires = otpExpires;
+    // Generate and send OTP
+    const otp = assignOTP(user);
     await user.save();
 
     // Send OTP via Email
@@ -48,6 +267,7 @@ export const register = async (req: Request, res: Response): Promise<void> => {
       name: user.name,
       email: user.email,
       isVerified: user.isVerified,
+      referralCode: user.referralCode,
     };
 
     successResponse(
@@ -75,7 +295,9 @@ export const sendOTP = async (req: Request, res: Response): Promise<void> => {
     const { email } = req.body;
 
     // Find user
-    const user = await User.findOne({ email: email.toLowerCase() }).select('+otp +otpExpires');
+    const user = await User.findOne({ email: email.toLowerCase() }).select(
+      '+otp +otpExpires +otpAttempts +otpLockedUntil'
+    );
     if (!user) {
       errorResponse(res, 'User not found', 404);
       return;
@@ -92,12 +314,15 @@ export const sendOTP = async (req: Request, res: Response): Promise<void> => {
     //   return;
     // }
 
-    // Generate and send OTP
-    const otp = otpService.generateOTP();
-    const otpExpires = otpService.getOTPExpiration();
+    // Refuse new codes while verification is locked (a fresh code would reset the counter)
+    const retryAfter = otpService.getRetryAfterSeconds(user.otpLockedUntil);
+    if (retryAfter > 0) {
+      sendRetryLaterResponse(res, OTP_LOCKED_MESSAGE, retryAfter);
+      return;
+    }
 
-    user.otp = otp;
-    user.otpExpires = otpExpires;
+    // Generate and send OTP
+    const otp = assignOTP(user);
     await user.save();
 
     await otpService.sendOTP(email, otp);
@@ -120,22 +345,22 @@ export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
     const { email, otp } = req.body;
 
     // Find user with OTP fields
-    const user = await User.findOne({ email: email.toLowerCase() }).select('+otp +otpExpires');
+    const user = await User.findOne({ email: email.toLowerCase() }).select(
+      '+otp +otpExpires +otpAttempts +otpLockedUntil'
+    );
     if (!user) {
       errorResponse(res, 'User not found', 404);
       return;
     }
 
-    // Check if OTP exists
-    if (!user.otp || !user.otpExpires) {
-      errorResponse(res, 'No OTP found. Please request a new one.', 400);
+    // Deleted accounts can only come back during their grace period
+    if (user.deletedAt && !accountDeletionService.canRestore(user)) {
+      errorResponse(res, 'Account is deactivated', 403);
       return;
     }
 
-    // Verify OTP
-    const isValid = otpService.verifyOTP(user.otp, otp, user.otpExpires);
-    if (!isValid) {
-      errorResponse(res, 'Invalid or expired OTP', 400);
+    // Verify OTP (counts wrong codes toward a lockout)
+    if (!(await checkOTP(user, otp, res))) {
       return;
     }
 
@@ -145,17 +370,17 @@ export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
     user.otpExpires = undefined;
     await user.save();
 
-    // Generate tokens
-    const accessToken = user.generateJWT();
-    const refreshToken = user.generateRefreshToken();
+    // Admins with 2FA enabled must complete a second login step
+    if (requiresTwoFactor(user)) {
+      await sendTwoFactorChallenge(user, req, res);
+      return;
+    }
 
-    // Store refresh token in Redis
-    const refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days in seconds
-    await tokenService.storeRefreshToken(
-      String(user._id),
-      refreshToken,
-      refreshTokenExpiry
-    );
+    // Signing in during the deletion grace period restores the account
+    await accountDeletionService.restore(user);
+
+    // Create device session with its own token pair
+    const { accessToken, refreshToken, sessionId } = await issueSessionTokens(user, req);
 
     // Return user and tokens
     const userResponse = {
@@ -174,6 +399,7 @@ export const verifyOTP = async (req: Request, res: Response): Promise<void> => {
         user: userResponse,
         accessToken,
         refreshToken,
+        sessionId,
       },
       'OTP verified successfully'
     );
@@ -193,29 +419,53 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   try {
     const { email, password } = req.body;
 
+    // Back off after repeated failed logins for this account from this client
+    const retryAfter = await loginBackoffService.getRetryAfter(email, req.ip);
+    if (retryAfter > 0) {
+      sendRetryLaterResponse(
+        res,
+        'Too many failed login attempts. Please try again later.',
+        retryAfter
+      );
+      return;
+    }
+
     // Find user by email
     const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
 
     if (!user) {
+      await loginBackoffService.recordFailure(email, req.ip);
       errorResponse(res, 'Invalid credentials', 401);
       return;
     }
 
-    // Check if user is deleted
-    if (user.deletedAt) {
+    // Check if user is deleted (restorable during the deletion grace period)
+    if (user.deletedAt && !accountDeletionService.canRestore(user)) {
+      await auditLogin(req, String(user._id), 'password', false, {
+        failureReason: 'account_deactivated',
+      });
       errorResponse(res, 'Account is deactivated', 403);
       return;
     }
 
-    // Compare password
-    const isPasswordMatch = await user.comparePassword(password);
+    // Compare password (accounts without one, e.g. social-only or cleared after a takeover, can't use it)
+    const isPasswordMatch = !!user.password && (await user.comparePassword(password));
     if (!isPasswordMatch) {
+      await loginBackoffService.recordFailure(email, req.ip);
+      await auditLogin(req, String(user._id), 'password', false, {
+        failureReason: 'invalid_password',
+      });
       errorResponse(res, 'Invalid credentials', 401);
       return;
     }
 
+    await loginBackoffService.reset(email, req.ip);
+
     // Check if user is verified
     if (!user.isVerified) {
+      await auditLogin(req, String(user._id), 'password', false, {
+        failureReason: 'not_verified',
+      });
       errorResponse(
         res,
         'Please verify your account with OTP before logging in',
@@ -224,17 +474,18 @@ export const login = async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Generate tokens
-    const accessToken = user.generateJWT();
-    const refreshToken = user.generateRefreshToken();
+    // Admins with 2FA enabled must complete a second login step
+    if (requiresTwoFactor(user)) {
+      await sendTwoFactorChallenge(user, req, res);
+      return;
+    }
 
-    // Store refresh token in Redis
-    const refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days in seconds
-    await tokenService.storeRefreshToken(
-      String(user._id),
-      refreshToken,
-      refreshTokenExpiry
-    );
+    // Signing in during the deletion grace period restores the account
+    await accountDeletionService.restore(user);
+
+    // Create device session with its own token pair
+    const { accessToken, refreshToken, sessionId } = await issueSessionTokens(user, req);
+    await auditLogin(req, String(user._id), 'password', true, { sessionId });
 
     // Return user and tokens
     const userResponse = {
@@ -253,6 +504,7 @@ export const login = async (req: Request, res: Response): Promise<void> => {
         user: userResponse,
         accessToken,
         refreshToken,
+        sessionId,
       },
       'Login successful'
     );
@@ -263,6 +515,230 @@ export const login = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * @desc    Complete login with a TOTP or recovery code
+ * @route   POST /api/v1/auth/2fa/verify
+ * @access  Public
+ */
+export const verifyTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { twoFactorToken, code } = req.body;
+
+    const challenge = await twoFactorService.getChallenge(twoFactorToken);
+    if (!challenge) {
+      errorResponse(res, 'Two-factor session expired. Please login again', 401);
+      return;
+    }
+
+    const user = await User.findById(challenge.userId).select(
+      '+twoFactorSecret +twoFactorRecoveryCodes'
+    );
+
+    if (
+      !user ||
+      (user.deletedAt && !accountDeletionService.canRestore(user)) ||
+      !user.twoFactorEnabled ||
+      !user.twoFactorSecret
+    ) {
+      await twoFactorService.deleteChallenge(twoFactorToken);
+      errorResponse(res, 'Two-factor session expired. Please login again', 401);
+      return;
+    }
+
+    const trimmedCode = String(code).trim();
+    let usedRecoveryCode = false;
+    let isValid = false;
+
+    if (/^\d{6}$/.test(trimmedCode)) {
+      isValid = await twoFactorService.verifyCodeOnce(
+        String(user._id),
+        user.twoFactorSecret,
+        trimmedCode
+      );
+    } else {
+      // Recovery codes are single use
+      const codeHash = twoFactorService.hashRecoveryCode(trimmedCode);
+      const recoveryCodes = user.twoFactorRecoveryCodes || [];
+
+      if (recoveryCodes.includes(codeHash)) {
+        user.twoFactorRecoveryCodes = recoveryCodes.filter((hash) => hash !== codeHash);
+        await user.save();
+        usedRecoveryCode = true;
+        isValid = true;
+      }
+    }
+
+    if (!isValid) {
+      const remaining = await twoFactorService.recordFailedAttempt(twoFactorToken, challenge);
+      logger.warn(`Failed 2FA attempt for user ${String(user._id)} (ip ${req.ip})`);
+      await auditLogin(req, String(user._id), 'two_factor', false, {
+        device: challenge.device,
+        failureReason: 'invalid_2fa_code',
+      });
+
+      if (remaining === 0) {
+        errorResponse(res, 'Too many invalid codes. Please login again', 401);
+        return;
+      }
+
+      errorResponse(res, `Invalid two-factor code. ${remaining} attempts left`, 401);
+      return;
+    }
+
+    await twoFactorService.deleteChallenge(twoFactorToken);
+
+    // Signing in during the deletion grace period restores the account
+    await accountDeletionService.restore(user);
+
+    // Create device session with the device details captured at login
+    const { accessToken, refreshToken, sessionId } = await issueSessionTokens(
+      user,
+      req,
+      challenge.device
+    );
+    await auditLogin(req, String(user._id), 'two_factor', true, {
+      device: challenge.device,
+      sessionId,
+    });
+
+    // Return user and tokens
+    const userResponse = {
+      id: String(user._id),
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar,
+      isVerified: user.isVerified,
+      role: user.role,
+      subscription: user.subscription,
+    };
+
+    successResponse(
+      res,
+      {
+        user: userResponse,
+        accessToken,
+        refreshToken,
+        sessionId,
+        ...(usedRecoveryCode && {
+          recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length || 0,
+        }),
+      },
+      'Login successful'
+    );
+  } catch (error: unknown) {
+    logger.error('Verify 2FA error:', error);
+    const message = error instanceof Error ? error.message : 'Two-factor verification failed';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Email a single-use sign-in link
+ * @route   POST /api/v1/auth/magic-link
+ * @access  Public
+ */
+export const requestMagicLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    const user = await User.findOne({ email: email.toLowerCase() });
+
+    // Same response whether or not the account exists (or the link could be
+    // sent) so emails can't be enumerated
+    if (user && (!user.deletedAt || accountDeletionService.canRestore(user))) {
+      try {
+        const token = await magicLinkService.createToken(String(user._id));
+        await magicLinkService.sendLink(user.email, token);
+      } catch (error: unknown) {
+        logger.error(`Failed to create magic link for user ${String(user._id)}:`, error);
+      }
+    }
+
+    successResponse(
+      res,
+      { expiresIn: magicLinkService.LINK_EXPIRY },
+      'If an account exists for this email, a sign-in link has been sent'
+    );
+  } catch (error: unknown) {
+    logger.error('Request magic link error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to send sign-in link';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Exchange a magic link token for an access/refresh token pair
+ * @route   GET /api/v1/auth/magic-link/verify
+ * @access  Public
+ */
+export const verifyMagicLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = String(req.query.token);
+
+    const userId = await magicLinkService.consumeToken(token);
+    if (!userId) {
+      errorResponse(res, 'Sign-in link is invalid, expired or has already been used', 401);
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    if (user.deletedAt && !accountDeletionService.canRestore(user)) {
+      errorResponse(res, 'Account is deactivated', 403);
+      return;
+    }
+
+    // Opening the link proves ownership of the email address
+    if (!user.isVerified) {
+      user.isVerified = true;
+      await user.save();
+    }
+
+    // Admins with 2FA enabled must complete a second login step
+    if (requiresTwoFactor(user)) {
+      await sendTwoFactorChallenge(user, req, res);
+      return;
+    }
+
+    // Signing in during the deletion grace period restores the account
+    await accountDeletionService.restore(user);
+
+    // Create device session with its own token pair
+    const { accessToken, refreshToken, sessionId } = await issueSessionTokens(user, req);
+    await auditLogin(req, String(user._id), 'magic_link', true, { sessionId });
+
+    // Return user and tokens
+    const userResponse = {
+      id: String(user._id),
+      name: user.name,
+      email: user.email,
+      avatar: user.avatar,
+      isVerified: user.isVerified,
+      role: user.role,
+      subscription: user.subscription,
+    };
+
+    successResponse(
+      res,
+      {
+        user: userResponse,
+        accessToken,
+        refreshToken,
+        sessionId,
+      },
+      'Login successful'
+    );
+  } catch (error: unknown) {
+    logger.error('Verify magic link error:', error);
+    const message = error instanceof Error ? error.message : 'Sign-in failed';
+    errorResponse(res, message, 500);
+  }
+};
+
 /**
  * @desc    Refresh access token
  * @route   POST /api/v1/auth/refresh-token
@@ -284,11 +760,37 @@ export const refreshToken = async (
       return;
     }
 
-    // Check if refresh token exists in Redis
-    const storedToken = await tokenService.getRefreshToken(decoded.id);
-    if (!storedToken || storedToken !== token) {
-      errorResponse(res, 'Refresh token is invalid or has been revoked', 401);
-      return;
+    let session: DeviceSession | null = null;
+
+    if (decoded.sid) {
+      // Check the token against its device session
+      session = await tokenService.getSession(decoded.sid);
+      if (!session || session.userId !== decoded.id) {
+        await auditLogin(req, decoded.id, 'refresh', false, {
+          failureReason: 'session_revoked',
+          sessionId: decoded.sid,
+        });
+        errorResponse(res, 'Refresh token is invalid or has been revoked', 401);
+        return;
+      }
+
+      // A validly signed token that is no longer current was already rotated - treat it as stolen
+      if (session.refreshToken !== token) {
+        await handleRefreshTokenReuse(session, req);
+        await auditLogin(req, decoded.id, 'refresh', false, {
+          failureReason: 'token_reuse',
+          sessionId: session.id,
+        });
+        errorResponse(res, 'Refresh token reuse detected. Please login again', 401);
+        return;
+      }
+    } else {
+      // Token issued before device sessions - check the legacy single slot
+      const storedToken = await tokenService.getRefreshToken(decoded.id);
+      if (!storedToken || storedToken !== token) {
+        errorResponse(res, 'Refresh token is invalid or has been revoked', 401);
+        return;
+      }
     }
 
     // Find user
@@ -298,20 +800,38 @@ export const refreshToken = async (
       return;
     }
 
-    // Generate new tokens
-    const newAccessToken = user.generateJWT();
-    const newRefreshToken = user.generateRefreshToken();
+    let newAccessToken: string;
+    let newRefreshToken: string;
+    let sessionId: string;
 
-    // Invalidate old refresh token
-    await tokenService.invalidateRefreshToken(String(user._id));
+    if (session) {
+      // Rotate tokens within the same device session
+      newAccessToken = user.generateJWT(session.id);
+      newRefreshToken = user.generateRefreshToken(session.id);
+      sessionId = session.id;
 
-    // Store new refresh token
-    const refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days in seconds
-    await tokenService.storeRefreshToken(
-      String(user._id),
-      newRefreshToken,
-      refreshTokenExpiry
-    );
+      // Another refresh with the same token got there first
+      if (!(await tokenService.rotateSessionTokens(session, newRefreshToken, newAccessToken))) {
+        errorResponse(res, 'Refresh token is invalid or has been revoked', 401);
+        return;
+      }
+    } else {
+      // Move the legacy token into a device session
+      await tokenService.invalidateRefreshToken(String(user._id));
+      const tokens = await issueSessionTokens(user, req);
+      newAccessToken = tokens.accessToken;
+      newRefreshToken = tokens.refreshToken;
+      sessionId = tokens.sessionId;
+    }
+
+    await auditLogin(req, String(user._id), 'refresh', true, {
+      device: {
+        ...getDeviceInfo(req),
+        deviceName: session?.deviceName,
+        platform: session?.platform,
+      },
+      sessionId,
+    });
 
     successResponse(
       res,
@@ -356,8 +876,12 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
       }
     }
 
-    // Invalidate refresh token
-    await tokenService.invalidateRefreshToken(userId);
+    // End the current device session only
+    if (req.user?.sessionId) {
+      await tokenService.revokeSession(userId, req.user.sessionId);
+    } else {
+      await tokenService.invalidateRefreshToken(userId);
+    }
 
     successResponse(res, null, 'Logout successful');
   } catch (error: unknown) {
@@ -380,7 +904,9 @@ export const forgotPassword = async (
     const { email } = req.body;
 
     // Find user
-    const user = await User.findOne({ email: email.toLowerCase() }).select('+otp +otpExpires');
+    const user = await User.findOne({ email: email.toLowerCase() }).select(
+      '+otp +otpExpires +otpAttempts +otpLockedUntil'
+    );
     if (!user) {
       errorResponse(res, 'User not found', 404);
       return;
@@ -397,12 +923,15 @@ export const forgotPassword = async (
     //   return;
     // }
 
-    // Generate and send OTP
-    const otp = otpService.generateOTP();
-    const otpExpires = otpService.getOTPExpiration();
+    // Refuse new codes while verification is locked (a fresh code would reset the counter)
+    const retryAfter = otpService.getRetryAfterSeconds(user.otpLockedUntil);
+    if (retryAfter > 0) {
+      sendRetryLaterResponse(res, OTP_LOCKED_MESSAGE, retryAfter);
+      return;
+    }
 
-    user.otp = otp;
-    user.otpExpires = otpExpires;
+    // Generate and send OTP
+    const otp = assignOTP(user);
     await user.save();
 
     await otpService.sendPasswordResetOTP(email, otp);
@@ -428,22 +957,16 @@ export const resetPassword = async (
     const { email, otp, newPassword } = req.body;
 
     // Find user with OTP fields
-    const user = await User.findOne({ email: email.toLowerCase() }).select('+otp +otpExpires');
+    const user = await User.findOne({ email: email.toLowerCase() }).select(
+      '+otp +otpExpires +otpAttempts +otpLockedUntil'
+    );
     if (!user) {
       errorResponse(res, 'User not found', 404);
       return;
     }
 
-    // Check if OTP exists
-    if (!user.otp || !user.otpExpires) {
-      errorResponse(res, 'No OTP found. Please request a new one.', 400);
-      return;
-    }
-
-    // Verify OTP
-    const isValid = otpService.verifyOTP(user.otp, otp, user.otpExpires);
-    if (!isValid) {
-      errorResponse(res, 'Invalid or expired OTP', 400);
+    // Verify OTP (counts wrong codes toward a lockout)
+    if (!(await checkOTP(user, otp, res))) {
       return;
     }
 
@@ -453,8 +976,8 @@ export const resetPassword = async (
     user.otpExpires = undefined;
     await user.save();
 
-    // Invalidate all existing refresh tokens for security
-    await tokenService.invalidateRefreshToken(String(user._id));
+    // Sign out every device for security
+    await tokenService.revokeAllSessions(String(user._id));
 
     successResponse(res, null, 'Password reset successfully. Please login.');
   } catch (error: unknown) {
@@ -498,7 +1021,11 @@ export const socialAuth = async (
 
     if (user) {
       // User exists - login
-      if (user.deletedAt) {
+      if (user.deletedAt && !accountDeletionService.canRestore(user)) {
+        await auditLogin(req, String(user._id), 'social', false, {
+          provider,
+          failureReason: 'account_deactivated',
+        });
         errorResponse(res, 'Account is deactivated', 403);
         return;
       }
@@ -507,7 +1034,12 @@ export const socialAuth = async (
       if (socialPayload.name && user.name !== socialPayload.name) {
         user.name = socialPayload.name;
       }
-      if (socialPayload.avatar && user.avatar !== socialPayload.avatar) {
+      // An uploaded avatar takes precedence over the provider's picture
+      if (
+        socialPayload.avatar &&
+        !user.avatarImages?.length &&
+        user.avatar !== socialPayload.avatar
+      ) {
         user.avatar = socialPayload.avatar;
       }
       if (socialPayload.email && user.email !== socialPayload.email) {
@@ -575,17 +1107,18 @@ export const socialAuth = async (
       }
     }
 
-    // Generate tokens
-    const accessToken = user.generateJWT();
-    const refreshToken = user.generateRefreshToken();
+    // Admins with 2FA enabled must complete a second login step
+    if (requiresTwoFactor(user)) {
+      await sendTwoFactorChallenge(user, req, res);
+      return;
+    }
 
-    // Store refresh token in Redis
-    const refreshTokenExpiry = 7 * 24 * 60 * 60; // 7 days in seconds
-    await tokenService.storeRefreshToken(
-      String(user._id),
-      refreshToken,
-      refreshTokenExpiry
-    );
+    // Signing in during the deletion grace period restores the account
+    await accountDeletionService.restore(user);
+
+    // Create device session with its own token pair
+    const { accessToken, refreshToken, sessionId } = await issueSessionTokens(user, req);
+    await auditLogin(req, String(user._id), 'social', true, { provider, sessionId });
 
     // Return user and tokens
     const userResponse = {
@@ -604,6 +1137,7 @@ export const socialAuth = async (
         user: userResponse,
         accessToken,
         refreshToken,
+        sessionId,
       },
       'Authentication successful'
     );
@@ -613,3 +1147,76 @@ export const socialAuth = async (
     errorResponse(res, message, 500);
   }
 };
+
+/**
+ * @desc    List active device sessions
+ * @route   GET /api/v1/auth/sessions
+ * @access  Private
+ */
+export const getSessions = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const sessions = await tokenService.listSessions(userId);
+
+    const sessionsResponse = sessions.map((session) => ({
+      id: session.id,
+      deviceName: session.deviceName,
+      platform: session.platform,
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt,
+      lastUsedAt: session.lastUsedAt,
+      isCurrent: session.id === req.user?.sessionId,
+    }));
+
+    successResponse(
+      res,
+      { sessions: sessionsResponse },
+      'Sessions retrieved successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Get sessions error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get sessions';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Sign out a device session remotely
+ * @route   DELETE /api/v1/auth/sessions/:id
+ * @access  Private
+ */
+export const revokeSession = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const revoked = await tokenService.revokeSession(userId, req.params.id);
+    if (!revoked) {
+      errorResponse(res, 'Session not found', 404);
+      return;
+    }
+
+    successResponse(res, null, 'Session revoked successfully');
+  } catch (error: unknown) {
+    logger.error('Revoke session error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to revoke session';
+    errorResponse(res, message, 500);
+  }
+};
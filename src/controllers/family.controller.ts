@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import { asyncHandler } from '../utils/asyncHandler';
+import { User } from '../models/User.model';
+import { IFamilyMember } from '../models/FamilyMember.model';
+import { familyService } from '../services/family.service';
+
+/**
+ * Public shape of a family member or pending invite
+ */
+const formatMember = (membership: IFamilyMember) => ({
+  id: membership._id,
+  email: membership.email,
+  status: membership.status,
+  user: membership.memberId || null,
+  invitedAt: membership.invitedAt,
+  inviteExpiresAt: membership.inviteExpiresAt,
+  joinedAt: membership.joinedAt,
+});
+
+/**
+ * @desc    Get the user's family plan (as owner or member)
+ * @route   GET /api/v1/subscriptions/family
+ * @access  Protected
+ */
+export const getFamily = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id as string;
+
+    const plan = await familyService.getOwnerPlan(userId);
+    if (plan) {
+      const members = await familyService.getMembers(userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          role: 'owner',
+          subscription: plan.subscription,
+          maxMembers: plan.maxMembers,
+          seatsUsed: members.length,
+          members: members.map(formatMember),
+        },
+      });
+      return;
+    }
+
+    const membership = await familyService.getMembership(userId);
+    if (membership) {
+      const subscription = await familyService.getSharedSubscription(userId);
+
+      res.status(200).json({
+        success: true,
+        data: {
+          role: 'member',
+          owner: membership.ownerId,
+          joinedAt: membership.joinedAt,
+          subscription,
+        },
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: null,
+      message: 'User is not part of a family plan',
+    });
+  }
+);
+
+/**
+ * @desc    Invite a member to the family plan by email
+ * @route   POST /api/v1/subscriptions/family/members
+ * @access  Protected (family plan owner)
+ */
+export const inviteFamilyMember = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const owner = await User.findById(req.user?.id);
+    if (!owner || owner.deletedAt) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const membership = await familyService.inviteMember(owner, req.body.email);
+
+    res.status(201).json({
+      success: true,
+      data: formatMember(membership),
+      message: 'Invitation sent',
+    });
+  }
+);
+
+/**
+ * @desc    Remove a member or cancel a pending invite
+ * @route   DELETE /api/v1/subscriptions/family/members/:memberId
+ * @access  Protected (family plan owner)
+ */
+export const removeFamilyMember = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    await familyService.removeMember(req.user?.id as string, req.params.memberId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Family member removed',
+    });
+  }
+);
+
+/**
+ * @desc    Accept a family plan invitation
+ * @route   POST /api/v1/subscriptions/family/join
+ * @access  Protected
+ */
+export const joinFamily = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const user = await User.findById(req.user?.id);
+    if (!user || user.deletedAt) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
+
+    const membership = await familyService.acceptInvite(user, req.body.token);
+
+    res.status(200).json({
+      success: true,
+      data: formatMember(membership),
+      message: 'You have joined the family plan',
+    });
+  }
+);
+
+/**
+ * @desc    Leave the family plan
+ * @route   POST /api/v1/subscriptions/family/leave
+ * @access  Protected (family plan member)
+ */
+export const leaveFamily = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    await familyService.leaveFamily(req.user?.id as string);
+
+    res.status(200).json({
+      success: true,
+      message: 'You have left the family plan',
+    });
+  }
+);
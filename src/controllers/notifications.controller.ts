@@ -1,6 +1,6 @@
 import { Request, Response } from 'express';
 import { Notification as NotificationModel } from '../models/Notification.model';
-import { User } from '../models/User.model';
+import { User, NOTIFICATION_TYPES } from '../models/User.model';
 import { Track } from '../models/Track.model';
 import { Program } from '../models/Program.model';
 import logger from '../utils/logger';
@@ -321,7 +321,15 @@ export const updateNotificationPreferences = async (
       return;
     }
 
-    const { newContent, achievements, reminders, subscription } = req.body;
+    const {
+      newContent,
+      achievements,
+      reminders,
+      subscription,
+      channels,
+      quietHours,
+      dailyPushLimit,
+    } = req.body;
 
     const user = await User.findById(userId);
 
@@ -357,6 +365,30 @@ export const updateNotificationPreferences = async (
     if (reminders !== undefined) user.preferences.notifications.reminders = reminders;
     if (subscription !== undefined) user.preferences.notifications.subscription = subscription;
 
+    // Per-type channel matrix, e.g. { reminder: { push: false, email: true } }
+    if (channels !== undefined) {
+      for (const type of NOTIFICATION_TYPES) {
+        for (const channel of ['push', 'inApp', 'email'] as const) {
+          if (channels[type]?.[channel] !== undefined) {
+            user.set(`preferences.notifications.channels.${type}.${channel}`, channels[type][channel]);
+          }
+        }
+      }
+    }
+
+    // Quiet hours in the user's timezone, e.g. { enabled: true, start: '22:00', end: '07:00' }
+    if (quietHours !== undefined) {
+      for (const field of ['enabled', 'start', 'end'] as const) {
+        if (quietHours[field] !== undefined) {
+          user.set(`preferences.notifications.quietHours.${field}`, quietHours[field]);
+        }
+      }
+    }
+
+    if (dailyPushLimit !== undefined) {
+      user.preferences.notifications.dailyPushLimit = dailyPushLimit;
+    }
+
     await user.save();
 
     successResponse(
@@ -9,265 +9,8 @@ import { User } from '../models/User.model';
 import { Notification as NotificationModel } from '../models/Notification.model';
 import { env } from '../config/env';
 import mongoose, { FilterQuery } from 'mongoose';
-import { createNotification } from '../services/notification.service';
-import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
-
-/**
- * @desc    Create payment intent
- * @route   POST /api/v1/payments/create-intent
- * @access  Protected
- */
-export const createPaymentIntent = asyncHandler(
-  async (req: Request, res: Response): Promise<void> => {
-    const userId = req.user?.id;
-
-    if (!userId) {
-      res.status(401).json({
-        success: false,
-        message: 'User not authenticated',
-      });
-      return;
-    }
-
-    const { packageId, couponCode } = req.body;
-
-    if (!packageId) {
-      res.status(400).json({
-        success: false,
-        message: 'Package ID is required',
-      });
-      return;
-    }
-
-    const pkg = await Package.findById(packageId);
-    if (!pkg || !pkg.isActive) {
-      res.status(404).json({
-        success: false,
-        message: 'Package not found or inactive',
-      });
-      return;
-    }
-
-    let amount = pkg.price;
-    let discountAmount = 0;
-    let finalAmount = amount;
-    let appliedCouponCode: string | undefined;
-
-    if (couponCode) {
-      const couponValidation = await Coupon.validateCoupon(couponCode, packageId);
-
-      if (couponValidation.valid && couponValidation.coupon) {
-        discountAmount = couponValidation.coupon.calculateDiscount(amount);
-        finalAmount = amount - discountAmount;
-        appliedCouponCode = couponValidation.coupon.code;
-      }
-    }
-
-    const amountInCents = Math.round(finalAmount * 100);
-
-    try {
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: amountInCents,
-        currency: pkg.currency.toLowerCase(),
-        metadata: {
-          userId: userId.toString(),
-          packageId: packageId.toString(),
-          ...(appliedCouponCode && { couponCode: appliedCouponCode }),
-        },
-        automatic_payment_methods: {
-          enabled: true,
-        },
-      });
-
-      const payment = await Payment.create({
-        userId: new mongoose.Types.ObjectId(userId),
-        subscriptionId: new mongoose.Types.ObjectId(),
-        amount,
-        currency: pkg.currency,
-        status: 'pending',
-        paymentMethod: 'visa',
-        stripePaymentIntentId: paymentIntent.id,
-        couponCode: appliedCouponCode,
-        discountAmount,
-        finalAmount,
-        metadata: {
-          packageId: packageId.toString(),
-        },
-      });
-
-      res.status(200).json({
-        success: true,
-        data: {
-          clientSecret: paymentIntent.client_secret,
-          paymentId: payment._id,
-          amount: finalAmount,
-          currency: pkg.currency,
-          discountAmount,
-        },
-      });
-    } catch (error: unknown) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to create payment intent',
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
-  }
-);
-
-/**
- * @desc    Confirm payment and create subscription
- * @route   POST /api/v1/payments/confirm
- * @access  Protected
- */
-export const confirmPayment = asyncHandler(
-  async (req: Request, res: Response): Promise<void> => {
-    const userId = req.user?.id;
-    const { paymentIntentId } = req.body;
-
-    if (!paymentIntentId) {
-      res.status(400).json({
-        success: false,
-        message: 'Payment intent ID is required',
-      });
-      return;
-    }
-
-    try {
-      const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId);
-
-      const payment = await Payment.findOne({
-        stripePaymentIntentId: paymentIntentId,
-      });
-
-      if (!payment) {
-        res.status(404).json({
-          success: false,
-          message: 'Payment not found',
-        });
-        return;
-      }
-
-      if (paymentIntent.status === 'succeeded') {
-        payment.status = 'completed';
-        payment.transactionId = paymentIntent.id;
-        await payment.save();
-
-        const packageId = payment.metadata?.packageId as string;
-        const pkg = await Package.findById(packageId);
-
-        if (!pkg) {
-          res.status(404).json({
-            success: false,
-            message: 'Package not found',
-          });
-          return;
-        }
-
-        const startDate = new Date();
-        const endDate = new Date();
-
-        if (pkg.periodType === 'month') {
-          endDate.setMonth(endDate.getMonth() + pkg.periodCount);
-        } else if (pkg.periodType === 'year') {
-          endDate.setFullYear(endDate.getFullYear() + pkg.periodCount);
-        }
-
-        const subscription = await Subscription.create({
-          userId: new mongoose.Types.ObjectId(userId),
-          packageId,
-          status: 'active',
-          startDate,
-          endDate,
-          autoRenew: true,
-          paymentMethod: payment.paymentMethod,
-        });
-
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        payment.subscriptionId = subscription._id as any;
-        await payment.save();
-
-        await User.findByIdAndUpdate(new mongoose.Types.ObjectId(userId), {
-          'subscription.packageId': packageId,
-          'subscription.status': 'active',
-          'subscription.startDate': startDate,
-          'subscription.endDate': endDate,
-          'subscription.autoRenew': true,
-        });
-
-        if (payment.couponCode) {
-          const coupon = await Coupon.findByCode(payment.couponCode);
-          if (coupon) {
-            await coupon.use();
-          }
-        }
-
-        await NotificationModel.create({
-          userId: new mongoose.Types.ObjectId(userId),
-          type: 'subscription',
-          title: 'تم الدفع بنجاح',
-          message: `تم تفعيل اشتراكك في ${pkg.name} بنجاح!`,
-          icon: '✅',
-          data: {
-            paymentId: payment._id,
-            subscriptionId: subscription._id,
-            packageId: pkg._id,
-            amount: payment.finalAmount,
-          },
-        });
-
-        const populatedSubscription = await Subscription.findById(
-          subscription._id
-        ).populate('packageId');
-
-        res.status(200).json({
-          success: true,
-          data: {
-            payment,
-            subscription: populatedSubscription,
-          },
-          message: 'Payment confirmed and subscription created successfully',
-        });
-      } else if (paymentIntent.status === 'requires_payment_method' ||
-                 paymentIntent.status === 'requires_confirmation' ||
-                 paymentIntent.status === 'requires_action') {
-        res.status(200).json({
-          success: false,
-          message: 'Payment requires further action',
-          status: paymentIntent.status,
-        });
-      } else {
-        payment.status = 'failed';
-        payment.failureReason = paymentIntent.last_payment_error?.message || 'Payment failed';
-        await payment.save();
-
-        await NotificationModel.create({
-          userId: new mongoose.Types.ObjectId(userId),
-          type: 'system',
-          title: 'فشل الدفع',
-          message: 'لم يتم إتمام عملية الدفع. يرجى المحاولة مرة أخرى.',
-          icon: '❌',
-          data: {
-            paymentId: payment._id,
-            failureReason: payment.failureReason,
-          },
-        });
-
-        res.status(200).json({
-          success: false,
-          message: payment.failureReason,
-          error: payment.failureReason,
-        });
-      }
-    } catch (error: unknown) {
-      res.status(500).json({
-        success: false,
-        message: 'Failed to confirm payment',
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
-  }
-);
+import { stripeSubscriptionService } from '../services/stripeSubscription.service';
+import { stripeWebhookService } from '../services/stripeWebhook.service';
 
 /**
  * @desc    Validate coupon
@@ -418,115 +161,10 @@ export const handleStripeWebhook = asyncHandler(
       return;
     }
 
-    switch (event.type) {
-      case 'payment_intent.succeeded': {
-        const paymentIntent = event.data.object;
+    // Failures are stored on the event and answered with 500 so Stripe retries
+    const processed = await stripeWebhookService.handleEvent(event);
 
-        const payment = await Payment.findOne({
-          stripePaymentIntentId: paymentIntent.id,
-        });
-
-        if (payment && payment.status === 'pending') {
-          payment.status = 'completed';
-          payment.transactionId = paymentIntent.id;
-          await payment.save();
-
-          const packageId = payment.metadata?.packageId as string;
-          const pkg = await Package.findById(packageId);
-
-          if (pkg) {
-            const startDate = new Date();
-            const endDate = new Date();
-
-            if (pkg.periodType === 'month') {
-              endDate.setMonth(endDate.getMonth() + pkg.periodCount);
-            } else if (pkg.periodType === 'year') {
-              endDate.setFullYear(endDate.getFullYear() + pkg.periodCount);
-            }
-
-            const subscription = await Subscription.create({
-              userId: payment.userId,
-              packageId,
-              status: 'active',
-              startDate,
-              endDate,
-              autoRenew: true,
-              paymentMethod: payment.paymentMethod,
-            });
-
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        payment.subscriptionId = subscription._id as any;
-            await payment.save();
-
-            await User.findByIdAndUpdate(payment.userId, {
-              'subscription.packageId': packageId,
-              'subscription.status': 'active',
-              'subscription.startDate': startDate,
-              'subscription.endDate': endDate,
-              'subscription.autoRenew': true,
-            });
-
-            if (payment.couponCode) {
-              const coupon = await Coupon.findByCode(payment.couponCode);
-              if (coupon) {
-                await coupon.use();
-              }
-            }
-
-            const notificationData = getNotificationTemplate(
-              NOTIFICATION_TEMPLATES.SUBSCRIPTION_ACTIVATED,
-              {
-                packageName: pkg.name,
-                packageNameAr: pkg.name,
-              }
-            );
-
-            if (notificationData) {
-              notificationData.data = {
-                paymentId: String(payment._id),
-                subscriptionId: String(subscription._id),
-                packageId: String(pkg._id),
-              };
-              await createNotification(String(payment.userId), notificationData);
-            }
-          }
-        }
-        break;
-      }
-
-      case 'payment_intent.payment_failed': {
-        const paymentIntent = event.data.object;
-
-        const payment = await Payment.findOne({
-          stripePaymentIntentId: paymentIntent.id,
-        });
-
-        if (payment) {
-          payment.status = 'failed';
-          payment.failureReason = paymentIntent.last_payment_error?.message || 'Payment failed';
-          await payment.save();
-
-          const notificationData = getNotificationTemplate(
-            NOTIFICATION_TEMPLATES.PAYMENT_FAILED,
-            {}
-          );
-
-          if (notificationData) {
-            notificationData.data = {
-              paymentId: String(payment._id),
-              failureReason: payment.failureReason,
-            };
-            await createNotification(String(payment.userId), notificationData);
-          }
-        }
-        break;
-      }
-
-      default:
-        console.log(`Unhandled event type ${event.type}`);
-    }
-
-    res.status(200).json({ received: true });
+    res.status(200).json({ received: true, duplicate: !processed });
   }
 );
 
@@ -575,6 +213,11 @@ export const refundPayment = asyncHandler(
 
       const subscription = await Subscription.findById(payment.subscriptionId);
       if (subscription && subscription.status === 'active') {
+        // Stop Stripe from billing the refunded subscription again
+        if (subscription.stripeSubscriptionId) {
+          await stripeSubscriptionService.cancelImmediately(subscription.stripeSubscriptionId);
+        }
+
         subscription.status = 'cancelled';
         subscription.endDate = new Date();
         await subscription.save();
@@ -731,8 +374,7 @@ export const createTestPayment = asyncHandler(
     });
 
     // Update payment with subscription ID
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    payment.subscriptionId = subscription._id as any;
+    payment.subscriptionId = subscription._id as IPayment['subscriptionId'];
     await payment.save();
 
     // Update user subscription info
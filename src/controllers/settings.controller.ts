@@ -1,10 +1,61 @@
 import { Request, Response } from 'express';
 import { Settings } from '../models/Settings.model';
-import { User } from '../models/User.model';
+import { User, IUser } from '../models/User.model';
+import { twoFactorService } from '../services/twoFactor.service';
 import logger from '../utils/logger';
 import bcrypt from 'bcrypt';
 import { isR2Configured } from '../config/r2';
 
+/**
+ * Load the current admin and confirm their password before a security change.
+ * Sends the error response and returns null when the check fails.
+ */
+const verifyAdminPassword = async (
+  req: Request,
+  res: Response
+): Promise<IUser | null> => {
+  const { currentPassword } = req.body;
+  const userId = req.user?.id;
+
+  if (!userId) {
+    res.status(401).json({
+      success: false,
+      message: 'User not authenticated',
+    });
+    return null;
+  }
+
+  if (!currentPassword) {
+    res.status(400).json({
+      success: false,
+      message: 'Current password is required',
+    });
+    return null;
+  }
+
+  const admin = await User.findById(userId).select('+password');
+
+  if (!admin || admin.role !== 'admin') {
+    res.status(404).json({
+      success: false,
+      message: 'Admin user not found',
+    });
+    return null;
+  }
+
+  const isPasswordValid = await admin.comparePassword(currentPassword);
+
+  if (!isPasswordValid) {
+    res.status(400).json({
+      success: false,
+      message: 'Current password is incorrect',
+    });
+    return null;
+  }
+
+  return admin;
+};
+
 /**
  * Get current settings
  * GET /api/v1/admin/settings
@@ -27,6 +78,8 @@ export const getSettings = async (
     // Check if R2 is actually configured in environment
     const r2IsConfigured = isR2Configured();
 
+    const admin = await User.findById(req.user?.id);
+
     res.status(200).json({
       success: true,
       data: {
@@ -36,6 +89,10 @@ export const getSettings = async (
           isConfigured: r2IsConfigured,
         },
         localStoragePath: settings.localStoragePath,
+        twoFactor: {
+          enabled: admin?.twoFactorEnabled || false,
+          enabledAt: admin?.twoFactorEnabledAt,
+        },
       },
     });
   } catch (error: unknown) {
@@ -192,6 +249,233 @@ export const changeAdminPassword = async (
   }
 };
 
+/**
+ * Start 2FA enrollment (returns secret and otpauth URI for the QR code)
+ * POST /api/v1/admin/settings/2fa/setup
+ */
+export const setupTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const admin = await verifyAdminPassword(req, res);
+    if (!admin) {
+      return;
+    }
+
+    if (admin.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is already enabled',
+      });
+      return;
+    }
+
+    const secret = twoFactorService.generateSecret();
+    const stored = await twoFactorService.storePendingSecret(String(admin._id), secret);
+
+    if (!stored) {
+      res.status(503).json({
+        success: false,
+        message: 'Two-factor setup is temporarily unavailable',
+      });
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Scan the QR code and confirm with a code from your authenticator app',
+      data: {
+        secret,
+        otpauthUri: twoFactorService.getOtpAuthUri(secret, admin.email),
+        expiresIn: twoFactorService.SETUP_EXPIRY,
+      },
+    });
+  } catch (error: unknown) {
+    logger.error('Setup 2FA error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to start two-factor setup';
+    res.status(500).json({
+      success: false,
+      message,
+    });
+  }
+};
+
+/**
+ * Confirm enrollment with the first code and enable 2FA
+ * POST /api/v1/admin/settings/2fa/enable
+ */
+export const enableTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const { code } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        message: 'User not authenticated',
+      });
+      return;
+    }
+
+    if (!code || typeof code !== 'string') {
+      res.status(400).json({
+        success: false,
+        message: 'Verification code is required',
+      });
+      return;
+    }
+
+    const secret = await twoFactorService.getPendingSecret(userId);
+
+    if (!secret) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor setup expired. Please start again',
+      });
+      return;
+    }
+
+    if (!twoFactorService.verifyCode(secret, code.trim())) {
+      res.status(400).json({
+        success: false,
+        message: 'Invalid verification code',
+      });
+      return;
+    }
+
+    const admin = await User.findById(userId);
+
+    if (!admin || admin.role !== 'admin') {
+      res.status(404).json({
+        success: false,
+        message: 'Admin user not found',
+      });
+      return;
+    }
+
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+
+    admin.twoFactorEnabled = true;
+    admin.twoFactorSecret = secret;
+    admin.twoFactorRecoveryCodes = hashes;
+    admin.twoFactorEnabledAt = new Date();
+    await admin.save();
+
+    await twoFactorService.clearPendingSecret(userId);
+
+    logger.info(`Two-factor authentication enabled: ${admin.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes safely',
+      data: {
+        recoveryCodes: codes,
+      },
+    });
+  } catch (error: unknown) {
+    logger.error('Enable 2FA error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to enable two-factor authentication';
+    res.status(500).json({
+      success: false,
+      message,
+    });
+  }
+};
+
+/**
+ * Disable 2FA after re-entering the password
+ * POST /api/v1/admin/settings/2fa/disable
+ */
+export const disableTwoFactor = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const admin = await verifyAdminPassword(req, res);
+    if (!admin) {
+      return;
+    }
+
+    if (!admin.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      });
+      return;
+    }
+
+    admin.twoFactorEnabled = false;
+    admin.twoFactorSecret = undefined;
+    admin.twoFactorRecoveryCodes = undefined;
+    admin.twoFactorEnabledAt = undefined;
+    await admin.save();
+
+    logger.info(`Two-factor authentication disabled: ${admin.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error: unknown) {
+    logger.error('Disable 2FA error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to disable two-factor authentication';
+    res.status(500).json({
+      success: false,
+      message,
+    });
+  }
+};
+
+/**
+ * Replace all recovery codes after re-entering the password
+ * POST /api/v1/admin/settings/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const admin = await verifyAdminPassword(req, res);
+    if (!admin) {
+      return;
+    }
+
+    if (!admin.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        message: 'Two-factor authentication is not enabled',
+      });
+      return;
+    }
+
+    const { codes, hashes } = twoFactorService.generateRecoveryCodes();
+
+    admin.twoFactorRecoveryCodes = hashes;
+    await admin.save();
+
+    logger.info(`Recovery codes regenerated: ${admin.email}`);
+
+    res.status(200).json({
+      success: true,
+      message: 'Recovery codes regenerated. Previous codes no longer work',
+      data: {
+        recoveryCodes: codes,
+      },
+    });
+  } catch (error: unknown) {
+    logger.error('Regenerate recovery codes error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to regenerate recovery codes';
+    res.status(500).json({
+      success: false,
+      message,
+    });
+  }
+};
+
 /**
  * Update storage settings
  * PUT /api/v1/admin/settings/storage
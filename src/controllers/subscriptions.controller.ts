@@ -5,7 +5,9 @@ import { Subscription } from '../models/Subscription.model';
 import { User } from '../models/User.model';
 import { Notification } from '../models/Notification.model';
 import { cacheGet, cacheSet } from '../config/redis';
-import { Schema } from 'mongoose';
+import { familyService } from '../services/family.service';
+import { stripeSubscriptionService } from '../services/stripeSubscription.service';
+import { trialService } from '../services/trial.service';
 
 /**
  * @desc    Get all subscription packages
@@ -53,10 +55,21 @@ export const getUserSubscription = asyncHandler(
 
     const subscription = await Subscription.findOne({
       userId,
-      status: 'active',
+      status: { $in: ['active', 'past_due'] },
     }).populate('packageId');
 
     if (!subscription) {
+      // Family members are covered by the owner's subscription
+      const sharedSubscription = await familyService.getSharedSubscription(userId as string);
+      if (sharedSubscription) {
+        res.status(200).json({
+          success: true,
+          data: sharedSubscription,
+          sharedViaFamily: true,
+        });
+        return;
+      }
+
       res.status(200).json({
         success: true,
         data: null,
@@ -80,7 +93,7 @@ export const getUserSubscription = asyncHandler(
 export const subscribeToPackage = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const userId = req.user?.id;
-    const { packageId, paymentMethodId } = req.body;
+    const { packageId, couponCode } = req.body;
 
     const pkg = await Package.findById(packageId);
     if (!pkg || !pkg.isActive) {
@@ -93,7 +106,7 @@ export const subscribeToPackage = asyncHandler(
 
     const existingSubscription = await Subscription.findOne({
       userId,
-      status: 'active',
+      status: { $in: ['active', 'past_due'] },
     });
 
     if (existingSubscription) {
@@ -105,53 +118,43 @@ export const subscribeToPackage = asyncHandler(
       return;
     }
 
-    const startDate = new Date();
-    const endDate = new Date();
-
-    if (pkg.periodType === 'month') {
-      endDate.setMonth(endDate.getMonth() + pkg.periodCount);
-    } else if (pkg.periodType === 'year') {
-      endDate.setFullYear(endDate.getFullYear() + pkg.periodCount);
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
     }
 
-    const subscription = await Subscription.create({
-      userId,
-      packageId,
-      status: 'active',
-      startDate,
-      endDate,
-      autoRenew: true,
-      paymentMethod: paymentMethodId,
-    });
-
-    await User.findByIdAndUpdate(userId, {
-      'subscription.packageId': packageId,
-      'subscription.status': 'active',
-      'subscription.startDate': startDate,
-      'subscription.endDate': endDate,
-      'subscription.autoRenew': true,
-    });
+    // A checkout started earlier and abandoned must not stay payable
+    await stripeSubscriptionService.cancelPendingCheckouts(user);
 
-    await Notification.create({
-      userId,
-      type: 'subscription',
-      title: 'اشتراك مفعّل',
-      message: `تم تفعيل اشتراكك في ${pkg.name} بنجاح!`,
-      icon: '🎉',
-      data: {
-        subscriptionId: subscription._id,
-        packageId: pkg._id,
-      },
-    });
+    // New users get the package's free trial: nothing is charged now, and the
+    // trial starts once the card saved with the returned SetupIntent is accepted
+    const trialDays = await trialService.claimTrial(user, pkg);
 
-    const populatedSubscription = await Subscription.findById(
-      subscription._id
-    ).populate('packageId');
+    // The subscription is activated by the invoice.paid webhook once the
+    // client confirms the first payment with the returned secret
+    let checkout;
+    try {
+      checkout = await stripeSubscriptionService.createSubscription(user, pkg, {
+        couponCode: couponCode?.trim(),
+        trialDays,
+      });
+    } catch (error) {
+      if (trialDays) {
+        await trialService.releaseTrial(user);
+      }
+      throw error;
+    }
 
     res.status(201).json({
       success: true,
-      data: populatedSubscription,
-      message: 'Subscription created successfully',
+      data: checkout,
+      message: trialDays
+        ? `Add a card to start your ${trialDays}-day free trial. You won't be charged until it ends.`
+        : 'Subscription created. Confirm the payment to activate it.',
     });
   }
 );
@@ -178,6 +181,10 @@ export const cancelSubscription = asyncHandler(
       return;
     }
 
+    if (subscription.stripeSubscriptionId) {
+      await stripeSubscriptionService.cancelScheduledChange(subscription);
+      await stripeSubscriptionService.setAutoRenew(subscription, false);
+    }
     await subscription.cancel();
 
     await Notification.create({
@@ -238,52 +245,67 @@ export const renewSubscription = asyncHandler(
       return;
     }
 
-    const newEndDate = new Date(
-      subscription.endDate > new Date()
-        ? subscription.endDate
-        : new Date()
+    const isCurrent = subscription.status === 'active' && subscription.endDate > new Date();
+    const currentPackageId = String(
+      (subscription.packageId as unknown as IPackage)?._id || subscription.packageId
     );
 
-    if (pkg.periodType === 'month') {
-      newEndDate.setMonth(newEndDate.getMonth() + pkg.periodCount);
-    } else if (pkg.periodType === 'year') {
-      newEndDate.setFullYear(newEndDate.getFullYear() + pkg.periodCount);
+    // Still billed by Stripe: renewing just turns auto-renew back on
+    if (
+      isCurrent &&
+      subscription.stripeSubscriptionId &&
+      String(pkg._id) === currentPackageId
+    ) {
+      await stripeSubscriptionService.setAutoRenew(subscription, true);
+
+      subscription.autoRenew = true;
+      subscription.cancellationDate = undefined;
+      await subscription.save();
+
+      await User.findByIdAndUpdate(userId, {
+        'subscription.autoRenew': true,
+      });
+
+      const populatedSubscription = await Subscription.findById(
+        subscription._id
+      ).populate('packageId');
+
+      res.status(200).json({
+        success: true,
+        data: populatedSubscription,
+        message: 'Subscription will renew automatically',
+      });
+      return;
     }
 
-    subscription.packageId = newPackageId as Schema.Types.ObjectId;
-    subscription.status = 'active';
-    subscription.endDate = newEndDate;
-    subscription.autoRenew = true;
+    if (isCurrent && subscription.stripeSubscriptionId) {
+      res.status(400).json({
+        success: false,
+        message: 'Use upgrade endpoint to change package.',
+      });
+      return;
+    }
 
-    await subscription.save();
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        message: 'User not found',
+      });
+      return;
+    }
 
-    await User.findByIdAndUpdate(userId, {
-      'subscription.packageId': newPackageId,
-      'subscription.status': 'active',
-      'subscription.endDate': newEndDate,
-      'subscription.autoRenew': true,
-    });
+    await stripeSubscriptionService.cancelPendingCheckouts(user);
 
-    await Notification.create({
-      userId,
-      type: 'subscription',
-      title: 'تم تجديد الاشتراك',
-      message: `تم تجديد اشتراكك في ${pkg.name} حتى ${newEndDate.toLocaleDateString('ar-SA')}`,
-      icon: '✅',
-      data: {
-        subscriptionId: subscription._id,
-        packageId: pkg._id,
-      },
+    // A legacy subscription that is still running is billed from its end date
+    const checkout = await stripeSubscriptionService.createSubscription(user, pkg, {
+      billingStartsAt: isCurrent ? subscription.endDate : undefined,
     });
 
-    const populatedSubscription = await Subscription.findById(
-      subscription._id
-    ).populate('packageId');
-
-    res.status(200).json({
+    res.status(201).json({
       success: true,
-      data: populatedSubscription,
-      message: 'Subscription renewed successfully',
+      data: checkout,
+      message: 'Renewal created. Confirm the payment to activate it.',
     });
   }
 );
@@ -296,7 +318,7 @@ export const renewSubscription = asyncHandler(
 export const upgradeSubscription = asyncHandler(
   async (req: Request, res: Response): Promise<void> => {
     const userId = req.user?.id;
-    const { newPackageId } = req.body;
+    const { newPackageId, effective } = req.body;
 
     const subscription = await Subscription.findOne({
       userId,
@@ -330,57 +352,86 @@ export const upgradeSubscription = asyncHandler(
       return;
     }
 
-    const now = new Date();
-    const daysRemaining = Math.ceil(
-      (subscription.endDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)
-    );
-
-    const oldPackageDaysTotal =
-      oldPackage.periodType === 'month'
-        ? oldPackage.periodCount * 30
-        : oldPackage.periodCount * 365;
-    const oldPackagePricePerDay = oldPackage.price / oldPackageDaysTotal;
-
-    const newPackageDaysTotal =
-      newPackage.periodType === 'month'
-        ? newPackage.periodCount * 30
-        : newPackage.periodCount * 365;
-    const newPackagePricePerDay = newPackage.price / newPackageDaysTotal;
+    if (subscription.stripeSubscriptionId) {
+      // Upgrades apply right away; downgrades wait for the period end unless asked otherwise
+      const direction = stripeSubscriptionService.getChangeDirection(oldPackage, newPackage);
+      const when = effective || (direction === 'upgrade' ? 'now' : 'period_end');
+
+      const { payment, ...proration } =
+        when === 'now'
+          ? await stripeSubscriptionService.changePackageNow(subscription, oldPackage, newPackage)
+          : await stripeSubscriptionService.scheduleChangeAtPeriodEnd(subscription, newPackage);
+
+      if (!proration.clientSecret) {
+        await Notification.create({
+          userId,
+          type: 'subscription',
+          title: 'تم تحديث الاشتراك',
+          message:
+            when === 'now'
+              ? `تم تحديث اشتراكك إلى ${newPackage.name}.`
+              : `سيتم تحويل اشتراكك إلى ${newPackage.name} في ${proration.effectiveAt.toLocaleDateString('ar-SA')}.`,
+          icon: '🔄',
+          data: {
+            subscriptionId: subscription._id,
+            oldPackageId: oldPackage._id,
+            newPackageId: newPackage._id,
+            effective: when,
+            effectiveAt: proration.effectiveAt,
+            paymentId: payment?._id,
+          },
+        });
+      }
 
-    const remainingCredit = daysRemaining * oldPackagePricePerDay;
+      const populatedSubscription = await Subscription.findById(
+        subscription._id
+      ).populate('packageId');
 
-    const creditDays = Math.floor(remainingCredit / newPackagePricePerDay);
+      res.status(200).json({
+        success: true,
+        data: populatedSubscription,
+        proration,
+        payment,
+        message: proration.clientSecret
+          ? 'Confirm the payment to complete the package change'
+          : when === 'period_end'
+            ? 'Package change scheduled for the end of the current period'
+            : direction === 'upgrade'
+              ? 'Subscription upgraded successfully'
+              : 'Subscription downgraded successfully',
+      });
+      return;
+    }
 
-    const newEndDate = new Date(now);
-    newEndDate.setDate(newEndDate.getDate() + creditDays);
+    // Package changes are charged or credited through Stripe; a subscription billed
+    // before Stripe has to be renewed onto it first
+    res.status(400).json({
+      success: false,
+      message: 'Package changes require automatic billing. Renew your subscription first.',
+    });
+  }
+);
 
-    const prorationAmount = remainingCredit - creditDays * newPackagePricePerDay;
+/**
+ * @desc    Cancel a scheduled package change
+ * @route   DELETE /api/v1/subscriptions/scheduled-change
+ * @access  Protected
+ */
+export const cancelScheduledChange = asyncHandler(
+  async (req: Request, res: Response): Promise<void> => {
+    const userId = req.user?.id;
 
-    subscription.packageId = newPackageId;
-    subscription.endDate = newEndDate;
-    await subscription.save();
+    const subscription = await Subscription.findOne({ userId });
 
-    await User.findByIdAndUpdate(userId, {
-      'subscription.packageId': newPackageId,
-      'subscription.endDate': newEndDate,
-    });
+    if (!subscription?.scheduledChange) {
+      res.status(404).json({
+        success: false,
+        message: 'No scheduled package change found',
+      });
+      return;
+    }
 
-    await Notification.create({
-      userId,
-      type: 'subscription',
-      title: 'تم تحديث الاشتراك',
-      message: `تم تحديث اشتراكك إلى ${newPackage.name}. تم تطبيق رصيد ${remainingCredit.toFixed(2)}$ على الاشتراك الجديد.`,
-      icon: '🔄',
-      data: {
-        subscriptionId: subscription._id,
-        oldPackageId: oldPackage._id,
-        newPackageId: newPackage._id,
-        prorationCredit: remainingCredit,
-        prorationAmount,
-        newEndDate,
-        creditDays,
-      },
-    });
+    await stripeSubscriptionService.cancelScheduledChange(subscription);
 
     const populatedSubscription = await Subscription.findById(
       subscription._id
@@ -389,13 +440,7 @@ export const upgradeSubscription = asyncHandler(
     res.status(200).json({
       success: true,
       data: populatedSubscription,
-      proration: {
-        remainingCredit: Math.round(remainingCredit * 100) / 100,
-        creditDays,
-        prorationAmount: Math.round(prorationAmount * 100) / 100,
-        newEndDate,
-      },
-      message: 'Subscription upgraded successfully',
+      message: 'Scheduled package change cancelled',
     });
   }
 );
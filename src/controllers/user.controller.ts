@@ -1,14 +1,23 @@
 import { Request, Response } from 'express';
 import { User } from '../models/User.model';
-import { UserFavorite } from '../models/UserFavorite.model';
-import { UserProgram } from '../models/UserProgram.model';
-import { ListeningSession } from '../models/ListeningSession.model';
-import { CustomProgram } from '../models/CustomProgram.model';
-import { Notification } from '../models/Notification.model';
+import { LoginEvent } from '../models/LoginEvent.model';
+import { accountDeletionService } from '../services/accountDeletion.service';
+import { avatarService } from '../services/avatar.service';
+import { dataExportService } from '../services/dataExport.service';
+import { emailChangeService } from '../services/emailChange.service';
+import { onboardingService } from '../services/onboarding.service';
+import { referralService } from '../services/referral.service';
+import { banService } from '../services/ban.service';
+import { AppError } from '../middlewares/errorHandler';
 import { tokenService } from '../services/token.service';
+import { socialAuthService } from '../services/socialAuth.service';
 import { getUserListeningPatterns, updateUserListeningPatterns } from '../utils/listeningStats';
 import logger from '../utils/logger';
 import { successResponse, errorResponse } from '../utils/response';
+import { isValidTimezone, isValidLocale } from '../utils/timezone';
+
+const SOCIAL_PROVIDERS = ['google', 'facebook', 'apple'] as const;
+type SocialProvider = (typeof SOCIAL_PROVIDERS)[number];
 
 /**
  * @desc    Get current user profile
@@ -44,10 +53,18 @@ export const getCurrentUser = async (
       phone: user.phone,
       email: user.email,
       avatar: user.avatar,
+      avatars: avatarService.toUrls(user.avatarImages),
       isVerified: user.isVerified,
       role: user.role,
       subscription: user.subscription,
       preferences: user.preferences,
+      timezone: user.timezone,
+      locale: user.locale,
+      referralCode: user.referralCode,
+      socialProviders: (user.socialProviders || []).map((p) => ({
+        provider: p.provider,
+        email: p.email,
+      })),
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -86,12 +103,33 @@ export const updateCurrentUser = async (
     }
 
     // Fields that can be updated
-    const { name, email, avatar, preferences } = req.body;
+    const { name, email, avatar, preferences, timezone, locale } = req.body;
+
+    // The login email is only changed through the verified email change flow
+    if (email !== undefined && String(email).toLowerCase() !== user.email) {
+      errorResponse(res, 'Use POST /api/v1/users/me/email-change to change your email', 400);
+      return;
+    }
+
+    if (timezone !== undefined && !isValidTimezone(timezone)) {
+      errorResponse(res, 'Invalid timezone. Use an IANA name such as "Asia/Riyadh"', 400);
+      return;
+    }
+
+    if (locale !== undefined && !isValidLocale(locale)) {
+      errorResponse(res, 'Invalid locale. Use a language tag such as "ar" or "en-US"', 400);
+      return;
+    }
 
     // Update fields if provided
     if (name !== undefined) user.name = name;
-    if (email !== undefined) user.email = email;
+    if (timezone !== undefined) user.timezone = timezone;
+    if (locale !== undefined) user.locale = locale;
+    // A plain avatar URL replaces any uploaded avatar files
+    const replacedAvatarImages =
+      avatar !== undefined && avatar !== user.avatar ? user.avatarImages || [] : [];
     if (avatar !== undefined) user.avatar = avatar;
+    if (replacedAvatarImages.length > 0) user.avatarImages = [];
     if (preferences !== undefined) {
       // Update preferences while maintaining structure
       if (preferences.categories)
@@ -105,6 +143,7 @@ export const updateCurrentUser = async (
     }
 
     await user.save();
+    await avatarService.deleteImages(replacedAvatarImages);
 
     // Return updated user
     const userResponse = {
@@ -113,10 +152,13 @@ export const updateCurrentUser = async (
       phone: user.phone,
       email: user.email,
       avatar: user.avatar,
+      avatars: avatarService.toUrls(user.avatarImages),
       isVerified: user.isVerified,
       role: user.role,
       subscription: user.subscription,
       preferences: user.preferences,
+      timezone: user.timezone,
+      locale: user.locale,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -133,6 +175,323 @@ export const updateCurrentUser = async (
   }
 };
 
+/**
+ * @desc    Upload a new avatar (stored as square WebP crops in several sizes)
+ * @route   PUT /api/v1/users/me/avatar
+ * @access  Private
+ */
+export const uploadAvatar = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    if (!req.file) {
+      errorResponse(res, 'No file uploaded', 400);
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    let images;
+    try {
+      images = await avatarService.updateAvatar(user, req.file.buffer);
+    } catch (error: unknown) {
+      if (error instanceof Error && error.message === 'Failed to process image') {
+        errorResponse(res, 'The uploaded file is not a valid image', 400);
+        return;
+      }
+      throw error;
+    }
+
+    successResponse(
+      res,
+      {
+        avatar: user.avatar,
+        avatars: avatarService.toUrls(images),
+        sizes: images.map(({ size, width, url }) => ({ size, width, url })),
+      },
+      'Avatar updated successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Upload avatar error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to upload avatar';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Remove the uploaded avatar
+ * @route   DELETE /api/v1/users/me/avatar
+ * @access  Private
+ */
+export const deleteAvatar = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    await avatarService.removeAvatar(user);
+
+    successResponse(res, null, 'Avatar removed successfully');
+  } catch (error: unknown) {
+    logger.error('Delete avatar error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to remove avatar';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Get the onboarding questionnaire and the user's previous answers
+ * @route   GET /api/v1/users/me/onboarding
+ * @access  Private
+ */
+export const getOnboarding = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const user = await User.findById(userId)
+      .select('onboarding deletedAt')
+      .populate('onboarding.recommendedProgram', 'title description level category thumbnailUrl contentAccess');
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    const questions = await onboardingService.getQuestions();
+
+    successResponse(
+      res,
+      {
+        completed: !!user.onboarding?.completedAt,
+        completedAt: user.onboarding?.completedAt || null,
+        answers: user.onboarding?.answers || [],
+        recommendedProgram: user.onboarding?.recommendedProgram || null,
+        questions,
+      },
+      'Onboarding questionnaire retrieved successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Get onboarding error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get onboarding questionnaire';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Submit onboarding answers and seed personalized preferences
+ * @route   POST /api/v1/users/me/onboarding
+ * @access  Private
+ */
+export const submitOnboarding = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    const result = await onboardingService.submitAnswers(user, req.body.answers);
+
+    if (result.status === 'invalid') {
+      errorResponse(res, result.message, 400);
+      return;
+    }
+
+    successResponse(
+      res,
+      {
+        preferences: {
+          categories: result.categories,
+          reminderTime: result.reminderTime,
+        },
+        level: result.level,
+        recommendedProgram: result.recommendedProgram,
+      },
+      'Onboarding completed successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Submit onboarding error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to submit onboarding answers';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Get the user's referral code, share link and referral counts
+ * @route   GET /api/v1/users/me/referral
+ * @access  Private
+ */
+export const getReferralSummary = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    const summary = await referralService.getSummary(user);
+
+    successResponse(res, { referral: summary }, 'Referral summary retrieved successfully');
+  } catch (error: unknown) {
+    logger.error('Get referral summary error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get referral summary';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Appeal the current account ban
+ * @route   POST /api/v1/users/me/appeal
+ * @access  Private (banned users allowed)
+ */
+export const submitBanAppeal = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const message = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+    if (message.length < 10 || message.length > 2000) {
+      errorResponse(res, 'Appeal message must be between 10 and 2000 characters', 400);
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    const appeal = await banService.submitAppeal(user, message);
+
+    successResponse(
+      res,
+      {
+        appeal: {
+          id: appeal._id,
+          status: appeal.status,
+          createdAt: appeal.createdAt,
+        },
+      },
+      'Appeal submitted. We will review it as soon as possible.',
+      201
+    );
+  } catch (error: unknown) {
+    if (error instanceof AppError) {
+      errorResponse(res, error.message, error.statusCode);
+      return;
+    }
+    logger.error('Submit ban appeal error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to submit appeal';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Get the status of the user's latest ban appeal
+ * @route   GET /api/v1/users/me/appeal
+ * @access  Private (banned users allowed)
+ */
+export const getBanAppeal = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const appeal = await banService.getLatestAppeal(userId);
+
+    successResponse(
+      res,
+      {
+        appeal: appeal
+          ? {
+              id: appeal._id,
+              status: appeal.status,
+              message: appeal.message,
+              reviewNote: appeal.reviewNote,
+              reviewedAt: appeal.reviewedAt,
+              createdAt: appeal.createdAt,
+            }
+          : null,
+      },
+      'Appeal retrieved successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Get ban appeal error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get appeal';
+    errorResponse(res, message, 500);
+  }
+};
+
 /**
  * @desc    Get user listening patterns
  * @route   GET /api/v1/users/listening-patterns
@@ -171,7 +530,7 @@ export const getListeningPatterns = async (
 };
 
 /**
- * @desc    Delete user account permanently
+ * @desc    Delete user account (restorable by logging in during the grace period)
  * @route   DELETE /api/v1/users/me
  * @access  Private
  */
@@ -190,36 +549,622 @@ export const deleteAccount = async (
     // Find user
     const user = await User.findById(userId);
 
-    if (!user) {
+    if (!user || user.deletedAt) {
       errorResponse(res, 'User not found', 404);
       return;
     }
 
-    // Delete all user-related data
-    await Promise.all([
-      // Delete user favorites
-      UserFavorite.deleteMany({ user: userId }),
-      // Delete user programs progress
-      UserProgram.deleteMany({ user: userId }),
-      // Delete listening sessions
-      ListeningSession.deleteMany({ user: userId }),
-      // Delete custom programs
-      CustomProgram.deleteMany({ user: userId }),
-      // Delete notifications
-      Notification.deleteMany({ user: userId }),
-      // Invalidate all tokens
-      tokenService.invalidateRefreshToken(userId),
-    ]);
-
-    // Permanently delete the user
-    await User.findByIdAndDelete(userId);
-
-    logger.info(`User account deleted: ${userId}`);
+    // Deactivate now, purge once the grace period ends
+    const deletionScheduledFor = await accountDeletionService.scheduleDeletion(user);
 
-    successResponse(res, null, 'Account deleted successfully');
+    successResponse(
+      res,
+      {
+        deletionScheduledFor,
+        gracePeriodDays: accountDeletionService.GRACE_PERIOD_DAYS,
+      },
+      'Account scheduled for deletion. Log in before the deletion date to restore it'
+    );
   } catch (error: unknown) {
     logger.error('Delete account error:', error);
     const message = error instanceof Error ? error.message : 'Failed to delete account';
     errorResponse(res, message, 500);
   }
 };
+
+/**
+ * @desc    Link a social provider to the current account
+ * @route   POST /api/v1/users/me/social/:provider
+ * @access  Private
+ */
+export const linkSocialProvider = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const provider = req.params.provider as SocialProvider;
+    const { token, user: appleUser } = req.body;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    if (!SOCIAL_PROVIDERS.includes(provider)) {
+      errorResponse(res, 'Invalid provider', 400);
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    if (user.socialProviders?.some((p) => p.provider === provider)) {
+      errorResponse(res, `A ${provider} account is already linked`, 409);
+      return;
+    }
+
+    // Verify the provider token before trusting its account id
+    let socialPayload;
+    try {
+      socialPayload = await socialAuthService.verifySocialToken(provider, token, appleUser);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Invalid social token';
+      errorResponse(res, message, 401);
+      return;
+    }
+
+    // A provider account can only sign in to one user
+    const linkedUser = await User.findOne({
+      _id: { $ne: user._id },
+      'socialProviders.provider': provider,
+      'socialProviders.providerId': socialPayload.providerId,
+    });
+
+    if (linkedUser) {
+      errorResponse(res, `This ${provider} account is already linked to another user`, 409);
+      return;
+    }
+
+    user.socialProviders = user.socialProviders || [];
+    user.socialProviders.push({
+      provider,
+      providerId: socialPayload.providerId,
+      email: socialPayload.email,
+    });
+    await user.save();
+
+    logger.info(`Social provider ${provider} linked for user ${userId}`);
+
+    successResponse(
+      res,
+      {
+        socialProviders: user.socialProviders.map((p) => ({
+          provider: p.provider,
+          email: p.email,
+        })),
+      },
+      'Social account linked successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Link social provider error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to link social account';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Unlink a social provider from the current account
+ * @route   DELETE /api/v1/users/me/social/:provider
+ * @access  Private
+ */
+export const unlinkSocialProvider = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const provider = req.params.provider as SocialProvider;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    if (!SOCIAL_PROVIDERS.includes(provider)) {
+      errorResponse(res, 'Invalid provider', 400);
+      return;
+    }
+
+    const user = await User.findById(userId).select('+password');
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    const socialProviders = user.socialProviders || [];
+
+    if (!socialProviders.some((p) => p.provider === provider)) {
+      errorResponse(res, `No ${provider} account is linked`, 404);
+      return;
+    }
+
+    // Keep at least one way to sign in
+    if (!user.password && socialProviders.length <= 1) {
+      errorResponse(
+        res,
+        'Cannot remove your last login method. Set a password or link another account first',
+        400
+      );
+      return;
+    }
+
+    user.socialProviders = socialProviders.filter((p) => p.provider !== provider);
+    await user.save();
+
+    logger.info(`Social provider ${provider} unlinked for user ${userId}`);
+
+    successResponse(
+      res,
+      {
+        socialProviders: user.socialProviders.map((p) => ({
+          provider: p.provider,
+          email: p.email,
+        })),
+      },
+      'Social account unlinked successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Unlink social provider error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to unlink social account';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Get the current user's login history
+ * @route   GET /api/v1/users/me/security/logins
+ * @access  Private
+ */
+export const getLoginHistory = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { page = '1', limit = '20', success } = req.query;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    // Build query
+    const query: Record<string, unknown> = { userId };
+
+    if (success === 'true' || success === 'false') {
+      query.success = success === 'true';
+    }
+
+    // Pagination
+    const limitNum = Math.min(Math.max(parseInt(limit as string) || 20, 1), 100);
+    const pageNum = Math.max(parseInt(page as string) || 1, 1);
+    const skip = (pageNum - 1) * limitNum;
+
+    const [events, total] = await Promise.all([
+      LoginEvent.find(query)
+        .sort({ timestamp: -1 })
+        .skip(skip)
+        .limit(limitNum)
+        .lean(),
+      LoginEvent.countDocuments(query),
+    ]);
+
+    const logins = events.map((event) => ({
+      id: event._id,
+      method: event.method,
+      provider: event.provider,
+      success: event.success,
+      failureReason: event.failureReason,
+      ipAddress: event.ipAddress,
+      userAgent: event.userAgent,
+      platform: event.platform,
+      deviceName: event.deviceName,
+      country: event.country,
+      isNewDevice: event.isNewDevice,
+      isNewCountry: event.isNewCountry,
+      isCurrentSession: !!event.sessionId && event.sessionId === req.user?.sessionId,
+      timestamp: event.timestamp,
+    }));
+
+    const totalPages = Math.ceil(total / limitNum);
+
+    successResponse(
+      res,
+      {
+        logins,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages,
+          hasNextPage: pageNum < totalPages,
+          hasPrevPage: pageNum > 1,
+        },
+      },
+      'Login history retrieved successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Get login history error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get login history';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Request a download of all personal data
+ * @route   POST /api/v1/users/me/export
+ * @access  Private
+ */
+export const requestDataExport = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const latest = await dataExportService.getLatestExport(userId);
+
+    if (latest && (latest.status === 'pending' || latest.status === 'processing')) {
+      errorResponse(res, 'A data export is already being prepared', 409);
+      return;
+    }
+
+    // One export per day
+    const retryAfter = dataExportService.getRetryAfter(latest);
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({
+        success: false,
+        error: {
+          message: 'You can request one data export per day',
+          statusCode: 429,
+          retryAfter,
+        },
+      });
+      return;
+    }
+
+    const dataExport = await dataExportService.requestExport(userId);
+
+    successResponse(
+      res,
+      {
+        exportId: dataExport._id,
+        status: dataExport.status,
+        requestedAt: dataExport.requestedAt,
+      },
+      'Data export requested. You will receive an email when it is ready',
+      202
+    );
+  } catch (error: unknown) {
+    logger.error('Request data export error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to request data export';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Get the status of the latest data export
+ * @route   GET /api/v1/users/me/export
+ * @access  Private
+ */
+export const getDataExportStatus = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const latest = await dataExportService.getLatestExport(userId);
+
+    if (!latest) {
+      successResponse(res, { export: null }, 'No data export requested');
+      return;
+    }
+
+    successResponse(
+      res,
+      {
+        export: {
+          id: latest._id,
+          status: latest.status,
+          fileSize: latest.fileSize,
+          requestedAt: latest.requestedAt,
+          completedAt: latest.completedAt,
+          expiresAt: latest.expiresAt,
+        },
+        retryAfter: dataExportService.getRetryAfter(latest),
+      },
+      'Data export status retrieved successfully'
+    );
+  } catch (error: unknown) {
+    logger.error('Get data export status error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to get data export status';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Download a data export with the signed link from the email
+ * @route   GET /api/v1/users/exports/download?token=
+ * @access  Public (signed link)
+ */
+export const downloadDataExport = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const token = req.query.token;
+
+    if (!token || typeof token !== 'string') {
+      errorResponse(res, 'Download token is required', 400);
+      return;
+    }
+
+    const dataExport = await dataExportService.getExportForToken(token);
+
+    if (!dataExport) {
+      errorResponse(res, 'Download link is invalid or has expired', 410);
+      return;
+    }
+
+    const { redirectUrl, file } = await dataExportService.getDownload(dataExport);
+
+    if (redirectUrl) {
+      res.redirect(302, redirectUrl);
+      return;
+    }
+
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="naturacalm-data-${dataExport.completedAt?.toISOString().slice(0, 10)}.zip"`
+    );
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).send(file);
+  } catch (error: unknown) {
+    logger.error('Download data export error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to download data export';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Start changing the login email (sends a code to the new address)
+ * @route   POST /api/v1/users/me/email-change
+ * @access  Private
+ */
+export const requestEmailChange = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const { password } = req.body;
+    const newEmail = String(req.body.newEmail).trim().toLowerCase();
+
+    const user = await User.findById(userId).select('+password');
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    if (newEmail === user.email) {
+      errorResponse(res, 'New email must be different from the current email', 400);
+      return;
+    }
+
+    // Accounts with a password must confirm it
+    if (user.password) {
+      if (!password || !(await user.comparePassword(password))) {
+        errorResponse(res, 'Current password is incorrect', 401);
+        return;
+      }
+    }
+
+    const existingUser = await User.findOne({ email: newEmail });
+    if (existingUser) {
+      errorResponse(res, 'Email is already in use', 409);
+      return;
+    }
+
+    const started = await emailChangeService.startChange(userId, newEmail);
+    if (started.status === 'wait') {
+      res.setHeader('Retry-After', String(started.retryAfter));
+      res.status(429).json({
+        success: false,
+        error: {
+          message: 'Please wait before requesting another verification code',
+          statusCode: 429,
+          retryAfter: started.retryAfter,
+        },
+      });
+      return;
+    }
+
+    successResponse(
+      res,
+      { newEmail, expiresIn: emailChangeService.PENDING_EXPIRY },
+      'Verification code sent to the new email address'
+    );
+  } catch (error: unknown) {
+    logger.error('Request email change error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to start email change';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Confirm the email change with the code sent to the new address
+ * @route   POST /api/v1/users/me/email-change/confirm
+ * @access  Private
+ */
+export const confirmEmailChange = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      errorResponse(res, 'User not authenticated', 401);
+      return;
+    }
+
+    const user = await User.findById(userId);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    const result = await emailChangeService.confirmChange(userId, String(req.body.otp));
+
+    if (result.status === 'expired') {
+      errorResponse(res, 'Verification code expired. Please request a new email change', 400);
+      return;
+    }
+
+    if (result.status === 'invalid') {
+      errorResponse(res, `Invalid verification code. ${result.attemptsLeft} attempts left`, 400);
+      return;
+    }
+
+    if (result.status === 'locked') {
+      res.setHeader('Retry-After', String(result.retryAfter));
+      res.status(429).json({
+        success: false,
+        error: {
+          message: 'Too many invalid codes. Please request a new email change later',
+          statusCode: 429,
+          retryAfter: result.retryAfter,
+        },
+      });
+      return;
+    }
+
+    // The address may have been taken while the code was pending
+    const existingUser = await User.findOne({ email: result.newEmail });
+    if (existingUser) {
+      errorResponse(res, 'Email is already in use', 409);
+      return;
+    }
+
+    const oldEmail = user.email;
+    user.email = result.newEmail;
+    user.isVerified = true;
+    try {
+      await user.save();
+    } catch (error) {
+      // Another account confirmed the same address between the check and the save
+      if ((error as { code?: number }).code === 11000) {
+        errorResponse(res, 'Email is already in use', 409);
+        return;
+      }
+      throw error;
+    }
+
+    // Sign out every device so the new email takes effect everywhere
+    await tokenService.revokeAllSessions(userId);
+
+    await emailChangeService.sendChangeNotice(userId, oldEmail, result.newEmail);
+
+    logger.info(`User ${userId} changed email from ${oldEmail} to ${result.newEmail}`);
+
+    successResponse(
+      res,
+      { email: user.email },
+      'Email changed successfully. Please login again.'
+    );
+  } catch (error: unknown) {
+    logger.error('Confirm email change error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to change email';
+    errorResponse(res, message, 500);
+  }
+};
+
+/**
+ * @desc    Undo an email change with the link sent to the old address
+ * @route   POST /api/v1/users/email-change/revert
+ * @access  Public (signed link)
+ */
+export const revertEmailChange = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const revert = await emailChangeService.consumeRevertToken(req.body.token);
+
+    if (!revert) {
+      errorResponse(res, 'Revert link is invalid, expired or has already been used', 401);
+      return;
+    }
+
+    const user = await User.findById(revert.id);
+
+    if (!user || user.deletedAt) {
+      errorResponse(res, 'User not found', 404);
+      return;
+    }
+
+    const existingUser = await User.findOne({ email: revert.oldEmail, _id: { $ne: user._id } });
+    if (existingUser) {
+      errorResponse(res, 'The previous email is now used by another account', 409);
+      return;
+    }
+
+    // Treat the change as an account takeover: whoever changed the email may know the
+    // password, so clear it along with pending changes and every signed-in device
+    user.email = revert.oldEmail;
+    user.set('password', undefined);
+    await user.save();
+
+    await emailChangeService.cancelChange(String(user._id));
+    await tokenService.revokeAllSessions(String(user._id));
+
+    logger.warn(`User ${String(user._id)} reverted email change back to ${revert.oldEmail}`);
+
+    successResponse(
+      res,
+      { email: user.email },
+      'Email restored, password cleared and all devices signed out. Please reset your password.'
+    );
+  } catch (error: unknown) {
+    logger.error('Revert email change error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to revert email change';
+    errorResponse(res, message, 500);
+  }
+};
@@ -2,6 +2,12 @@ import { Request, Response } from 'express';
 import { ListeningSession } from '../models/ListeningSession.model';
 import { UserProgram } from '../models/UserProgram.model';
 import { getRedisClient } from '../config/redis';
+import {
+  resolveTimezone,
+  getLocalDateKey,
+  addDaysToDateKey,
+  diffDateKeys,
+} from '../utils/timezone';
 
 /**
  * Get User Statistics
@@ -92,6 +98,7 @@ export const getWeeklyStatistics = async (
   res: Response
 ): Promise<void> => {
   const userId = req.user!.id;
+  const timezone = resolveTimezone(req.user?.timezone);
   const period = (req.query.period as string) || 'month';
 
   // Calculate date range based on period
@@ -124,8 +131,8 @@ export const getWeeklyStatistics = async (
     {
       $group: {
         _id: {
-          year: { $year: '$startTime' },
-          week: { $week: '$startTime' },
+          year: { $year: { date: '$startTime', timezone } },
+          week: { $week: { date: '$startTime', timezone } },
         },
         minutes: { $sum: { $divide: ['$durationSeconds', 60] } },
         sessionCount: { $sum: 1 },
@@ -170,6 +177,7 @@ export const getMonthlyStatistics = async (
   res: Response
 ): Promise<void> => {
   const userId = req.user!.id;
+  const timezone = resolveTimezone(req.user?.timezone);
 
   // Get last 12 months
   const now = new Date();
@@ -188,8 +196,8 @@ export const getMonthlyStatistics = async (
     {
       $group: {
         _id: {
-          year: { $year: '$startTime' },
-          month: { $month: '$startTime' },
+          year: { $year: { date: '$startTime', timezone } },
+          month: { $month: { date: '$startTime', timezone } },
         },
         minutes: { $sum: { $divide: ['$durationSeconds', 60] } },
         sessionCount: { $sum: 1 },
@@ -374,8 +382,9 @@ export const getListeningStreak = async (
   res: Response
 ): Promise<void> => {
   const userId = req.user!.id;
+  const timezone = resolveTimezone(req.user?.timezone);
 
-  // Get all distinct dates with listening activity
+  // Get all distinct dates (in the user's timezone) with listening activity
   const sessions = await ListeningSession.aggregate([
     {
       $match: {
@@ -386,7 +395,7 @@ export const getListeningStreak = async (
     {
       $group: {
         _id: {
-          $dateToString: { format: '%Y-%m-%d', date: '$startTime' },
+          $dateToString: { format: '%Y-%m-%d', date: '$startTime', timezone },
         },
       },
     },
@@ -408,24 +417,16 @@ export const getListeningStreak = async (
     return;
   }
 
-  // Convert to dates and calculate streaks
-  const dates = sessions.map((s) => new Date(s._id));
-  const lastActive = dates[0];
+  // Calculate streaks on the user's local calendar days (newest first)
+  const dates: string[] = sessions.map((s) => s._id);
+  const lastActive = new Date(dates[0]);
 
   // Calculate current streak
   let currentStreak = 0;
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = getLocalDateKey(new Date(), timezone);
 
   for (let i = 0; i < dates.length; i++) {
-    const date = new Date(dates[i]);
-    date.setHours(0, 0, 0, 0);
-
-    const expectedDate = new Date(today);
-    expectedDate.setDate(today.getDate() - i);
-    expectedDate.setHours(0, 0, 0, 0);
-
-    if (date.getTime() === expectedDate.getTime()) {
+    if (dates[i] === addDaysToDateKey(today, -i)) {
       currentStreak++;
     } else {
       break;
@@ -437,14 +438,7 @@ export const getListeningStreak = async (
   let tempStreak = 1;
 
   for (let i = 1; i < dates.length; i++) {
-    const current = new Date(dates[i]);
-    const previous = new Date(dates[i - 1]);
-    current.setHours(0, 0, 0, 0);
-    previous.setHours(0, 0, 0, 0);
-
-    const diffDays = Math.floor(
-      (previous.getTime() - current.getTime()) / (1000 * 60 * 60 * 24)
-    );
+    const diffDays = diffDateKeys(dates[i - 1], dates[i]);
 
     if (diffDays === 1) {
       tempStreak++;
@@ -477,6 +471,7 @@ export const getActivityHeatmap = async (
   res: Response
 ): Promise<void> => {
   const userId = req.user!.id;
+  const timezone = resolveTimezone(req.user?.timezone);
 
   // Get last 30 days of activity
   const startDate = new Date();
@@ -493,8 +488,8 @@ export const getActivityHeatmap = async (
     {
       $group: {
         _id: {
-          dayOfWeek: { $dayOfWeek: '$startTime' },
-          hour: { $hour: '$startTime' },
+          dayOfWeek: { $dayOfWeek: { date: '$startTime', timezone } },
+          hour: { $hour: { date: '$startTime', timezone } },
         },
         sessionCount: { $sum: 1 },
         totalMinutes: { $sum: { $divide: ['$durationSeconds', 60] } },
@@ -5,6 +5,13 @@ import { UserProgram } from '../models/UserProgram.model';
 import { successResponse, errorResponse } from '../utils/response';
 import logger from '../utils/logger';
 import cache from '../utils/cache';
+import {
+  resolveTimezone,
+  getZonedParts,
+  getLocalDateKey,
+  addDaysToDateKey,
+  diffDateKeys,
+} from '../utils/timezone';
 
 /**
  * @desc    Get user statistics (total minutes, tracks, programs)
@@ -102,7 +109,8 @@ export const getWeeklyStats = async (
       return;
     }
 
-    const cacheKey = `user_weekly_stats_${userId}_${period}`;
+    const timezone = resolveTimezone(req.user?.timezone);
+    const cacheKey = `user_weekly_stats_${userId}_${period}_${timezone}`;
     const cached = cache.get<Array<{ week: string; minutes: number }>>(
       cacheKey
     );
@@ -132,8 +140,7 @@ export const getWeeklyStats = async (
     const weeklyData: { [key: string]: number } = {};
 
     sessions.forEach((session) => {
-      const date = new Date(session.startTime);
-      const weekNumber = getWeekNumber(date);
+      const weekNumber = getWeekNumber(getLocalDateKey(new Date(session.startTime), timezone));
       const weekKey = `Week ${weekNumber}`;
 
       if (!weeklyData[weekKey]) {
@@ -187,7 +194,8 @@ export const getMonthlyStats = async (
       return;
     }
 
-    const cacheKey = `user_monthly_stats_${userId}`;
+    const timezone = resolveTimezone(req.user?.timezone);
+    const cacheKey = `user_monthly_stats_${userId}_${timezone}`;
     const cached = cache.get<Array<{ month: string; minutes: number }>>(
       cacheKey
     );
@@ -213,8 +221,8 @@ export const getMonthlyStats = async (
     const monthlyData: { [key: string]: number } = {};
 
     sessions.forEach((session) => {
-      const date = new Date(session.startTime);
-      const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      const { year, month } = getZonedParts(new Date(session.startTime), timezone);
+      const monthKey = `${year}-${String(month).padStart(2, '0')}`;
 
       if (!monthlyData[monthKey]) {
         monthlyData[monthKey] = 0;
@@ -278,7 +286,8 @@ export const getUserHeatmap = async (
       return;
     }
 
-    const cacheKey = `user_heatmap_${userId}`;
+    const timezone = resolveTimezone(req.user?.timezone);
+    const cacheKey = `user_heatmap_${userId}_${timezone}`;
     const cached = cache.get<Array<{ day: number; hour: number; count: number }>>(
       cacheKey
     );
@@ -300,9 +309,7 @@ export const getUserHeatmap = async (
     const heatmapData: { [key: string]: number } = {};
 
     sessions.forEach((session) => {
-      const date = new Date(session.startTime);
-      const day = date.getDay();
-      const hour = date.getHours();
+      const { weekday: day, hour } = getZonedParts(new Date(session.startTime), timezone);
       const key = `${day}-${hour}`;
 
       if (!heatmapData[key]) {
@@ -509,7 +516,8 @@ export const getUserStreak = async (
       return;
     }
 
-    const cacheKey = `user_streak_${userId}`;
+    const timezone = resolveTimezone(req.user?.timezone);
+    const cacheKey = `user_streak_${userId}_${timezone}`;
     const cached = cache.get<{
       currentStreak: number;
       longestStreak: number;
@@ -540,7 +548,7 @@ export const getUserStreak = async (
 
     const uniqueDates = new Set<string>();
     sessions.forEach((session) => {
-      const dateStr = new Date(session.startTime).toISOString().split('T')[0];
+      const dateStr = getLocalDateKey(new Date(session.startTime), timezone);
       uniqueDates.add(dateStr);
     });
 
@@ -551,11 +559,7 @@ export const getUserStreak = async (
     let tempStreak = 1;
 
     for (let i = 1; i < sortedDates.length; i++) {
-      const prevDate = new Date(sortedDates[i - 1]);
-      const currDate = new Date(sortedDates[i]);
-      const diffDays = Math.floor(
-        (currDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24)
-      );
+      const diffDays = diffDateKeys(sortedDates[i], sortedDates[i - 1]);
 
       if (diffDays === 1) {
         tempStreak++;
@@ -567,20 +571,15 @@ export const getUserStreak = async (
       }
     }
 
-    const today = new Date().toISOString().split('T')[0];
-    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000)
-      .toISOString()
-      .split('T')[0];
+    // "Today" is the user's local day, not the server's
+    const today = getLocalDateKey(new Date(), timezone);
+    const yesterday = addDaysToDateKey(today, -1);
     const lastActivityDate = sortedDates[sortedDates.length - 1];
 
     if (lastActivityDate === today || lastActivityDate === yesterday) {
       let streakDates = [lastActivityDate];
       for (let i = sortedDates.length - 2; i >= 0; i--) {
-        const prevDate = new Date(sortedDates[i]);
-        const lastStreakDate = new Date(streakDates[streakDates.length - 1]);
-        const diffDays = Math.floor(
-          (lastStreakDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
+        const diffDays = diffDateKeys(streakDates[streakDates.length - 1], sortedDates[i]);
 
         if (diffDays === 1) {
           streakDates.push(sortedDates[i]);
@@ -612,9 +611,10 @@ export const getUserStreak = async (
   }
 };
 
-function getWeekNumber(date: Date): number {
-  const firstDayOfYear = new Date(date.getFullYear(), 0, 1);
+function getWeekNumber(dateKey: string): number {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  const firstDayOfYear = new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
   const pastDaysOfYear =
     (date.getTime() - firstDayOfYear.getTime()) / (24 * 60 * 60 * 1000);
-  return Math.ceil((pastDaysOfYear + firstDayOfYear.getDay() + 1) / 7);
+  return Math.ceil((pastDaysOfYear + firstDayOfYear.getUTCDay() + 1) / 7);
 }
@@ -3,21 +3,40 @@ import { User } from '../models/User.model';
 import logger from '../utils/logger';
 import { createNotification } from '../services/notification.service';
 import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import { DEFAULT_TIMEZONE, getLocalHour, resolveTimezone } from '../utils/timezone';
 
 /**
  * Send daily meditation reminders to users at their preferred time
- * Checks users who have enabled daily reminders and whose reminderTime matches current hour
+ * Checks users who have enabled daily reminders and whose reminderTime matches
+ * the current hour in their own timezone
  */
 const sendDailyMeditationReminders = async (): Promise<number> => {
   try {
-    const currentHour = new Date().getHours();
+    const now = new Date();
+    const baseFilter = {
+      'preferences.enableDailyReminder': true,
+      deletedAt: null,
+    };
+
+    // Match each timezone in use against its own local hour
+    const timezones: string[] = await User.distinct('timezone', baseFilter);
+    const hourConditions: { timezone: string | null; 'preferences.reminderTime': number }[] =
+      timezones.map((timezone) => ({
+        timezone,
+        'preferences.reminderTime': getLocalHour(now, resolveTimezone(timezone)),
+      }));
+
+    // Accounts created before timezones were stored use the default
+    hourConditions.push({
+      timezone: null,
+      'preferences.reminderTime': getLocalHour(now, DEFAULT_TIMEZONE),
+    });
 
     // Find users who want reminders at this hour
     const users = await User.find({
-      'preferences.enableDailyReminder': true,
-      'preferences.reminderTime': currentHour,
-      deletedAt: null,
-    }).select('_id name preferences');
+      ...baseFilter,
+      $or: hourConditions,
+    }).select('_id name preferences timezone');
 
     let reminderCount = 0;
 
@@ -31,13 +50,15 @@ const sendDailyMeditationReminders = async (): Promise<number> => {
             ...notificationData.data,
             action: 'start_meditation',
             deepLink: '/home',
-            reminderTime: currentHour,
+            reminderTime: user.preferences.reminderTime,
           };
 
           await createNotification(String(user._id), notificationData, true);
           reminderCount++;
 
-          logger.debug(`Sent daily meditation reminder to user ${user._id} at hour ${currentHour}`);
+          logger.debug(
+            `Sent daily meditation reminder to user ${user._id} at hour ${user.preferences.reminderTime} (${resolveTimezone(user.timezone)})`
+          );
         }
       } catch (error) {
         logger.error(`Error sending daily reminder to user ${user._id}:`, error);
@@ -45,7 +66,7 @@ const sendDailyMeditationReminders = async (): Promise<number> => {
     }
 
     if (reminderCount > 0) {
-      logger.info(`Daily meditation reminders sent: ${reminderCount} users at hour ${currentHour}`);
+      logger.info(`Daily meditation reminders sent: ${reminderCount} users`);
     }
 
     return reminderCount;
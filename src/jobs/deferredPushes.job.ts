@@ -0,0 +1,22 @@
+import cron from 'node-cron';
+import { sendDeferredPushes } from '../services/notification.service';
+import logger from '../utils/logger';
+
+/**
+ * Schedule job to send pushes held back by users' quiet hours
+ * Runs every minute
+ */
+export const scheduleDeferredPushes = (): void => {
+  cron.schedule('* * * * *', async () => {
+    try {
+      const sent = await sendDeferredPushes();
+      if (sent > 0) {
+        logger.info(`Deferred push job completed. Sent ${sent} pushes.`);
+      }
+    } catch (error) {
+      logger.error('Error in scheduled deferred push job:', error);
+    }
+  });
+
+  logger.info('Deferred push job scheduled (runs every minute)');
+};
@@ -0,0 +1,24 @@
+import cron from 'node-cron';
+import { dunningService } from '../services/dunning.service';
+import logger from '../utils/logger';
+
+/**
+ * Schedule job to retry failed renewals and expire those past their grace period
+ * Runs every hour at minute 20
+ */
+export const scheduleDunning = (): void => {
+  cron.schedule('20 * * * *', async () => {
+    try {
+      logger.info('Starting scheduled dunning job...');
+      const { recovered, failed } = await dunningService.retryDuePayments();
+      const expired = await dunningService.expireLapsed();
+      logger.info(
+        `Dunning completed. Recovered: ${recovered}, Failed: ${failed}, Expired: ${expired}`
+      );
+    } catch (error) {
+      logger.error('Error in scheduled dunning job:', error);
+    }
+  });
+
+  logger.info('Dunning job scheduled (runs hourly)');
+};
@@ -0,0 +1,21 @@
+import cron from 'node-cron';
+import { banService } from '../services/ban.service';
+import logger from '../utils/logger';
+
+/**
+ * Schedule job to lift timed bans whose end date has passed
+ * Runs every hour at minute 10
+ */
+export const scheduleExpireBans = (): void => {
+  cron.schedule('10 * * * *', async () => {
+    try {
+      logger.info('Starting scheduled ban expiry job...');
+      const lifted = await banService.liftExpiredBans();
+      logger.info(`Ban expiry completed. Lifted ${lifted} bans.`);
+    } catch (error) {
+      logger.error('Error in scheduled ban expiry job:', error);
+    }
+  });
+
+  logger.info('Ban expiry job scheduled (runs hourly)');
+};
@@ -5,15 +5,23 @@ import logger from '../utils/logger';
 import { createNotification } from '../services/notification.service';
 import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
 
+// Stripe-backed subscriptions are ended by webhooks; this only catches missed ones
+const STRIPE_EXPIRY_BUFFER_DAYS = 3;
+
 /**
  * Expire subscriptions that have passed their end date
  */
 const expireSubscriptions = async (): Promise<number> => {
   const now = new Date();
+  const stripeCutoff = new Date(now);
+  stripeCutoff.setDate(stripeCutoff.getDate() - STRIPE_EXPIRY_BUFFER_DAYS);
 
   const expiredSubscriptions = await Subscription.find({
     status: 'active',
-    endDate: { $lte: now },
+    $or: [
+      { stripeSubscriptionId: null, endDate: { $lte: now } },
+      { stripeSubscriptionId: { $ne: null }, endDate: { $lte: stripeCutoff } },
+    ],
   }).populate('userId packageId');
 
   let expiredCount = 0;
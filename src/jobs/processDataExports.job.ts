@@ -0,0 +1,35 @@
+import cron from 'node-cron';
+import { dataExportService } from '../services/dataExport.service';
+import logger from '../utils/logger';
+
+/**
+ * Schedule jobs for personal data exports
+ * - Build queued exports every minute
+ * - Delete expired export archives every hour
+ */
+export const scheduleDataExports = (): void => {
+  // Run every minute
+  cron.schedule('* * * * *', async () => {
+    try {
+      const processed = await dataExportService.processPendingExports();
+      if (processed > 0) {
+        logger.info(`Data export job completed. Processed ${processed} exports.`);
+      }
+    } catch (error) {
+      logger.error('Error in scheduled data export job:', error);
+    }
+  });
+
+  // Run every hour at minute 15
+  cron.schedule('15 * * * *', async () => {
+    try {
+      logger.info('Starting scheduled data export cleanup job...');
+      const cleaned = await dataExportService.cleanupExpiredExports();
+      logger.info(`Data export cleanup completed. Removed ${cleaned} expired exports.`);
+    } catch (error) {
+      logger.error('Error in scheduled data export cleanup job:', error);
+    }
+  });
+
+  logger.info('Data export jobs scheduled (processing every minute, cleanup hourly)');
+};
@@ -0,0 +1,36 @@
+import cron from 'node-cron';
+import { accountDeletionService } from '../services/accountDeletion.service';
+import logger from '../utils/logger';
+
+/**
+ * Schedule job to permanently delete accounts whose deletion grace period has ended
+ * Runs daily at 3:30 AM
+ */
+export const schedulePurgeDeletedAccounts = (): void => {
+  cron.schedule('30 3 * * *', async () => {
+    try {
+      logger.info('Starting scheduled deleted account purge job...');
+      const purged = await accountDeletionService.purgeExpiredAccounts();
+      logger.info(`Deleted account purge completed. Purged ${purged} accounts.`);
+    } catch (error) {
+      logger.error('Error in scheduled deleted account purge job:', error);
+    }
+  });
+
+  logger.info('Deleted account purge job scheduled (runs daily at 3:30 AM)');
+};
+
+/**
+ * Manual purge function that can be called on-demand
+ */
+export const runManualPurge = async (): Promise<number> => {
+  try {
+    logger.info('Running manual deleted account purge...');
+    const purged = await accountDeletionService.purgeExpiredAccounts();
+    logger.info(`Manual purge completed. Purged ${purged} accounts.`);
+    return purged;
+  } catch (error) {
+    logger.error('Error in manual deleted account purge:', error);
+    return 0;
+  }
+};
@@ -1,6 +1,6 @@
 import cron from 'node-cron';
 import { Subscription } from '../models/Subscription.model';
-import { User, IUser } from '../models/User.model';
+import { IUser } from '../models/User.model';
 import { Notification } from '../models/Notification.model';
 import { Package, IPackage } from '../models/Package.model';
 import logger from '../utils/logger';
@@ -56,6 +56,8 @@ const sendExpirationReminders = async (daysThreshold: number = 7): Promise<numbe
 
 /**
  * Process auto-renewal for subscriptions
+ * Stripe-backed subscriptions are billed and renewed by Stripe (invoice.paid);
+ * legacy subscriptions can't be charged, so their owners are asked to renew
  */
 const processAutoRenewals = async (): Promise<{
   renewed: number;
@@ -68,6 +70,7 @@ const processAutoRenewals = async (): Promise<{
   const subscriptionsToRenew = await Subscription.find({
     status: 'active',
     autoRenew: true,
+    stripeSubscriptionId: null,
     endDate: { $gte: now, $lte: tomorrow },
   }).populate('userId packageId');
 
@@ -85,57 +88,25 @@ const processAutoRenewals = async (): Promise<{
         continue;
       }
 
-      const newEndDate = new Date(subscription.endDate);
-      if (pkg.periodType === 'month') {
-        newEndDate.setMonth(newEndDate.getMonth() + pkg.periodCount);
-      } else if (pkg.periodType === 'year') {
-        newEndDate.setFullYear(newEndDate.getFullYear() + pkg.periodCount);
-      }
-
-      subscription.endDate = newEndDate;
-      subscription.status = 'active';
-      await subscription.save();
-
-      await User.findByIdAndUpdate(userId, {
-        'subscription.endDate': newEndDate,
-        'subscription.status': 'active',
-      });
-
       await Notification.create({
         userId,
         type: 'subscription',
-        title: 'تم تجديد الاشتراك',
-        message: `تم تجديد اشتراكك في ${pkg.name} تلقائياً حتى ${newEndDate.toLocaleDateString('ar-SA')}`,
-        icon: '✅',
+        title: 'جدد اشتراكك',
+        message: `ينتهي اشتراكك في ${pkg.name} غداً. أضف وسيلة دفع لتجديده تلقائياً والاستمرار في الوصول.`,
+        icon: '💳',
         data: {
           subscriptionId: subscription._id,
           packageId: pkg._id,
-          newEndDate,
+          endDate: subscription.endDate,
+          action: 'renew',
         },
       });
 
       renewedCount++;
-      logger.info(`Auto-renewed subscription ${subscription._id} for user ${userId}`);
+      logger.info(`Asked user ${userId} to renew legacy subscription ${subscription._id}`);
     } catch (error) {
-      logger.error(`Error auto-renewing subscription ${subscription._id}:`, error);
+      logger.error(`Error processing renewal for subscription ${subscription._id}:`, error);
       failedCount++;
-
-      try {
-        const userId = (subscription.userId as unknown as IUser)?._id || subscription.userId;
-        await Notification.create({
-          userId,
-          type: 'subscription',
-          title: 'فشل التجديد التلقائي',
-          message: 'حدث خطأ أثناء تجديد اشتراكك تلقائياً. يرجى التجديد يدوياً.',
-          icon: '❌',
-          data: {
-            subscriptionId: subscription._id,
-            error: 'auto_renewal_failed',
-          },
-        });
-      } catch (notifError) {
-        logger.error('Error sending renewal failure notification:', notifError);
-      }
     }
   }
 
@@ -0,0 +1,21 @@
+import cron from 'node-cron';
+import { trialService } from '../services/trial.service';
+import logger from '../utils/logger';
+
+/**
+ * Schedule job to remind users before their free trial ends
+ * Runs daily at 10:00 AM
+ */
+export const scheduleTrialReminders = (): void => {
+  cron.schedule('0 10 * * *', async () => {
+    try {
+      logger.info('Starting scheduled trial reminders job...');
+      const sent = await trialService.sendEndingReminders();
+      logger.info(`Trial reminders completed. Sent ${sent} reminders.`);
+    } catch (error) {
+      logger.error('Error in scheduled trial reminders job:', error);
+    }
+  });
+
+  logger.info('Trial reminders job scheduled (runs daily at 10:00 AM)');
+};
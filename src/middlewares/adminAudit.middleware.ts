@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditEntityType } from '../models/AdminAuditLog.model';
+import { adminAuditService } from '../services/adminAudit.service';
+import logger from '../utils/logger';
+
+export interface AuditOptions {
+  /** Action name, e.g. 'user.ban' */
+  action: string;
+  entityType: AuditEntityType;
+  /** Route param holding the target entity id */
+  idParam?: string;
+  /** The target entity is the acting admin's own account */
+  self?: boolean;
+}
+
+/**
+ * Record a mutating admin request in the admin audit log
+ * Usage: auditAdminAction({ action: 'user.ban', entityType: 'User', idParam: 'userId' })
+ * Must run after protect so the acting admin is known
+ */
+export const auditAdminAction = (options: AuditOptions) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const actor = req.user;
+    if (!actor) {
+      next();
+      return;
+    }
+
+    const entityId = options.self
+      ? actor.id
+      : options.idParam
+        ? String(req.params[options.idParam])
+        : undefined;
+
+    let before = null;
+    try {
+      before = await adminAuditService.snapshot(options.entityType, entityId);
+    } catch (error) {
+      logger.error(`Failed to snapshot ${options.entityType} for audit:`, error);
+    }
+
+    // Keep the response body so created entities can be identified
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', () => {
+      void adminAuditService.record({
+        actorId: actor.id,
+        actorRole: actor.adminRole,
+        action: options.action,
+        entityType: options.entityType,
+        entityId,
+        before,
+        responseBody,
+        statusCode: res.statusCode,
+        method: req.method,
+        path: req.originalUrl,
+        params: { ...req.params },
+        body: req.body,
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent'],
+      });
+    });
+
+    next();
+  };
+};
@@ -1,7 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
 import { JWTUtil, TokenPayload } from '../utils/jwt';
 import { tokenService } from '../services/token.service';
+import { banService } from '../services/ban.service';
 import { User } from '../models/User.model';
+import { AdminRole, Permission, hasPermission } from '../config/permissions';
 import logger from '../utils/logger';
 
 // Extend Express Request type to include user
@@ -11,14 +13,18 @@ declare module 'express-serve-static-core' {
       id: string;
       phone: string;
       role: string;
+      adminRole?: AdminRole;
+      sessionId?: string;
+      timezone?: string;
     };
   }
 }
 
 /**
- * Protect middleware - Verify JWT and attach user to request
+ * Build the JWT check used by `protect`
+ * allowBanned lets banned users through (e.g. to appeal their ban)
  */
-export const protect = async (
+const createProtect = (options: { allowBanned?: boolean } = {}) => async (
   req: Request,
   res: Response,
   next: NextFunction
@@ -97,11 +103,8 @@ export const protect = async (
       // Check if ban is temporary and has expired
       if (user.bannedUntil && new Date() > user.bannedUntil) {
         // Auto-unban user
-        user.isBanned = false;
-        user.bannedUntil = undefined;
-        user.banReason = undefined;
-        await user.save();
-      } else {
+        await banService.liftBan(user);
+      } else if (!options.allowBanned) {
         // User is still banned
         const banMessage = user.bannedUntil
           ? `Your account is temporarily banned until ${user.bannedUntil.toISOString()}. Reason: ${user.banReason || 'Not specified'}`
@@ -120,6 +123,9 @@ export const protect = async (
       id: String(user._id),
       phone: user.phone,
       role: user.role,
+      adminRole: user.adminRole,
+      sessionId: decoded.sid,
+      timezone: user.timezone,
     };
 
     next();
@@ -132,6 +138,16 @@ export const protect = async (
   }
 };
 
+/**
+ * Protect middleware - Verify JWT and attach user to request
+ */
+export const protect = createProtect();
+
+/**
+ * Like protect, but banned users are let through
+ */
+export const protectAllowBanned = createProtect({ allowBanned: true });
+
 /**
  * Authorize middleware - Check if user has required role(s)
  * Usage: authorize('admin') or authorize('admin', 'moderator')
@@ -160,6 +176,39 @@ export const authorize = (...roles: string[]) => {
   };
 };
 
+/**
+ * Permission-based authorization middleware for admin routes
+ * Usage: authorizePermission('payments:refund')
+ * The user must be an admin whose role grants every listed permission
+ */
+export const authorizePermission = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    // Check if user is attached to request (protect middleware should run first)
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        message: 'Not authorized. Please login.',
+      });
+      return;
+    }
+
+    const adminRole = req.user.adminRole;
+    const isAllowed =
+      req.user.role === 'admin' &&
+      permissions.every((permission) => hasPermission(adminRole, permission));
+
+    if (!isAllowed) {
+      res.status(403).json({
+        success: false,
+        message: 'You do not have permission to perform this action.',
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
 /**
  * Optional auth middleware - Attach user if token is valid, but don't require it
  */
@@ -203,6 +252,8 @@ export const optionalAuth = async (
           id: String(user._id),
           phone: user.phone,
           role: user.role,
+          adminRole: user.adminRole,
+          timezone: user.timezone,
         };
       }
     } catch (error: unknown) {
@@ -0,0 +1,70 @@
+import type { Store, Options, ClientRateLimitInfo, IncrementResponse } from 'express-rate-limit';
+import { getRedisClient } from '../config/redis';
+
+/**
+ * Increment the hit counter and start its window on the first hit, atomically
+ */
+const INCREMENT_SCRIPT = `
+local hits = redis.call('INCR', KEYS[1])
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl <= 0 then
+  redis.call('PEXPIRE', KEYS[1], ARGV[1])
+  ttl = tonumber(ARGV[1])
+end
+return { hits, ttl }
+`;
+
+/**
+ * express-rate-limit store backed by Redis so limits survive restarts
+ * and are shared between API instances
+ */
+export class RedisStore implements Store {
+  readonly prefix: string;
+  readonly localKeys = false;
+  private windowMs = 60 * 1000;
+
+  constructor(prefix: string) {
+    this.prefix = `ratelimit:${prefix}:`;
+  }
+
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const client = getRedisClient();
+    const redisKey = this.prefix + key;
+
+    const [hits, ttl] = await Promise.all([client.get(redisKey), client.pTTL(redisKey)]);
+    if (hits === null) {
+      return undefined;
+    }
+
+    return {
+      totalHits: Number(hits),
+      resetTime: new Date(Date.now() + Math.max(Number(ttl), 0)),
+    };
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const result = (await getRedisClient().eval(INCREMENT_SCRIPT, {
+      keys: [this.prefix + key],
+      arguments: [String(this.windowMs)],
+    })) as [number, number];
+
+    const [totalHits, ttl] = result;
+
+    return {
+      totalHits: Number(totalHits),
+      resetTime: new Date(Date.now() + Number(ttl)),
+    };
+  }
+
+  async decrement(key: string): Promise<void> {
+    await getRedisClient().decr(this.prefix + key);
+  }
+
+  async resetKey(key: string): Promise<void> {
+    await getRedisClient().del(this.prefix + key);
+  }
+}
@@ -1,5 +1,6 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { AugmentedRequest } from 'express-rate-limit';
 import { Request, Response } from 'express';
+import { RedisStore } from './rateLimitStore';
 
 /**
  * Rate limiter for search endpoints
@@ -17,6 +18,8 @@ export const searchLimiter = rateLimit({
   },
   standardHeaders: true, // Return rate limit info in the `RateLimit-*` headers
   legacyHeaders: false, // Disable the `X-RateLimit-*` headers
+  store: new RedisStore('search'),
+  passOnStoreError: true, // Don't block requests if Redis is unavailable
   handler: (req: Request, res: Response) => {
     res.status(429).json({
       success: false,
@@ -45,6 +48,8 @@ export const suggestionsLimiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  store: new RedisStore('suggestions'),
+  passOnStoreError: true,
 });
 
 /**
@@ -63,8 +68,199 @@ export const generalLimiter = rateLimit({
   },
   standardHeaders: true,
   legacyHeaders: false,
+  store: new RedisStore('general'),
+  passOnStoreError: true,
   skip: (req: Request) => {
     // Skip rate limiting for health check endpoint
     return req.path === '/api/v1/health';
   },
 });
+
+/**
+ * Create a limiter for an auth endpoint, keyed by client IP, by the account
+ * email, or by the signed-in user (routes behind `protect`)
+ */
+const createAuthLimiter = (options: {
+  name: string;
+  windowMs: number;
+  max: number;
+  keyBy: 'ip' | 'account' | 'user';
+  message: string;
+}) => {
+  return rateLimit({
+    windowMs: options.windowMs,
+    max: options.max,
+    standardHeaders: true,
+    legacyHeaders: false,
+    store: new RedisStore(`auth:${options.name}:${options.keyBy}`),
+    passOnStoreError: true,
+    ...(options.keyBy === 'account' && {
+      keyGenerator: (req: Request) => String(req.body?.email).trim().toLowerCase(),
+      // Requests without an email are rejected by validation and still count per IP
+      skip: (req: Request) => typeof req.body?.email !== 'string',
+    }),
+    ...(options.keyBy === 'user' && {
+      keyGenerator: (req: Request) => String(req.user?.id),
+    }),
+    handler: (req: Request, res: Response) => {
+      const resetTime = (req as AugmentedRequest).rateLimit?.resetTime;
+      const retryAfter = resetTime
+        ? Math.max(1, Math.ceil((resetTime.getTime() - Date.now()) / 1000))
+        : Math.ceil(options.windowMs / 1000);
+
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({
+        success: false,
+        error: {
+          message: options.message,
+          statusCode: 429,
+          retryAfter,
+        },
+      });
+    },
+  });
+};
+
+/**
+ * Login limiters
+ * Limits: 20 attempts per 15 minutes per IP, 10 per 15 minutes per account
+ */
+export const loginIpLimiter = createAuthLimiter({
+  name: 'login',
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  keyBy: 'ip',
+  message: 'Too many login attempts from this IP. Please try again later.',
+});
+
+export const loginAccountLimiter = createAuthLimiter({
+  name: 'login',
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  keyBy: 'account',
+  message: 'Too many login attempts for this account. Please try again later.',
+});
+
+/**
+ * OTP send limiters
+ * Limits: 10 per hour per IP, 5 per hour per account
+ */
+export const otpSendIpLimiter = createAuthLimiter({
+  name: 'otp-send',
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  keyBy: 'ip',
+  message: 'Too many OTP requests from this IP. Please try again later.',
+});
+
+export const otpSendAccountLimiter = createAuthLimiter({
+  name: 'otp-send',
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  keyBy: 'account',
+  message: 'Too many OTP requests for this account. Please try again later.',
+});
+
+/**
+ * Forgot password limiters
+ * Limits: 10 per hour per IP, 5 per hour per account
+ */
+export const forgotPasswordIpLimiter = createAuthLimiter({
+  name: 'forgot-password',
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  keyBy: 'ip',
+  message: 'Too many password reset requests from this IP. Please try again later.',
+});
+
+export const forgotPasswordAccountLimiter = createAuthLimiter({
+  name: 'forgot-password',
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  keyBy: 'account',
+  message: 'Too many password reset requests for this account. Please try again later.',
+});
+
+/**
+ * Magic link limiters
+ * Limits: 10 per hour per IP, 5 per hour per account
+ */
+export const magicLinkIpLimiter = createAuthLimiter({
+  name: 'magic-link',
+  windowMs: 60 * 60 * 1000,
+  max: 10,
+  keyBy: 'ip',
+  message: 'Too many sign-in link requests from this IP. Please try again later.',
+});
+
+export const magicLinkAccountLimiter = createAuthLimiter({
+  name: 'magic-link',
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  keyBy: 'account',
+  message: 'Too many sign-in link requests for this account. Please try again later.',
+});
+
+/**
+ * OTP verification limiters
+ * Limits: 30 per 15 minutes per IP, 10 per 15 minutes per account
+ */
+export const otpVerifyIpLimiter = createAuthLimiter({
+  name: 'otp-verify',
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  keyBy: 'ip',
+  message: 'Too many verification attempts from this IP. Please try again later.',
+});
+
+export const otpVerifyAccountLimiter = createAuthLimiter({
+  name: 'otp-verify',
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  keyBy: 'account',
+  message: 'Too many verification attempts for this account. Please try again later.',
+});
+
+/**
+ * Reset password limiters
+ * Limits: 30 per 15 minutes per IP, 10 per 15 minutes per account
+ */
+export const resetPasswordIpLimiter = createAuthLimiter({
+  name: 'reset-password',
+  windowMs: 15 * 60 * 1000,
+  max: 30,
+  keyBy: 'ip',
+  message: 'Too many password reset attempts from this IP. Please try again later.',
+});
+
+export const resetPasswordAccountLimiter = createAuthLimiter({
+  name: 'reset-password',
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  keyBy: 'account',
+  message: 'Too many password reset attempts for this account. Please try again later.',
+});
+
+/**
+ * Two-factor verification limiter
+ * Limits: 20 per 15 minutes per IP (the request carries a challenge token, not an email)
+ */
+export const twoFactorVerifyIpLimiter = createAuthLimiter({
+  name: '2fa-verify',
+  windowMs: 15 * 60 * 1000,
+  max: 20,
+  keyBy: 'ip',
+  message: 'Too many two-factor attempts from this IP. Please try again later.',
+});
+
+/**
+ * Email change limiter
+ * Limits: 5 verification codes per hour per user
+ */
+export const emailChangeLimiter = createAuthLimiter({
+  name: 'email-change',
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  keyBy: 'user',
+  message: 'Too many email change requests. Please try again later.',
+});
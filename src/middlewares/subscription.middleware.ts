@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import { Subscription, ISubscription } from '../models/Subscription.model';
 import { Track } from '../models/Track.model';
 import { Program } from '../models/Program.model';
+import { familyService } from '../services/family.service';
 import logger from '../utils/logger';
 
 declare module 'express-serve-static-core' {
@@ -16,8 +17,8 @@ declare module 'express-serve-static-core' {
 
 /**
  * Check if user has active subscription access
- * This middleware checks if the user has an active subscription
- * and attaches it to the request object
+ * This middleware checks if the user has an active subscription (their own,
+ * or one shared with them through a family plan) and attaches it to the request object
  */
 export const checkSubscriptionAccess = async (
   req: Request,
@@ -35,13 +36,11 @@ export const checkSubscriptionAccess = async (
       return;
     }
 
-    const subscription = await Subscription.findOne({
-      userId,
-      status: 'active',
-      endDate: { $gt: new Date() },
-    }).populate('packageId');
+    // Past due subscriptions keep access until their grace period ends
+    const subscription = await Subscription.findWithAccess(userId);
 
-    req.subscription = subscription;
+    // Family members inherit the owner's subscription
+    req.subscription = subscription || (await familyService.getSharedSubscription(userId));
 
     next();
   } catch (error) {
@@ -177,13 +176,10 @@ export const optionalSubscriptionCheck = async (
       return;
     }
 
-    const subscription = await Subscription.findOne({
-      userId,
-      status: 'active',
-      endDate: { $gt: new Date() },
-    }).populate('packageId');
+    const subscription = await Subscription.findWithAccess(userId);
 
-    req.subscription = subscription;
+    // Family members inherit the owner's subscription
+    req.subscription = subscription || (await familyService.getSharedSubscription(userId));
 
     next();
   } catch (error) {
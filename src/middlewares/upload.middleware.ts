@@ -1,5 +1,5 @@
 import multer, { FileFilterCallback } from 'multer';
-import { Request } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import logger from '../utils/logger';
 
 // File size limits (in bytes)
@@ -112,3 +112,24 @@ export const handleMulterError = (error: unknown, _req: Request): string => {
   }
   return error instanceof Error ? error.message : 'File upload failed';
 };
+
+/**
+ * Wrapper to handle multer errors
+ */
+export const multerErrorHandler = (
+  middleware: (req: Request, res: Response, callback: (error?: unknown) => void) => void
+) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    middleware(req, res, (error?: unknown) => {
+      if (error) {
+        const message = handleMulterError(error, req);
+        res.status(400).json({
+          success: false,
+          message,
+        });
+        return;
+      }
+      next();
+    });
+  };
+};
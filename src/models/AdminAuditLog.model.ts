@@ -0,0 +1,119 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const AUDIT_ENTITY_TYPES = [
+  'User',
+  'Subscription',
+  'Coupon',
+  'Category',
+  'Track',
+  'Program',
+  'Package',
+  'Payment',
+  'Settings',
+  'Notification',
+  'OnboardingQuestion',
+  'BanAppeal',
+  'WebhookEvent',
+  'File',
+  'SearchCache',
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface IAdminAuditLog extends Document {
+  actorId: mongoose.Types.ObjectId;
+  actorRole?: string; // Admin role at the time of the action
+  action: string; // e.g. 'user.ban', 'payment.refund'
+  entityType: AuditEntityType;
+  entityId?: string;
+  changes: IAuditChange[];
+  success: boolean;
+  statusCode: number;
+  method: string;
+  path: string;
+  params?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp: Date;
+}
+
+const auditChangeSchema = new Schema<IAuditChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    before: { type: Schema.Types.Mixed },
+    after: { type: Schema.Types.Mixed },
+  },
+  { _id: false }
+);
+
+const adminAuditLogSchema = new Schema<IAdminAuditLog>(
+  {
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    actorRole: { type: String },
+    action: {
+      type: String,
+      required: true,
+    },
+    entityType: {
+      type: String,
+      enum: AUDIT_ENTITY_TYPES,
+      required: true,
+    },
+    entityId: { type: String },
+    changes: {
+      type: [auditChangeSchema],
+      default: [],
+    },
+    success: {
+      type: Boolean,
+      required: true,
+    },
+    statusCode: {
+      type: Number,
+      required: true,
+    },
+    method: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    params: { type: Schema.Types.Mixed },
+    body: { type: Schema.Types.Mixed },
+    ipAddress: { type: String },
+    userAgent: { type: String },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Indexes for the audit log filters
+adminAuditLogSchema.index({ timestamp: -1 });
+adminAuditLogSchema.index({ actorId: 1, timestamp: -1 });
+adminAuditLogSchema.index({ entityType: 1, entityId: 1, timestamp: -1 });
+adminAuditLogSchema.index({ action: 1, timestamp: -1 });
+
+export const AdminAuditLog = mongoose.model<IAdminAuditLog>('AdminAuditLog', adminAuditLogSchema);
+
+export default AdminAuditLog;
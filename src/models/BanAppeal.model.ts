@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// closed: the ban ended (expired or lifted by an admin) before the appeal was reviewed
+export type BanAppealStatus = 'pending' | 'approved' | 'denied' | 'closed';
+
+export interface IBanAppeal extends Document {
+  userId: mongoose.Types.ObjectId;
+  message: string;
+  status: BanAppealStatus;
+  banReason?: string; // Ban being appealed, copied at submission
+  bannedUntil?: Date;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNote?: string; // Admin's answer, shown to the user
+  createdAt: Date;
+}
+
+const banAppealSchema = new Schema<IBanAppeal>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    message: {
+      type: String,
+      required: [true, 'Appeal message is required'],
+      trim: true,
+      minlength: [10, 'Appeal message must be at least 10 characters'],
+      maxlength: [2000, 'Appeal message cannot exceed 2000 characters'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'denied', 'closed'],
+      default: 'pending',
+    },
+    banReason: { type: String },
+    bannedUntil: { type: Date },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewedAt: { type: Date },
+    reviewNote: {
+      type: String,
+      trim: true,
+      maxlength: [1000, 'Review note cannot exceed 1000 characters'],
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Index for the admin queue (oldest pending first)
+banAppealSchema.index({ status: 1, createdAt: 1 });
+// A user can only have one open appeal at a time
+banAppealSchema.index(
+  { userId: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+banAppealSchema.index({ userId: 1, createdAt: -1 });
+
+export const BanAppeal = mongoose.model<IBanAppeal>('BanAppeal', banAppealSchema);
+
+export default BanAppeal;
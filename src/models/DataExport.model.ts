@@ -0,0 +1,57 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type DataExportStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'expired';
+
+export interface IDataExport extends Document {
+  userId: mongoose.Types.ObjectId;
+  status: DataExportStatus;
+  storageType?: 'local' | 'r2' | 'r2_private'; // 'r2': older exports in the public bucket
+  fileKey?: string;
+  fileSize?: number;
+  error?: string;
+  requestedAt: Date;
+  claimedAt?: Date; // When a worker started processing it
+  completedAt?: Date;
+  expiresAt?: Date; // Download link and file lifetime
+}
+
+const dataExportSchema = new Schema<IDataExport>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'completed', 'failed', 'expired'],
+      default: 'pending',
+    },
+    storageType: {
+      type: String,
+      enum: ['local', 'r2', 'r2_private'],
+    },
+    fileKey: { type: String },
+    fileSize: { type: Number },
+    error: { type: String },
+    requestedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    claimedAt: { type: Date },
+    completedAt: { type: Date },
+    expiresAt: { type: Date },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Indexes for the latest export per user and the processing/cleanup jobs
+dataExportSchema.index({ userId: 1, requestedAt: -1 });
+dataExportSchema.index({ status: 1, requestedAt: 1 });
+dataExportSchema.index({ status: 1, expiresAt: 1 });
+
+export const DataExport = mongoose.model<IDataExport>('DataExport', dataExportSchema);
+
+export default DataExport;
@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type FamilyMemberStatus = 'invited' | 'active';
+
+export interface IFamilyMember extends Document {
+  ownerId: mongoose.Types.ObjectId; // User holding the family subscription
+  memberId?: mongoose.Types.ObjectId; // Set once the invite is accepted
+  email: string;
+  status: FamilyMemberStatus;
+  inviteTokenHash?: string;
+  inviteExpiresAt?: Date;
+  invitedAt: Date;
+  joinedAt?: Date;
+}
+
+const familyMemberSchema = new Schema<IFamilyMember>(
+  {
+    ownerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    memberId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    status: {
+      type: String,
+      enum: ['invited', 'active'],
+      default: 'invited',
+    },
+    inviteTokenHash: {
+      type: String,
+      select: false,
+    },
+    inviteExpiresAt: { type: Date },
+    invitedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    joinedAt: { type: Date },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Indexes for the owner's member list, invite lookup and access checks
+familyMemberSchema.index({ ownerId: 1, email: 1 }, { unique: true });
+familyMemberSchema.index({ inviteTokenHash: 1 }, { sparse: true });
+// A user can only belong to one family at a time
+familyMemberSchema.index({ memberId: 1 }, { unique: true, sparse: true });
+
+export const FamilyMember = mongoose.model<IFamilyMember>('FamilyMember', familyMemberSchema);
+
+export default FamilyMember;
@@ -0,0 +1,95 @@
+import mongoose, { Document, Schema, Model } from 'mongoose';
+
+export type LoginMethod = 'password' | 'social' | 'refresh' | 'magic_link' | 'two_factor';
+
+export interface ILoginEvent extends Document {
+  userId: mongoose.Types.ObjectId;
+  method: LoginMethod;
+  provider?: string; // Social provider for social logins
+  success: boolean;
+  failureReason?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  platform?: string;
+  deviceName?: string;
+  country?: string;
+  deviceFingerprint?: string;
+  sessionId?: string;
+  isNewDevice: boolean;
+  isNewCountry: boolean;
+  timestamp: Date;
+}
+
+export interface ILoginEventModel extends Model<ILoginEvent> {
+  hasSuccessfulLogin(
+    userId: string,
+    match?: { deviceFingerprint?: string; country?: string }
+  ): Promise<boolean>;
+}
+
+const loginEventSchema = new Schema<ILoginEvent>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    method: {
+      type: String,
+      enum: ['password', 'social', 'refresh', 'magic_link', 'two_factor'],
+      required: true,
+    },
+    provider: { type: String },
+    success: {
+      type: Boolean,
+      required: true,
+    },
+    failureReason: { type: String },
+    ipAddress: { type: String },
+    userAgent: { type: String },
+    platform: { type: String },
+    deviceName: { type: String },
+    country: { type: String },
+    deviceFingerprint: { type: String },
+    sessionId: { type: String },
+    isNewDevice: {
+      type: Boolean,
+      default: false,
+    },
+    isNewCountry: {
+      type: Boolean,
+      default: false,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Indexes for the per-user history and anomaly lookups
+loginEventSchema.index({ userId: 1, timestamp: -1 });
+loginEventSchema.index({ userId: 1, success: 1, deviceFingerprint: 1 });
+loginEventSchema.index({ userId: 1, success: 1, country: 1 });
+
+// Keep the audit trail for 180 days
+loginEventSchema.index({ timestamp: 1 }, { expireAfterSeconds: 180 * 24 * 60 * 60 });
+
+// Static method to check for an earlier successful login (optionally from a device or country)
+loginEventSchema.statics.hasSuccessfulLogin = async function (
+  userId: string,
+  match: { deviceFingerprint?: string; country?: string } = {}
+): Promise<boolean> {
+  const existing = await this.exists({ userId, success: true, ...match });
+  return !!existing;
+};
+
+export const LoginEvent = mongoose.model<ILoginEvent, ILoginEventModel>(
+  'LoginEvent',
+  loginEventSchema
+);
+
+export default LoginEvent;
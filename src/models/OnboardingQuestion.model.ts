@@ -0,0 +1,129 @@
+import { Schema, model, Document } from 'mongoose';
+import timestampsPlugin from './plugins/timestamps';
+import { IProgram } from './Program.model';
+
+export type ProgramLevel = IProgram['level'];
+
+// Answer option and what choosing it seeds in the user's preferences
+export interface IOnboardingOption {
+  value: string;
+  label: string;
+  categories: Schema.Types.ObjectId[]; // Added to preferences.categories
+  reminderTime?: number; // Hour of day (0-23) used as the daily reminder time
+  level?: ProgramLevel; // Level of the recommended starting program
+}
+
+// Onboarding question document interface
+export interface IOnboardingQuestion extends Document {
+  key: string; // Stable identifier used in submitted answers (e.g. "goals")
+  title: string;
+  description?: string;
+  multiple: boolean; // Allow several options to be chosen
+  required: boolean;
+  options: IOnboardingOption[];
+  displayOrder: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date;
+}
+
+// Option subdocument schema
+const OnboardingOptionSchema = new Schema<IOnboardingOption>(
+  {
+    value: {
+      type: String,
+      required: [true, 'Option value is required'],
+      trim: true,
+    },
+    label: {
+      type: String,
+      required: [true, 'Option label is required'],
+      trim: true,
+    },
+    categories: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: 'Category',
+      },
+    ],
+    reminderTime: {
+      type: Number,
+      min: 0,
+      max: 23,
+    },
+    level: {
+      type: String,
+      enum: {
+        values: ['مبتدأ', 'متوسط', 'متقدم'],
+        message: '{VALUE} is not a valid level',
+      },
+    },
+  },
+  { _id: false }
+);
+
+// Onboarding question schema
+const OnboardingQuestionSchema = new Schema<IOnboardingQuestion>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Question key is required'],
+      unique: true,
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z0-9_]+$/, 'Question key may only contain letters, numbers and underscores'],
+    },
+    title: {
+      type: String,
+      required: [true, 'Question title is required'],
+      trim: true,
+      maxlength: [200, 'Title cannot exceed 200 characters'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Description cannot exceed 500 characters'],
+    },
+    multiple: {
+      type: Boolean,
+      default: false,
+    },
+    required: {
+      type: Boolean,
+      default: true,
+    },
+    options: {
+      type: [OnboardingOptionSchema],
+      validate: {
+        validator: function (v: IOnboardingOption[]) {
+          const values = v.map((option) => option.value);
+          return v.length > 0 && values.length === new Set(values).size;
+        },
+        message: 'A question needs at least one option and option values must be unique',
+      },
+    },
+    displayOrder: {
+      type: Number,
+      default: 0,
+      // Lower numbers appear first
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: false, // We're using the timestamps plugin
+  }
+);
+
+// Apply timestamps plugin
+OnboardingQuestionSchema.plugin(timestampsPlugin);
+
+// Index for the active questionnaire in display order
+OnboardingQuestionSchema.index({ isActive: 1, displayOrder: 1 });
+
+export const OnboardingQuestion = model<IOnboardingQuestion>('OnboardingQuestion', OnboardingQuestionSchema);
+
+export default OnboardingQuestion;
@@ -5,14 +5,18 @@ import timestampsPlugin from './plugins/timestamps';
 export interface IPackage extends Document {
   name: string;
   nameEn?: string;
-  type: 'basic' | 'standard' | 'premium';
+  type: 'basic' | 'standard' | 'premium' | 'family';
   price: number;
   currency: string;
   periodType: 'month' | 'year';
   periodCount: number;
   durationInDays: number; // Duration in days (e.g., 30, 365)
   discountPercentage: number;
+  trialDays: number; // Free days before the first charge for new subscribers (0 = no trial)
   features: string[];
+  maxFamilyMembers: number; // Members the owner can add (family plans only)
+  stripeProductId?: string;
+  stripePriceId?: string; // Recurring Stripe Price matching price, currency and period
   isActive: boolean;
   displayOrder?: number;
   createdAt: Date;
@@ -25,7 +29,7 @@ export interface IPackage extends Document {
 // Query helper types for Package
 interface IPackageQueryHelpers {
   active(): QueryWithHelpers<IPackage[], IPackage, IPackageQueryHelpers>;
-  byType(type: 'basic' | 'standard' | 'premium'): QueryWithHelpers<IPackage[], IPackage, IPackageQueryHelpers>;
+  byType(type: 'basic' | 'standard' | 'premium' | 'family'): QueryWithHelpers<IPackage[], IPackage, IPackageQueryHelpers>;
 }
 
 // Package model interface with statics
@@ -52,7 +56,7 @@ const PackageSchema = new Schema<IPackage, IPackageModel, Record<string, never>,
       type: String,
       required: [true, 'Package type is required'],
       enum: {
-        values: ['basic', 'standard', 'premium'],
+        values: ['basic', 'standard', 'premium', 'family'],
         message: '{VALUE} is not a valid package type',
       },
       unique: true,
@@ -93,11 +97,31 @@ const PackageSchema = new Schema<IPackage, IPackageModel, Record<string, never>,
       min: [0, 'Discount cannot be negative'],
       max: [100, 'Discount cannot exceed 100%'],
     },
+    trialDays: {
+      type: Number,
+      default: 0,
+      min: [0, 'Trial days cannot be negative'],
+      max: [90, 'Trial cannot exceed 90 days'],
+    },
     features: {
       type: [String],
       default: [],
       // e.g., ["وصول غير محدود", "محتوى حصري", "بدون إعلانات"]
     },
+    maxFamilyMembers: {
+      type: Number,
+      default: 5,
+      min: [1, 'A family plan must allow at least 1 member'],
+      // Only used when type is 'family'; the owner is not counted
+    },
+    stripeProductId: {
+      type: String,
+    },
+    stripePriceId: {
+      type: String,
+      index: true,
+      // Kept in sync with price/currency/period by the Stripe subscription service
+    },
     isActive: {
       type: Boolean,
       default: true,
@@ -176,7 +200,7 @@ PackageSchema.query.active = function (this: QueryWithHelpers<IPackage[], IPacka
   return this.where({ isActive: true });
 };
 
-PackageSchema.query.byType = function (this: QueryWithHelpers<IPackage[], IPackage, IPackageQueryHelpers>, type: 'basic' | 'standard' | 'premium') {
+PackageSchema.query.byType = function (this: QueryWithHelpers<IPackage[], IPackage, IPackageQueryHelpers>, type: 'basic' | 'standard' | 'premium' | 'family') {
   return this.where({ type });
 };
 
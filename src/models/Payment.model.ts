@@ -11,6 +11,7 @@ export interface IPayment extends Document {
   paymentMethod: 'visa' | 'apple-pay';
   transactionId?: string;
   stripePaymentIntentId?: string;
+  stripeInvoiceId?: string; // Set for subscription invoices billed by Stripe
   couponCode?: string;
   discountAmount: number;
   finalAmount: number;
@@ -88,6 +89,11 @@ const PaymentSchema = new Schema<IPayment, IPaymentModel, Record<string, never>,
       type: String,
       // Stripe payment intent ID for tracking
     },
+    stripeInvoiceId: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
     couponCode: {
       type: String,
       uppercase: true,
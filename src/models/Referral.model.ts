@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// pending: referred user registered, converted: they completed their first
+// payment, rewarded: the referrer's subscription was extended
+export type ReferralStatus = 'pending' | 'converted' | 'rewarded';
+
+export interface IReferral extends Document {
+  referrerId: mongoose.Types.ObjectId;
+  referredUserId: mongoose.Types.ObjectId;
+  code: string; // Referral code used at registration
+  status: ReferralStatus;
+  rewardDays: number; // Days granted to the referrer, fixed at conversion
+  paymentId?: mongoose.Types.ObjectId; // First completed payment of the referred user
+  convertedAt?: Date;
+  rewardedAt?: Date;
+  createdAt: Date;
+}
+
+const referralSchema = new Schema<IReferral>(
+  {
+    referrerId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    referredUserId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'converted', 'rewarded'],
+      default: 'pending',
+    },
+    rewardDays: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    paymentId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Payment',
+    },
+    convertedAt: { type: Date },
+    rewardedAt: { type: Date },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// A user can only be referred once
+referralSchema.index({ referredUserId: 1 }, { unique: true });
+// Indexes for the referrer's stats, pending rewards and admin analytics
+referralSchema.index({ referrerId: 1, status: 1 });
+referralSchema.index({ status: 1, createdAt: -1 });
+
+export const Referral = mongoose.model<IReferral>('Referral', referralSchema);
+
+export default Referral;
@@ -1,16 +1,41 @@
 import { Schema, model, Model, Document, FilterQuery, Query, QueryWithHelpers } from 'mongoose';
 import timestampsPlugin from './plugins/timestamps';
 
+// Failed renewal being retried during the grace period
+export interface IDunning {
+  startedAt: Date;
+  graceEndsAt: Date; // Access ends here if the payment is still failing
+  invoiceId?: string; // Stripe invoice being retried
+  retryCount: number;
+  nextRetryAt?: Date;
+  remindersSent: number;
+  lastFailureReason?: string;
+}
+
+// Package change that takes effect when the current period ends
+export interface IScheduledChange {
+  packageId: Schema.Types.ObjectId;
+  effectiveAt: Date;
+  stripeScheduleId?: string; // Stripe subscription schedule carrying the change
+}
+
 // Subscription document interface
 export interface ISubscription extends Document {
   userId: Schema.Types.ObjectId;
   packageId: Schema.Types.ObjectId;
-  status: 'active' | 'expired' | 'cancelled';
+  status: 'active' | 'past_due' | 'expired' | 'cancelled';
   startDate: Date;
   endDate: Date;
   autoRenew: boolean;
   paymentMethod?: string;
   cancellationDate?: Date;
+  stripeSubscriptionId?: string; // Set when Stripe bills the renewals
+  stripeStatus?: string; // Last status reported by Stripe (active, past_due, ...)
+  dunning?: IDunning; // Set while status is past_due
+  scheduledChange?: IScheduledChange;
+  trialStartedAt?: Date; // Free trial of the package (kept after it ends)
+  trialEndsAt?: Date;
+  trialConvertedAt?: Date; // First paid invoice after the trial
   createdAt: Date;
   updatedAt: Date;
   deletedAt?: Date;
@@ -32,6 +57,7 @@ interface ISubscriptionQueryHelpers {
 interface ISubscriptionModel extends Model<ISubscription, ISubscriptionQueryHelpers> {
   findNotDeleted(conditions?: FilterQuery<ISubscription>): Query<ISubscription[], ISubscription>;
   getUserSubscription(userId: string): Query<ISubscription | null, ISubscription>;
+  findWithAccess(userId: string): Query<ISubscription | null, ISubscription>;
   checkExpiredSubscriptions(): Promise<number>;
 }
 
@@ -54,7 +80,7 @@ const SubscriptionSchema = new Schema<ISubscription, ISubscriptionModel, Record<
       type: String,
       required: true,
       enum: {
-        values: ['active', 'expired', 'cancelled'],
+        values: ['active', 'past_due', 'expired', 'cancelled'],
         message: '{VALUE} is not a valid subscription status',
       },
       default: 'active',
@@ -82,6 +108,49 @@ const SubscriptionSchema = new Schema<ISubscription, ISubscriptionModel, Record<
       type: Date,
       // Date when subscription was cancelled
     },
+    stripeSubscriptionId: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    stripeStatus: {
+      type: String,
+    },
+    dunning: {
+      type: new Schema<IDunning>(
+        {
+          startedAt: { type: Date, required: true },
+          graceEndsAt: { type: Date, required: true },
+          invoiceId: { type: String },
+          retryCount: { type: Number, default: 0 },
+          nextRetryAt: { type: Date },
+          remindersSent: { type: Number, default: 0 },
+          lastFailureReason: { type: String },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    scheduledChange: {
+      type: new Schema<IScheduledChange>(
+        {
+          packageId: { type: Schema.Types.ObjectId, ref: 'Package', required: true },
+          effectiveAt: { type: Date, required: true },
+          stripeScheduleId: { type: String },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    trialStartedAt: {
+      type: Date,
+    },
+    trialEndsAt: {
+      type: Date,
+    },
+    trialConvertedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: false, // We're using the timestamps plugin
@@ -98,6 +167,10 @@ SubscriptionSchema.plugin(timestampsPlugin);
 
 // Compound index for queries
 SubscriptionSchema.index({ status: 1, endDate: 1 });
+// Index for the dunning retry job
+SubscriptionSchema.index({ status: 1, 'dunning.nextRetryAt': 1 });
+// Index for trial reminders
+SubscriptionSchema.index({ stripeStatus: 1, trialEndsAt: 1 });
 
 // Virtual field: daysRemaining
 SubscriptionSchema.virtual('daysRemaining').get(function () {
@@ -108,9 +181,13 @@ SubscriptionSchema.virtual('daysRemaining').get(function () {
   return diffDays > 0 ? diffDays : 0;
 });
 
-// Virtual field: isActive (check if current date < endDate and status is active)
+// Virtual field: isActive (check if current date < endDate and status is active,
+// or the subscription is past due and still within its grace period)
 SubscriptionSchema.virtual('isActive').get(function () {
   const now = new Date();
+  if (this.status === 'past_due') {
+    return !!this.dunning && this.dunning.graceEndsAt > now;
+  }
   return this.status === 'active' && this.endDate > now;
 });
 
@@ -175,6 +252,18 @@ SubscriptionSchema.statics.findActiveByUser = function (userId: string) {
   }).populate('packageId');
 };
 
+// Subscription that currently grants premium access (past due ones keep it during grace)
+SubscriptionSchema.statics.findWithAccess = function (userId: string) {
+  const now = new Date();
+  return this.findOne({
+    userId,
+    $or: [
+      { status: 'active', endDate: { $gt: now } },
+      { status: 'past_due', 'dunning.graceEndsAt': { $gt: now } },
+    ],
+  }).populate('packageId');
+};
+
 SubscriptionSchema.statics.findExpiringSubscriptions = function (days = 7) {
   const now = new Date();
   const futureDate = new Date();
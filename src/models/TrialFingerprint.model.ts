@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A card that has already been used for a free trial. Kept when the account is
+// deleted so a new account can't start another trial with the same card.
+export interface ITrialFingerprint extends Document {
+  fingerprint: string; // Stripe card fingerprint (same card, any customer)
+  userId: mongoose.Types.ObjectId;
+  stripeSubscriptionId: string; // Trial subscription the card was added to
+  createdAt: Date;
+}
+
+const trialFingerprintSchema = new Schema<ITrialFingerprint>(
+  {
+    fingerprint: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      index: true,
+    },
+    stripeSubscriptionId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+export const TrialFingerprint = mongoose.model<ITrialFingerprint>(
+  'TrialFingerprint',
+  trialFingerprintSchema
+);
+
+export default TrialFingerprint;
@@ -1,13 +1,16 @@
 import { Schema, model, Model, Document, FilterQuery, Query } from 'mongoose';
 import bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
 import jwt from 'jsonwebtoken';
 import { env } from '../config/env';
 import timestampsPlugin from './plugins/timestamps';
+import { ADMIN_ROLES, AdminRole } from '../config/permissions';
+import { DEFAULT_LOCALE, DEFAULT_TIMEZONE, isValidLocale, isValidTimezone } from '../utils/timezone';
 
 // Subscription subdocument interface
 interface ISubscription {
   packageId?: Schema.Types.ObjectId;
-  status: 'active' | 'expired' | 'cancelled';
+  status: 'active' | 'past_due' | 'expired' | 'cancelled';
   startDate?: Date;
   endDate?: Date;
   autoRenew: boolean;
@@ -37,6 +40,30 @@ export interface IFCMDevice {
   lastUsedAt: Date;
 }
 
+// Notification types a channel matrix row exists for
+export const NOTIFICATION_TYPES = [
+  'new_content',
+  'achievement',
+  'reminder',
+  'subscription',
+  'system',
+] as const;
+export type NotificationTypeKey = (typeof NOTIFICATION_TYPES)[number];
+
+// Delivery channels a notification type can use
+export interface INotificationChannels {
+  push: boolean;
+  inApp: boolean;
+  email: boolean;
+}
+
+// Hours (local "HH:mm", may wrap past midnight) when pushes are held back
+export interface IQuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
 // User preferences interface
 interface IPreferences {
   categories?: Schema.Types.ObjectId[];
@@ -45,12 +72,28 @@ interface IPreferences {
     achievements: boolean;
     reminders: boolean;
     subscription: boolean;
+    channels?: Partial<Record<NotificationTypeKey, INotificationChannels>>;
+    quietHours?: IQuietHours;
+    dailyPushLimit?: number; // Max pushes per local day (system alerts are exempt)
   };
   reminderTime: number; // Hour of day (0-23) for daily reminders
   enableDailyReminder: boolean;
   listeningPatterns?: IListeningPatterns;
 }
 
+// Answer given to an onboarding question
+export interface IOnboardingAnswer {
+  questionKey: string;
+  values: string[];
+}
+
+// Onboarding questionnaire result
+interface IOnboarding {
+  completedAt?: Date;
+  answers: IOnboardingAnswer[];
+  recommendedProgram?: Schema.Types.ObjectId;
+}
+
 // Social provider interface
 interface ISocialProvider {
   provider: 'google' | 'facebook' | 'apple';
@@ -58,6 +101,15 @@ interface ISocialProvider {
   email?: string;
 }
 
+// Uploaded avatar file (one per generated size)
+export interface IAvatarImage {
+  size: 'small' | 'medium' | 'large';
+  width: number;
+  key: string;
+  url: string;
+  storageType: 'local' | 'r2';
+}
+
 // User document interface
 export interface IUser extends Document {
   name: string;
@@ -65,24 +117,40 @@ export interface IUser extends Document {
   email: string;
   password: string;
   avatar?: string;
+  avatarImages?: IAvatarImage[];
   isVerified: boolean;
   otp?: string;
   otpExpires?: Date;
+  otpAttempts?: number; // Wrong codes entered for the current OTP
+  otpLockedUntil?: Date;
   role: 'user' | 'admin';
+  adminRole?: AdminRole; // Permission set for admins (unset = super_admin)
   subscription: ISubscription;
   preferences: IPreferences;
+  onboarding?: IOnboarding;
+  timezone: string; // IANA timezone used for reminders, streaks and stats
+  locale: string; // BCP 47 language tag (e.g. "ar", "en-US")
   fcmTokens: IFCMDevice[]; // Array of FCM device tokens
   lastNotificationSentAt?: Date; // For rate limiting
   socialProviders?: ISocialProvider[];
   isBanned: boolean;
   bannedUntil?: Date;
   banReason?: string;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorRecoveryCodes?: string[]; // SHA-256 hashes of unused recovery codes
+  twoFactorEnabledAt?: Date;
+  deletionScheduledFor?: Date; // Self-deleted accounts are purged after this date
+  referralCode?: string; // Code this user shares to invite friends
+  referredBy?: Schema.Types.ObjectId; // User whose referral code was used at registration
+  stripeCustomerId?: string;
+  trialUsedAt?: Date; // Set when the user starts their one free trial
   createdAt: Date;
   updatedAt: Date;
   deletedAt?: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
-  generateJWT(): string;
-  generateRefreshToken(): string;
+  generateJWT(sessionId?: string): string;
+  generateRefreshToken(sessionId?: string): string;
 }
 
 // User model interface with statics
@@ -99,7 +167,7 @@ const SubscriptionSchema = new Schema<ISubscription>(
     },
     status: {
       type: String,
-      enum: ['active', 'expired', 'cancelled'],
+      enum: ['active', 'past_due', 'expired', 'cancelled'],
       default: 'expired',
     },
     startDate: Date,
@@ -137,6 +205,25 @@ const FCMDeviceSchema = new Schema<IFCMDevice>(
   { _id: false }
 );
 
+// Notification channels subdocument schema
+const NotificationChannelsSchema = new Schema<INotificationChannels>(
+  {
+    push: {
+      type: Boolean,
+      default: true,
+    },
+    inApp: {
+      type: Boolean,
+      default: true,
+    },
+    email: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
 // Preferences subdocument schema
 const PreferencesSchema = new Schema<IPreferences>(
   {
@@ -163,6 +250,35 @@ const PreferencesSchema = new Schema<IPreferences>(
         type: Boolean,
         default: true,
       },
+      channels: NOTIFICATION_TYPES.reduce<Record<string, unknown>>((channels, type) => {
+        channels[type] = {
+          type: NotificationChannelsSchema,
+          default: () => ({}),
+        };
+        return channels;
+      }, {}),
+      quietHours: {
+        enabled: {
+          type: Boolean,
+          default: false,
+        },
+        start: {
+          type: String,
+          default: '22:00',
+          match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours start must be HH:mm'],
+        },
+        end: {
+          type: String,
+          default: '07:00',
+          match: [/^([01]\d|2[0-3]):[0-5]\d$/, 'Quiet hours end must be HH:mm'],
+        },
+      },
+      dailyPushLimit: {
+        type: Number,
+        default: 10,
+        min: 0,
+        max: 100,
+      },
     },
     reminderTime: {
       type: Number,
@@ -218,6 +334,35 @@ const SocialProviderSchema = new Schema<ISocialProvider>(
   { _id: false }
 );
 
+// Avatar image schema
+const AvatarImageSchema = new Schema<IAvatarImage>(
+  {
+    size: {
+      type: String,
+      enum: ['small', 'medium', 'large'],
+      required: true,
+    },
+    width: {
+      type: Number,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+    storageType: {
+      type: String,
+      enum: ['local', 'r2'],
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
 // User schema
 const UserSchema = new Schema<IUser, IUserModel>(
   {
@@ -251,6 +396,7 @@ const UserSchema = new Schema<IUser, IUserModel>(
     avatar: {
       type: String,
     },
+    avatarImages: [AvatarImageSchema],
     isVerified: {
       type: Boolean,
       default: false,
@@ -262,11 +408,24 @@ const UserSchema = new Schema<IUser, IUserModel>(
     otpExpires: {
       type: Date,
     },
+    otpAttempts: {
+      type: Number,
+      default: 0,
+      select: false,
+    },
+    otpLockedUntil: {
+      type: Date,
+      select: false,
+    },
     role: {
       type: String,
       enum: ['user', 'admin'],
       default: 'user',
     },
+    adminRole: {
+      type: String,
+      enum: ADMIN_ROLES,
+    },
     subscription: {
       type: SubscriptionSchema,
       default: () => ({
@@ -274,6 +433,22 @@ const UserSchema = new Schema<IUser, IUserModel>(
         autoRenew: true,
       }),
     },
+    timezone: {
+      type: String,
+      default: DEFAULT_TIMEZONE,
+      validate: {
+        validator: isValidTimezone,
+        message: '{VALUE} is not a valid IANA timezone',
+      },
+    },
+    locale: {
+      type: String,
+      default: DEFAULT_LOCALE,
+      validate: {
+        validator: isValidLocale,
+        message: '{VALUE} is not a valid locale',
+      },
+    },
     preferences: {
       type: PreferencesSchema,
       default: () => ({
@@ -287,6 +462,22 @@ const UserSchema = new Schema<IUser, IUserModel>(
         enableDailyReminder: true,
       }),
     },
+    onboarding: {
+      completedAt: {
+        type: Date,
+      },
+      answers: [
+        {
+          _id: false,
+          questionKey: String,
+          values: [String],
+        },
+      ],
+      recommendedProgram: {
+        type: Schema.Types.ObjectId,
+        ref: 'Program',
+      },
+    },
     fcmTokens: {
       type: [FCMDeviceSchema],
       default: [],
@@ -305,6 +496,44 @@ const UserSchema = new Schema<IUser, IUserModel>(
     banReason: {
       type: String,
     },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+    },
+    twoFactorEnabledAt: {
+      type: Date,
+    },
+    deletionScheduledFor: {
+      type: Date,
+      index: true,
+    },
+    referralCode: {
+      type: String,
+      unique: true,
+      sparse: true,
+      uppercase: true,
+      trim: true,
+    },
+    referredBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    stripeCustomerId: {
+      type: String,
+      unique: true,
+      sparse: true,
+    },
+    trialUsedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: false, // We're using the timestamps plugin
@@ -347,11 +576,12 @@ UserSchema.methods.comparePassword = async function (
 };
 
 // Method to generate JWT access token
-UserSchema.methods.generateJWT = function (): string {
+UserSchema.methods.generateJWT = function (sessionId?: string): string {
   const payload = {
     id: this._id,
     email: this.email,
     role: this.role,
+    ...(sessionId && { sid: sessionId }),
   };
 
   return jwt.sign(payload, env.JWT_SECRET, {
@@ -360,13 +590,16 @@ UserSchema.methods.generateJWT = function (): string {
 };
 
 // Method to generate refresh token
-UserSchema.methods.generateRefreshToken = function (): string {
+UserSchema.methods.generateRefreshToken = function (sessionId?: string): string {
   const payload = {
     id: this._id,
+    ...(sessionId && { sid: sessionId }),
   };
 
+  // Unique jti so every rotated token in a session family can be told apart
   return jwt.sign(payload, env.JWT_REFRESH_SECRET || env.JWT_SECRET, {
     expiresIn: env.JWT_REFRESH_EXPIRE || '7d',
+    jwtid: randomUUID(),
   } as jwt.SignOptions);
 };
 
@@ -0,0 +1,70 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type WebhookEventStatus = 'received' | 'processed' | 'failed';
+
+export interface IWebhookEvent extends Document {
+  eventId: string; // Stripe event id (evt_...)
+  type: string;
+  status: WebhookEventStatus;
+  payload: Record<string, unknown>; // Full Stripe event, used to reprocess
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: Date;
+  processedAt?: Date;
+  reprocessedBy?: mongoose.Types.ObjectId; // Admin who last retried it
+  receivedAt: Date;
+}
+
+const webhookEventSchema = new Schema<IWebhookEvent>(
+  {
+    eventId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    type: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['received', 'processed', 'failed'],
+      default: 'received',
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: { type: String },
+    lastAttemptAt: { type: Date },
+    processedAt: { type: Date },
+    reprocessedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    receivedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: false,
+  }
+);
+
+// Index for the admin failed-events view
+webhookEventSchema.index({ status: 1, receivedAt: -1 });
+webhookEventSchema.index({ type: 1, receivedAt: -1 });
+// Processed events are only kept long enough to recognise Stripe's retries
+webhookEventSchema.index(
+  { processedAt: 1 },
+  { expireAfterSeconds: 90 * 24 * 60 * 60, partialFilterExpression: { status: 'processed' } }
+);
+
+export const WebhookEvent = mongoose.model<IWebhookEvent>('WebhookEvent', webhookEventSchema);
+
+export default WebhookEvent;
@@ -9,6 +9,7 @@ import {
   exportAnalytics,
   getRealtimeAnalytics,
   getPopularTracksAnalytics,
+  getReferralAnalytics,
 } from '../controllers/adminAnalytics.controller';
 import {
   listUsers,
@@ -20,6 +21,16 @@ import {
   grantSubscription,
   exportUserData,
 } from '../controllers/adminUser.controller';
+import {
+  listBanAppeals,
+  approveBanAppeal,
+  denyBanAppeal,
+} from '../controllers/adminBanAppeal.controller';
+import {
+  listWebhookEvents,
+  getWebhookEvent,
+  reprocessWebhookEvent,
+} from '../controllers/adminWebhook.controller';
 import {
   listCoupons,
   createCoupon,
@@ -33,6 +44,12 @@ import {
   updateCategory,
   deleteCategory,
 } from '../controllers/adminCategory.controller';
+import {
+  getAllOnboardingQuestions,
+  createOnboardingQuestion,
+  updateOnboardingQuestion,
+  deleteOnboardingQuestion,
+} from '../controllers/adminOnboarding.controller';
 import {
   getAllTracks,
   getTrackById,
@@ -65,6 +82,10 @@ import {
   changeAdminPassword,
   updateStorageSettings,
   initializeSettings,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
 } from '../controllers/settings.controller';
 import {
   sendNotificationToUser,
@@ -76,94 +97,135 @@ import {
   getTracksForNotifications,
   getProgramsForNotifications,
 } from '../controllers/notifications.controller';
-import { protect, authorize } from '../middlewares/auth.middleware';
+import {
+  getRoles,
+  getMyPermissions,
+  listStaff,
+  updateUserRole,
+} from '../controllers/adminRole.controller';
+import { getAuditLog } from '../controllers/adminAuditLog.controller';
+import { protect, authorize, authorizePermission } from '../middlewares/auth.middleware';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
 
 /**
- * All routes require authentication and admin role
+ * All routes require authentication and admin role.
+ * Routes beyond the admin's own account also require the matching permission.
+ * Mutating routes are recorded in the admin audit log.
  */
 
 // User Management
-router.get('/users', protect, authorize('admin'), asyncHandler(listUsers));
-router.get('/users/:userId', protect, authorize('admin'), asyncHandler(getUserDetails));
-router.put('/users/:userId', protect, authorize('admin'), asyncHandler(updateUser));
-router.delete('/users/:userId', protect, authorize('admin'), asyncHandler(deleteUser));
-router.post('/users/:userId/ban', protect, authorize('admin'), asyncHandler(banUser));
-router.post('/users/:userId/unban', protect, authorize('admin'), asyncHandler(unbanUser));
-router.post('/users/:userId/grant-subscription', protect, authorize('admin'), asyncHandler(grantSubscription));
-router.get('/users/:userId/export', protect, authorize('admin'), asyncHandler(exportUserData));
+router.get('/users', protect, authorizePermission('users:read'), asyncHandler(listUsers));
+router.get('/users/:userId', protect, authorizePermission('users:read'), asyncHandler(getUserDetails));
+router.put('/users/:userId', protect, authorizePermission('users:write'), auditAdminAction({ action: 'user.update', entityType: 'User', idParam: 'userId' }), asyncHandler(updateUser));
+router.delete('/users/:userId', protect, authorizePermission('users:delete'), auditAdminAction({ action: 'user.delete', entityType: 'User', idParam: 'userId' }), asyncHandler(deleteUser));
+router.post('/users/:userId/ban', protect, authorizePermission('users:ban'), auditAdminAction({ action: 'user.ban', entityType: 'User', idParam: 'userId' }), asyncHandler(banUser));
+router.post('/users/:userId/unban', protect, authorizePermission('users:ban'), auditAdminAction({ action: 'user.unban', entityType: 'User', idParam: 'userId' }), asyncHandler(unbanUser));
+router.post('/users/:userId/grant-subscription', protect, authorizePermission('subscriptions:grant'), auditAdminAction({ action: 'subscription.grant', entityType: 'Subscription' }), asyncHandler(grantSubscription));
+router.get('/users/:userId/export', protect, authorizePermission('users:export'), asyncHandler(exportUserData));
+
+// Ban Appeals
+router.get('/appeals', protect, authorizePermission('users:ban'), asyncHandler(listBanAppeals));
+router.post('/appeals/:appealId/approve', protect, authorizePermission('users:ban'), auditAdminAction({ action: 'user.appeal.approve', entityType: 'BanAppeal', idParam: 'appealId' }), asyncHandler(approveBanAppeal));
+router.post('/appeals/:appealId/deny', protect, authorizePermission('users:ban'), auditAdminAction({ action: 'user.appeal.deny', entityType: 'BanAppeal', idParam: 'appealId' }), asyncHandler(denyBanAppeal));
+
+router.put('/users/:userId/role', protect, authorizePermission('roles:manage'), auditAdminAction({ action: 'user.role.update', entityType: 'User', idParam: 'userId' }), asyncHandler(updateUserRole));
+
+// Roles & Staff
+router.get('/roles', protect, authorizePermission('roles:manage'), asyncHandler(getRoles));
+router.get('/roles/me', protect, authorize('admin'), asyncHandler(getMyPermissions));
+router.get('/staff', protect, authorizePermission('roles:manage'), asyncHandler(listStaff));
+
+// Audit Log
+router.get('/audit-log', protect, authorizePermission('audit:read'), asyncHandler(getAuditLog));
 
 // Coupon Management
-router.get('/coupons', protect, authorize('admin'), asyncHandler(listCoupons));
-router.post('/coupons', protect, authorize('admin'), asyncHandler(createCoupon));
-router.put('/coupons/:couponId', protect, authorize('admin'), asyncHandler(updateCoupon));
-router.delete('/coupons/:couponId', protect, authorize('admin'), asyncHandler(deleteCoupon));
-router.get('/coupons/:couponId/stats', protect, authorize('admin'), asyncHandler(getCouponStats));
+router.get('/coupons', protect, authorizePermission('coupons:read'), asyncHandler(listCoupons));
+router.post('/coupons', protect, authorizePermission('coupons:write'), auditAdminAction({ action: 'coupon.create', entityType: 'Coupon' }), asyncHandler(createCoupon));
+router.put('/coupons/:couponId', protect, authorizePermission('coupons:write'), auditAdminAction({ action: 'coupon.update', entityType: 'Coupon', idParam: 'couponId' }), asyncHandler(updateCoupon));
+router.delete('/coupons/:couponId', protect, authorizePermission('coupons:write'), auditAdminAction({ action: 'coupon.delete', entityType: 'Coupon', idParam: 'couponId' }), asyncHandler(deleteCoupon));
+router.get('/coupons/:couponId/stats', protect, authorizePermission('coupons:read'), asyncHandler(getCouponStats));
 
 // System Health
-router.get('/health', protect, authorize('admin'), asyncHandler(getSystemHealth));
+router.get('/health', protect, authorizePermission('system:health'), asyncHandler(getSystemHealth));
 
 // Get subscription statistics
-router.get('/subscriptions/stats', protect, authorize('admin'), getSubscriptionStats);
+router.get('/subscriptions/stats', protect, authorizePermission('analytics:read'), getSubscriptionStats);
 
 // Admin analytics endpoints
-router.get('/analytics/dashboard', protect, authorize('admin'), asyncHandler(getDashboardAnalytics));
-router.get('/analytics/users', protect, authorize('admin'), asyncHandler(getUserGrowthAnalytics));
-router.get('/analytics/content', protect, authorize('admin'), asyncHandler(getContentEngagementAnalytics));
-router.get('/analytics/revenue', protect, authorize('admin'), asyncHandler(getRevenueAnalytics));
-router.get('/analytics/retention', protect, authorize('admin'), asyncHandler(getRetentionAnalytics));
-router.get('/analytics/export', protect, authorize('admin'), asyncHandler(exportAnalytics));
-router.get('/analytics/realtime', protect, authorize('admin'), asyncHandler(getRealtimeAnalytics));
-router.get('/analytics/tracks/popular', protect, authorize('admin'), asyncHandler(getPopularTracksAnalytics));
+router.get('/analytics/dashboard', protect, authorizePermission('analytics:read'), asyncHandler(getDashboardAnalytics));
+router.get('/analytics/users', protect, authorizePermission('analytics:read'), asyncHandler(getUserGrowthAnalytics));
+router.get('/analytics/content', protect, authorizePermission('analytics:read'), asyncHandler(getContentEngagementAnalytics));
+router.get('/analytics/revenue', protect, authorizePermission('analytics:read'), asyncHandler(getRevenueAnalytics));
+router.get('/analytics/retention', protect, authorizePermission('analytics:read'), asyncHandler(getRetentionAnalytics));
+router.get('/analytics/export', protect, authorizePermission('analytics:read'), asyncHandler(exportAnalytics));
+router.get('/analytics/realtime', protect, authorizePermission('analytics:read'), asyncHandler(getRealtimeAnalytics));
+router.get('/analytics/tracks/popular', protect, authorizePermission('analytics:read'), asyncHandler(getPopularTracksAnalytics));
+router.get('/analytics/referrals', protect, authorizePermission('analytics:read'), asyncHandler(getReferralAnalytics));
 
 // Category Management
-router.get('/categories', protect, authorize('admin'), asyncHandler(getAllCategories));
-router.post('/categories', protect, authorize('admin'), asyncHandler(createCategory));
-router.put('/categories/:id', protect, authorize('admin'), asyncHandler(updateCategory));
-router.delete('/categories/:id', protect, authorize('admin'), asyncHandler(deleteCategory));
+router.get('/categories', protect, authorizePermission('content:read'), asyncHandler(getAllCategories));
+router.post('/categories', protect, authorizePermission('content:write'), auditAdminAction({ action: 'category.create', entityType: 'Category' }), asyncHandler(createCategory));
+router.put('/categories/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'category.update', entityType: 'Category', idParam: 'id' }), asyncHandler(updateCategory));
+router.delete('/categories/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'category.delete', entityType: 'Category', idParam: 'id' }), asyncHandler(deleteCategory));
+
+// Onboarding Questionnaire
+router.get('/onboarding/questions', protect, authorizePermission('content:read'), asyncHandler(getAllOnboardingQuestions));
+router.post('/onboarding/questions', protect, authorizePermission('content:write'), auditAdminAction({ action: 'onboarding.question.create', entityType: 'OnboardingQuestion' }), asyncHandler(createOnboardingQuestion));
+router.put('/onboarding/questions/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'onboarding.question.update', entityType: 'OnboardingQuestion', idParam: 'id' }), asyncHandler(updateOnboardingQuestion));
+router.delete('/onboarding/questions/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'onboarding.question.delete', entityType: 'OnboardingQuestion', idParam: 'id' }), asyncHandler(deleteOnboardingQuestion));
 
 // Track Management
-router.get('/tracks', protect, authorize('admin'), asyncHandler(getAllTracks));
-router.get('/tracks/:id', protect, authorize('admin'), asyncHandler(getTrackById));
-router.post('/tracks', protect, authorize('admin'), asyncHandler(createTrack));
-router.put('/tracks/:id', protect, authorize('admin'), asyncHandler(updateTrack));
-router.delete('/tracks/:id', protect, authorize('admin'), asyncHandler(deleteTrack));
+router.get('/tracks', protect, authorizePermission('content:read'), asyncHandler(getAllTracks));
+router.get('/tracks/:id', protect, authorizePermission('content:read'), asyncHandler(getTrackById));
+router.post('/tracks', protect, authorizePermission('content:write'), auditAdminAction({ action: 'track.create', entityType: 'Track' }), asyncHandler(createTrack));
+router.put('/tracks/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'track.update', entityType: 'Track', idParam: 'id' }), asyncHandler(updateTrack));
+router.delete('/tracks/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'track.delete', entityType: 'Track', idParam: 'id' }), asyncHandler(deleteTrack));
 
 // Program Management
-router.get('/programs', protect, authorize('admin'), asyncHandler(getAllPrograms));
-router.get('/programs/:id', protect, authorize('admin'), asyncHandler(getProgramById));
-router.post('/programs', protect, authorize('admin'), asyncHandler(createProgram));
-router.put('/programs/:id', protect, authorize('admin'), asyncHandler(updateProgram));
-router.delete('/programs/:id', protect, authorize('admin'), asyncHandler(deleteProgram));
+router.get('/programs', protect, authorizePermission('content:read'), asyncHandler(getAllPrograms));
+router.get('/programs/:id', protect, authorizePermission('content:read'), asyncHandler(getProgramById));
+router.post('/programs', protect, authorizePermission('content:write'), auditAdminAction({ action: 'program.create', entityType: 'Program' }), asyncHandler(createProgram));
+router.put('/programs/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'program.update', entityType: 'Program', idParam: 'id' }), asyncHandler(updateProgram));
+router.delete('/programs/:id', protect, authorizePermission('content:write'), auditAdminAction({ action: 'program.delete', entityType: 'Program', idParam: 'id' }), asyncHandler(deleteProgram));
 
 // Package Management
-router.get('/packages', protect, authorize('admin'), asyncHandler(getAllPackages));
-router.get('/packages/:id', protect, authorize('admin'), asyncHandler(getPackageById));
-router.put('/packages/:id', protect, authorize('admin'), asyncHandler(updatePackage));
+router.get('/packages', protect, authorizePermission('packages:read'), asyncHandler(getAllPackages));
+router.get('/packages/:id', protect, authorizePermission('packages:read'), asyncHandler(getPackageById));
+router.put('/packages/:id', protect, authorizePermission('packages:write'), auditAdminAction({ action: 'package.update', entityType: 'Package', idParam: 'id' }), asyncHandler(updatePackage));
 
 // Payment Management
-router.get('/payments/export', protect, authorize('admin'), asyncHandler(exportPayments));
-router.get('/payments', protect, authorize('admin'), asyncHandler(getAllPayments));
-router.get('/payments/:id', protect, authorize('admin'), asyncHandler(getPaymentById));
-router.post('/payments/:id/refund', protect, authorize('admin'), refundPayment);
+router.get('/payments/export', protect, authorizePermission('payments:export'), asyncHandler(exportPayments));
+router.get('/payments', protect, authorizePermission('payments:read'), asyncHandler(getAllPayments));
+router.get('/payments/:id', protect, authorizePermission('payments:read'), asyncHandler(getPaymentById));
+router.post('/payments/:id/refund', protect, authorizePermission('payments:refund'), auditAdminAction({ action: 'payment.refund', entityType: 'Payment', idParam: 'id' }), refundPayment);
+
+// Stripe Webhook Events
+router.get('/webhooks/events', protect, authorizePermission('payments:read'), asyncHandler(listWebhookEvents));
+router.get('/webhooks/events/:id', protect, authorizePermission('payments:read'), asyncHandler(getWebhookEvent));
+router.post('/webhooks/events/:id/reprocess', protect, authorizePermission('payments:webhooks'), auditAdminAction({ action: 'webhook.reprocess', entityType: 'WebhookEvent', idParam: 'id' }), asyncHandler(reprocessWebhookEvent));
 
 // Settings Management
 router.get('/settings', protect, authorize('admin'), asyncHandler(getSettings));
-router.put('/settings/profile', protect, authorize('admin'), asyncHandler(updateAdminProfile));
-router.put('/settings/password', protect, authorize('admin'), asyncHandler(changeAdminPassword));
-router.put('/settings/storage', protect, authorize('admin'), asyncHandler(updateStorageSettings));
-router.post('/settings/initialize', protect, authorize('admin'), asyncHandler(initializeSettings));
+router.put('/settings/profile', protect, authorize('admin'), auditAdminAction({ action: 'settings.profile.update', entityType: 'User', self: true }), asyncHandler(updateAdminProfile));
+router.put('/settings/password', protect, authorize('admin'), auditAdminAction({ action: 'settings.password.change', entityType: 'User', self: true }), asyncHandler(changeAdminPassword));
+router.put('/settings/storage', protect, authorizePermission('settings:manage'), auditAdminAction({ action: 'settings.storage.update', entityType: 'Settings' }), asyncHandler(updateStorageSettings));
+router.post('/settings/initialize', protect, authorizePermission('settings:manage'), auditAdminAction({ action: 'settings.initialize', entityType: 'Settings' }), asyncHandler(initializeSettings));
+router.post('/settings/2fa/setup', protect, authorize('admin'), auditAdminAction({ action: 'settings.2fa.setup', entityType: 'User', self: true }), asyncHandler(setupTwoFactor));
+router.post('/settings/2fa/enable', protect, authorize('admin'), auditAdminAction({ action: 'settings.2fa.enable', entityType: 'User', self: true }), asyncHandler(enableTwoFactor));
+router.post('/settings/2fa/disable', protect, authorize('admin'), auditAdminAction({ action: 'settings.2fa.disable', entityType: 'User', self: true }), asyncHandler(disableTwoFactor));
+router.post('/settings/2fa/recovery-codes', protect, authorize('admin'), auditAdminAction({ action: 'settings.2fa.recovery_codes.regenerate', entityType: 'User', self: true }), asyncHandler(regenerateRecoveryCodes));
 
 // Notification Management
-router.get('/notifications/templates', protect, authorize('admin'), asyncHandler(getNotificationTemplates));
-router.get('/notifications/stats', protect, authorize('admin'), asyncHandler(getNotificationStats));
-router.get('/notifications/history', protect, authorize('admin'), asyncHandler(getNotificationHistory));
-router.get('/notifications/users', protect, authorize('admin'), asyncHandler(getUsersForNotifications));
-router.get('/notifications/tracks', protect, authorize('admin'), asyncHandler(getTracksForNotifications));
-router.get('/notifications/programs', protect, authorize('admin'), asyncHandler(getProgramsForNotifications));
-router.post('/notifications/send', protect, authorize('admin'), asyncHandler(sendNotificationToUser));
-router.post('/notifications/broadcast', protect, authorize('admin'), asyncHandler(broadcastNotification));
+router.get('/notifications/templates', protect, authorizePermission('notifications:read'), asyncHandler(getNotificationTemplates));
+router.get('/notifications/stats', protect, authorizePermission('notifications:read'), asyncHandler(getNotificationStats));
+router.get('/notifications/history', protect, authorizePermission('notifications:read'), asyncHandler(getNotificationHistory));
+router.get('/notifications/users', protect, authorizePermission('notifications:read'), asyncHandler(getUsersForNotifications));
+router.get('/notifications/tracks', protect, authorizePermission('notifications:read'), asyncHandler(getTracksForNotifications));
+router.get('/notifications/programs', protect, authorizePermission('notifications:read'), asyncHandler(getProgramsForNotifications));
+router.post('/notifications/send', protect, authorizePermission('notifications:send'), auditAdminAction({ action: 'notification.send', entityType: 'Notification' }), asyncHandler(sendNotificationToUser));
+router.post('/notifications/broadcast', protect, authorizePermission('notifications:broadcast'), auditAdminAction({ action: 'notification.broadcast', entityType: 'Notification' }), asyncHandler(broadcastNotification));
 
 export default router;
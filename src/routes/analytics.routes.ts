@@ -17,7 +17,7 @@ import {
   exportAnalytics,
   getRealtimeAnalytics,
 } from '../controllers/adminAnalytics.controller';
-import { protect, authorize } from '../middlewares/auth.middleware';
+import { protect, authorizePermission } from '../middlewares/auth.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
@@ -97,7 +97,7 @@ router.get(
 router.get(
   '/admin/dashboard',
   protect,
-  authorize('admin'),
+  authorizePermission('analytics:read'),
   asyncHandler(getDashboardAnalytics)
 );
 
@@ -105,7 +105,7 @@ router.get(
 router.get(
   '/admin/users',
   protect,
-  authorize('admin'),
+  authorizePermission('analytics:read'),
   asyncHandler(getUserGrowthAnalytics)
 );
 
@@ -113,7 +113,7 @@ router.get(
 router.get(
   '/admin/content',
   protect,
-  authorize('admin'),
+  authorizePermission('analytics:read'),
   asyncHandler(getContentEngagementAnalytics)
 );
 
@@ -121,7 +121,7 @@ router.get(
 router.get(
   '/admin/revenue',
   protect,
-  authorize('admin'),
+  authorizePermission('analytics:read'),
   asyncHandler(getRevenueAnalytics)
 );
 
@@ -129,7 +129,7 @@ router.get(
 router.get(
   '/admin/retention',
   protect,
-  authorize('admin'),
+  authorizePermission('analytics:read'),
   asyncHandler(getRetentionAnalytics)
 );
 
@@ -137,7 +137,7 @@ router.get(
 router.get(
   '/admin/export',
   protect,
-  authorize('admin'),
+  authorizePermission('analytics:read'),
   asyncHandler(exportAnalytics)
 );
 
@@ -145,7 +145,7 @@ router.get(
 router.get(
   '/admin/realtime',
   protect,
-  authorize('admin'),
+  authorizePermission('analytics:read'),
   asyncHandler(getRealtimeAnalytics)
 );
 
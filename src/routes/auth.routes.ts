@@ -4,23 +4,47 @@ import {
   sendOTP,
   verifyOTP,
   login,
+  verifyTwoFactor,
+  requestMagicLink,
+  verifyMagicLink,
   refreshToken,
   logout,
   forgotPassword,
   resetPassword,
   socialAuth,
+  getSessions,
+  revokeSession,
 } from '../controllers/auth.controller';
 import {
   validateRegister,
   validateLogin,
+  validateTwoFactorVerify,
+  validateMagicLinkRequest,
+  validateMagicLinkVerify,
   validateOTPSend,
   validateOTPVerify,
   validateRefreshToken,
   validateForgotPassword,
   validateResetPassword,
   validateSocialAuth,
+  validateSessionId,
 } from '../validators/auth.validator';
 import { protect } from '../middlewares/auth.middleware';
+import {
+  loginIpLimiter,
+  loginAccountLimiter,
+  otpSendIpLimiter,
+  otpSendAccountLimiter,
+  forgotPasswordIpLimiter,
+  forgotPasswordAccountLimiter,
+  magicLinkIpLimiter,
+  magicLinkAccountLimiter,
+  otpVerifyIpLimiter,
+  otpVerifyAccountLimiter,
+  resetPasswordIpLimiter,
+  resetPasswordAccountLimiter,
+  twoFactorVerifyIpLimiter,
+} from '../middlewares/rateLimiter';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
@@ -33,11 +57,47 @@ const router = Router();
 router.post('/register', validateRegister, asyncHandler(register));
 
 // OTP routes
-router.post('/otp/send', validateOTPSend, asyncHandler(sendOTP));
-router.post('/otp/verify', validateOTPVerify, asyncHandler(verifyOTP));
+router.post(
+  '/otp/send',
+  otpSendIpLimiter,
+  otpSendAccountLimiter,
+  validateOTPSend,
+  asyncHandler(sendOTP)
+);
+router.post(
+  '/otp/verify',
+  otpVerifyIpLimiter,
+  otpVerifyAccountLimiter,
+  validateOTPVerify,
+  asyncHandler(verifyOTP)
+);
 
 // Login
-router.post('/login', validateLogin, asyncHandler(login));
+router.post(
+  '/login',
+  loginIpLimiter,
+  loginAccountLimiter,
+  validateLogin,
+  asyncHandler(login)
+);
+
+// Second login step for accounts with 2FA enabled
+router.post(
+  '/2fa/verify',
+  twoFactorVerifyIpLimiter,
+  validateTwoFactorVerify,
+  asyncHandler(verifyTwoFactor)
+);
+
+// Passwordless sign-in by email link
+router.post(
+  '/magic-link',
+  magicLinkIpLimiter,
+  magicLinkAccountLimiter,
+  validateMagicLinkRequest,
+  asyncHandler(requestMagicLink)
+);
+router.get('/magic-link/verify', validateMagicLinkVerify, asyncHandler(verifyMagicLink));
 
 // Refresh token
 router.post(
@@ -49,6 +109,8 @@ router.post(
 // Forgot password
 router.post(
   '/forgot-password',
+  forgotPasswordIpLimiter,
+  forgotPasswordAccountLimiter,
   validateForgotPassword,
   asyncHandler(forgotPassword)
 );
@@ -56,6 +118,8 @@ router.post(
 // Reset password
 router.post(
   '/reset-password',
+  resetPasswordIpLimiter,
+  resetPasswordAccountLimiter,
   validateResetPassword,
   asyncHandler(resetPassword)
 );
@@ -74,4 +138,13 @@ router.post(
 // Logout (requires authentication)
 router.post('/logout', protect, asyncHandler(logout));
 
+// Device sessions
+router.get('/sessions', protect, asyncHandler(getSessions));
+router.delete(
+  '/sessions/:id',
+  protect,
+  validateSessionId,
+  asyncHandler(revokeSession)
+);
+
 export default router;
@@ -17,8 +17,9 @@ import {
   validateGetCategoryContent,
   validateReorderCategories,
 } from '../validators/categories.validator';
-import { protect, authorize } from '../middlewares/auth.middleware';
+import { protect, authorizePermission } from '../middlewares/auth.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 
 const router = Router();
 
@@ -37,7 +38,8 @@ router.get('/', asyncHandler(getAllCategories));
 router.put(
   '/reorder',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'category.reorder', entityType: 'Category' }),
   validateReorderCategories,
   asyncHandler(reorderCategories)
 );
@@ -46,7 +48,8 @@ router.put(
 router.post(
   '/',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'category.create', entityType: 'Category' }),
   validateCreateCategory,
   asyncHandler(createCategory)
 );
@@ -59,7 +62,7 @@ router.post(
 router.get(
   '/:id/stats',
   protect,
-  authorize('admin'),
+  authorizePermission('content:read'),
   validateCategoryId,
   asyncHandler(getCategoryStats)
 );
@@ -89,7 +92,8 @@ router.get('/:id', validateCategoryId, asyncHandler(getCategoryById));
 router.put(
   '/:id',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'category.update', entityType: 'Category', idParam: 'id' }),
   validateUpdateCategory,
   asyncHandler(updateCategory)
 );
@@ -98,7 +102,8 @@ router.put(
 router.delete(
   '/:id',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'category.delete', entityType: 'Category', idParam: 'id' }),
   validateCategoryId,
   asyncHandler(deleteCategory)
 );
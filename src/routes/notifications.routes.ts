@@ -11,8 +11,9 @@ import {
   sendNotificationToUser,
   broadcastNotification,
 } from '../controllers/notifications.controller';
-import { protect, authorize } from '../middlewares/auth.middleware';
+import { protect, authorizePermission } from '../middlewares/auth.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 import {
   validateGetNotifications,
   validateMarkAsRead,
@@ -87,7 +88,8 @@ router.post(
 router.post(
   '/send',
   protect,
-  authorize('admin'),
+  authorizePermission('notifications:send'),
+  auditAdminAction({ action: 'notification.send', entityType: 'Notification' }),
   validateSendNotification,
   asyncHandler(sendNotificationToUser)
 );
@@ -95,7 +97,8 @@ router.post(
 router.post(
   '/broadcast',
   protect,
-  authorize('admin'),
+  authorizePermission('notifications:broadcast'),
+  auditAdminAction({ action: 'notification.broadcast', entityType: 'Notification' }),
   validateBroadcastNotification,
   asyncHandler(broadcastNotification)
 );
@@ -1,7 +1,5 @@
 import { Router } from 'express';
 import {
-  createPaymentIntent,
-  confirmPayment,
   validateCoupon,
   getPaymentMethods,
   handleStripeWebhook,
@@ -9,7 +7,8 @@ import {
   getPaymentAnalytics,
   createTestPayment,
 } from '../controllers/payments.controller';
-import { protect, authorize } from '../middlewares/auth.middleware';
+import { protect, authorizePermission } from '../middlewares/auth.middleware';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 
 const router = Router();
 
@@ -24,12 +23,6 @@ router.post('/webhook', handleStripeWebhook);
  * Protected routes (require authentication)
  */
 
-// Create payment intent
-router.post('/create-intent', protect, createPaymentIntent);
-
-// Confirm payment
-router.post('/confirm', protect, confirmPayment);
-
 // Validate coupon
 router.post('/validate-coupon', protect, validateCoupon);
 
@@ -44,9 +37,15 @@ router.get('/methods', protect, getPaymentMethods);
  */
 
 // Refund payment
-router.post('/:paymentId/refund', protect, authorize('admin'), refundPayment);
+router.post(
+  '/:paymentId/refund',
+  protect,
+  authorizePermission('payments:refund'),
+  auditAdminAction({ action: 'payment.refund', entityType: 'Payment', idParam: 'paymentId' }),
+  refundPayment
+);
 
 // Get payment analytics
-router.get('/analytics', protect, authorize('admin'), getPaymentAnalytics);
+router.get('/analytics', protect, authorizePermission('analytics:read'), getPaymentAnalytics);
 
 export default router;
@@ -15,12 +15,13 @@ import {
   validateProgramId,
   validateGetPrograms,
 } from '../validators/programs.validator';
-import { protect, authorize, optionalAuth } from '../middlewares/auth.middleware';
+import { protect, authorizePermission, optionalAuth } from '../middlewares/auth.middleware';
 import {
   optionalSubscriptionCheck,
   requireSubscriptionForProgram,
 } from '../middlewares/subscription.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 
 const router = Router();
 
@@ -66,7 +67,8 @@ router.get(
 router.post(
   '/',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'program.create', entityType: 'Program' }),
   validateCreateProgram,
   asyncHandler(createProgram)
 );
@@ -75,7 +77,8 @@ router.post(
 router.put(
   '/:id',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'program.update', entityType: 'Program', idParam: 'id' }),
   validateUpdateProgram,
   asyncHandler(updateProgram)
 );
@@ -84,7 +87,8 @@ router.put(
 router.delete(
   '/:id',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'program.delete', entityType: 'Program', idParam: 'id' }),
   validateProgramId,
   asyncHandler(deleteProgram)
 );
@@ -8,8 +8,9 @@ import {
 } from '../controllers/search.controller';
 import { validateSearch, validateSearchSuggestions } from '../validators/search.validator';
 import { optionalAuth } from '../middlewares/auth.middleware';
-import { protect, authorize } from '../middlewares/auth.middleware';
+import { protect, authorizePermission } from '../middlewares/auth.middleware';
 import { searchLimiter, suggestionsLimiter } from '../middlewares/rateLimiter';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 
 const router = Router();
 
@@ -19,7 +20,7 @@ router.get('/suggestions', suggestionsLimiter, validateSearchSuggestions, getSea
 router.get('/popular', getPopularSearches);
 
 // Admin routes
-router.get('/no-results', protect, authorize('admin'), getNoResultSearches);
-router.delete('/cache', protect, authorize('admin'), clearSearchCache);
+router.get('/no-results', protect, authorizePermission('search:manage'), getNoResultSearches);
+router.delete('/cache', protect, authorizePermission('search:manage'), auditAdminAction({ action: 'search.cache.clear', entityType: 'SearchCache' }), clearSearchCache);
 
 export default router;
@@ -5,11 +5,21 @@ import {
   cancelSubscription,
   renewSubscription,
   upgradeSubscription,
+  cancelScheduledChange,
 } from '../controllers/subscriptions.controller';
+import {
+  getFamily,
+  inviteFamilyMember,
+  removeFamilyMember,
+  joinFamily,
+  leaveFamily,
+} from '../controllers/family.controller';
 import {
   validateSubscribe,
   validateRenew,
   validateUpgrade,
+  validateFamilyInvite,
+  validateFamilyJoin,
 } from '../validators/subscriptions.validator';
 import { protect } from '../middlewares/auth.middleware';
 
@@ -38,4 +48,14 @@ router.post('/renew', protect, validateRenew, renewSubscription);
 // Upgrade/Downgrade subscription
 router.put('/upgrade', protect, validateUpgrade, upgradeSubscription);
 
+// Cancel a downgrade scheduled for the end of the period
+router.delete('/scheduled-change', protect, cancelScheduledChange);
+
+// Family plan: owner manages members, invitees join with the emailed token
+router.get('/family', protect, getFamily);
+router.post('/family/members', protect, validateFamilyInvite, inviteFamilyMember);
+router.delete('/family/members/:memberId', protect, removeFamilyMember);
+router.post('/family/join', protect, validateFamilyJoin, joinFamily);
+router.post('/family/leave', protect, leaveFamily);
+
 export default router;
@@ -17,12 +17,13 @@ import {
   validateGetTracks,
   validateSearchTracks,
 } from '../validators/tracks.validator';
-import { protect, authorize, optionalAuth } from '../middlewares/auth.middleware';
+import { protect, authorizePermission, optionalAuth } from '../middlewares/auth.middleware';
 import {
   checkSubscriptionAccess,
   requireSubscriptionForTrack,
 } from '../middlewares/subscription.middleware';
 import { asyncHandler } from '../utils/asyncHandler';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 
 const router = Router();
 
@@ -67,7 +68,8 @@ router.get(
 router.post(
   '/',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'track.create', entityType: 'Track' }),
   validateCreateTrack,
   asyncHandler(createTrack)
 );
@@ -76,7 +78,8 @@ router.post(
 router.put(
   '/:id',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'track.update', entityType: 'Track', idParam: 'id' }),
   validateUpdateTrack,
   asyncHandler(updateTrack)
 );
@@ -85,7 +88,8 @@ router.put(
 router.delete(
   '/:id',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'track.delete', entityType: 'Track', idParam: 'id' }),
   validateTrackId,
   asyncHandler(deleteTrack)
 );
@@ -1,9 +1,10 @@
-import { Router, Request, Response, NextFunction } from 'express';
-import { protect, authorize } from '../middlewares/auth.middleware';
+import { Router } from 'express';
+import { protect, authorizePermission } from '../middlewares/auth.middleware';
+import { auditAdminAction } from '../middlewares/adminAudit.middleware';
 import {
   uploadImage as uploadImageMiddleware,
   uploadAudio as uploadAudioMiddleware,
-  handleMulterError,
+  multerErrorHandler,
 } from '../middlewares/upload.middleware';
 import {
   uploadImage,
@@ -14,27 +15,6 @@ import {
 
 const router = Router();
 
-/**
- * Wrapper to handle multer errors
- */
-const multerErrorHandler = (
-  middleware: (req: Request, res: Response, callback: (error?: unknown) => void) => void
-) => {
-  return (req: Request, res: Response, next: NextFunction) => {
-    middleware(req, res, (error?: unknown) => {
-      if (error) {
-        const message = handleMulterError(error, req);
-        res.status(400).json({
-          success: false,
-          message,
-        });
-        return;
-      }
-      next();
-    });
-  };
-};
-
 /**
  * @route   POST /api/v1/upload/image
  * @desc    Upload image (track, program, category, avatar)
@@ -43,7 +23,8 @@ const multerErrorHandler = (
 router.post(
   '/image',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'file.upload.image', entityType: 'File' }),
   multerErrorHandler(uploadImageMiddleware),
   uploadImage
 );
@@ -56,7 +37,8 @@ router.post(
 router.post(
   '/audio',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'file.upload.audio', entityType: 'File' }),
   multerErrorHandler(uploadAudioMiddleware),
   uploadAudio
 );
@@ -69,7 +51,8 @@ router.post(
 router.delete(
   '/:key',
   protect,
-  authorize('admin'),
+  authorizePermission('content:write'),
+  auditAdminAction({ action: 'file.delete', entityType: 'File', idParam: 'key' }),
   deleteFile
 );
 
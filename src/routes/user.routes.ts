@@ -2,8 +2,24 @@ import { Router } from 'express';
 import {
   getCurrentUser,
   updateCurrentUser,
+  uploadAvatar,
+  deleteAvatar,
+  getOnboarding,
+  submitOnboarding,
+  getReferralSummary,
+  submitBanAppeal,
+  getBanAppeal,
   getListeningPatterns,
   deleteAccount,
+  linkSocialProvider,
+  unlinkSocialProvider,
+  getLoginHistory,
+  requestDataExport,
+  getDataExportStatus,
+  downloadDataExport,
+  requestEmailChange,
+  confirmEmailChange,
+  revertEmailChange,
 } from '../controllers/user.controller';
 import {
   getListeningHistory,
@@ -27,13 +43,27 @@ import {
   validateGetHistory,
   validateGetRecentTracks,
 } from '../validators/listeningSessions.validator';
-import { protect } from '../middlewares/auth.middleware';
+import {
+  validateSocialAuth,
+  validateEmailChangeRequest,
+  validateEmailChangeConfirm,
+  validateEmailChangeRevert,
+} from '../validators/auth.validator';
+import { protect, protectAllowBanned } from '../middlewares/auth.middleware';
+import { uploadImage, multerErrorHandler } from '../middlewares/upload.middleware';
+import { emailChangeLimiter } from '../middlewares/rateLimiter';
 import { asyncHandler } from '../utils/asyncHandler';
 
 const router = Router();
 
+// Download a personal data export (authorized by the signed link, not a session)
+router.get('/exports/download', asyncHandler(downloadDataExport));
+
+// Undo an email change (authorized by the link sent to the old address)
+router.post('/email-change/revert', validateEmailChangeRevert, asyncHandler(revertEmailChange));
+
 /**
- * All routes are protected (require authentication)
+ * All other routes are protected (require authentication)
  */
 
 // Get current user profile
@@ -42,9 +72,55 @@ router.get('/me', protect, asyncHandler(getCurrentUser));
 // Update current user profile
 router.put('/me', protect, asyncHandler(updateCurrentUser));
 
+// Upload / remove avatar (multipart field "file")
+router.put('/me/avatar', protect, multerErrorHandler(uploadImage), asyncHandler(uploadAvatar));
+router.delete('/me/avatar', protect, asyncHandler(deleteAvatar));
+
+// Onboarding questionnaire (seeds preferences and a recommended program)
+router.get('/me/onboarding', protect, asyncHandler(getOnboarding));
+router.post('/me/onboarding', protect, asyncHandler(submitOnboarding));
+
+// Referral code and rewards
+router.get('/me/referral', protect, asyncHandler(getReferralSummary));
+
+// Ban appeals (reachable while the account is banned)
+router.post('/me/appeal', protectAllowBanned, asyncHandler(submitBanAppeal));
+router.get('/me/appeal', protectAllowBanned, asyncHandler(getBanAppeal));
+
+// Change login email (verified through a code sent to the new address)
+router.post(
+  '/me/email-change',
+  protect,
+  emailChangeLimiter,
+  validateEmailChangeRequest,
+  asyncHandler(requestEmailChange)
+);
+router.post(
+  '/me/email-change/confirm',
+  protect,
+  validateEmailChangeConfirm,
+  asyncHandler(confirmEmailChange)
+);
+
 // Delete user account
 router.delete('/me', protect, asyncHandler(deleteAccount));
 
+// Link / unlink social login providers
+router.post(
+  '/me/social/:provider',
+  protect,
+  validateSocialAuth,
+  asyncHandler(linkSocialProvider)
+);
+router.delete('/me/social/:provider', protect, asyncHandler(unlinkSocialProvider));
+
+// Login history (security review)
+router.get('/me/security/logins', protect, asyncHandler(getLoginHistory));
+
+// Personal data export
+router.post('/me/export', protect, asyncHandler(requestDataExport));
+router.get('/me/export', protect, asyncHandler(getDataExportStatus));
+
 // Get listening history
 router.get(
   '/history',
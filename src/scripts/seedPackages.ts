@@ -66,6 +66,26 @@ const seedPackages = async (): Promise<void> => {
         isActive: true,
         displayOrder: 3,
       },
+      {
+        name: 'الباقة العائلية',
+        nameEn: 'Family Package',
+        type: 'family',
+        price: 149.99,
+        currency: 'USD',
+        periodType: 'year',
+        periodCount: 1,
+        durationInDays: 365,
+        discountPercentage: 0,
+        features: [
+          'وصول غير محدود لجميع المحتوى',
+          'حتى 5 أفراد من العائلة',
+          'سجل استماع وإحصائيات مستقلة لكل فرد',
+          'بدون إعلانات',
+        ],
+        maxFamilyMembers: 5,
+        isActive: true,
+        displayOrder: 4,
+      },
     ];
 
     const created = await Package.insertMany(packages);
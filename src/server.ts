@@ -15,6 +15,12 @@ import {
 import { scheduleNotificationCleanup } from './jobs/notificationCleanup.job';
 import { scheduleExpirationReminders as scheduleSubscriptionReminders } from './jobs/subscriptionReminders.job';
 import { scheduleDailyMeditationReminders } from './jobs/dailyMeditationReminders.job';
+import { schedulePurgeDeletedAccounts } from './jobs/purgeDeletedAccounts.job';
+import { scheduleDataExports } from './jobs/processDataExports.job';
+import { scheduleDeferredPushes } from './jobs/deferredPushes.job';
+import { scheduleExpireBans } from './jobs/expireBans.job';
+import { scheduleDunning } from './jobs/dunning.job';
+import { scheduleTrialReminders } from './jobs/trialReminders.job';
 
 const startServer = async (): Promise<void> => {
   try {
@@ -44,6 +50,12 @@ const startServer = async (): Promise<void> => {
     scheduleNotificationCleanup();
     scheduleSubscriptionReminders();
     scheduleDailyMeditationReminders();
+    schedulePurgeDeletedAccounts();
+    scheduleDataExports();
+    scheduleDeferredPushes();
+    scheduleExpireBans();
+    scheduleDunning();
+    scheduleTrialReminders();
 
     // Start Express server
     app.listen(env.PORT, () => {
@@ -0,0 +1,187 @@
+import { env } from '../config/env';
+import stripe from '../config/stripe';
+import { IUser, User } from '../models/User.model';
+import { Subscription } from '../models/Subscription.model';
+import { UserFavorite } from '../models/UserFavorite.model';
+import { UserProgram } from '../models/UserProgram.model';
+import { CustomProgram } from '../models/CustomProgram.model';
+import { ListeningSession } from '../models/ListeningSession.model';
+import { Notification } from '../models/Notification.model';
+import { LoginEvent } from '../models/LoginEvent.model';
+import { Referral } from '../models/Referral.model';
+import { BanAppeal } from '../models/BanAppeal.model';
+import { tokenService } from './token.service';
+import { dataExportService } from './dataExport.service';
+import { avatarService } from './avatar.service';
+import { familyService } from './family.service';
+import { stripeSubscriptionService } from './stripeSubscription.service';
+import logger from '../utils/logger';
+
+class AccountDeletionService {
+  /**
+   * Days a deleted account can still be restored by logging in
+   */
+  readonly GRACE_PERIOD_DAYS = env.ACCOUNT_DELETION_GRACE_DAYS;
+
+  /**
+   * Deactivate the account, cancel its subscription and schedule the purge
+   * A Stripe subscription stops renewing but runs to the end of the paid period.
+   * Returns the date the account will be permanently deleted
+   */
+  async scheduleDeletion(user: IUser): Promise<Date> {
+    const now = new Date();
+    const userId = String(user._id);
+
+    const deletionScheduledFor = new Date(now);
+    deletionScheduledFor.setDate(deletionScheduledFor.getDate() + this.GRACE_PERIOD_DAYS);
+
+    const subscription = await Subscription.findOne({
+      userId,
+      status: { $in: ['active', 'past_due'] },
+    });
+    if (subscription?.stripeSubscriptionId) {
+      await stripeSubscriptionService.setAutoRenew(subscription, false);
+    }
+
+    user.deletedAt = now;
+    user.deletionScheduledFor = deletionScheduledFor;
+    if (user.subscription?.status === 'active' || user.subscription?.status === 'past_due') {
+      user.subscription.status = 'cancelled';
+      user.subscription.autoRenew = false;
+    }
+    await user.save();
+
+    // Cancel the active subscription (restored if the user comes back in time)
+    await Subscription.updateOne(
+      { userId, status: { $in: ['active', 'past_due'] } },
+      {
+        $set: { status: 'cancelled', autoRenew: false, cancellationDate: now },
+        $unset: { dunning: 1 },
+      }
+    );
+
+    // Sign out every device
+    await tokenService.revokeAllSessions(userId);
+
+    logger.info(`Account ${userId} scheduled for deletion on ${deletionScheduledFor.toISOString()}`);
+
+    return deletionScheduledFor;
+  }
+
+  /**
+   * Whether a deleted account is still within its grace period
+   * Accounts deleted by an admin have no scheduled purge and can't be restored
+   */
+  canRestore(user: IUser): boolean {
+    return (
+      !!user.deletedAt &&
+      !!user.deletionScheduledFor &&
+      user.deletionScheduledFor.getTime() > Date.now()
+    );
+  }
+
+  /**
+   * Reactivate an account deleted during its grace period, including the
+   * subscription cancelled by the deletion if it hasn't ended yet
+   */
+  async restore(user: IUser): Promise<void> {
+    if (!this.canRestore(user)) {
+      return;
+    }
+
+    const userId = String(user._id);
+    const now = new Date();
+
+    const subscription = await Subscription.findOne({
+      userId,
+      status: 'cancelled',
+      // Stripe reports the cancellation time in whole seconds
+      cancellationDate: { $gte: new Date(user.deletedAt!.getTime() - 1000) },
+      endDate: { $gt: now },
+    });
+
+    if (subscription && !subscription.stripeSubscriptionId) {
+      subscription.status = 'active';
+      subscription.cancellationDate = undefined;
+      await subscription.save();
+
+      user.subscription.status = 'active';
+    }
+
+    user.deletedAt = undefined;
+    user.deletionScheduledFor = undefined;
+    await user.save();
+
+    // Renew through Stripe again; its state is mirrored once the account is active
+    if (subscription?.stripeSubscriptionId) {
+      try {
+        await stripeSubscriptionService.setAutoRenew(subscription, true);
+        const stripeSubscription = await stripe.subscriptions.retrieve(subscription.stripeSubscriptionId);
+        await stripeSubscriptionService.syncFromStripe(stripeSubscription);
+      } catch (error) {
+        logger.error(`Failed to resume Stripe subscription for restored account ${userId}:`, error);
+      }
+    }
+
+    logger.info(`Account ${userId} restored during deletion grace period`);
+  }
+
+  /**
+   * Permanently delete an account and everything that belongs to it
+   * Payments are kept for accounting
+   */
+  async purgeAccount(userId: string): Promise<void> {
+    const user = await User.findById(userId).select('avatarImages');
+
+    // Stop billing before the subscription record is gone
+    const subscription = await Subscription.findOne({ userId, stripeSubscriptionId: { $ne: null } });
+    if (subscription?.stripeSubscriptionId) {
+      await stripeSubscriptionService.cancelImmediately(subscription.stripeSubscriptionId);
+    }
+
+    await Promise.all([
+      UserFavorite.deleteMany({ userId }),
+      UserProgram.deleteMany({ userId }),
+      CustomProgram.deleteMany({ userId }),
+      ListeningSession.deleteMany({ userId }),
+      Notification.deleteMany({ userId }),
+      LoginEvent.deleteMany({ userId }),
+      Subscription.deleteMany({ userId }),
+      BanAppeal.deleteMany({ userId }),
+      Referral.deleteMany({ $or: [{ referrerId: userId }, { referredUserId: userId }] }),
+      dataExportService.deleteUserExports(userId),
+      avatarService.deleteImages(user?.avatarImages || []),
+      familyService.deleteUserMemberships(userId),
+      tokenService.revokeAllSessions(userId),
+    ]);
+
+    await User.deleteOne({ _id: userId });
+
+    logger.info(`Account ${userId} permanently deleted`);
+  }
+
+  /**
+   * Purge every account whose grace period has ended
+   * Returns the number of accounts deleted
+   */
+  async purgeExpiredAccounts(): Promise<number> {
+    const users = await User.find({
+      deletedAt: { $ne: null },
+      deletionScheduledFor: { $lte: new Date() },
+    }).select('_id');
+
+    let purged = 0;
+    for (const user of users) {
+      try {
+        await this.purgeAccount(String(user._id));
+        purged++;
+      } catch (error) {
+        logger.error(`Failed to purge account ${String(user._id)}:`, error);
+      }
+    }
+
+    return purged;
+  }
+}
+
+export const accountDeletionService = new AccountDeletionService();
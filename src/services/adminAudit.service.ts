@@ -0,0 +1,180 @@
+import mongoose from 'mongoose';
+import { AdminAuditLog, AuditEntityType, IAuditChange } from '../models/AdminAuditLog.model';
+import logger from '../utils/logger';
+
+type Snapshot = Record<string, unknown> | null;
+
+/**
+ * A completed admin request to write to the audit log
+ */
+export interface AdminAction {
+  actorId: string;
+  actorRole?: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string;
+  before: Snapshot;
+  responseBody?: unknown;
+  statusCode: number;
+  method: string;
+  path: string;
+  params?: Record<string, unknown>;
+  body?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Fields whose values never end up in the audit log
+ */
+const SENSITIVE_FIELD_PATTERN = /password|secret|token|otp|recovery|apikey|accesskey/i;
+
+/**
+ * Fields that change on every write and only add noise to a diff
+ */
+const IGNORED_DIFF_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+/**
+ * Entities that are recorded without loading a before/after snapshot
+ */
+const UNTRACKED_ENTITIES: AuditEntityType[] = ['Notification', 'File', 'SearchCache'];
+
+class AdminAuditService {
+  /**
+   * Replace sensitive values, recursively
+   */
+  redact(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redact(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, nested]) => [
+          key,
+          SENSITIVE_FIELD_PATTERN.test(key) ? '[REDACTED]' : this.redact(nested),
+        ])
+      );
+    }
+
+    return value;
+  }
+
+  /**
+   * Load the current state of an entity as plain, redacted JSON
+   * Settings is a singleton, so it is looked up without an id
+   */
+  async snapshot(entityType: AuditEntityType, entityId?: string): Promise<Snapshot> {
+    if (UNTRACKED_ENTITIES.includes(entityType)) {
+      return null;
+    }
+
+    const model = mongoose.models[entityType];
+    if (!model) {
+      return null;
+    }
+
+    let doc: unknown = null;
+    if (entityId) {
+      if (!mongoose.Types.ObjectId.isValid(entityId)) {
+        return null;
+      }
+      doc = await model.findById(entityId).lean();
+    } else if (entityType === 'Settings') {
+      doc = await model.findOne().lean();
+    }
+
+    if (!doc) {
+      return null;
+    }
+
+    // Normalise ObjectIds and Dates to their JSON form before storing/comparing
+    return this.redact(JSON.parse(JSON.stringify(doc))) as Record<string, unknown>;
+  }
+
+  /**
+   * Top-level fields that differ between two snapshots
+   */
+  diff(before: Snapshot, after: Snapshot): IAuditChange[] {
+    const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+    const changes: IAuditChange[] = [];
+
+    for (const field of fields) {
+      if (IGNORED_DIFF_FIELDS.includes(field)) {
+        continue;
+      }
+
+      const previous = before?.[field];
+      const next = after?.[field];
+
+      if (JSON.stringify(previous) !== JSON.stringify(next)) {
+        changes.push({ field, before: previous, after: next });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Find the id of a created entity in a `{ data: doc }` or `{ data: { name: doc } }` response
+   */
+  getCreatedEntityId(responseBody: unknown): string | undefined {
+    const data = (responseBody as { data?: unknown } | undefined)?.data;
+    if (!data || typeof data !== 'object') {
+      return undefined;
+    }
+
+    const candidates = [data, ...Object.values(data)];
+    for (const candidate of candidates) {
+      const id = (candidate as { _id?: unknown } | null)?._id;
+      if (id) {
+        return String(id);
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Write an admin action with its before/after diff to the audit log.
+   * Never throws - auditing must not break the admin request.
+   */
+  async record(action: AdminAction): Promise<void> {
+    try {
+      const success = action.statusCode < 400;
+      let entityId = action.entityId;
+      let changes: IAuditChange[] = [];
+
+      if (success) {
+        entityId = entityId || this.getCreatedEntityId(action.responseBody);
+        const after = await this.snapshot(action.entityType, entityId);
+        changes = this.diff(action.before, after);
+
+        if (!entityId && after?._id) {
+          entityId = String(after._id);
+        }
+      }
+
+      await AdminAuditLog.create({
+        actorId: action.actorId,
+        actorRole: action.actorRole,
+        action: action.action,
+        entityType: action.entityType,
+        entityId,
+        changes,
+        success,
+        statusCode: action.statusCode,
+        method: action.method,
+        path: action.path,
+        params: action.params,
+        body: this.redact(action.body),
+        ipAddress: action.ipAddress,
+        userAgent: action.userAgent,
+      });
+    } catch (error) {
+      logger.error(`Failed to record admin action ${action.action}:`, error);
+    }
+  }
+}
+
+export const adminAuditService = new AdminAuditService();
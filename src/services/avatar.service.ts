@@ -0,0 +1,148 @@
+import { randomUUID } from 'crypto';
+import { isR2Configured } from '../config/r2';
+import { IAvatarImage, IUser } from '../models/User.model';
+import { Settings } from '../models/Settings.model';
+import { processImage, uploadToR2, deleteFromR2 } from '../utils/fileUpload';
+import { uploadToLocal, deleteFromLocal } from '../utils/localStorage';
+import logger from '../utils/logger';
+
+type AvatarSize = IAvatarImage['size'];
+
+class AvatarService {
+  /**
+   * Square sizes generated for every uploaded avatar (width in pixels)
+   */
+  readonly SIZES: Record<AvatarSize, number> = {
+    small: 64,
+    medium: 256,
+    large: 512,
+  };
+
+  /**
+   * Size used for the plain `avatar` URL kept for older clients
+   */
+  private readonly DEFAULT_SIZE: AvatarSize = 'medium';
+
+  /**
+   * Storage configured in the admin settings
+   */
+  private async getStorageType(): Promise<'local' | 'r2'> {
+    try {
+      const settings = await Settings.findOne();
+      return settings?.storageType || 'local';
+    } catch {
+      logger.warn('Failed to get storage type from settings, defaulting to local');
+      return 'local';
+    }
+  }
+
+  /**
+   * Generate the square WebP crops for an uploaded image and store them
+   */
+  async processAndStore(userId: string, buffer: Buffer): Promise<IAvatarImage[]> {
+    const storageType = await this.getStorageType();
+
+    if (storageType === 'r2' && !isR2Configured()) {
+      throw new Error('R2 storage is selected but not configured');
+    }
+
+    // Process every size before uploading so an unreadable image stores nothing
+    const id = randomUUID();
+    const processed = await Promise.all(
+      (Object.entries(this.SIZES) as [AvatarSize, number][]).map(async ([size, width]) => ({
+        size,
+        width,
+        key: `images/avatar/${userId}/${id}-${size}.webp`,
+        buffer: await processImage(buffer, { width, height: width, format: 'webp', quality: 85 }),
+      }))
+    );
+
+    const images: IAvatarImage[] = [];
+    try {
+      for (const image of processed) {
+        const result =
+          storageType === 'r2'
+            ? await uploadToR2(image.buffer, image.key, 'image/webp', { userId })
+            : await uploadToLocal(image.buffer, image.key, 'image/webp');
+
+        images.push({
+          size: image.size,
+          width: image.width,
+          key: result.key,
+          url: result.url,
+          storageType,
+        });
+      }
+    } catch (error) {
+      // Don't leave a partial set behind
+      await this.deleteImages(images);
+      throw error;
+    }
+
+    return images;
+  }
+
+  /**
+   * Replace the user's avatar with a new upload and remove the previous files
+   */
+  async updateAvatar(user: IUser, buffer: Buffer): Promise<IAvatarImage[]> {
+    const previous = user.avatarImages || [];
+    const images = await this.processAndStore(String(user._id), buffer);
+
+    user.avatarImages = images;
+    user.avatar = images.find((image) => image.size === this.DEFAULT_SIZE)?.url;
+
+    try {
+      await user.save();
+    } catch (error) {
+      await this.deleteImages(images);
+      throw error;
+    }
+
+    await this.deleteImages(previous);
+
+    return images;
+  }
+
+  /**
+   * Remove the user's uploaded avatar and its files
+   */
+  async removeAvatar(user: IUser): Promise<void> {
+    const previous = user.avatarImages || [];
+
+    user.avatarImages = [];
+    user.avatar = undefined;
+    await user.save();
+
+    await this.deleteImages(previous);
+  }
+
+  /**
+   * Delete stored avatar files, logging (not throwing) on failure
+   */
+  async deleteImages(images: IAvatarImage[]): Promise<void> {
+    for (const image of images) {
+      try {
+        if (image.storageType === 'r2') {
+          await deleteFromR2(image.key);
+        } else {
+          await deleteFromLocal(image.key);
+        }
+      } catch (error) {
+        logger.error(`Failed to delete avatar file ${image.key}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Map of size name to URL returned to clients
+   */
+  toUrls(images: IAvatarImage[] = []): Partial<Record<AvatarSize, string>> {
+    return images.reduce<Partial<Record<AvatarSize, string>>>((urls, image) => {
+      urls[image.size] = image.url;
+      return urls;
+    }, {});
+  }
+}
+
+export const avatarService = new AvatarService();
@@ -0,0 +1,145 @@
+import mongoose from 'mongoose';
+import { BanAppeal, IBanAppeal } from '../models/BanAppeal.model';
+import { IUser, User } from '../models/User.model';
+import { AppError } from '../middlewares/errorHandler';
+import { createNotification } from './notification.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+class BanService {
+  /**
+   * Clear the user's ban and tell them their account is usable again
+   * Any open appeal is closed unreviewed, since there is nothing left to appeal
+   */
+  async liftBan(user: IUser, notify = true): Promise<void> {
+    user.isBanned = false;
+    user.bannedUntil = undefined;
+    user.banReason = undefined;
+    await user.save();
+
+    await BanAppeal.updateMany(
+      { userId: user._id, status: 'pending' },
+      { status: 'closed', reviewedAt: new Date(), reviewNote: 'Ban lifted' }
+    );
+
+    if (notify) {
+      const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.BAN_LIFTED, {});
+      if (notificationData) {
+        await createNotification(String(user._id), notificationData);
+      }
+    }
+  }
+
+  /**
+   * Lift every timed ban whose end date has passed
+   * Returns the number of users unbanned
+   */
+  async liftExpiredBans(): Promise<number> {
+    const users = await User.find({
+      isBanned: true,
+      bannedUntil: { $ne: null, $lte: new Date() },
+      deletedAt: null,
+    });
+
+    let lifted = 0;
+    for (const user of users) {
+      try {
+        await this.liftBan(user);
+        lifted++;
+      } catch (error) {
+        logger.error(`Failed to lift expired ban for user ${user._id}:`, error);
+      }
+    }
+
+    return lifted;
+  }
+
+  /**
+   * Submit an appeal against the user's current ban
+   */
+  async submitAppeal(user: IUser, message: string): Promise<IBanAppeal> {
+    if (!user.isBanned) {
+      throw new AppError('Your account is not banned', 400);
+    }
+
+    const pending = await BanAppeal.findOne({ userId: user._id, status: 'pending' });
+    if (pending) {
+      throw new AppError('You already have an appeal waiting for review', 409);
+    }
+
+    const appeal = await BanAppeal.create({
+      userId: user._id,
+      message,
+      banReason: user.banReason,
+      bannedUntil: user.bannedUntil,
+    });
+
+    logger.info(`User ${user._id} submitted ban appeal ${appeal._id}`);
+    return appeal;
+  }
+
+  /**
+   * The user's most recent appeal, if any
+   */
+  async getLatestAppeal(userId: string): Promise<IBanAppeal | null> {
+    return BanAppeal.findOne({ userId }).sort({ createdAt: -1 });
+  }
+
+  /**
+   * Approve (and unban) or deny a pending appeal
+   */
+  async reviewAppeal(
+    appealId: string,
+    adminId: string,
+    decision: 'approved' | 'denied',
+    note?: string
+  ): Promise<IBanAppeal> {
+    if (!mongoose.Types.ObjectId.isValid(appealId)) {
+      throw new AppError('Appeal not found', 404);
+    }
+
+    // Claim the appeal so two admins reviewing at once can't both decide it
+    const appeal = await BanAppeal.findOneAndUpdate(
+      { _id: appealId, status: 'pending' },
+      {
+        status: decision,
+        reviewedBy: new mongoose.Types.ObjectId(adminId),
+        reviewedAt: new Date(),
+        reviewNote: note,
+      },
+      { new: true }
+    );
+    if (!appeal) {
+      const existing = await BanAppeal.findById(appealId).select('status');
+      if (!existing) {
+        throw new AppError('Appeal not found', 404);
+      }
+      throw new AppError(`Appeal has already been ${existing.status}`, 409);
+    }
+
+    const userId = String(appeal.userId);
+
+    if (decision === 'approved') {
+      const user = await User.findOne({ _id: appeal.userId, deletedAt: null });
+      if (user?.isBanned) {
+        await this.liftBan(user, false);
+      }
+    }
+
+    const notificationData = getNotificationTemplate(
+      decision === 'approved'
+        ? NOTIFICATION_TEMPLATES.BAN_APPEAL_APPROVED
+        : NOTIFICATION_TEMPLATES.BAN_APPEAL_DENIED,
+      { note }
+    );
+    if (notificationData) {
+      notificationData.data = { appealId: String(appeal._id) };
+      await createNotification(userId, notificationData);
+    }
+
+    logger.info(`Admin ${adminId} ${decision} ban appeal ${appeal._id} of user ${userId}`);
+    return appeal;
+  }
+}
+
+export const banService = new BanService();
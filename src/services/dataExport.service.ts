@@ -0,0 +1,376 @@
+import jwt from 'jsonwebtoken';
+import JSZip from 'jszip';
+import { Parser } from 'json2csv';
+import { env } from '../config/env';
+import { isR2PrivateConfigured, getR2PrivateBucketName } from '../config/r2';
+import { DataExport, IDataExport } from '../models/DataExport.model';
+import { User } from '../models/User.model';
+import { Subscription } from '../models/Subscription.model';
+import { Payment } from '../models/Payment.model';
+import { ListeningSession } from '../models/ListeningSession.model';
+import { UserFavorite } from '../models/UserFavorite.model';
+import { UserProgram } from '../models/UserProgram.model';
+import { CustomProgram } from '../models/CustomProgram.model';
+import { Notification } from '../models/Notification.model';
+import { Settings } from '../models/Settings.model';
+import { uploadPrivateToR2, deleteFromR2, generateSignedUrl } from '../utils/fileUpload';
+import { savePrivateFile, readPrivateFile, deletePrivateFile } from '../utils/localStorage';
+import { emailService } from './email.service';
+import { createNotification } from './notification.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+// An export left in 'processing' this long is assumed to have died with its worker
+const STALE_PROCESSING_MS = 30 * 60 * 1000;
+
+interface DownloadTokenPayload {
+  exportId: string;
+  purpose: 'data_export';
+}
+
+class DataExportService {
+  /**
+   * Download link and archive lifetime (48 hours in seconds)
+   */
+  readonly LINK_EXPIRY = 48 * 60 * 60;
+
+  /**
+   * Minimum time between two export requests (24 hours in seconds)
+   */
+  readonly REQUEST_COOLDOWN = 24 * 60 * 60;
+
+  /**
+   * Lifetime of the storage URL a download redirects to (5 minutes in seconds)
+   */
+  private readonly R2_URL_EXPIRY = 5 * 60;
+
+  /**
+   * Signing key kept apart from the access token secret so a download token
+   * can never pass `protect` as an access token
+   */
+  private get secret(): string {
+    return `${env.JWT_SECRET}:data-export`;
+  }
+
+  /**
+   * Storage configured in the admin settings (falls back to local)
+   * Archives only go to R2's private bucket, never the publicly served one.
+   */
+  private async getStorageType(): Promise<'local' | 'r2_private'> {
+    try {
+      const settings = await Settings.findOne();
+      const storageType = settings?.storageType || 'local';
+      return storageType === 'r2' && isR2PrivateConfigured() ? 'r2_private' : 'local';
+    } catch {
+      logger.warn('Failed to get storage type from settings, defaulting to local');
+      return 'local';
+    }
+  }
+
+  /**
+   * Most recent export requested by a user
+   */
+  async getLatestExport(userId: string): Promise<IDataExport | null> {
+    return DataExport.findOne({ userId }).sort({ requestedAt: -1 });
+  }
+
+  /**
+   * Seconds until the user may request another export (0 when allowed)
+   */
+  getRetryAfter(latest: IDataExport | null): number {
+    if (!latest || latest.status === 'failed') {
+      return 0;
+    }
+
+    const elapsed = (Date.now() - latest.requestedAt.getTime()) / 1000;
+    return Math.max(0, Math.ceil(this.REQUEST_COOLDOWN - elapsed));
+  }
+
+  /**
+   * Queue a new export for the background job
+   */
+  async requestExport(userId: string): Promise<IDataExport> {
+    return DataExport.create({ userId, status: 'pending' });
+  }
+
+  /**
+   * Collect the user's data into a zip with a JSON and (for lists) a CSV file per section
+   */
+  async buildArchive(userId: string): Promise<Buffer> {
+    const [
+      profile,
+      subscription,
+      payments,
+      sessions,
+      favorites,
+      programs,
+      customPrograms,
+      notifications,
+    ] = await Promise.all([
+      User.findById(userId).select('-fcmTokens').lean(),
+      Subscription.findOne({ userId })
+        .populate('packageId', 'name price currency durationInDays')
+        .lean(),
+      Payment.find({ userId }).sort({ createdAt: -1 }).lean(),
+      ListeningSession.find({ userId }).sort({ startTime: -1 }).lean(),
+      UserFavorite.find({ userId }).lean(),
+      UserProgram.find({ userId }).lean(),
+      CustomProgram.find({ userId }).lean(),
+      Notification.find({ userId }).sort({ createdAt: -1 }).lean(),
+    ]);
+
+    const sections: Record<string, unknown> = {
+      profile,
+      subscription,
+      payments,
+      'listening-sessions': sessions,
+      favorites,
+      programs,
+      'custom-programs': customPrograms,
+      notifications,
+    };
+
+    const zip = new JSZip();
+    zip.file(
+      'README.txt',
+      `Naturacalm personal data export\nUser: ${userId}\nGenerated: ${new Date().toISOString()}\n`
+    );
+
+    for (const [name, data] of Object.entries(sections)) {
+      // Normalise ObjectIds and Dates to their JSON form
+      const json = JSON.parse(JSON.stringify(data ?? null));
+      zip.file(`json/${name}.json`, JSON.stringify(json, null, 2));
+
+      const rows = Array.isArray(json) ? json : json ? [json] : [];
+      if (rows.length > 0) {
+        zip.file(`csv/${name}.csv`, new Parser().parse(rows));
+      }
+    }
+
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Build, store and deliver a single export
+   */
+  async processExport(exportDoc: IDataExport): Promise<void> {
+    const userId = String(exportDoc.userId);
+
+    try {
+      const user = await User.findById(userId).select('email deletedAt');
+      if (!user || user.deletedAt) {
+        throw new Error('User not found');
+      }
+
+      const archive = await this.buildArchive(userId);
+      const storageType = await this.getStorageType();
+      const fileKey = `exports/${userId}/${String(exportDoc._id)}.zip`;
+
+      if (storageType === 'r2_private') {
+        await uploadPrivateToR2(archive, fileKey, 'application/zip');
+      } else {
+        await savePrivateFile(archive, fileKey);
+      }
+
+      exportDoc.status = 'completed';
+      exportDoc.storageType = storageType;
+      exportDoc.fileKey = fileKey;
+      exportDoc.fileSize = archive.length;
+      exportDoc.completedAt = new Date();
+      exportDoc.expiresAt = new Date(Date.now() + this.LINK_EXPIRY * 1000);
+      await exportDoc.save();
+
+      const link = this.buildDownloadLink(this.createDownloadToken(exportDoc));
+
+      try {
+        await emailService.sendDataExportEmail(user.email, link, exportDoc.expiresAt);
+      } catch (error) {
+        logger.error(`Failed to email data export link to user ${userId}:`, error);
+      }
+
+      try {
+        const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.DATA_EXPORT_READY);
+        if (notificationData) {
+          notificationData.data = {
+            exportId: String(exportDoc._id),
+            action: 'download_export',
+            expiresAt: exportDoc.expiresAt.toISOString(),
+          };
+          await createNotification(userId, notificationData);
+        }
+      } catch (error) {
+        logger.error(`Failed to notify user ${userId} about data export:`, error);
+      }
+
+      logger.info(`Data export ${String(exportDoc._id)} completed for user ${userId}`);
+    } catch (error: unknown) {
+      exportDoc.status = 'failed';
+      exportDoc.error = error instanceof Error ? error.message : 'Export failed';
+      await exportDoc.save();
+
+      logger.error(`Data export ${String(exportDoc._id)} failed for user ${userId}:`, error);
+    }
+  }
+
+  /**
+   * Process queued exports one at a time, oldest first
+   * Returns the number of exports processed
+   */
+  async processPendingExports(): Promise<number> {
+    let processed = 0;
+
+    // Claiming atomically keeps concurrent workers from building the same export
+    let exportDoc = await this.claimNextExport();
+    while (exportDoc) {
+      await this.processExport(exportDoc);
+      processed++;
+      exportDoc = await this.claimNextExport();
+    }
+
+    return processed;
+  }
+
+  /**
+   * Claim the oldest queued export, or one whose worker died while processing it
+   */
+  private async claimNextExport(): Promise<IDataExport | null> {
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS);
+
+    return DataExport.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending' },
+          { status: 'processing', claimedAt: { $lte: staleBefore } },
+          // Claimed before claim times were stored
+          { status: 'processing', claimedAt: null, requestedAt: { $lte: staleBefore } },
+        ],
+      },
+      { $set: { status: 'processing', claimedAt: new Date() } },
+      { sort: { requestedAt: 1 }, new: true }
+    );
+  }
+
+  /**
+   * Delete archives whose download link has expired
+   * Returns the number of exports expired
+   */
+  async cleanupExpiredExports(): Promise<number> {
+    const expired = await DataExport.find({
+      status: 'completed',
+      expiresAt: { $lte: new Date() },
+    });
+
+    let cleaned = 0;
+    for (const exportDoc of expired) {
+      try {
+        await this.deleteFile(exportDoc);
+        exportDoc.status = 'expired';
+        await exportDoc.save();
+        cleaned++;
+      } catch (error) {
+        logger.error(`Failed to clean up data export ${String(exportDoc._id)}:`, error);
+      }
+    }
+
+    return cleaned;
+  }
+
+  /**
+   * Remove every export belonging to a user (used when the account is purged)
+   */
+  async deleteUserExports(userId: string): Promise<void> {
+    const exports = await DataExport.find({ userId });
+
+    for (const exportDoc of exports) {
+      await this.deleteFile(exportDoc);
+    }
+
+    await DataExport.deleteMany({ userId });
+  }
+
+  private async deleteFile(exportDoc: IDataExport): Promise<void> {
+    if (!exportDoc.fileKey) {
+      return;
+    }
+
+    if (exportDoc.storageType === 'r2_private') {
+      await deleteFromR2(exportDoc.fileKey, getR2PrivateBucketName());
+    } else if (exportDoc.storageType === 'r2') {
+      await deleteFromR2(exportDoc.fileKey);
+    } else {
+      await deletePrivateFile(exportDoc.fileKey);
+    }
+  }
+
+  /**
+   * Sign a download token valid until the export expires
+   */
+  createDownloadToken(exportDoc: IDataExport): string {
+    const expiresIn = Math.max(
+      1,
+      Math.floor(((exportDoc.expiresAt?.getTime() || Date.now()) - Date.now()) / 1000)
+    );
+
+    return jwt.sign({ exportId: String(exportDoc._id), purpose: 'data_export' }, this.secret, {
+      expiresIn,
+    });
+  }
+
+  /**
+   * Build the download link sent to the user
+   */
+  buildDownloadLink(token: string): string {
+    const baseUrl = env.API_URL || 'http://localhost:5000';
+    return `${baseUrl}/api/v1/users/exports/download?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Find the completed export a download token points to
+   * Returns null when the token is invalid or expired, or the export is no longer available
+   */
+  async getExportForToken(token: string): Promise<IDataExport | null> {
+    let decoded: DownloadTokenPayload;
+    try {
+      decoded = jwt.verify(token, this.secret) as DownloadTokenPayload;
+    } catch {
+      return null;
+    }
+
+    if (decoded.purpose !== 'data_export') {
+      return null;
+    }
+
+    const exportDoc = await DataExport.findById(decoded.exportId);
+    if (
+      !exportDoc ||
+      exportDoc.status !== 'completed' ||
+      !exportDoc.fileKey ||
+      !exportDoc.expiresAt ||
+      exportDoc.expiresAt.getTime() <= Date.now()
+    ) {
+      return null;
+    }
+
+    return exportDoc;
+  }
+
+  /**
+   * Where to fetch an export's archive: a short-lived R2 URL, or the file itself for local storage
+   */
+  async getDownload(exportDoc: IDataExport): Promise<{ redirectUrl?: string; file?: Buffer }> {
+    const fileKey = exportDoc.fileKey as string;
+
+    if (exportDoc.storageType === 'r2_private') {
+      return {
+        redirectUrl: await generateSignedUrl(fileKey, this.R2_URL_EXPIRY, getR2PrivateBucketName()),
+      };
+    }
+    if (exportDoc.storageType === 'r2') {
+      return { redirectUrl: await generateSignedUrl(fileKey, this.R2_URL_EXPIRY) };
+    }
+
+    return { file: await readPrivateFile(fileKey) };
+  }
+}
+
+export const dataExportService = new DataExportService();
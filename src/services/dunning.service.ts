@@ -0,0 +1,281 @@
+import Stripe from 'stripe';
+import stripe from '../config/stripe';
+import { env } from '../config/env';
+import { Subscription, ISubscription } from '../models/Subscription.model';
+import { Package } from '../models/Package.model';
+import { User } from '../models/User.model';
+import { createNotification, sendEmailNotification } from './notification.service';
+import { notificationDeliveryService } from './notificationDelivery.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Failed renewals (dunning)
+ *
+ * A failed renewal puts the subscription in past_due for DUNNING_GRACE_DAYS.
+ * Access is kept during the grace period while the invoice is retried every
+ * DUNNING_RETRY_INTERVAL_DAYS, with a reminder after each failure. When the
+ * grace period ends unpaid the subscription expires and Stripe stops billing it.
+ * Stripe's own automatic retries should be turned off so this schedule is the only one.
+ */
+class DunningService {
+  private nextRetryAfter(from: Date, graceEndsAt: Date): Date | undefined {
+    const next = new Date(from.getTime() + env.DUNNING_RETRY_INTERVAL_DAYS * DAY_MS);
+    return next < graceEndsAt ? next : undefined;
+  }
+
+  private daysLeft(subscription: ISubscription): number {
+    const msLeft = (subscription.dunning?.graceEndsAt.getTime() || 0) - Date.now();
+    return Math.max(1, Math.ceil(msLeft / DAY_MS));
+  }
+
+  /**
+   * Put a subscription in past_due and open its grace period (no-op if already open)
+   * The caller saves the subscription.
+   */
+  openGracePeriod(subscription: ISubscription): void {
+    subscription.status = 'past_due';
+    if (subscription.dunning) {
+      return;
+    }
+
+    const now = new Date();
+    const graceEndsAt = new Date(now.getTime() + env.DUNNING_GRACE_DAYS * DAY_MS);
+    subscription.dunning = {
+      startedAt: now,
+      graceEndsAt,
+      retryCount: 0,
+      nextRetryAt: this.nextRetryAfter(now, graceEndsAt),
+      remindersSent: 0,
+    };
+  }
+
+  /**
+   * A renewal invoice failed: start dunning and send the first reminder
+   * Later failures of the same invoice (including our own retries) only update the reason.
+   */
+  async handleFailedRenewal(
+    subscription: ISubscription,
+    invoiceId: string,
+    failureReason: string
+  ): Promise<void> {
+    this.openGracePeriod(subscription);
+    subscription.dunning!.invoiceId = invoiceId;
+    subscription.dunning!.lastFailureReason = failureReason;
+
+    const isFirstFailure = subscription.dunning!.remindersSent === 0;
+    if (isFirstFailure) {
+      subscription.dunning!.remindersSent = 1;
+    }
+    await subscription.save();
+
+    await User.findByIdAndUpdate(subscription.userId, {
+      'subscription.status': 'past_due',
+    });
+
+    if (isFirstFailure) {
+      await this.sendReminder(subscription, false);
+      logger.info(
+        `Subscription ${subscription._id} is past due until ${subscription.dunning!.graceEndsAt.toISOString()}`
+      );
+    }
+  }
+
+  /**
+   * The overdue invoice was paid: leave dunning and tell the user
+   * Returns false when the subscription wasn't in dunning.
+   */
+  async resolve(subscription: ISubscription): Promise<boolean> {
+    if (!subscription.dunning) {
+      return false;
+    }
+
+    subscription.dunning = undefined;
+    if (subscription.status === 'past_due') {
+      subscription.status = 'active';
+    }
+    await subscription.save();
+
+    await User.findByIdAndUpdate(subscription.userId, {
+      'subscription.status': subscription.status,
+    });
+
+    const pkg = await Package.findById(subscription.packageId);
+    await this.notify(subscription, NOTIFICATION_TEMPLATES.PAYMENT_RECOVERED, {
+      packageName: pkg?.name,
+      packageNameAr: pkg?.name,
+    });
+
+    logger.info(`Subscription ${subscription._id} recovered from past due`);
+    return true;
+  }
+
+  /**
+   * Retry every overdue invoice whose next attempt is due
+   * A successful retry is completed by the invoice.paid webhook.
+   */
+  async retryDuePayments(): Promise<{ recovered: number; failed: number }> {
+    const now = new Date();
+    const subscriptions = await Subscription.find({
+      status: 'past_due',
+      'dunning.nextRetryAt': { $lte: now },
+      'dunning.graceEndsAt': { $gt: now },
+    });
+
+    let recovered = 0;
+    let failed = 0;
+
+    for (const subscription of subscriptions) {
+      const dunning = subscription.dunning!;
+      const nextRetryAt = this.nextRetryAfter(now, dunning.graceEndsAt);
+
+      // Record the attempt before charging, and only if no one else (the webhook
+      // or an overlapping run) has moved this dunning on since it was loaded
+      const claimed = await Subscription.updateOne(
+        {
+          _id: subscription._id,
+          status: 'past_due',
+          'dunning.invoiceId': dunning.invoiceId,
+          'dunning.retryCount': dunning.retryCount,
+        },
+        nextRetryAt
+          ? { $inc: { 'dunning.retryCount': 1 }, $set: { 'dunning.nextRetryAt': nextRetryAt } }
+          : { $inc: { 'dunning.retryCount': 1 }, $unset: { 'dunning.nextRetryAt': 1 } }
+      );
+      if (claimed.modifiedCount === 0) {
+        continue;
+      }
+      dunning.retryCount += 1;
+      dunning.nextRetryAt = nextRetryAt;
+
+      try {
+        if (!dunning.invoiceId) {
+          throw new Error('No invoice to retry');
+        }
+
+        const invoice = await stripe.invoices.pay(dunning.invoiceId);
+        if (invoice.status !== 'paid') {
+          throw new Error(`Invoice is ${invoice.status}`);
+        }
+
+        recovered++;
+        logger.info(`Retry ${dunning.retryCount} paid invoice ${dunning.invoiceId}`);
+      } catch (error) {
+        dunning.lastFailureReason = error instanceof Error ? error.message : 'Payment failed';
+        dunning.remindersSent += 1;
+        failed++;
+        logger.warn(
+          `Retry ${dunning.retryCount} failed for subscription ${subscription._id}: ${dunning.lastFailureReason}`
+        );
+
+        // One subscription's bookkeeping failing must not stop the rest of the batch
+        try {
+          await Subscription.updateOne(
+            { _id: subscription._id, 'dunning.invoiceId': dunning.invoiceId },
+            {
+              $set: { 'dunning.lastFailureReason': dunning.lastFailureReason },
+              $inc: { 'dunning.remindersSent': 1 },
+            }
+          );
+
+          // No retries left: this is the last warning before access ends
+          await this.sendReminder(subscription, !dunning.nextRetryAt);
+        } catch (reminderError) {
+          logger.error(`Error recording failed retry for subscription ${subscription._id}:`, reminderError);
+        }
+      }
+    }
+
+    return { recovered, failed };
+  }
+
+  /**
+   * Expire past due subscriptions whose grace period ended unpaid
+   */
+  async expireLapsed(): Promise<number> {
+    const subscriptions = await Subscription.find({
+      status: 'past_due',
+      'dunning.graceEndsAt': { $lte: new Date() },
+    });
+
+    let expired = 0;
+
+    for (const subscription of subscriptions) {
+      try {
+        if (subscription.stripeSubscriptionId) {
+          try {
+            await stripe.subscriptions.cancel(subscription.stripeSubscriptionId);
+          } catch (error) {
+            // Already cancelled on Stripe's side
+            if ((error as Stripe.errors.StripeError).code !== 'resource_missing') {
+              throw error;
+            }
+          }
+        }
+
+        const endDate = subscription.dunning!.graceEndsAt;
+        subscription.status = 'expired';
+        subscription.endDate = endDate;
+        subscription.autoRenew = false;
+        subscription.dunning = undefined;
+        await subscription.save();
+
+        await User.findByIdAndUpdate(subscription.userId, {
+          'subscription.status': 'expired',
+          'subscription.endDate': endDate,
+          'subscription.autoRenew': false,
+        });
+
+        await this.notify(subscription, NOTIFICATION_TEMPLATES.SUBSCRIPTION_EXPIRED_UNPAID, {});
+
+        expired++;
+        logger.info(`Subscription ${subscription._id} expired after failed renewal`);
+      } catch (error) {
+        logger.error(`Error expiring past due subscription ${subscription._id}:`, error);
+      }
+    }
+
+    return expired;
+  }
+
+  private async sendReminder(subscription: ISubscription, final: boolean): Promise<void> {
+    await this.notify(subscription, NOTIFICATION_TEMPLATES.PAYMENT_RETRY_REMINDER, {
+      days: this.daysLeft(subscription),
+      final,
+    });
+  }
+
+  /**
+   * Send a billing notification
+   * Billing notices are always emailed, even when subscription emails are turned off
+   */
+  private async notify(
+    subscription: ISubscription,
+    template: string,
+    params: Record<string, unknown>
+  ): Promise<void> {
+    const userId = String(subscription.userId);
+    const notificationData = getNotificationTemplate(template, params);
+    if (!notificationData) {
+      return;
+    }
+
+    notificationData.data = {
+      subscriptionId: String(subscription._id),
+      ...(subscription.dunning && {
+        graceEndsAt: subscription.dunning.graceEndsAt.toISOString(),
+        retryCount: subscription.dunning.retryCount,
+      }),
+    };
+    await createNotification(userId, notificationData);
+
+    const user = await User.findById(userId).select('preferences');
+    if (user && !notificationDeliveryService.isChannelEnabled(user, notificationData.type, 'email')) {
+      await sendEmailNotification(userId, notificationData.title, notificationData.message);
+    }
+  }
+}
+
+export const dunningService = new DunningService();
@@ -1,6 +1,7 @@
 import { Resend } from 'resend';
 import { env } from '../config/env';
 import logger from '../utils/logger';
+import { escapeHtml } from '../utils/html';
 
 class EmailService {
   private resend: Resend | null = null;
@@ -79,6 +80,217 @@ class EmailService {
     }
   }
 
+  async sendMagicLinkEmail(email: string, link: string): Promise<void> {
+    const subject = 'رابط تسجيل الدخول - Naturacalm';
+    const html = this.getMagicLinkEmailTemplate(link);
+
+    if (!this.resend) {
+      logger.info(`[DEV MODE] Magic link for ${email}: ${link}`);
+      return;
+    }
+
+    try {
+      const { error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: [email],
+        subject,
+        html,
+      });
+
+      if (error) {
+        logger.error('Failed to send magic link email:', error);
+        throw new Error('Failed to send sign-in email');
+      }
+
+      logger.info(`Magic link email sent to ${email}`);
+    } catch (error) {
+      logger.error('Failed to send magic link email:', error);
+      throw new Error('Failed to send sign-in email');
+    }
+  }
+
+  async sendNewLoginAlertEmail(
+    email: string,
+    details: { deviceName: string; ipAddress?: string; country?: string; time: Date }
+  ): Promise<void> {
+    const subject = 'تنبيه أمني: تسجيل دخول جديد - Naturacalm';
+    const html = this.getNewLoginAlertEmailTemplate(details);
+
+    if (!this.resend) {
+      logger.info(`[DEV MODE] New login alert for ${email}: ${details.deviceName} (${details.country || 'unknown country'})`);
+      return;
+    }
+
+    try {
+      const { error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: [email],
+        subject,
+        html,
+      });
+
+      if (error) {
+        logger.error('Failed to send login alert email:', error);
+        throw new Error('Failed to send login alert email');
+      }
+
+      logger.info(`Login alert email sent to ${email}`);
+    } catch (error) {
+      logger.error('Failed to send login alert email:', error);
+      throw new Error('Failed to send login alert email');
+    }
+  }
+
+  async sendDataExportEmail(email: string, link: string, expiresAt: Date): Promise<void> {
+    const subject = 'نسخة بياناتك جاهزة للتنزيل - Naturacalm';
+    const html = this.getDataExportEmailTemplate(link, expiresAt);
+
+    if (!this.resend) {
+      logger.info(`[DEV MODE] Data export link for ${email}: ${link}`);
+      return;
+    }
+
+    try {
+      const { error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: [email],
+        subject,
+        html,
+      });
+
+      if (error) {
+        logger.error('Failed to send data export email:', error);
+        throw new Error('Failed to send data export email');
+      }
+
+      logger.info(`Data export email sent to ${email}`);
+    } catch (error) {
+      logger.error('Failed to send data export email:', error);
+      throw new Error('Failed to send data export email');
+    }
+  }
+
+  async sendEmailChangeOTPEmail(email: string, otp: string): Promise<void> {
+    const subject = 'تأكيد البريد الإلكتروني الجديد - Naturacalm';
+    const html = this.getEmailChangeOTPEmailTemplate(otp);
+
+    if (!this.resend) {
+      logger.info(`[DEV MODE] Email change OTP for ${email}: ${otp}`);
+      return;
+    }
+
+    try {
+      const { error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: [email],
+        subject,
+        html,
+      });
+
+      if (error) {
+        logger.error('Failed to send email change verification email:', error);
+        throw new Error('Failed to send email change verification email');
+      }
+
+      logger.info(`Email change OTP sent to ${email}`);
+    } catch (error) {
+      logger.error('Failed to send email change verification email:', error);
+      throw new Error('Failed to send email change verification email');
+    }
+  }
+
+  async sendEmailChangedNoticeEmail(email: string, newEmail: string, revertLink: string): Promise<void> {
+    const subject = 'تم تغيير بريدك الإلكتروني - Naturacalm';
+    const html = this.getEmailChangedNoticeEmailTemplate(newEmail, revertLink);
+
+    if (!this.resend) {
+      logger.info(`[DEV MODE] Email change notice for ${email} (new: ${newEmail}). Revert link: ${revertLink}`);
+      return;
+    }
+
+    try {
+      const { error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: [email],
+        subject,
+        html,
+      });
+
+      if (error) {
+        logger.error('Failed to send email change notice email:', error);
+        throw new Error('Failed to send email change notice email');
+      }
+
+      logger.info(`Email change notice sent to ${email}`);
+    } catch (error) {
+      logger.error('Failed to send email change notice email:', error);
+      throw new Error('Failed to send email change notice email');
+    }
+  }
+
+  async sendFamilyInviteEmail(
+    email: string,
+    ownerName: string,
+    link: string,
+    expiresAt: Date
+  ): Promise<void> {
+    const subject = 'دعوة للانضمام إلى الباقة العائلية - Naturacalm';
+    const html = this.getFamilyInviteEmailTemplate(ownerName, link, expiresAt);
+
+    if (!this.resend) {
+      logger.info(`[DEV MODE] Family invite link for ${email} from ${ownerName}: ${link}`);
+      return;
+    }
+
+    try {
+      const { error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: [email],
+        subject,
+        html,
+      });
+
+      if (error) {
+        logger.error('Failed to send family invite email:', error);
+        throw new Error('Failed to send family invite email');
+      }
+
+      logger.info(`Family invite email sent to ${email}`);
+    } catch (error) {
+      logger.error('Failed to send family invite email:', error);
+      throw new Error('Failed to send family invite email');
+    }
+  }
+
+  async sendNotificationEmail(email: string, title: string, message: string): Promise<void> {
+    const subject = `${title} - Naturacalm`;
+    const html = this.getNotificationEmailTemplate(title, message);
+
+    if (!this.resend) {
+      logger.info(`[DEV MODE] Notification email for ${email}: ${title} - ${message}`);
+      return;
+    }
+
+    try {
+      const { error } = await this.resend.emails.send({
+        from: this.fromEmail,
+        to: [email],
+        subject,
+        html,
+      });
+
+      if (error) {
+        logger.error('Failed to send notification email:', error);
+        throw new Error('Failed to send notification email');
+      }
+
+      logger.info(`Notification email sent to ${email}`);
+    } catch (error) {
+      logger.error('Failed to send notification email:', error);
+      throw new Error('Failed to send notification email');
+    }
+  }
+
   private getOTPEmailTemplate(otp: string): string {
     return `
     <!DOCTYPE html>
@@ -266,6 +478,632 @@ class EmailService {
     </html>
     `;
   }
+  private getMagicLinkEmailTemplate(link: string): string {
+    return `
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>رابط تسجيل الدخول</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: #f5f5f5;
+          margin: 0;
+          padding: 20px;
+          direction: rtl;
+        }
+        .container {
+          max-width: 500px;
+          margin: 0 auto;
+          background-color: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          background: linear-gradient(135deg, #7ca78b 0%, #5a8a6a 100%);
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 {
+          color: #ffffff;
+          margin: 0;
+          font-size: 28px;
+          font-weight: 600;
+        }
+        .content {
+          padding: 40px 30px;
+          text-align: center;
+        }
+        .content p {
+          color: #555555;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 30px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #7ca78b;
+          color: #ffffff !important;
+          text-decoration: none;
+          border-radius: 12px;
+          padding: 14px 32px;
+          font-size: 18px;
+          font-weight: 600;
+        }
+        .warning {
+          color: #888888;
+          font-size: 14px;
+          margin-top: 20px;
+        }
+        .footer {
+          background-color: #f8f9fa;
+          padding: 20px;
+          text-align: center;
+          color: #888888;
+          font-size: 12px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Naturacalm</h1>
+        </div>
+        <div class="content">
+          <p>اضغط على الزر أدناه لتسجيل الدخول إلى حسابك:</p>
+          <a class="button" href="${link}">تسجيل الدخول</a>
+          <p class="warning">هذا الرابط صالح لمدة 15 دقيقة ويمكن استخدامه مرة واحدة فقط.<br>إذا لم تطلب تسجيل الدخول، يرجى تجاهل هذا البريد.</p>
+        </div>
+        <div class="footer">
+          <p>© ${new Date().getFullYear()} Naturacalm. جميع الحقوق محفوظة.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+  private getNewLoginAlertEmailTemplate(details: {
+    deviceName: string;
+    ipAddress?: string;
+    country?: string;
+    time: Date;
+  }): string {
+    return `
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>تسجيل دخول جديد</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: #f5f5f5;
+          margin: 0;
+          padding: 20px;
+          direction: rtl;
+        }
+        .container {
+          max-width: 500px;
+          margin: 0 auto;
+          background-color: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          background: linear-gradient(135deg, #7ca78b 0%, #5a8a6a 100%);
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 {
+          color: #ffffff;
+          margin: 0;
+          font-size: 28px;
+          font-weight: 600;
+        }
+        .content {
+          padding: 40px 30px;
+          text-align: center;
+        }
+        .content p {
+          color: #555555;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 20px;
+        }
+        .details {
+          background-color: #f8f9fa;
+          border-radius: 12px;
+          padding: 20px;
+          margin: 20px 0;
+          text-align: right;
+          color: #555555;
+          font-size: 15px;
+          line-height: 1.8;
+        }
+        .warning {
+          color: #888888;
+          font-size: 14px;
+          margin-top: 20px;
+        }
+        .footer {
+          background-color: #f8f9fa;
+          padding: 20px;
+          text-align: center;
+          color: #888888;
+          font-size: 12px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Naturacalm</h1>
+        </div>
+        <div class="content">
+          <p>تم تسجيل الدخول إلى حسابك من جهاز أو موقع جديد.</p>
+          <div class="details">
+            <div>الجهاز: ${escapeHtml(details.deviceName)}</div>
+            ${details.country ? `<div>الدولة: ${escapeHtml(details.country)}</div>` : ''}
+            ${details.ipAddress ? `<div>عنوان IP: ${escapeHtml(details.ipAddress)}</div>` : ''}
+            <div>الوقت: ${details.time.toUTCString()}</div>
+          </div>
+          <p class="warning">إذا كنت أنت، يمكنك تجاهل هذا البريد.<br>إذا لم تكن أنت، يرجى تغيير كلمة المرور وتسجيل الخروج من الأجهزة الأخرى فوراً.</p>
+        </div>
+        <div class="footer">
+          <p>© ${new Date().getFullYear()} Naturacalm. جميع الحقوق محفوظة.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+
+  private getDataExportEmailTemplate(link: string, expiresAt: Date): string {
+    return `
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>نسخة بياناتك</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: #f5f5f5;
+          margin: 0;
+          padding: 20px;
+          direction: rtl;
+        }
+        .container {
+          max-width: 500px;
+          margin: 0 auto;
+          background-color: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          background: linear-gradient(135deg, #7ca78b 0%, #5a8a6a 100%);
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 {
+          color: #ffffff;
+          margin: 0;
+          font-size: 28px;
+          font-weight: 600;
+        }
+        .content {
+          padding: 40px 30px;
+          text-align: center;
+        }
+        .content p {
+          color: #555555;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 30px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #7ca78b;
+          color: #ffffff !important;
+          text-decoration: none;
+          border-radius: 12px;
+          padding: 14px 32px;
+          font-size: 18px;
+          font-weight: 600;
+        }
+        .warning {
+          color: #888888;
+          font-size: 14px;
+          margin-top: 20px;
+        }
+        .footer {
+          background-color: #f8f9fa;
+          padding: 20px;
+          text-align: center;
+          color: #888888;
+          font-size: 12px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Naturacalm</h1>
+        </div>
+        <div class="content">
+          <p>نسخة من بياناتك الشخصية جاهزة. اضغط على الزر أدناه لتنزيلها:</p>
+          <a class="button" href="${link}">تنزيل البيانات</a>
+          <p class="warning">هذا الرابط صالح حتى ${expiresAt.toLocaleString('ar')}.<br>إذا لم تطلب نسخة من بياناتك، يرجى تغيير كلمة المرور فوراً.</p>
+        </div>
+        <div class="footer">
+          <p>© ${new Date().getFullYear()} Naturacalm. جميع الحقوق محفوظة.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+
+  private getEmailChangeOTPEmailTemplate(otp: string): string {
+    return `
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>رمز التحقق</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: #f5f5f5;
+          margin: 0;
+          padding: 20px;
+          direction: rtl;
+        }
+        .container {
+          max-width: 500px;
+          margin: 0 auto;
+          background-color: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          background: linear-gradient(135deg, #7ca78b 0%, #5a8a6a 100%);
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 {
+          color: #ffffff;
+          margin: 0;
+          font-size: 28px;
+          font-weight: 600;
+        }
+        .content {
+          padding: 40px 30px;
+          text-align: center;
+        }
+        .content p {
+          color: #555555;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 30px;
+        }
+        .otp-code {
+          background-color: #f8f9fa;
+          border: 2px dashed #7ca78b;
+          border-radius: 12px;
+          padding: 20px;
+          margin: 20px 0;
+        }
+        .otp-code span {
+          font-size: 36px;
+          font-weight: bold;
+          color: #7ca78b;
+          letter-spacing: 8px;
+        }
+        .warning {
+          color: #888888;
+          font-size: 14px;
+          margin-top: 20px;
+        }
+        .footer {
+          background-color: #f8f9fa;
+          padding: 20px;
+          text-align: center;
+          color: #888888;
+          font-size: 12px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Naturacalm</h1>
+        </div>
+        <div class="content">
+          <p>طلبت تغيير البريد الإلكتروني لحسابك إلى هذا العنوان.</p>
+          <p>رمز التأكيد الخاص بك هو:</p>
+          <div class="otp-code">
+            <span>${otp}</span>
+          </div>
+          <p class="warning">هذا الرمز صالح لمدة 5 دقائق فقط.<br>إذا لم تطلب هذا التغيير، يرجى تجاهل هذا البريد.</p>
+        </div>
+        <div class="footer">
+          <p>© ${new Date().getFullYear()} Naturacalm. جميع الحقوق محفوظة.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+
+  private getEmailChangedNoticeEmailTemplate(newEmail: string, revertLink: string): string {
+    return `
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>تغيير البريد الإلكتروني</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: #f5f5f5;
+          margin: 0;
+          padding: 20px;
+          direction: rtl;
+        }
+        .container {
+          max-width: 500px;
+          margin: 0 auto;
+          background-color: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          background: linear-gradient(135deg, #7ca78b 0%, #5a8a6a 100%);
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 {
+          color: #ffffff;
+          margin: 0;
+          font-size: 28px;
+          font-weight: 600;
+        }
+        .content {
+          padding: 40px 30px;
+          text-align: center;
+        }
+        .content p {
+          color: #555555;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 30px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #7ca78b;
+          color: #ffffff !important;
+          text-decoration: none;
+          border-radius: 12px;
+          padding: 14px 32px;
+          font-size: 18px;
+          font-weight: 600;
+        }
+        .warning {
+          color: #888888;
+          font-size: 14px;
+          margin-top: 20px;
+        }
+        .footer {
+          background-color: #f8f9fa;
+          padding: 20px;
+          text-align: center;
+          color: #888888;
+          font-size: 12px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Naturacalm</h1>
+        </div>
+        <div class="content">
+          <p>تم تغيير البريد الإلكتروني لحسابك إلى <strong>${escapeHtml(newEmail)}</strong>.</p>
+          <p>إذا لم تقم بهذا التغيير، اضغط على الزر أدناه لاستعادة بريدك الإلكتروني وتسجيل الخروج من جميع الأجهزة:</p>
+          <a class="button" href="${escapeHtml(revertLink)}">استعادة البريد الإلكتروني</a>
+          <p class="warning">هذا الرابط صالح لمدة 7 أيام ويمكن استخدامه مرة واحدة فقط.<br>إذا قمت بهذا التغيير، يمكنك تجاهل هذا البريد.</p>
+        </div>
+        <div class="footer">
+          <p>© ${new Date().getFullYear()} Naturacalm. جميع الحقوق محفوظة.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+
+  private getFamilyInviteEmailTemplate(ownerName: string, link: string, expiresAt: Date): string {
+    return `
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>دعوة للباقة العائلية</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: #f5f5f5;
+          margin: 0;
+          padding: 20px;
+          direction: rtl;
+        }
+        .container {
+          max-width: 500px;
+          margin: 0 auto;
+          background-color: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          background: linear-gradient(135deg, #7ca78b 0%, #5a8a6a 100%);
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 {
+          color: #ffffff;
+          margin: 0;
+          font-size: 28px;
+          font-weight: 600;
+        }
+        .content {
+          padding: 40px 30px;
+          text-align: center;
+        }
+        .content p {
+          color: #555555;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 30px;
+        }
+        .button {
+          display: inline-block;
+          background-color: #7ca78b;
+          color: #ffffff !important;
+          text-decoration: none;
+          border-radius: 12px;
+          padding: 14px 32px;
+          font-size: 18px;
+          font-weight: 600;
+        }
+        .warning {
+          color: #888888;
+          font-size: 14px;
+          margin-top: 20px;
+        }
+        .footer {
+          background-color: #f8f9fa;
+          padding: 20px;
+          text-align: center;
+          color: #888888;
+          font-size: 12px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Naturacalm</h1>
+        </div>
+        <div class="content">
+          <p>دعاك ${escapeHtml(ownerName)} للانضمام إلى باقته العائلية في Naturacalm. ستحصل على وصول كامل إلى المحتوى المميز مع سجل استماع خاص بك:</p>
+          <a class="button" href="${link}">قبول الدعوة</a>
+          <p class="warning">هذه الدعوة صالحة حتى ${expiresAt.toLocaleString('ar')}.<br>سجّل الدخول أو أنشئ حساباً بهذا البريد الإلكتروني لقبولها. إذا لم تكن تتوقع هذه الدعوة، يمكنك تجاهل هذه الرسالة.</p>
+        </div>
+        <div class="footer">
+          <p>© ${new Date().getFullYear()} Naturacalm. جميع الحقوق محفوظة.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
+
+  private getNotificationEmailTemplate(title: string, message: string): string {
+    return `
+    <!DOCTYPE html>
+    <html dir="rtl" lang="ar">
+    <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>${escapeHtml(title)}</title>
+      <style>
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          background-color: #f5f5f5;
+          margin: 0;
+          padding: 20px;
+          direction: rtl;
+        }
+        .container {
+          max-width: 500px;
+          margin: 0 auto;
+          background-color: #ffffff;
+          border-radius: 16px;
+          overflow: hidden;
+          box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+        }
+        .header {
+          background: linear-gradient(135deg, #7ca78b 0%, #5a8a6a 100%);
+          padding: 30px;
+          text-align: center;
+        }
+        .header h1 {
+          color: #ffffff;
+          margin: 0;
+          font-size: 28px;
+          font-weight: 600;
+        }
+        .content {
+          padding: 40px 30px;
+          text-align: center;
+        }
+        .content h2 {
+          color: #333333;
+          font-size: 20px;
+          margin-top: 0;
+        }
+        .content p {
+          color: #555555;
+          font-size: 16px;
+          line-height: 1.6;
+          margin-bottom: 30px;
+        }
+        .warning {
+          color: #888888;
+          font-size: 14px;
+          margin-top: 20px;
+        }
+        .footer {
+          background-color: #f8f9fa;
+          padding: 20px;
+          text-align: center;
+          color: #888888;
+          font-size: 12px;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>Naturacalm</h1>
+        </div>
+        <div class="content">
+          <h2>${escapeHtml(title)}</h2>
+          <p>${escapeHtml(message)}</p>
+          <p class="warning">يمكنك إيقاف رسائل البريد هذه من إعدادات الإشعارات في التطبيق.</p>
+        </div>
+        <div class="footer">
+          <p>© ${new Date().getFullYear()} Naturacalm. جميع الحقوق محفوظة.</p>
+        </div>
+      </div>
+    </body>
+    </html>
+    `;
+  }
 }
 
 export const emailService = new EmailService();
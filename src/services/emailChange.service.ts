@@ -0,0 +1,218 @@
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+import { cacheGet, cacheSet, cacheDel, getRedisClient } from '../config/redis';
+import { otpService } from './otp.service';
+import { emailService } from './email.service';
+import logger from '../utils/logger';
+
+/**
+ * Email change waiting for the OTP sent to the new address
+ */
+interface PendingEmailChange {
+  newEmail: string;
+  otpHash: string;
+  expiresAt: string;
+}
+
+/**
+ * Payload of the revert link sent to the old address
+ */
+export interface EmailChangeRevert {
+  id: string;
+  oldEmail: string;
+  newEmail: string;
+  purpose: 'email_change_revert';
+  jti?: string;
+}
+
+export type EmailChangeStart = { status: 'sent' } | { status: 'wait'; retryAfter: number };
+
+export type EmailChangeConfirmation =
+  | { status: 'confirmed'; newEmail: string }
+  | { status: 'invalid'; attemptsLeft: number }
+  | { status: 'locked'; retryAfter: number }
+  | { status: 'expired' };
+
+class EmailChangeService {
+  private readonly PENDING_PREFIX = 'email-change:pending:';
+  private readonly REVERT_PREFIX = 'email-change:revert:';
+  private readonly ATTEMPTS_PREFIX = 'email-change:attempts:';
+  private readonly COOLDOWN_PREFIX = 'email-change:cooldown:';
+
+  /**
+   * Pending change lifetime, matching the OTP expiry (5 minutes in seconds)
+   */
+  readonly PENDING_EXPIRY = 5 * 60;
+
+  /**
+   * Revert link lifetime (7 days in seconds)
+   */
+  readonly REVERT_EXPIRY = 7 * 24 * 60 * 60;
+
+  /**
+   * Minimum time between two codes for the same user (seconds)
+   */
+  readonly RESEND_COOLDOWN = 60;
+
+  /**
+   * Wrong codes are counted for this long, across restarted changes (seconds)
+   */
+  readonly ATTEMPTS_WINDOW = otpService.LOCKOUT_DURATION / 1000;
+
+  /**
+   * Signing key kept apart from the access token secret so a revert token
+   * can never pass `protect` as an access token
+   */
+  private get secret(): string {
+    return `${env.JWT_SECRET}:email-change-revert`;
+  }
+
+  /**
+   * Store a pending change and email a confirmation code to the new address
+   * Refused while the user is locked out for wrong codes or asked for a code
+   * less than RESEND_COOLDOWN ago; a new code doesn't clear earlier wrong guesses.
+   */
+  async startChange(userId: string, newEmail: string): Promise<EmailChangeStart> {
+    const client = getRedisClient();
+
+    const attemptsKey = `${this.ATTEMPTS_PREFIX}${userId}`;
+    if (Number(await client.get(attemptsKey)) >= otpService.MAX_ATTEMPTS) {
+      return { status: 'wait', retryAfter: Math.max(1, Number(await client.ttl(attemptsKey))) };
+    }
+
+    const cooldownKey = `${this.COOLDOWN_PREFIX}${userId}`;
+    const claimed = await client.set(cooldownKey, '1', {
+      condition: 'NX',
+      expiration: { type: 'EX', value: this.RESEND_COOLDOWN },
+    });
+    if (!claimed) {
+      return { status: 'wait', retryAfter: Math.max(1, Number(await client.ttl(cooldownKey))) };
+    }
+
+    const otp = otpService.generateOTP();
+
+    const pending: PendingEmailChange = {
+      newEmail,
+      otpHash: otpService.hashOTP(otp),
+      expiresAt: otpService.getOTPExpiration().toISOString(),
+    };
+
+    const stored = await cacheSet(`${this.PENDING_PREFIX}${userId}`, pending, this.PENDING_EXPIRY);
+    if (!stored) {
+      throw new Error('Failed to start email change. Please try again.');
+    }
+
+    try {
+      await emailService.sendEmailChangeOTPEmail(newEmail, otp);
+    } catch (error: unknown) {
+      logger.error(`Failed to send email change OTP to ${newEmail}:`, error);
+      await this.cancelChange(userId);
+      throw new Error('Failed to send verification code. Please try again.');
+    }
+
+    return { status: 'sent' };
+  }
+
+  /**
+   * Check the code sent to the new address.
+   * The pending change is dropped once confirmed or after too many wrong codes.
+   */
+  async confirmChange(userId: string, otp: string): Promise<EmailChangeConfirmation> {
+    const key = `${this.PENDING_PREFIX}${userId}`;
+    const pending = await cacheGet<PendingEmailChange>(key);
+
+    if (!pending) {
+      return { status: 'expired' };
+    }
+
+    // Count the attempt atomically before checking so parallel guesses can't exceed the cap
+    const client = getRedisClient();
+    const attemptsKey = `${this.ATTEMPTS_PREFIX}${userId}`;
+    const attempts = Number(await client.incr(attemptsKey));
+    await client.expire(attemptsKey, this.ATTEMPTS_WINDOW);
+
+    if (
+      attempts <= otpService.MAX_ATTEMPTS &&
+      otpService.verifyOTP(pending.otpHash, otp, new Date(pending.expiresAt))
+    ) {
+      await cacheDel(key);
+      await cacheDel(attemptsKey);
+      return { status: 'confirmed', newEmail: pending.newEmail };
+    }
+
+    if (attempts >= otpService.MAX_ATTEMPTS) {
+      // Burn the code; a new one can only be requested once the window has passed
+      await cacheDel(key);
+      logger.warn(`Email change locked for user ${userId} after ${attempts} wrong codes`);
+      return { status: 'locked', retryAfter: this.ATTEMPTS_WINDOW };
+    }
+
+    return { status: 'invalid', attemptsLeft: otpService.MAX_ATTEMPTS - attempts };
+  }
+
+  /**
+   * Drop a pending change
+   */
+  async cancelChange(userId: string): Promise<void> {
+    await cacheDel(`${this.PENDING_PREFIX}${userId}`);
+  }
+
+  /**
+   * Tell the old address about the change, with a single-use link to undo it
+   */
+  async sendChangeNotice(userId: string, oldEmail: string, newEmail: string): Promise<void> {
+    try {
+      const jti = randomUUID();
+
+      const token = jwt.sign(
+        { id: userId, oldEmail, newEmail, purpose: 'email_change_revert' },
+        this.secret,
+        { expiresIn: this.REVERT_EXPIRY, jwtid: jti }
+      );
+
+      // The token is only usable while its id is present in Redis
+      await cacheSet(`${this.REVERT_PREFIX}${jti}`, userId, this.REVERT_EXPIRY);
+
+      await emailService.sendEmailChangedNoticeEmail(oldEmail, newEmail, this.buildRevertLink(token));
+    } catch (error: unknown) {
+      logger.error(`Failed to send email change notice to ${oldEmail}:`, error);
+    }
+  }
+
+  /**
+   * Build the revert link the old address receives
+   */
+  buildRevertLink(token: string): string {
+    const baseUrl = env.FRONTEND_URL || 'http://localhost:3000';
+    return `${baseUrl}/account/email-change/revert?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Verify a revert token and consume it so it can't be used twice
+   * Returns null when the token is invalid, expired or already used
+   */
+  async consumeRevertToken(token: string): Promise<EmailChangeRevert | null> {
+    let decoded: EmailChangeRevert;
+    try {
+      decoded = jwt.verify(token, this.secret) as EmailChangeRevert;
+    } catch {
+      return null;
+    }
+
+    if (decoded.purpose !== 'email_change_revert' || !decoded.jti) {
+      return null;
+    }
+
+    try {
+      // Deleting is atomic, so only one request can redeem the link
+      const deleted = await getRedisClient().del(`${this.REVERT_PREFIX}${decoded.jti}`);
+      return deleted === 1 ? decoded : null;
+    } catch (error) {
+      logger.error('Failed to consume email change revert token:', error);
+      return null;
+    }
+  }
+}
+
+export const emailChangeService = new EmailChangeService();
@@ -0,0 +1,237 @@
+import { createHash, randomBytes } from 'crypto';
+import { env } from '../config/env';
+import { FamilyMember, IFamilyMember } from '../models/FamilyMember.model';
+import { Subscription, ISubscription } from '../models/Subscription.model';
+import { IPackage } from '../models/Package.model';
+import { IUser, User } from '../models/User.model';
+import { AppError } from '../middlewares/errorHandler';
+import { emailService } from './email.service';
+import { createNotification } from './notification.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+/**
+ * Active family subscription and the number of members it allows
+ */
+export interface FamilyPlan {
+  subscription: ISubscription;
+  maxMembers: number;
+}
+
+class FamilyService {
+  /**
+   * Invite link lifetime (7 days in milliseconds)
+   */
+  readonly INVITE_EXPIRY = 7 * 24 * 60 * 60 * 1000;
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * The owner's active subscription, if it is on a family package
+   */
+  async getOwnerPlan(ownerId: string): Promise<FamilyPlan | null> {
+    const subscription = await Subscription.findWithAccess(ownerId);
+
+    const pkg = subscription?.packageId as unknown as IPackage | undefined;
+    if (!subscription || pkg?.type !== 'family') {
+      return null;
+    }
+
+    return { subscription, maxMembers: pkg.maxFamilyMembers };
+  }
+
+  /**
+   * Subscription a member inherits from their family owner (null when none)
+   */
+  async getSharedSubscription(memberId: string): Promise<ISubscription | null> {
+    const membership = await FamilyMember.findOne({ memberId, status: 'active' });
+    if (!membership) {
+      return null;
+    }
+
+    const plan = await this.getOwnerPlan(String(membership.ownerId));
+    return plan?.subscription || null;
+  }
+
+  /**
+   * Invite someone to the owner's family plan by email
+   */
+  async inviteMember(owner: IUser, email: string): Promise<IFamilyMember> {
+    const ownerId = String(owner._id);
+    const normalizedEmail = email.trim().toLowerCase();
+
+    const plan = await this.getOwnerPlan(ownerId);
+    if (!plan) {
+      throw new AppError('An active family subscription is required to invite members', 403);
+    }
+
+    if (normalizedEmail === owner.email) {
+      throw new AppError('You are already the owner of this family plan', 400);
+    }
+
+    const existing = await FamilyMember.findOne({ ownerId, email: normalizedEmail });
+    if (existing?.status === 'active') {
+      throw new AppError('This person is already a member of your family plan', 409);
+    }
+
+    // Pending invites hold a seat too, so the plan can't be oversubscribed
+    const seatLimitMessage = `Your family plan allows up to ${plan.maxMembers} members`;
+    const seatsUsed = await FamilyMember.countDocuments({ ownerId });
+    if (!existing && seatsUsed >= plan.maxMembers) {
+      throw new AppError(seatLimitMessage, 409);
+    }
+
+    const token = randomBytes(32).toString('hex');
+    const membership = existing || new FamilyMember({ ownerId, email: normalizedEmail });
+    membership.inviteTokenHash = this.hashToken(token);
+    membership.inviteExpiresAt = new Date(Date.now() + this.INVITE_EXPIRY);
+    membership.invitedAt = new Date();
+    await membership.save();
+
+    // Concurrent invites can all pass the check above, so count again now that this
+    // one holds its seat and give it back if the plan is over its limit
+    if (!existing && (await FamilyMember.countDocuments({ ownerId })) > plan.maxMembers) {
+      await FamilyMember.deleteOne({ _id: membership._id });
+      throw new AppError(seatLimitMessage, 409);
+    }
+
+    await emailService.sendFamilyInviteEmail(
+      normalizedEmail,
+      owner.name,
+      this.buildInviteLink(token),
+      membership.inviteExpiresAt
+    );
+
+    // Existing accounts also get an in-app invite
+    const invitee = await User.findOne({ email: normalizedEmail, deletedAt: null }).select('_id');
+    if (invitee) {
+      const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.FAMILY_INVITE, {
+        ownerName: owner.name,
+      });
+      if (notificationData) {
+        notificationData.data = { action: 'family_invite', ownerId };
+        await createNotification(String(invitee._id), notificationData);
+      }
+    }
+
+    logger.info(`User ${ownerId} invited ${normalizedEmail} to their family plan`);
+
+    return membership;
+  }
+
+  /**
+   * Build the invite link the invitee receives
+   */
+  buildInviteLink(token: string): string {
+    const baseUrl = env.FRONTEND_URL || 'http://localhost:3000';
+    return `${baseUrl}/family/join?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Join a family plan with an invite token sent to the user's email
+   */
+  async acceptInvite(user: IUser, token: string): Promise<IFamilyMember> {
+    const userId = String(user._id);
+
+    const membership = await FamilyMember.findOne({
+      inviteTokenHash: this.hashToken(token),
+      status: 'invited',
+    });
+
+    if (!membership || !membership.inviteExpiresAt || membership.inviteExpiresAt <= new Date()) {
+      throw new AppError('Invalid or expired invitation', 400);
+    }
+
+    if (membership.email !== user.email) {
+      throw new AppError('This invitation was sent to a different email address', 403);
+    }
+
+    if (String(membership.ownerId) === userId) {
+      throw new AppError('You cannot join your own family plan', 400);
+    }
+
+    const currentFamily = await FamilyMember.findOne({ memberId: userId });
+    if (currentFamily) {
+      throw new AppError('You are already a member of a family plan. Leave it first.', 409);
+    }
+
+    if (!(await this.getOwnerPlan(String(membership.ownerId)))) {
+      throw new AppError('This family plan is no longer active', 410);
+    }
+
+    membership.memberId = user._id as IFamilyMember['memberId'];
+    membership.status = 'active';
+    membership.joinedAt = new Date();
+    membership.inviteTokenHash = undefined;
+    membership.inviteExpiresAt = undefined;
+    await membership.save();
+
+    logger.info(`User ${userId} joined the family plan of ${String(membership.ownerId)}`);
+
+    return membership;
+  }
+
+  /**
+   * Owner's view: members and pending invites
+   */
+  async getMembers(ownerId: string) {
+    return FamilyMember.find({ ownerId })
+      .populate('memberId', 'name email avatar')
+      .sort({ invitedAt: 1 });
+  }
+
+  /**
+   * Family the user belongs to as a member (null when none)
+   */
+  async getMembership(memberId: string) {
+    return FamilyMember.findOne({ memberId, status: 'active' }).populate(
+      'ownerId',
+      'name email avatar'
+    );
+  }
+
+  /**
+   * Remove a member or cancel a pending invite
+   */
+  async removeMember(ownerId: string, membershipId: string): Promise<void> {
+    const membership = await FamilyMember.findOneAndDelete({ _id: membershipId, ownerId });
+    if (!membership) {
+      throw new AppError('Family member not found', 404);
+    }
+
+    if (membership.memberId) {
+      const notificationData = getNotificationTemplate(
+        NOTIFICATION_TEMPLATES.FAMILY_MEMBER_REMOVED
+      );
+      if (notificationData) {
+        notificationData.data = { action: 'view_subscription' };
+        await createNotification(String(membership.memberId), notificationData);
+      }
+    }
+
+    logger.info(`User ${ownerId} removed ${membership.email} from their family plan`);
+  }
+
+  /**
+   * Leave the family plan the user belongs to
+   */
+  async leaveFamily(memberId: string): Promise<void> {
+    const membership = await FamilyMember.findOneAndDelete({ memberId });
+    if (!membership) {
+      throw new AppError('You are not a member of a family plan', 404);
+    }
+
+    logger.info(`User ${memberId} left the family plan of ${String(membership.ownerId)}`);
+  }
+
+  /**
+   * Drop every membership a user owns or belongs to (used when the account is purged)
+   */
+  async deleteUserMemberships(userId: string): Promise<void> {
+    await FamilyMember.deleteMany({ $or: [{ ownerId: userId }, { memberId: userId }] });
+  }
+}
+
+export const familyService = new FamilyService();
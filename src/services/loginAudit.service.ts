@@ -0,0 +1,195 @@
+import { createHash } from 'crypto';
+import { Request } from 'express';
+import { LoginEvent, LoginMethod } from '../models/LoginEvent.model';
+import { User } from '../models/User.model';
+import { DeviceInfo } from './token.service';
+import { emailService } from './email.service';
+import { createNotification } from './notification.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+/**
+ * Details of a single sign-in attempt
+ */
+export interface LoginAttempt {
+  userId: string;
+  method: LoginMethod;
+  success: boolean;
+  device: DeviceInfo;
+  country?: string;
+  provider?: string;
+  failureReason?: string;
+  sessionId?: string;
+}
+
+/**
+ * Country headers set by the CDN / proxy in front of the API
+ */
+const COUNTRY_HEADERS = ['cf-ipcountry', 'cloudfront-viewer-country', 'x-vercel-ip-country'];
+
+class LoginAuditService {
+  /**
+   * Read the client's country code from proxy headers, if any
+   */
+  getCountry(req: Request): string | undefined {
+    for (const header of COUNTRY_HEADERS) {
+      const value = req.headers[header];
+      const country = (Array.isArray(value) ? value[0] : value)?.trim().toUpperCase();
+
+      // XX = unknown country
+      if (country && /^[A-Z]{2}$/.test(country) && country !== 'XX') {
+        return country;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Stable fingerprint of the client software used to sign in
+   * Version numbers are left out of the user agent so app, browser and OS
+   * updates on the same device don't look like a new device.
+   */
+  getDeviceFingerprint(device: DeviceInfo): string | undefined {
+    if (!device.userAgent) {
+      return undefined;
+    }
+
+    const userAgent = device.userAgent
+      .toLowerCase()
+      .replace(/\d+(?:[._]\d+)*/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    return createHash('sha256')
+      .update(`${device.platform?.toLowerCase() || ''}|${userAgent}`)
+      .digest('hex');
+  }
+
+  /**
+   * Fingerprint stored by logins recorded before versions were ignored (hash of the full user agent)
+   */
+  private getLegacyDeviceFingerprint(device: DeviceInfo): string | undefined {
+    return device.userAgent ? createHash('sha256').update(device.userAgent).digest('hex') : undefined;
+  }
+
+  /**
+   * Whether the user has signed in successfully from this device before
+   */
+  private async isKnownDevice(
+    userId: string,
+    device: DeviceInfo,
+    deviceFingerprint: string
+  ): Promise<boolean> {
+    if (await LoginEvent.hasSuccessfulLogin(userId, { deviceFingerprint })) {
+      return true;
+    }
+
+    const legacyFingerprint = this.getLegacyDeviceFingerprint(device);
+    return (
+      !!legacyFingerprint &&
+      (await LoginEvent.hasSuccessfulLogin(userId, { deviceFingerprint: legacyFingerprint }))
+    );
+  }
+
+  /**
+   * Write a sign-in attempt to the audit trail and alert the user about unusual logins.
+   * Never throws - auditing must not block authentication.
+   */
+  async record(attempt: LoginAttempt): Promise<void> {
+    try {
+      const deviceFingerprint = this.getDeviceFingerprint(attempt.device);
+      let isNewDevice = false;
+      let isNewCountry = false;
+
+      // Only compare against history when the user has signed in successfully before
+      if (attempt.success && (await LoginEvent.hasSuccessfulLogin(attempt.userId))) {
+        // A refresh always comes from an existing session, so only its location is checked
+        if (attempt.method !== 'refresh' && deviceFingerprint) {
+          isNewDevice = !(await this.isKnownDevice(attempt.userId, attempt.device, deviceFingerprint));
+        }
+
+        if (attempt.country) {
+          isNewCountry = !(await LoginEvent.hasSuccessfulLogin(attempt.userId, {
+            country: attempt.country,
+          }));
+        }
+      }
+
+      await LoginEvent.create({
+        userId: attempt.userId,
+        method: attempt.method,
+        provider: attempt.provider,
+        success: attempt.success,
+        failureReason: attempt.failureReason,
+        ipAddress: attempt.device.ipAddress,
+        userAgent: attempt.device.userAgent,
+        platform: attempt.device.platform,
+        deviceName: attempt.device.deviceName,
+        country: attempt.country,
+        deviceFingerprint,
+        sessionId: attempt.sessionId,
+        isNewDevice,
+        isNewCountry,
+      });
+
+      if (isNewDevice || isNewCountry) {
+        // Alerts go out in the background so the login response isn't delayed
+        this.sendLoginAlert(attempt, isNewDevice, isNewCountry).catch((error) => {
+          logger.error('Failed to send login alert:', error);
+        });
+      }
+    } catch (error) {
+      logger.error('Failed to record login event:', error);
+    }
+  }
+
+  /**
+   * Email and notify the user about a login from a new device or country
+   */
+  private async sendLoginAlert(
+    attempt: LoginAttempt,
+    isNewDevice: boolean,
+    isNewCountry: boolean
+  ): Promise<void> {
+    const user = await User.findById(attempt.userId);
+    if (!user) {
+      return;
+    }
+
+    const deviceName =
+      attempt.device.deviceName || attempt.device.platform || attempt.device.userAgent || 'Unknown device';
+
+    const reasons = [isNewDevice && 'new device', isNewCountry && `new country ${attempt.country}`]
+      .filter(Boolean)
+      .join(', ');
+    logger.warn(`Unusual login for user ${attempt.userId}: ${reasons}`);
+
+    if (user.email) {
+      await emailService.sendNewLoginAlertEmail(user.email, {
+        deviceName,
+        ipAddress: attempt.device.ipAddress,
+        country: attempt.country,
+        time: new Date(),
+      });
+    }
+
+    const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.NEW_LOGIN_ALERT, {
+      deviceName,
+      country: attempt.country,
+    });
+
+    if (notificationData) {
+      notificationData.data = {
+        deviceName,
+        ipAddress: attempt.device.ipAddress,
+        country: attempt.country,
+        isNewDevice,
+        isNewCountry,
+      };
+      await createNotification(attempt.userId, notificationData);
+    }
+  }
+}
+
+export const loginAuditService = new LoginAuditService();
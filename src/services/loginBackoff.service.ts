@@ -0,0 +1,84 @@
+import { cacheSet, cacheDel, cacheTTL, getRedisClient } from '../config/redis';
+import logger from '../utils/logger';
+
+class LoginBackoffService {
+  private readonly FAILURES_PREFIX = 'login:failures:';
+  private readonly BACKOFF_PREFIX = 'login:backoff:';
+
+  /**
+   * Failed logins allowed before backoff starts
+   */
+  readonly FREE_ATTEMPTS = 3;
+
+  /**
+   * First backoff delay, doubled on every further failure (seconds)
+   */
+  readonly BASE_DELAY = 30;
+  readonly MAX_DELAY = 60 * 60;
+
+  /**
+   * Failures are forgotten after a day without new ones (seconds)
+   */
+  readonly FAILURE_WINDOW = 24 * 60 * 60;
+
+  /**
+   * Backoff is per account and client IP, so failures from one client can't
+   * lock the owner out; guessing across many IPs is capped by loginAccountLimiter
+   */
+  private key(email: string, ip: string | undefined): string {
+    return `${email.trim().toLowerCase()}:${ip || 'unknown'}`;
+  }
+
+  /**
+   * Seconds until this client may try to log in to the account again (0 when not backed off)
+   */
+  async getRetryAfter(email: string, ip: string | undefined): Promise<number> {
+    const ttl = await cacheTTL(`${this.BACKOFF_PREFIX}${this.key(email, ip)}`);
+    return Math.max(0, ttl);
+  }
+
+  /**
+   * Count a failed login and start the next backoff period
+   * Returns the backoff delay in seconds (0 while still within the free attempts)
+   */
+  async recordFailure(email: string, ip: string | undefined): Promise<number> {
+    const account = this.key(email, ip);
+
+    try {
+      const client = getRedisClient();
+      const failuresKey = `${this.FAILURES_PREFIX}${account}`;
+
+      const failures = Number(await client.incr(failuresKey));
+      await client.expire(failuresKey, this.FAILURE_WINDOW);
+
+      if (failures <= this.FREE_ATTEMPTS) {
+        return 0;
+      }
+
+      // 30s, 60s, 120s, ... capped at an hour
+      const delay = Math.min(
+        this.BASE_DELAY * 2 ** (failures - this.FREE_ATTEMPTS - 1),
+        this.MAX_DELAY
+      );
+
+      await cacheSet(`${this.BACKOFF_PREFIX}${account}`, true, delay);
+      logger.warn(`Login backoff of ${delay}s for ${account} after ${failures} failures`);
+
+      return delay;
+    } catch (error) {
+      logger.error('Failed to record login failure:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Clear this client's failures after a successful login
+   */
+  async reset(email: string, ip: string | undefined): Promise<void> {
+    const account = this.key(email, ip);
+    await cacheDel(`${this.FAILURES_PREFIX}${account}`);
+    await cacheDel(`${this.BACKOFF_PREFIX}${account}`);
+  }
+}
+
+export const loginBackoffService = new LoginBackoffService();
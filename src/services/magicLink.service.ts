@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { env } from '../config/env';
+import { cacheSet, getRedisClient } from '../config/redis';
+import { emailService } from './email.service';
+import logger from '../utils/logger';
+
+interface MagicLinkPayload {
+  id: string;
+  purpose: 'magic_link';
+  jti?: string;
+}
+
+class MagicLinkService {
+  private readonly LINK_PREFIX = 'magiclink:';
+
+  /**
+   * Link lifetime (15 minutes in seconds)
+   */
+  readonly LINK_EXPIRY = 15 * 60;
+
+  /**
+   * Signing key kept apart from the access token secret so a link token
+   * can never pass `protect` as an access token
+   */
+  private get secret(): string {
+    return `${env.JWT_SECRET}:magic-link`;
+  }
+
+  /**
+   * Create a signed single-use sign-in token for a user
+   */
+  async createToken(userId: string): Promise<string> {
+    const jti = randomUUID();
+
+    const token = jwt.sign({ id: userId, purpose: 'magic_link' }, this.secret, {
+      expiresIn: this.LINK_EXPIRY,
+      jwtid: jti,
+    });
+
+    // The token is only usable while its id is present in Redis
+    const stored = await cacheSet(`${this.LINK_PREFIX}${jti}`, userId, this.LINK_EXPIRY);
+    if (!stored) {
+      throw new Error('Failed to create sign-in link. Please try again.');
+    }
+
+    return token;
+  }
+
+  /**
+   * Build the link the user opens from the email
+   */
+  buildLink(token: string): string {
+    const baseUrl = env.FRONTEND_URL || 'http://localhost:3000';
+    return `${baseUrl}/auth/magic-link?token=${encodeURIComponent(token)}`;
+  }
+
+  /**
+   * Verify a sign-in token and consume it so it can't be used twice
+   * Returns the user id, or null when the token is invalid, expired or already used
+   */
+  async consumeToken(token: string): Promise<string | null> {
+    let decoded: MagicLinkPayload;
+    try {
+      decoded = jwt.verify(token, this.secret) as MagicLinkPayload;
+    } catch {
+      return null;
+    }
+
+    if (decoded.purpose !== 'magic_link' || !decoded.jti) {
+      return null;
+    }
+
+    try {
+      // Deleting is atomic, so only one request can redeem the link
+      const deleted = await getRedisClient().del(`${this.LINK_PREFIX}${decoded.jti}`);
+      return deleted === 1 ? decoded.id : null;
+    } catch (error) {
+      logger.error('Failed to consume magic link:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Email a sign-in link to the user
+   * Failures are only logged: the caller answers the same way whether or not
+   * an account exists, so a send error must not show in the response.
+   */
+  async sendLink(email: string, token: string): Promise<void> {
+    try {
+      await emailService.sendMagicLinkEmail(email, this.buildLink(token));
+    } catch (error: unknown) {
+      logger.error(`Failed to send magic link to ${email}:`, error);
+    }
+  }
+}
+
+export const magicLinkService = new MagicLinkService();
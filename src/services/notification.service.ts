@@ -4,6 +4,8 @@ import logger from '../utils/logger';
 import { getRedisClient } from '../config/redis';
 import { sendFCMNotification, sendMulticastFCMNotification } from '../config/firebase';
 import { removeInvalidFCMToken } from './fcmTokenCleanup.service';
+import { notificationDeliveryService } from './notificationDelivery.service';
+import { emailService } from './email.service';
 
 /**
  * Notification type enum
@@ -24,6 +26,8 @@ export interface NotificationData {
 
 /**
  * Create a notification for a user
+ * The in-app record, push and email each follow the user's channel matrix;
+ * pushes are also subject to quiet hours and the daily push limit
  */
 export const createNotification = async (
   userId: string,
@@ -31,7 +35,7 @@ export const createNotification = async (
   sendPush: boolean = true
 ): Promise<void> => {
   try {
-    const user = await User.findById(userId).select('preferences.notifications fcmTokens');
+    const user = await User.findById(userId).select('preferences.notifications fcmTokens timezone');
 
     if (!user || user.deletedAt) {
       logger.warn('User not found for notification:', userId);
@@ -51,25 +55,27 @@ export const createNotification = async (
     }
 
     // Create in-app notification
-    await Notification.create({
-      userId,
-      ...notificationData,
-    });
+    if (notificationDeliveryService.isChannelEnabled(user, notificationData.type, 'inApp')) {
+      await Notification.create({
+        userId,
+        ...notificationData,
+      });
 
-    // Clear unread count cache
-    const cacheKey = `notification:unread:${userId}`;
-    try {
-      const redisClient = getRedisClient();
-      await redisClient.del(cacheKey);
-    } catch (redisError) {
-      logger.warn('Redis delete error:', redisError);
-    }
+      // Clear unread count cache
+      const cacheKey = `notification:unread:${userId}`;
+      try {
+        const redisClient = getRedisClient();
+        await redisClient.del(cacheKey);
+      } catch (redisError) {
+        logger.warn('Redis delete error:', redisError);
+      }
 
-    logger.info('Notification created successfully:', {
-      userId,
-      type: notificationData.type,
-      title: notificationData.title,
-    });
+      logger.info('Notification created successfully:', {
+        userId,
+        type: notificationData.type,
+        title: notificationData.title,
+      });
+    }
 
     // Send push notification if enabled and user has FCM tokens
     if (sendPush && user.fcmTokens && user.fcmTokens.length > 0) {
@@ -78,9 +84,14 @@ export const createNotification = async (
         notificationData.title,
         notificationData.message,
         notificationData.imageUrl,
-        notificationData.data
+        notificationData.data,
+        notificationData.type
       );
     }
+
+    if (notificationDeliveryService.isChannelEnabled(user, notificationData.type, 'email')) {
+      await sendEmailNotification(userId, notificationData.title, notificationData.message);
+    }
   } catch (error) {
     logger.error('Create notification error:', error);
   }
@@ -98,22 +109,26 @@ export const createBulkNotifications = async (
     const users = await User.find({
       _id: { $in: userIds },
       deletedAt: null
-    }).select('_id preferences.notifications fcmTokens');
+    }).select('_id preferences.notifications fcmTokens timezone');
 
-    const filteredUserIds = users
-      .filter(user => {
-        const preferences = user.preferences?.notifications;
-        return checkNotificationPreferences(notificationData.type, preferences);
-      })
-      .map(user => user._id.toString());
+    const recipients = users.filter(user => {
+      const preferences = user.preferences?.notifications;
+      return checkNotificationPreferences(notificationData.type, preferences);
+    });
 
-    if (filteredUserIds.length === 0) {
+    if (recipients.length === 0) {
       logger.info('No users to send notifications to');
       return 0;
     }
 
     // Create in-app notifications
-    const notifications = filteredUserIds.map(userId => ({
+    const inAppUserIds = recipients
+      .filter(user =>
+        notificationDeliveryService.isChannelEnabled(user, notificationData.type, 'inApp')
+      )
+      .map(user => user._id.toString());
+
+    const notifications = inAppUserIds.map(userId => ({
       userId,
       ...notificationData,
     }));
@@ -122,7 +137,7 @@ export const createBulkNotifications = async (
 
     // Clear unread count cache for all users
     const redisClient = getRedisClient();
-    for (const userId of filteredUserIds) {
+    for (const userId of inAppUserIds) {
       const cacheKey = `notification:unread:${userId}`;
       try {
         await redisClient.del(cacheKey);
@@ -138,14 +153,36 @@ export const createBulkNotifications = async (
 
     // Send push notifications if enabled
     if (sendPush) {
-      // Collect all FCM tokens from users
+      // Collect FCM tokens from users whose delivery rules allow a push now
       const allTokens: string[] = [];
-      users.forEach(user => {
-        if (user.fcmTokens && user.fcmTokens.length > 0) {
-          const tokens = user.fcmTokens.map(device => device.token);
-          allTokens.push(...tokens);
+      const pushedUsers: typeof recipients = [];
+      for (const user of recipients) {
+        if (!user.fcmTokens || user.fcmTokens.length === 0) {
+          continue;
         }
-      });
+
+        const decision = await notificationDeliveryService.getPushDecision(
+          user,
+          notificationData.type
+        );
+
+        if (decision.action === 'send') {
+          allTokens.push(...user.fcmTokens.map(device => device.token));
+          pushedUsers.push(user);
+        } else if (decision.action === 'defer') {
+          await notificationDeliveryService.deferPush(
+            {
+              userId: user._id.toString(),
+              type: notificationData.type,
+              title: notificationData.title,
+              message: notificationData.message,
+              imageUrl: notificationData.imageUrl,
+              data: notificationData.data,
+            },
+            decision.sendAt
+          );
+        }
+      }
 
       if (allTokens.length > 0) {
         logger.info(`Sending push notifications to ${allTokens.length} tokens`);
@@ -178,6 +215,21 @@ export const createBulkNotifications = async (
             logger.error(`Error sending push notifications to chunk ${i / chunkSize + 1}:`, error);
           }
         }
+
+        for (const user of pushedUsers) {
+          await notificationDeliveryService.recordPushSent(user);
+        }
+      }
+    }
+
+    // Email copies for users who opted into them
+    for (const user of recipients) {
+      if (notificationDeliveryService.isChannelEnabled(user, notificationData.type, 'email')) {
+        await sendEmailNotification(
+          user._id.toString(),
+          notificationData.title,
+          notificationData.message
+        );
       }
     }
 
@@ -220,22 +272,41 @@ const checkNotificationPreferences = (
 
 /**
  * Send push notification via FCM to all user's devices
+ * Pushes during the user's quiet hours are deferred (reminders are dropped),
+ * and pushes over the daily limit are dropped
  */
 export const sendPushNotification = async (
   userId: string,
   title: string,
   message: string,
   imageUrl?: string,
-  data?: Record<string, unknown>
-): Promise<{ sent: number; failed: number }> => {
+  data?: Record<string, unknown>,
+  type: NotificationType = 'system'
+): Promise<{ sent: number; failed: number; deferred?: boolean; dropped?: boolean }> => {
   try {
-    const user = await User.findById(userId).select('fcmTokens');
+    const user = await User.findById(userId).select('fcmTokens preferences.notifications timezone');
 
     if (!user || user.deletedAt || !user.fcmTokens || user.fcmTokens.length === 0) {
       logger.debug('No FCM tokens found for user:', userId);
       return { sent: 0, failed: 0 };
     }
 
+    const decision = await notificationDeliveryService.getPushDecision(user, type);
+
+    if (decision.action === 'defer') {
+      await notificationDeliveryService.deferPush(
+        { userId, type, title, message, imageUrl, data },
+        decision.sendAt
+      );
+      logger.debug(`Push for user ${userId} deferred until ${decision.sendAt.toISOString()}`);
+      return { sent: 0, failed: 0, deferred: true };
+    }
+
+    if (decision.action === 'drop') {
+      logger.debug(`Push for user ${userId} dropped (${decision.reason})`);
+      return { sent: 0, failed: 0, dropped: true };
+    }
+
     const tokens = user.fcmTokens.map((device) => device.token);
 
     // Convert data to Record<string, string> as required by FCM
@@ -257,6 +328,12 @@ export const sendPushNotification = async (
       fcmData
     );
 
+    if (result.successCount > 0) {
+      await notificationDeliveryService.recordPushSent(user);
+      user.lastNotificationSentAt = new Date();
+      await user.save();
+    }
+
     // If there were failures, attempt to clean up invalid tokens
     if (result.failureCount > 0) {
       logger.warn(`Some FCM tokens failed for user ${userId}. Cleanup may be needed.`);
@@ -276,16 +353,48 @@ export const sendPushNotification = async (
 };
 
 /**
- * Send email notification (placeholder for future implementation)
+ * Send a notification by email
  */
 export const sendEmailNotification = async (
   userId: string,
   subject: string,
   body: string
 ): Promise<void> => {
-  logger.info('Email notification placeholder (not yet implemented):', {
-    userId,
-    subject,
-    body,
-  });
+  try {
+    const user = await User.findById(userId).select('email');
+
+    if (!user || user.deletedAt || !user.email) {
+      return;
+    }
+
+    await emailService.sendNotificationEmail(user.email, subject, body);
+  } catch (error) {
+    logger.error('Send email notification error:', error);
+  }
+};
+
+/**
+ * Send pushes deferred by quiet hours that are now due
+ * Returns the number of pushes sent
+ */
+export const sendDeferredPushes = async (): Promise<number> => {
+  const due = await notificationDeliveryService.takeDuePushes();
+
+  let sent = 0;
+  for (const push of due) {
+    // Delivery rules are checked again, so the daily limit still applies
+    const result = await sendPushNotification(
+      push.userId,
+      push.title,
+      push.message,
+      push.imageUrl,
+      push.data,
+      push.type
+    );
+    if (result.sent > 0) {
+      sent++;
+    }
+  }
+
+  return sent;
 };
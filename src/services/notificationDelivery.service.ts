@@ -0,0 +1,190 @@
+import { getRedisClient } from '../config/redis';
+import { IUser, INotificationChannels, IQuietHours, NotificationTypeKey } from '../models/User.model';
+import { getLocalDateKey, getZonedParts, resolveTimezone } from '../utils/timezone';
+import logger from '../utils/logger';
+
+/**
+ * What to do with a push that is about to be sent
+ */
+export type PushDecision =
+  | { action: 'send' }
+  | { action: 'defer'; sendAt: Date }
+  | { action: 'drop'; reason: 'channel_disabled' | 'quiet_hours' | 'daily_limit' };
+
+/**
+ * A push held back by quiet hours, sent by the deferred push job
+ */
+export interface DeferredPush {
+  userId: string;
+  type: NotificationTypeKey;
+  title: string;
+  message: string;
+  imageUrl?: string;
+  data?: Record<string, unknown>;
+}
+
+type DeliveryUser = Pick<IUser, 'preferences' | 'timezone'> & { _id: unknown };
+
+class NotificationDeliveryService {
+  private readonly DEFERRED_KEY = 'notification:deferred-push';
+  private readonly COUNT_PREFIX = 'notification:push-count:';
+
+  /**
+   * Daily push limit for users who haven't set one
+   */
+  readonly DEFAULT_DAILY_PUSH_LIMIT = 10;
+
+  /**
+   * Whether a notification type may use a channel
+   * Types without a matrix row use the defaults (push and in-app on, email off)
+   */
+  isChannelEnabled(
+    user: DeliveryUser,
+    type: NotificationTypeKey,
+    channel: keyof INotificationChannels
+  ): boolean {
+    const channels = user.preferences?.notifications?.channels?.[type];
+    if (!channels || channels[channel] === undefined) {
+      return channel !== 'email';
+    }
+    return channels[channel];
+  }
+
+  /**
+   * When the user's quiet hours end, or null if they are not in quiet hours now
+   */
+  getQuietHoursEnd(quietHours: IQuietHours | undefined, timezone: string, now: Date): Date | null {
+    if (!quietHours?.enabled || quietHours.start === quietHours.end) {
+      return null;
+    }
+
+    const toMinutes = (time: string): number => {
+      const [hours, minutes] = time.split(':').map(Number);
+      return hours * 60 + minutes;
+    };
+
+    const { hour, minute } = getZonedParts(now, timezone);
+    const current = hour * 60 + minute;
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+
+    // Quiet hours may wrap past midnight (e.g. 22:00 - 07:00)
+    const inQuietHours =
+      start < end ? current >= start && current < end : current >= start || current < end;
+    if (!inQuietHours) {
+      return null;
+    }
+
+    const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+    const sendAt = new Date(now.getTime() + minutesLeft * 60 * 1000);
+    sendAt.setSeconds(0, 0);
+    return sendAt;
+  }
+
+  /**
+   * Apply the user's channel matrix, quiet hours and daily limit to a push
+   * Reminders are dropped during quiet hours (they are stale by morning), other
+   * types are deferred. System alerts don't count towards the daily limit.
+   */
+  async getPushDecision(
+    user: DeliveryUser,
+    type: NotificationTypeKey,
+    now: Date = new Date()
+  ): Promise<PushDecision> {
+    if (!this.isChannelEnabled(user, type, 'push')) {
+      return { action: 'drop', reason: 'channel_disabled' };
+    }
+
+    const preferences = user.preferences?.notifications;
+    const timezone = resolveTimezone(user.timezone);
+
+    const quietHoursEnd = this.getQuietHoursEnd(preferences?.quietHours, timezone, now);
+    if (quietHoursEnd) {
+      return type === 'reminder'
+        ? { action: 'drop', reason: 'quiet_hours' }
+        : { action: 'defer', sendAt: quietHoursEnd };
+    }
+
+    if (type !== 'system') {
+      const limit = preferences?.dailyPushLimit ?? this.DEFAULT_DAILY_PUSH_LIMIT;
+      const sentToday = await this.getPushCount(String(user._id), timezone, now);
+      if (sentToday >= limit) {
+        return { action: 'drop', reason: 'daily_limit' };
+      }
+    }
+
+    return { action: 'send' };
+  }
+
+  private getCountKey(userId: string, timezone: string, now: Date): string {
+    return `${this.COUNT_PREFIX}${userId}:${getLocalDateKey(now, timezone)}`;
+  }
+
+  /**
+   * Pushes sent to the user so far on their local day
+   */
+  async getPushCount(userId: string, timezone: string, now: Date = new Date()): Promise<number> {
+    try {
+      const count = await getRedisClient().get(this.getCountKey(userId, timezone, now));
+      return count ? parseInt(String(count), 10) : 0;
+    } catch (error) {
+      logger.warn('Failed to read push count:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Count a sent push towards the user's daily limit
+   */
+  async recordPushSent(user: DeliveryUser, now: Date = new Date()): Promise<void> {
+    const key = this.getCountKey(String(user._id), resolveTimezone(user.timezone), now);
+    try {
+      const redisClient = getRedisClient();
+      await redisClient.incr(key);
+      // Long enough to outlive the local day in any timezone
+      await redisClient.expire(key, 2 * 24 * 60 * 60);
+    } catch (error) {
+      logger.warn('Failed to record push count:', error);
+    }
+  }
+
+  /**
+   * Hold a push until the given time
+   */
+  async deferPush(push: DeferredPush, sendAt: Date): Promise<void> {
+    try {
+      await getRedisClient().zAdd(this.DEFERRED_KEY, {
+        score: sendAt.getTime(),
+        value: JSON.stringify({ ...push, deferredAt: Date.now() }),
+      });
+    } catch (error) {
+      logger.error(`Failed to defer push for user ${push.userId}:`, error);
+    }
+  }
+
+  /**
+   * Take every deferred push that is due
+   */
+  async takeDuePushes(now: Date = new Date()): Promise<DeferredPush[]> {
+    try {
+      const redisClient = getRedisClient();
+      const entries = await redisClient.zRangeByScore(this.DEFERRED_KEY, 0, now.getTime());
+
+      const due: DeferredPush[] = [];
+      for (const entry of entries) {
+        // Removing claims the entry, so concurrent workers don't send it twice
+        const removed = await redisClient.zRem(this.DEFERRED_KEY, entry);
+        if (removed === 1) {
+          due.push(JSON.parse(String(entry)) as DeferredPush);
+        }
+      }
+
+      return due;
+    } catch (error) {
+      logger.error('Failed to read deferred pushes:', error);
+      return [];
+    }
+  }
+}
+
+export const notificationDeliveryService = new NotificationDeliveryService();
@@ -0,0 +1,174 @@
+import { Category } from '../models/Category.model';
+import { Program, IProgram } from '../models/Program.model';
+import { IUser, IOnboardingAnswer } from '../models/User.model';
+import {
+  OnboardingQuestion,
+  IOnboardingQuestion,
+  ProgramLevel,
+} from '../models/OnboardingQuestion.model';
+import logger from '../utils/logger';
+
+export type OnboardingSubmission =
+  | { status: 'invalid'; message: string }
+  | {
+      status: 'completed';
+      categories: string[];
+      reminderTime: number;
+      level: ProgramLevel;
+      recommendedProgram: IProgram | null;
+    };
+
+class OnboardingService {
+  /**
+   * Level recommended when no answer sets one
+   */
+  readonly DEFAULT_LEVEL: ProgramLevel = 'مبتدأ';
+
+  /**
+   * Active questions in display order
+   */
+  async getQuestions(): Promise<IOnboardingQuestion[]> {
+    return OnboardingQuestion.find({ isActive: true, deletedAt: null })
+      .sort({ displayOrder: 1, createdAt: 1 })
+      .populate('options.categories', 'name nameEn icon color');
+  }
+
+  /**
+   * Check the answers against the questionnaire, then seed the user's
+   * preferred categories, reminder time and recommended starting program.
+   * Options are applied in question order, so the first question that sets
+   * a reminder time or level wins.
+   */
+  async submitAnswers(user: IUser, answers: unknown): Promise<OnboardingSubmission> {
+    if (!Array.isArray(answers)) {
+      return { status: 'invalid', message: 'answers must be an array' };
+    }
+
+    const questions = await OnboardingQuestion.find({ isActive: true, deletedAt: null }).sort({
+      displayOrder: 1,
+      createdAt: 1,
+    });
+
+    const answered = new Map<string, string[]>();
+    for (const answer of answers) {
+      const questionKey = answer?.questionKey;
+      const values = answer?.values;
+      const question = questions.find((q) => q.key === questionKey);
+
+      if (!question) {
+        return { status: 'invalid', message: `Unknown question: ${questionKey}` };
+      }
+      if (answered.has(question.key)) {
+        return { status: 'invalid', message: `Question answered twice: ${question.key}` };
+      }
+      if (!Array.isArray(values) || values.some((value) => typeof value !== 'string')) {
+        return {
+          status: 'invalid',
+          message: `values for ${question.key} must be an array of strings`,
+        };
+      }
+      if (!question.multiple && values.length > 1) {
+        return {
+          status: 'invalid',
+          message: `Only one option can be chosen for ${question.key}`,
+        };
+      }
+
+      const unknownValue = values.find((value) => !question.options.some((o) => o.value === value));
+      if (unknownValue !== undefined) {
+        return {
+          status: 'invalid',
+          message: `Invalid option for ${question.key}: ${unknownValue}`,
+        };
+      }
+
+      answered.set(question.key, [...new Set(values as string[])]);
+    }
+
+    const missing = questions.find((q) => q.required && !answered.get(q.key)?.length);
+    if (missing) {
+      return { status: 'invalid', message: `Please answer: ${missing.title}` };
+    }
+
+    // Map the chosen options to preferences
+    const categoryIds = new Set<string>();
+    let reminderTime: number | undefined;
+    let level: ProgramLevel | undefined;
+
+    for (const question of questions) {
+      const values = answered.get(question.key) || [];
+      for (const option of question.options.filter((o) => values.includes(o.value))) {
+        option.categories.forEach((categoryId) => categoryIds.add(String(categoryId)));
+        if (reminderTime === undefined && option.reminderTime !== undefined) {
+          reminderTime = option.reminderTime;
+        }
+        if (level === undefined && option.level) {
+          level = option.level;
+        }
+      }
+    }
+
+    // Options may still point at categories that were disabled since
+    const categories = categoryIds.size
+      ? await Category.find({
+          _id: { $in: [...categoryIds] },
+          isActive: true,
+          deletedAt: null,
+        }).distinct('_id')
+      : [];
+
+    const resolvedLevel = level || this.DEFAULT_LEVEL;
+    const recommendedProgram = await this.findRecommendedProgram(
+      resolvedLevel,
+      categories.map(String)
+    );
+
+    const onboardingAnswers: IOnboardingAnswer[] = [...answered].map(([questionKey, values]) => ({
+      questionKey,
+      values,
+    }));
+
+    if (categories.length) {
+      user.set('preferences.categories', categories);
+    }
+    if (reminderTime !== undefined) {
+      user.set('preferences.reminderTime', reminderTime);
+    }
+    user.set('onboarding', {
+      completedAt: new Date(),
+      answers: onboardingAnswers,
+      recommendedProgram: recommendedProgram?._id,
+    });
+    await user.save();
+
+    logger.info(`User ${user._id} completed onboarding (level ${resolvedLevel})`);
+
+    return {
+      status: 'completed',
+      categories: categories.map(String),
+      reminderTime: user.preferences.reminderTime,
+      level: resolvedLevel,
+      recommendedProgram,
+    };
+  }
+
+  /**
+   * Most relevant active program for a level, preferring the chosen
+   * categories, then featured and popular programs
+   */
+  async findRecommendedProgram(level: ProgramLevel, categories: string[]): Promise<IProgram | null> {
+    const baseQuery = { level, isActive: true, deletedAt: null };
+    const sort = { isFeatured: -1 as const, playCount: -1 as const };
+
+    if (categories.length) {
+      const program = await Program.findOne({ ...baseQuery, category: { $in: categories } }).sort(sort);
+      if (program) {
+        return program;
+      }
+    }
+
+    return Program.findOne(baseQuery).sort(sort);
+  }
+}
+
+export const onboardingService = new OnboardingService();
@@ -1,12 +1,31 @@
+import { createHmac, randomInt, timingSafeEqual } from 'crypto';
 import { emailService } from './email.service';
+import { env } from '../config/env';
 import logger from '../utils/logger';
 
 class OTPService {
   /**
-   * Generate a 6-digit OTP code
+   * Wrong codes allowed before verification is locked
+   */
+  readonly MAX_ATTEMPTS = 5;
+
+  /**
+   * Lockout duration after too many wrong codes (15 minutes in ms)
+   */
+  readonly LOCKOUT_DURATION = 15 * 60 * 1000;
+
+  /**
+   * Generate a 6-digit OTP code with a CSPRNG
    */
   generateOTP(): string {
-    return Math.floor(100000 + Math.random() * 900000).toString();
+    return randomInt(100000, 1000000).toString();
+  }
+
+  /**
+   * Hash an OTP for storage (keyed so a leaked hash can't be brute-forced offline)
+   */
+  hashOTP(otp: string): string {
+    return createHmac('sha256', env.JWT_SECRET).update(otp).digest('hex');
   }
 
   /**
@@ -59,14 +78,34 @@ class OTPService {
   /**
    * Verify if OTP is valid and not expired
    */
-  verifyOTP(storedOTP: string, inputOTP: string, expiresAt: Date): boolean {
+  verifyOTP(storedHash: string, inputOTP: string, expiresAt: Date): boolean {
     // Check if OTP has expired
     if (new Date() > expiresAt) {
       return false;
     }
 
-    // Check if OTP matches
-    return storedOTP === inputOTP;
+    // Compare hashes in constant time
+    const inputHash = Buffer.from(this.hashOTP(String(inputOTP)));
+    const expectedHash = Buffer.from(storedHash);
+    return inputHash.length === expectedHash.length && timingSafeEqual(inputHash, expectedHash);
+  }
+
+  /**
+   * Get lockout expiration time after too many wrong codes
+   */
+  getLockoutExpiration(): Date {
+    return new Date(Date.now() + this.LOCKOUT_DURATION);
+  }
+
+  /**
+   * Seconds left on an OTP lockout (0 when not locked)
+   */
+  getRetryAfterSeconds(lockedUntil: Date | undefined): number {
+    if (!lockedUntil) {
+      return 0;
+    }
+
+    return Math.max(0, Math.ceil((new Date(lockedUntil).getTime() - Date.now()) / 1000));
   }
 
   /**
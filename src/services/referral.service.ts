@@ -0,0 +1,250 @@
+import { randomInt } from 'crypto';
+import { env } from '../config/env';
+import stripe from '../config/stripe';
+import { Referral, IReferral } from '../models/Referral.model';
+import { Subscription } from '../models/Subscription.model';
+import { IPayment } from '../models/Payment.model';
+import { IUser, User } from '../models/User.model';
+import { createNotification } from './notification.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+/**
+ * Referral counts for one referrer
+ */
+export interface ReferralSummary {
+  code: string;
+  link: string;
+  rewardDays: number;
+  invited: number;
+  converted: number;
+  rewarded: number;
+  pendingRewardDays: number;
+  earnedDays: number;
+}
+
+class ReferralService {
+  // No 0/O or 1/I so codes can be read out and typed without mistakes
+  private readonly CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  private readonly CODE_LENGTH = 8;
+
+  /**
+   * Days added to the referrer's subscription per converted referral
+   */
+  readonly REWARD_DAYS = env.REFERRAL_REWARD_DAYS;
+
+  private generateCode(): string {
+    let code = '';
+    for (let i = 0; i < this.CODE_LENGTH; i++) {
+      code += this.CODE_ALPHABET[randomInt(this.CODE_ALPHABET.length)];
+    }
+    return code;
+  }
+
+  /**
+   * The user's referral code, created on first use
+   */
+  async getOrCreateCode(user: IUser): Promise<string> {
+    if (user.referralCode) {
+      return user.referralCode;
+    }
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const code = this.generateCode();
+      try {
+        // Only set it if another request hasn't already assigned one
+        const updated = await User.findOneAndUpdate(
+          { _id: user._id, referralCode: null },
+          { referralCode: code },
+          { new: true }
+        );
+        const referralCode =
+          updated?.referralCode || (await User.findById(user._id).select('referralCode'))?.referralCode;
+        if (referralCode) {
+          user.referralCode = referralCode;
+          return referralCode;
+        }
+      } catch (error) {
+        // Duplicate key: the code is taken, try another
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+      }
+    }
+
+    throw new Error('Failed to generate a unique referral code');
+  }
+
+  /**
+   * Share link that pre-fills the code on the signup screen
+   */
+  buildReferralLink(code: string): string {
+    return `${env.FRONTEND_URL || 'http://localhost:3000'}/register?ref=${code}`;
+  }
+
+  /**
+   * Find the active user who owns a referral code
+   */
+  async findReferrer(code: string): Promise<IUser | null> {
+    return User.findOne({
+      referralCode: code.trim().toUpperCase(),
+      deletedAt: null,
+      isBanned: { $ne: true },
+    });
+  }
+
+  /**
+   * Record that a newly registered user signed up with the referrer's code
+   */
+  async recordReferral(referrer: IUser, referredUserId: string): Promise<IReferral | null> {
+    if (String(referrer._id) === referredUserId || !referrer.referralCode) {
+      return null;
+    }
+
+    const referral = await Referral.create({
+      referrerId: referrer._id,
+      referredUserId,
+      code: referrer.referralCode,
+    });
+
+    logger.info(`User ${referredUserId} registered with referral code of user ${referrer._id}`);
+    return referral;
+  }
+
+  /**
+   * Called when a payment completes. The payer's first payment converts their
+   * referral and rewards the referrer; the payer's own rewards that were waiting
+   * for an active subscription are applied too. Never throws, so a referral
+   * problem can't fail a payment.
+   */
+  async handleCompletedPayment(payment: IPayment): Promise<void> {
+    try {
+      // Only one payment can flip the referral from pending
+      const referral = await Referral.findOneAndUpdate(
+        { referredUserId: payment.userId, status: 'pending' },
+        {
+          status: 'converted',
+          rewardDays: this.REWARD_DAYS,
+          paymentId: payment._id,
+          convertedAt: new Date(),
+        },
+        { new: true }
+      );
+
+      if (referral) {
+        logger.info(`Referral ${referral._id} converted by payment ${payment._id}`);
+        await this.applyPendingRewards(String(referral.referrerId));
+      }
+
+      await this.applyPendingRewards(String(payment.userId));
+    } catch (error) {
+      logger.error(`Failed to process referral for payment ${payment._id}:`, error);
+    }
+  }
+
+  /**
+   * Extend the referrer's active subscription by every converted, unrewarded
+   * referral. Referrers without an active subscription keep the reward until
+   * their next completed payment.
+   * A Stripe-billed subscription gets the days as free time before its next
+   * charge, so the renewal date moves in Stripe as well.
+   */
+  async applyPendingRewards(referrerId: string): Promise<number> {
+    const subscription = await Subscription.findOne({
+      userId: referrerId,
+      status: 'active',
+      endDate: { $gt: new Date() },
+    });
+    if (!subscription) {
+      return 0;
+    }
+
+    const referrals = await Referral.find({ referrerId, status: 'converted' });
+    const claimedIds: IReferral['_id'][] = [];
+    let totalDays = 0;
+
+    for (const referral of referrals) {
+      // Claim the reward before extending, so it is never granted twice
+      const claimed = await Referral.findOneAndUpdate(
+        { _id: referral._id, status: 'converted' },
+        { status: 'rewarded', rewardedAt: new Date() }
+      );
+      if (claimed) {
+        claimedIds.push(referral._id);
+        totalDays += referral.rewardDays;
+      }
+    }
+
+    if (totalDays === 0) {
+      return 0;
+    }
+
+    const endDate = new Date(subscription.endDate);
+    endDate.setDate(endDate.getDate() + totalDays);
+
+    if (subscription.stripeSubscriptionId) {
+      const rewardEnd = Math.floor(endDate.getTime() / 1000);
+      try {
+        // Marked so the free period isn't mistaken for a package trial when synced
+        await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+          trial_end: rewardEnd,
+          proration_behavior: 'none',
+          metadata: { referralExtensionUntil: String(rewardEnd) },
+        });
+      } catch (error) {
+        // Hand the rewards back so the next payment tries again
+        await Referral.updateMany(
+          { _id: { $in: claimedIds } },
+          { status: 'converted', $unset: { rewardedAt: 1 } }
+        );
+        throw error;
+      }
+    }
+
+    subscription.endDate = endDate;
+    await subscription.save();
+
+    await User.findByIdAndUpdate(referrerId, { 'subscription.endDate': endDate });
+
+    const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.REFERRAL_REWARD, {
+      days: totalDays,
+    });
+    if (notificationData) {
+      notificationData.data = {
+        subscriptionId: String(subscription._id),
+        rewardDays: totalDays,
+        endDate: endDate.toISOString(),
+      };
+      await createNotification(referrerId, notificationData);
+    }
+
+    logger.info(`Extended subscription of user ${referrerId} by ${totalDays} referral days`);
+    return totalDays;
+  }
+
+  /**
+   * Referral code, share link and counts for the user's referral screen
+   */
+  async getSummary(user: IUser): Promise<ReferralSummary> {
+    const code = await this.getOrCreateCode(user);
+
+    const counts = await Referral.aggregate<{ _id: string; count: number; days: number }>([
+      { $match: { referrerId: user._id } },
+      { $group: { _id: '$status', count: { $sum: 1 }, days: { $sum: '$rewardDays' } } },
+    ]);
+    const byStatus = (status: string) => counts.find((c) => c._id === status);
+
+    return {
+      code,
+      link: this.buildReferralLink(code),
+      rewardDays: this.REWARD_DAYS,
+      invited: counts.reduce((sum, c) => sum + c.count, 0),
+      converted: (byStatus('converted')?.count || 0) + (byStatus('rewarded')?.count || 0),
+      rewarded: byStatus('rewarded')?.count || 0,
+      pendingRewardDays: byStatus('converted')?.days || 0,
+      earnedDays: byStatus('rewarded')?.days || 0,
+    };
+  }
+}
+
+export const referralService = new ReferralService();
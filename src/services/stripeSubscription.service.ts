@@ -0,0 +1,884 @@
+import Stripe from 'stripe';
+import stripe from '../config/stripe';
+import { Package, IPackage } from '../models/Package.model';
+import { Subscription, ISubscription } from '../models/Subscription.model';
+import { Payment, IPayment } from '../models/Payment.model';
+import { Coupon } from '../models/Coupon.model';
+import { IUser, User } from '../models/User.model';
+import { AppError } from '../middlewares/errorHandler';
+import { createNotification } from './notification.service';
+import { referralService } from './referral.service';
+import { dunningService } from './dunning.service';
+import { trialService } from './trial.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+/**
+ * What the client needs to confirm a new Stripe subscription
+ * intentType is 'setup' when billing starts later (only a card is collected now)
+ */
+export interface StripeSubscriptionCheckout {
+  stripeSubscriptionId: string;
+  status: Stripe.Subscription.Status;
+  clientSecret: string | null;
+  intentType: 'payment' | 'setup';
+  amountDue: number;
+  currency: string;
+  trialEndsAt: Date | null; // Set when the subscription starts with a free trial
+}
+
+/**
+ * Outcome of moving a Stripe subscription to another package
+ * Amounts are in the package currency; unusedCredit is the value of the rest of
+ * the current period, newCharge what the new package costs for it.
+ */
+export interface PlanChangeResult {
+  effective: 'now' | 'period_end';
+  effectiveAt: Date;
+  unusedCredit: number;
+  newCharge: number;
+  amountDue: number; // Charged now
+  creditedAmount: number; // Added to the customer's Stripe balance for future invoices
+  clientSecret: string | null; // Set when the charge needs the customer to confirm (e.g. 3DS)
+  payment?: IPayment;
+}
+
+class StripeSubscriptionService {
+  private toCents(amount: number): number {
+    return Math.round(amount * 100);
+  }
+
+  /**
+   * Local subscription status for a Stripe status
+   * null for incomplete subscriptions, which don't grant access until the
+   * first invoice is paid
+   */
+  private mapStatus(status: Stripe.Subscription.Status): ISubscription['status'] | null {
+    switch (status) {
+      case 'active':
+      case 'trialing':
+        return 'active';
+      case 'past_due':
+        return 'past_due';
+      case 'canceled':
+        return 'cancelled';
+      case 'incomplete':
+        return null;
+      default:
+        return 'expired';
+    }
+  }
+
+  /**
+   * Stripe subscription an invoice belongs to, if any
+   */
+  getInvoiceSubscriptionId(invoice: Stripe.Invoice): string | null {
+    const subscription = invoice.parent?.subscription_details?.subscription;
+    if (!subscription) {
+      return null;
+    }
+    return typeof subscription === 'string' ? subscription : subscription.id;
+  }
+
+  /**
+   * PaymentIntent that paid an invoice (used for refunds)
+   */
+  private async getInvoicePaymentIntentId(invoiceId: string): Promise<string | undefined> {
+    const payments = await stripe.invoicePayments.list({ invoice: invoiceId, limit: 1 });
+    const intent = payments.data[0]?.payment.payment_intent;
+    return typeof intent === 'string' ? intent : intent?.id;
+  }
+
+  /**
+   * Make sure the package has a Stripe Product and a recurring Price matching
+   * its current price and period. A changed package gets a new Price and the old
+   * one is archived; existing subscribers keep their price until they change plan.
+   */
+  async syncPackagePrice(pkg: IPackage): Promise<string> {
+    const unitAmount = this.toCents(pkg.price);
+    const currency = pkg.currency.toLowerCase();
+
+    if (!pkg.stripeProductId) {
+      const product = await stripe.products.create({
+        name: pkg.nameEn || pkg.name,
+        metadata: { packageId: String(pkg._id) },
+      });
+      pkg.stripeProductId = product.id;
+    }
+
+    const previousPriceId = pkg.stripePriceId;
+    if (previousPriceId) {
+      const current = await stripe.prices.retrieve(previousPriceId);
+      if (
+        current.active &&
+        current.unit_amount === unitAmount &&
+        current.currency === currency &&
+        current.recurring?.interval === pkg.periodType &&
+        current.recurring?.interval_count === pkg.periodCount
+      ) {
+        return previousPriceId;
+      }
+    }
+
+    const price = await stripe.prices.create({
+      product: pkg.stripeProductId,
+      unit_amount: unitAmount,
+      currency,
+      recurring: {
+        interval: pkg.periodType,
+        interval_count: pkg.periodCount,
+      },
+      metadata: { packageId: String(pkg._id) },
+    });
+
+    if (previousPriceId) {
+      await stripe.prices.update(previousPriceId, { active: false });
+    }
+
+    pkg.stripePriceId = price.id;
+    await pkg.save();
+
+    logger.info(`Synced Stripe price ${price.id} for package ${pkg._id}`);
+    return price.id;
+  }
+
+  /**
+   * The user's Stripe Customer, created on first use
+   */
+  async getOrCreateCustomer(user: IUser): Promise<string> {
+    if (user.stripeCustomerId) {
+      return user.stripeCustomerId;
+    }
+
+    const customer = await stripe.customers.create({
+      email: user.email,
+      name: user.name,
+      metadata: { userId: String(user._id) },
+    });
+
+    await User.updateOne({ _id: user._id }, { stripeCustomerId: customer.id });
+    user.stripeCustomerId = customer.id;
+
+    return customer.id;
+  }
+
+  /**
+   * One-off Stripe coupon carrying our coupon's discount on the first invoice
+   */
+  private async createFirstInvoiceDiscount(
+    couponCode: string,
+    pkg: IPackage
+  ): Promise<{ code: string; stripeCouponId: string } | null> {
+    const validation = await Coupon.validateCoupon(couponCode, String(pkg._id));
+    if (!validation.valid || !validation.coupon) {
+      return null;
+    }
+
+    const discount = validation.coupon.calculateDiscount(pkg.price);
+    if (discount <= 0) {
+      return null;
+    }
+
+    const stripeCoupon = await stripe.coupons.create({
+      amount_off: this.toCents(discount),
+      currency: pkg.currency.toLowerCase(),
+      duration: 'once',
+      max_redemptions: 1,
+      name: validation.coupon.code,
+      metadata: { couponCode: validation.coupon.code },
+    });
+
+    return { code: validation.coupon.code, stripeCouponId: stripeCoupon.id };
+  }
+
+  /**
+   * Cancel checkouts the user started but never completed
+   * Covers subscriptions still waiting for their first payment and trials still
+   * waiting for a card, so retrying a checkout never leaves two of them payable.
+   * The user's trial is given back when its pending trial is cancelled.
+   */
+  async cancelPendingCheckouts(user: IUser): Promise<void> {
+    if (!user.stripeCustomerId) {
+      return;
+    }
+
+    const [incomplete, trialing] = await Promise.all([
+      stripe.subscriptions.list({ customer: user.stripeCustomerId, status: 'incomplete', limit: 100 }),
+      stripe.subscriptions.list({ customer: user.stripeCustomerId, status: 'trialing', limit: 100 }),
+    ]);
+
+    let releaseTrial = false;
+    for (const subscription of [...incomplete.data, ...trialing.data]) {
+      if (subscription.status === 'trialing' && !(await trialService.isAwaitingCard(subscription))) {
+        continue;
+      }
+
+      await this.cancelImmediately(subscription.id);
+      releaseTrial ||= subscription.metadata.trial === 'true';
+      logger.info(`Cancelled pending Stripe subscription ${subscription.id} for user ${user._id}`);
+    }
+
+    if (releaseTrial) {
+      await trialService.releaseTrial(user);
+    }
+  }
+
+  /**
+   * Start a Stripe subscription for a package. It stays incomplete until the
+   * client confirms the returned secret; our Subscription is created when the
+   * first invoice is paid (invoice.paid webhook).
+   * billingStartsAt defers the first charge (e.g. until a current period ends).
+   * trialDays starts a free trial. Access starts once the returned SetupIntent has
+   * saved an accepted card; without one by the trial's end it is cancelled.
+   */
+  async createSubscription(
+    user: IUser,
+    pkg: IPackage,
+    options: { couponCode?: string; billingStartsAt?: Date; trialDays?: number } = {}
+  ): Promise<StripeSubscriptionCheckout> {
+    const priceId = await this.syncPackagePrice(pkg);
+    const customerId = await this.getOrCreateCustomer(user);
+
+    // A deferred start or a trial has no first charge to discount
+    const discount =
+      options.couponCode && !options.billingStartsAt && !options.trialDays
+        ? await this.createFirstInvoiceDiscount(options.couponCode, pkg)
+        : null;
+
+    const subscription = await stripe.subscriptions.create({
+      customer: customerId,
+      items: [{ price: priceId }],
+      payment_behavior: 'default_incomplete',
+      payment_settings: { save_default_payment_method: 'on_subscription' },
+      expand: ['latest_invoice.confirmation_secret', 'pending_setup_intent'],
+      metadata: {
+        userId: String(user._id),
+        packageId: String(pkg._id),
+        ...(discount && { couponCode: discount.code }),
+        ...(options.trialDays && { trial: 'true' }),
+      },
+      ...(discount && { discounts: [{ coupon: discount.stripeCouponId }] }),
+      ...(options.billingStartsAt && {
+        trial_end: Math.floor(options.billingStartsAt.getTime() / 1000),
+      }),
+      ...(options.trialDays && {
+        trial_period_days: options.trialDays,
+        trial_settings: { end_behavior: { missing_payment_method: 'cancel' } },
+      }),
+    });
+
+    const invoice = subscription.latest_invoice as Stripe.Invoice | null;
+    const setupIntent = subscription.pending_setup_intent as Stripe.SetupIntent | null;
+
+    logger.info(`Created Stripe subscription ${subscription.id} for user ${user._id}`);
+
+    return {
+      stripeSubscriptionId: subscription.id,
+      status: subscription.status,
+      clientSecret: setupIntent?.client_secret || invoice?.confirmation_secret?.client_secret || null,
+      intentType: setupIntent ? 'setup' : 'payment',
+      amountDue: (invoice?.amount_due || 0) / 100,
+      currency: pkg.currency,
+      trialEndsAt:
+        options.trialDays && subscription.trial_end ? new Date(subscription.trial_end * 1000) : null,
+    };
+  }
+
+  /**
+   * Turn renewal on or off at the end of the current period
+   */
+  async setAutoRenew(subscription: ISubscription, autoRenew: boolean): Promise<void> {
+    if (!subscription.stripeSubscriptionId) {
+      throw new AppError('Subscription is not billed through Stripe', 400);
+    }
+
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, {
+      cancel_at_period_end: !autoRenew,
+    });
+  }
+
+  /**
+   * End a Stripe subscription immediately (e.g. after a refund)
+   * A subscription that has already ended is left as it is.
+   */
+  async cancelImmediately(stripeSubscriptionId: string): Promise<void> {
+    try {
+      await stripe.subscriptions.cancel(stripeSubscriptionId);
+    } catch (error) {
+      if ((error as Stripe.errors.StripeError).type !== 'StripeInvalidRequestError') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Split a proration invoice into the credit for unused time and the new charge (in cents)
+   */
+  private summarizeProration(invoice: Stripe.Invoice): { unusedCredit: number; newCharge: number } {
+    let unusedCredit = 0;
+    let newCharge = 0;
+    for (const line of invoice.lines.data) {
+      if (line.amount < 0) {
+        unusedCredit -= line.amount;
+      } else {
+        newCharge += line.amount;
+      }
+    }
+    return { unusedCredit, newCharge };
+  }
+
+  /**
+   * Whether moving between packages is an upgrade, by price per day
+   */
+  getChangeDirection(fromPkg: IPackage, toPkg: IPackage): 'upgrade' | 'downgrade' {
+    return toPkg.price / toPkg.durationInDays >= fromPkg.price / fromPkg.durationInDays
+      ? 'upgrade'
+      : 'downgrade';
+  }
+
+  private async releaseSchedule(scheduleId: string): Promise<void> {
+    try {
+      await stripe.subscriptionSchedules.release(scheduleId);
+    } catch (error) {
+      // Already released or completed
+      if ((error as Stripe.errors.StripeError).type !== 'StripeInvalidRequestError') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Move a subscription to another package right away
+   * Stripe prorates the current period and invoices the difference immediately;
+   * a net credit goes to the customer's balance. The change only applies once the
+   * charge succeeds. The adjustment is recorded as a Payment.
+   */
+  async changePackageNow(
+    subscription: ISubscription,
+    fromPkg: IPackage,
+    toPkg: IPackage
+  ): Promise<PlanChangeResult> {
+    if (!subscription.stripeSubscriptionId) {
+      throw new AppError('Subscription is not billed through Stripe', 400);
+    }
+
+    const priceId = await this.syncPackagePrice(toPkg);
+    const current = await stripe.subscriptions.retrieve(subscription.stripeSubscriptionId);
+
+    // An immediate change replaces any scheduled one
+    if (current.schedule) {
+      await this.releaseSchedule(
+        typeof current.schedule === 'string' ? current.schedule : current.schedule.id
+      );
+      subscription.scheduledChange = undefined;
+      await subscription.save();
+    }
+
+    const updated = await stripe.subscriptions.update(current.id, {
+      items: [{ id: current.items.data[0].id, price: priceId }],
+      proration_behavior: 'always_invoice',
+      payment_behavior: 'pending_if_incomplete',
+      expand: ['latest_invoice.confirmation_secret'],
+    });
+
+    const invoice = updated.latest_invoice as Stripe.Invoice;
+    const { unusedCredit, newCharge } = this.summarizeProration(invoice);
+    const direction = this.getChangeDirection(fromPkg, toPkg);
+    const isPaid = invoice.status === 'paid';
+
+    const payment = await Payment.create({
+      userId: subscription.userId,
+      subscriptionId: subscription._id,
+      amount: Math.max(0, invoice.total) / 100,
+      currency: invoice.currency.toUpperCase(),
+      status: isPaid ? 'completed' : 'pending',
+      paymentMethod: 'visa',
+      transactionId: isPaid ? invoice.id : undefined,
+      stripeInvoiceId: invoice.id,
+      discountAmount: 0,
+      finalAmount: Math.max(0, invoice.total) / 100,
+      metadata: {
+        type: 'plan_change',
+        direction,
+        effective: 'now',
+        fromPackageId: String(fromPkg._id),
+        toPackageId: String(toPkg._id),
+        packageId: String(toPkg._id),
+        unusedCredit: unusedCredit / 100,
+        newCharge: newCharge / 100,
+        netAmount: invoice.total / 100,
+        creditedAmount: Math.max(0, -invoice.total) / 100,
+        stripeSubscriptionId: current.id,
+      },
+    });
+
+    if (!updated.pending_update) {
+      // Keep the fallback package lookup in step with the new price
+      await stripe.subscriptions.update(current.id, {
+        metadata: { ...current.metadata, packageId: String(toPkg._id) },
+      });
+      await this.syncFromStripe(updated);
+    }
+
+    logger.info(
+      `Subscription ${subscription._id} ${direction} ${fromPkg._id} -> ${toPkg._id}: net ${invoice.total / 100} ${invoice.currency}`
+    );
+
+    return {
+      effective: 'now',
+      effectiveAt: new Date(),
+      unusedCredit: unusedCredit / 100,
+      newCharge: newCharge / 100,
+      amountDue: Math.max(0, invoice.total) / 100,
+      creditedAmount: Math.max(0, -invoice.total) / 100,
+      clientSecret: isPaid ? null : invoice.confirmation_secret?.client_secret || null,
+      payment,
+    };
+  }
+
+  /**
+   * Switch to another package when the current period ends
+   * Uses a Stripe subscription schedule: the current price runs to the period
+   * end, then the new price takes over and the schedule is released.
+   */
+  async scheduleChangeAtPeriodEnd(
+    subscription: ISubscription,
+    toPkg: IPackage
+  ): Promise<PlanChangeResult> {
+    if (!subscription.stripeSubscriptionId) {
+      throw new AppError('Subscription is not billed through Stripe', 400);
+    }
+
+    const priceId = await this.syncPackagePrice(toPkg);
+    const current = await stripe.subscriptions.retrieve(subscription.stripeSubscriptionId);
+    const item = current.items.data[0];
+
+    const scheduleId = typeof current.schedule === 'string' ? current.schedule : current.schedule?.id;
+    const schedule = scheduleId
+      ? await stripe.subscriptionSchedules.retrieve(scheduleId)
+      : await stripe.subscriptionSchedules.create({ from_subscription: current.id });
+
+    await stripe.subscriptionSchedules.update(schedule.id, {
+      end_behavior: 'release',
+      phases: [
+        {
+          items: [{ price: item.price.id, quantity: 1 }],
+          start_date: item.current_period_start,
+          end_date: item.current_period_end,
+          // Keep a running trial free until it ends
+          ...(current.status === 'trialing' && current.trial_end && { trial_end: current.trial_end }),
+          metadata: current.metadata,
+        },
+        {
+          items: [{ price: priceId, quantity: 1 }],
+          duration: { interval: toPkg.periodType, interval_count: toPkg.periodCount },
+          metadata: { ...current.metadata, packageId: String(toPkg._id) },
+        },
+      ],
+    });
+
+    const effectiveAt = new Date(item.current_period_end * 1000);
+    subscription.scheduledChange = {
+      packageId: toPkg._id as ISubscription['packageId'],
+      effectiveAt,
+      stripeScheduleId: schedule.id,
+    };
+    await subscription.save();
+
+    logger.info(
+      `Subscription ${subscription._id} scheduled to move to package ${toPkg._id} on ${effectiveAt.toISOString()}`
+    );
+
+    return {
+      effective: 'period_end',
+      effectiveAt,
+      unusedCredit: 0,
+      newCharge: 0,
+      amountDue: 0,
+      creditedAmount: 0,
+      clientSecret: null,
+    };
+  }
+
+  /**
+   * Drop a scheduled package change; the subscription keeps renewing as it is
+   */
+  async cancelScheduledChange(subscription: ISubscription): Promise<void> {
+    const scheduleId = subscription.scheduledChange?.stripeScheduleId;
+    if (scheduleId) {
+      await this.releaseSchedule(scheduleId);
+    }
+
+    if (subscription.scheduledChange) {
+      subscription.scheduledChange = undefined;
+      await subscription.save();
+    }
+  }
+
+  /**
+   * Package a Stripe subscription is billed for
+   */
+  private async resolvePackage(stripeSubscription: Stripe.Subscription): Promise<IPackage | null> {
+    const priceId = stripeSubscription.items.data[0]?.price.id;
+    const pkg = priceId ? await Package.findOne({ stripePriceId: priceId }) : null;
+    return pkg || Package.findById(stripeSubscription.metadata.packageId);
+  }
+
+  /**
+   * Mirror a Stripe subscription onto our Subscription and IUser.subscription
+   * Events for a Stripe subscription the user no longer has are ignored unless
+   * createIfMissing is set (a paid invoice always wins). A trial waiting for its
+   * card is never mirrored, so it grants no access.
+   */
+  async syncFromStripe(
+    stripeSubscription: Stripe.Subscription,
+    createIfMissing = false
+  ): Promise<ISubscription | null> {
+    const userId = stripeSubscription.metadata.userId;
+    const status = this.mapStatus(stripeSubscription.status);
+    if (!userId || !status || (await trialService.isAwaitingCard(stripeSubscription))) {
+      return null;
+    }
+
+    // Purged accounts get nothing back, even from a late paid invoice
+    const user = await User.findById(userId).select('deletedAt');
+    if (!user) {
+      return null;
+    }
+
+    const existing = await Subscription.findOne({ userId });
+    const isCurrent = existing?.stripeSubscriptionId === stripeSubscription.id;
+    if (!isCurrent && !createIfMissing) {
+      return null;
+    }
+
+    const pkg = await this.resolvePackage(stripeSubscription);
+    if (!pkg) {
+      logger.error(`No package found for Stripe subscription ${stripeSubscription.id}`);
+      return null;
+    }
+
+    const item = stripeSubscription.items.data[0];
+    const subscription = existing || new Subscription({ userId });
+    const isLive = status === 'active' || status === 'past_due';
+
+    subscription.packageId = pkg._id as ISubscription['packageId'];
+    subscription.status = status;
+    // Dunning belongs to the Stripe subscription whose invoice is being retried
+    if (!isCurrent || !isLive) {
+      subscription.dunning = undefined;
+    }
+    // A scheduled change is done once the subscription is billed for that package
+    if (
+      !isCurrent ||
+      !isLive ||
+      String(subscription.scheduledChange?.packageId) === String(pkg._id)
+    ) {
+      subscription.scheduledChange = undefined;
+    }
+    if (status === 'past_due') {
+      dunningService.openGracePeriod(subscription);
+    } else if (subscription.dunning) {
+      // Stays past due until dunningService.resolve sees the invoice paid
+      subscription.status = 'past_due';
+    }
+    // An account pending deletion keeps its subscription cancelled until it is restored
+    if (user.deletedAt && (subscription.status === 'active' || subscription.status === 'past_due')) {
+      subscription.status = 'cancelled';
+      subscription.dunning = undefined;
+    }
+    if (!isCurrent) {
+      subscription.startDate = new Date(stripeSubscription.start_date * 1000);
+    }
+    // Only package trials count; a deferred first charge and referral rewards also use Stripe's trial
+    const isReferralExtension =
+      !!stripeSubscription.trial_end &&
+      stripeSubscription.metadata.referralExtensionUntil === String(stripeSubscription.trial_end);
+    if (
+      stripeSubscription.metadata.trial === 'true' &&
+      stripeSubscription.trial_start &&
+      stripeSubscription.trial_end &&
+      !isReferralExtension
+    ) {
+      subscription.trialStartedAt = new Date(stripeSubscription.trial_start * 1000);
+      subscription.trialEndsAt = new Date(stripeSubscription.trial_end * 1000);
+    } else if (stripeSubscription.metadata.trial === 'denied') {
+      subscription.trialStartedAt = undefined;
+      subscription.trialEndsAt = undefined;
+    }
+    subscription.endDate =
+      stripeSubscription.ended_at && !isLive
+        ? new Date(stripeSubscription.ended_at * 1000)
+        : new Date(item.current_period_end * 1000);
+    subscription.autoRenew = isLive && !stripeSubscription.cancel_at_period_end;
+    subscription.cancellationDate = stripeSubscription.canceled_at
+      ? new Date(stripeSubscription.canceled_at * 1000)
+      : undefined;
+    subscription.stripeSubscriptionId = stripeSubscription.id;
+    subscription.stripeStatus = stripeSubscription.status;
+    await subscription.save();
+
+    await User.findByIdAndUpdate(userId, {
+      'subscription.packageId': subscription.packageId,
+      'subscription.status': subscription.status,
+      'subscription.startDate': subscription.startDate,
+      'subscription.endDate': subscription.endDate,
+      'subscription.autoRenew': subscription.autoRenew,
+    });
+
+    return subscription;
+  }
+
+  /**
+   * invoice.paid: activate or extend the subscription and record the payment
+   */
+  async handleInvoicePaid(invoice: Stripe.Invoice): Promise<void> {
+    const stripeSubscriptionId = this.getInvoiceSubscriptionId(invoice);
+    if (!stripeSubscriptionId || !invoice.id) {
+      return;
+    }
+
+    const existingPayment = await Payment.findOne({ stripeInvoiceId: invoice.id });
+    if (existingPayment?.status === 'completed') {
+      return;
+    }
+
+    const stripeSubscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+    if (await trialService.isAwaitingCard(stripeSubscription)) {
+      logger.info(`Trial ${stripeSubscriptionId} starts once its card is accepted`);
+      return;
+    }
+
+    const subscription = await this.syncFromStripe(stripeSubscription, true);
+    if (!subscription) {
+      logger.warn(`Paid invoice ${invoice.id} could not be matched to a subscription`);
+      return;
+    }
+
+    const userId = String(subscription.userId);
+    const recovered = await dunningService.resolve(subscription);
+    const isTrial = stripeSubscription.metadata.trial === 'true';
+
+    // The first charge after a free trial converts it
+    const converted =
+      isTrial &&
+      invoice.billing_reason === 'subscription_cycle' &&
+      invoice.amount_paid > 0 &&
+      !subscription.trialConvertedAt;
+    if (converted) {
+      subscription.trialConvertedAt = new Date();
+      await subscription.save();
+    }
+    const couponCode =
+      invoice.billing_reason === 'subscription_create'
+        ? stripeSubscription.metadata.couponCode
+        : undefined;
+
+    // Nothing was charged (e.g. deferred start), so there is no payment to record
+    if (invoice.amount_paid > 0) {
+      const paymentIntentId = await this.getInvoicePaymentIntentId(invoice.id);
+      const payment =
+        existingPayment ||
+        new Payment({ userId: subscription.userId, stripeInvoiceId: invoice.id, paymentMethod: 'visa' });
+
+      payment.set({
+        subscriptionId: subscription._id,
+        amount: invoice.subtotal / 100,
+        currency: invoice.currency.toUpperCase(),
+        status: 'completed',
+        transactionId: paymentIntentId || invoice.id,
+        stripePaymentIntentId: paymentIntentId,
+        couponCode,
+        discountAmount: Math.max(0, invoice.subtotal - invoice.total) / 100,
+        finalAmount: invoice.amount_paid / 100,
+        failureReason: undefined,
+        metadata: {
+          ...payment.metadata,
+          packageId: String(subscription.packageId),
+          stripeSubscriptionId,
+          billingReason: invoice.billing_reason,
+        },
+      });
+      await payment.save();
+
+      await referralService.handleCompletedPayment(payment);
+    }
+
+    if (couponCode) {
+      const coupon = await Coupon.findByCode(couponCode);
+      if (coupon) {
+        await coupon.use();
+      }
+    }
+
+    // A trial is announced when its card is accepted (handleSubscriptionUpdated)
+    let template: string | null = null;
+    if (invoice.billing_reason === 'subscription_create') {
+      template = isTrial ? null : NOTIFICATION_TEMPLATES.SUBSCRIPTION_ACTIVATED;
+    } else if (invoice.billing_reason === 'subscription_cycle' && !recovered) {
+      template = converted
+        ? NOTIFICATION_TEMPLATES.SUBSCRIPTION_ACTIVATED
+        : NOTIFICATION_TEMPLATES.SUBSCRIPTION_RENEWED;
+    }
+
+    if (template) {
+      const pkg = await Package.findById(subscription.packageId);
+      const notificationData = getNotificationTemplate(template, {
+        packageName: pkg?.name,
+        packageNameAr: pkg?.name,
+      });
+      if (notificationData) {
+        notificationData.data = {
+          subscriptionId: String(subscription._id),
+          packageId: String(subscription.packageId),
+          endDate: subscription.endDate.toISOString(),
+        };
+        await createNotification(userId, notificationData);
+      }
+    }
+
+    logger.info(`Invoice ${invoice.id} paid for subscription ${subscription._id}`);
+  }
+
+  /**
+   * invoice.payment_failed: record the failed payment and start dunning for renewals
+   */
+  async handleInvoicePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+    const stripeSubscriptionId = this.getInvoiceSubscriptionId(invoice);
+    if (!stripeSubscriptionId || !invoice.id) {
+      return;
+    }
+
+    // First invoices fail in the client's confirmation step; only renewals are recorded
+    const subscription = await Subscription.findOne({ stripeSubscriptionId });
+    if (!subscription) {
+      return;
+    }
+
+    const paymentIntentId = await this.getInvoicePaymentIntentId(invoice.id);
+    const paymentIntent = paymentIntentId ? await stripe.paymentIntents.retrieve(paymentIntentId) : null;
+    const failureReason = paymentIntent?.last_payment_error?.message || 'Payment failed';
+
+    const payment =
+      (await Payment.findOne({ stripeInvoiceId: invoice.id })) ||
+      new Payment({ userId: subscription.userId, stripeInvoiceId: invoice.id, paymentMethod: 'visa' });
+
+    payment.set({
+      subscriptionId: subscription._id,
+      amount: invoice.subtotal / 100,
+      currency: invoice.currency.toUpperCase(),
+      status: 'failed',
+      stripePaymentIntentId: paymentIntentId,
+      discountAmount: Math.max(0, invoice.subtotal - invoice.total) / 100,
+      finalAmount: invoice.amount_due / 100,
+      failureReason,
+      metadata: {
+        ...payment.metadata,
+        packageId: String(subscription.packageId),
+        stripeSubscriptionId,
+        billingReason: invoice.billing_reason,
+        attemptCount: invoice.attempt_count,
+      },
+    });
+    await payment.save();
+
+    // Only a failed renewal puts the subscription at risk; a failed plan change
+    // leaves it on its current package
+    if (invoice.billing_reason === 'subscription_cycle') {
+      await dunningService.handleFailedRenewal(subscription, invoice.id, failureReason);
+    } else {
+      const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.PAYMENT_FAILED, {});
+      if (notificationData) {
+        notificationData.data = {
+          paymentId: String(payment._id),
+          failureReason,
+        };
+        await createNotification(String(subscription.userId), notificationData);
+      }
+    }
+
+    logger.warn(`Invoice ${invoice.id} payment failed for subscription ${subscription._id}`);
+  }
+
+  /**
+   * customer.subscription.updated: renewal toggled, plan or period changed,
+   * or a card added to a trial
+   */
+  async handleSubscriptionUpdated(snapshot: Stripe.Subscription): Promise<void> {
+    const stripeSubscription = await this.retrieveCurrent(snapshot);
+    await trialService.checkTrialCard(stripeSubscription);
+
+    // A trial is mirrored (and access starts) once its card has been accepted
+    const isTrial = stripeSubscription.metadata.trial === 'true' && stripeSubscription.status === 'trialing';
+    const wasMirrored = isTrial && !!(await Subscription.exists({ stripeSubscriptionId: stripeSubscription.id }));
+    const subscription = await this.syncFromStripe(stripeSubscription, isTrial);
+
+    if (isTrial && subscription && !wasMirrored) {
+      await this.notifyTrialStarted(subscription);
+    }
+  }
+
+  private async notifyTrialStarted(subscription: ISubscription): Promise<void> {
+    const pkg = await Package.findById(subscription.packageId);
+    const days =
+      subscription.trialStartedAt && subscription.trialEndsAt
+        ? Math.round((subscription.trialEndsAt.getTime() - subscription.trialStartedAt.getTime()) / 86400000)
+        : pkg?.trialDays;
+
+    const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.TRIAL_STARTED, {
+      packageName: pkg?.name,
+      packageNameAr: pkg?.name,
+      days,
+    });
+    if (notificationData) {
+      notificationData.data = {
+        subscriptionId: String(subscription._id),
+        packageId: String(subscription.packageId),
+        trialEndsAt: subscription.trialEndsAt?.toISOString(),
+      };
+      await createNotification(String(subscription.userId), notificationData);
+    }
+
+    logger.info(`Trial ${subscription.stripeSubscriptionId} started for user ${subscription.userId}`);
+  }
+
+  /**
+   * Current state of a subscription an event was about
+   * Events can arrive out of order or be reprocessed long after they were sent,
+   * so their payload is only used to know which subscription changed.
+   */
+  private async retrieveCurrent(snapshot: Stripe.Subscription): Promise<Stripe.Subscription> {
+    return stripe.subscriptions.retrieve(snapshot.id);
+  }
+
+  /**
+   * customer.subscription.deleted: the subscription has ended
+   */
+  async handleSubscriptionDeleted(snapshot: Stripe.Subscription): Promise<void> {
+    const stripeSubscription = await this.retrieveCurrent(snapshot);
+
+    // Dunning already expired it (and told the user) before cancelling in Stripe
+    const existing = await Subscription.findOne({ stripeSubscriptionId: stripeSubscription.id });
+    if (existing?.status === 'expired') {
+      return;
+    }
+
+    const subscription = await this.syncFromStripe(stripeSubscription);
+    if (!subscription) {
+      return;
+    }
+
+    const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.SUBSCRIPTION_EXPIRED, {});
+    if (notificationData) {
+      notificationData.data = {
+        subscriptionId: String(subscription._id),
+        endDate: subscription.endDate.toISOString(),
+      };
+      await createNotification(String(subscription.userId), notificationData);
+    }
+
+    logger.info(`Stripe subscription ${stripeSubscription.id} ended for user ${subscription.userId}`);
+  }
+}
+
+export const stripeSubscriptionService = new StripeSubscriptionService();
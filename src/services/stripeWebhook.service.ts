@@ -0,0 +1,145 @@
+import Stripe from 'stripe';
+import mongoose from 'mongoose';
+import { WebhookEvent, IWebhookEvent } from '../models/WebhookEvent.model';
+import { AppError } from '../middlewares/errorHandler';
+import { stripeSubscriptionService } from './stripeSubscription.service';
+import logger from '../utils/logger';
+
+// An event left in 'received' this long is assumed to have died mid-processing
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+class StripeWebhookService {
+  /**
+   * Record a verified Stripe event and process it at most once
+   * Returns false when the event was already processed (or is being processed),
+   * so Stripe's retries are acknowledged without side effects.
+   * Throws when processing fails; the event is kept as 'failed' for retry.
+   */
+  async handleEvent(event: Stripe.Event): Promise<boolean> {
+    const record = await this.claim(event);
+    if (!record) {
+      logger.info(`Skipping duplicate Stripe event ${event.id} (${event.type})`);
+      return false;
+    }
+
+    await this.process(record, event);
+    return true;
+  }
+
+  /**
+   * Process a failed event again from its stored payload (admin retry)
+   * Subscription handlers sync from Stripe's current state, not the stored copy.
+   */
+  async reprocess(id: string, adminId: string): Promise<IWebhookEvent> {
+    const record = await WebhookEvent.findOneAndUpdate(
+      { _id: id, status: 'failed' },
+      {
+        status: 'received',
+        reprocessedBy: new mongoose.Types.ObjectId(adminId),
+        lastAttemptAt: new Date(),
+        $inc: { attempts: 1 },
+      },
+      { new: true }
+    );
+
+    if (!record) {
+      const existing = await WebhookEvent.findById(id);
+      if (!existing) {
+        throw new AppError('Webhook event not found', 404);
+      }
+      throw new AppError(`Only failed events can be reprocessed (event is ${existing.status})`, 409);
+    }
+
+    try {
+      await this.process(record, record.payload as unknown as Stripe.Event);
+    } catch {
+      // The failure is stored on the record and returned to the admin
+    }
+
+    logger.info(`Admin ${adminId} reprocessed Stripe event ${record.eventId}: ${record.status}`);
+    return record;
+  }
+
+  /**
+   * Atomically take ownership of an event
+   * A new event is inserted; a failed or stale one is taken back over.
+   * Returns null when another delivery already owns or finished the event.
+   */
+  private async claim(event: Stripe.Event): Promise<IWebhookEvent | null> {
+    try {
+      return await WebhookEvent.create({
+        eventId: event.id,
+        type: event.type,
+        payload: event,
+        attempts: 1,
+        lastAttemptAt: new Date(),
+      });
+    } catch (error) {
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+
+    return WebhookEvent.findOneAndUpdate(
+      {
+        eventId: event.id,
+        $or: [
+          { status: 'failed' },
+          { status: 'received', lastAttemptAt: { $lt: new Date(Date.now() - STALE_PROCESSING_MS) } },
+        ],
+      },
+      {
+        status: 'received',
+        lastAttemptAt: new Date(),
+        $inc: { attempts: 1 },
+      },
+      { new: true }
+    );
+  }
+
+  /**
+   * Run the event's handler and store the outcome on the record
+   */
+  private async process(record: IWebhookEvent, event: Stripe.Event): Promise<void> {
+    try {
+      await this.dispatch(event);
+
+      record.status = 'processed';
+      record.processedAt = new Date();
+      record.lastError = undefined;
+      await record.save();
+    } catch (error) {
+      record.status = 'failed';
+      record.lastError = error instanceof Error ? error.message : String(error);
+      await record.save();
+
+      logger.error(`Stripe event ${event.id} (${event.type}) failed:`, error);
+      throw error;
+    }
+  }
+
+  private async dispatch(event: Stripe.Event): Promise<void> {
+    switch (event.type) {
+      case 'invoice.paid':
+        await stripeSubscriptionService.handleInvoicePaid(event.data.object);
+        break;
+
+      case 'invoice.payment_failed':
+        await stripeSubscriptionService.handleInvoicePaymentFailed(event.data.object);
+        break;
+
+      case 'customer.subscription.updated':
+        await stripeSubscriptionService.handleSubscriptionUpdated(event.data.object);
+        break;
+
+      case 'customer.subscription.deleted':
+        await stripeSubscriptionService.handleSubscriptionDeleted(event.data.object);
+        break;
+
+      default:
+        logger.info(`Unhandled Stripe event type ${event.type}`);
+    }
+  }
+}
+
+export const stripeWebhookService = new StripeWebhookService();
@@ -1,9 +1,58 @@
-import { cacheSet, cacheExists } from '../config/redis';
+import { randomUUID } from 'crypto';
+import { cacheSet, cacheGet, cacheExists, cacheDel, getRedisClient } from '../config/redis';
+import { JWTUtil } from '../utils/jwt';
 import logger from '../utils/logger';
 
+/**
+ * Replace a session only if it still holds the refresh token being rotated
+ * Returns 0 when the session is gone or another refresh already rotated it.
+ */
+const ROTATE_SESSION_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if not current or cjson.decode(current).refreshToken ~= ARGV[1] then
+  return 0
+end
+redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+return 1
+`;
+
+/**
+ * Device session stored in Redis (one per login).
+ * A session is also the rotation family of its refresh tokens.
+ */
+export interface DeviceSession {
+  id: string;
+  userId: string;
+  deviceName: string;
+  platform?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  refreshToken: string;
+  accessTokens: string[]; // Access tokens issued in this family that may still be valid
+  createdAt: string;
+  lastUsedAt: string;
+}
+
+/**
+ * Device details captured when a session is created
+ */
+export interface DeviceInfo {
+  deviceName?: string;
+  platform?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
 class TokenService {
   private readonly BLACKLIST_PREFIX = 'blacklist:token:';
   private readonly REFRESH_TOKEN_PREFIX = 'refresh:token:';
+  private readonly SESSION_PREFIX = 'session:';
+  private readonly USER_SESSIONS_PREFIX = 'sessions:user:';
+
+  /**
+   * Refresh token lifetime (7 days in seconds)
+   */
+  readonly REFRESH_TOKEN_EXPIRY = 7 * 24 * 60 * 60;
 
   /**
    * Add token to blacklist (for logout)
@@ -38,26 +87,9 @@ class TokenService {
     }
   }
 
-  /**
-   * Store refresh token in Redis (for rotation)
-   */
-  async storeRefreshToken(
-    userId: string,
-    token: string,
-    expiresInSeconds: number
-  ): Promise<boolean> {
-    try {
-      const key = `${this.REFRESH_TOKEN_PREFIX}${userId}`;
-      await cacheSet(key, token, expiresInSeconds);
-      return true;
-    } catch (error) {
-      logger.error('Failed to store refresh token:', error);
-      return false;
-    }
-  }
-
   /**
    * Get stored refresh token for user
+   * @deprecated Single-slot storage kept only for tokens issued before device sessions
    */
   async getRefreshToken(userId: string): Promise<string | null> {
     try {
@@ -75,6 +107,7 @@ class TokenService {
 
   /**
    * Invalidate refresh token (for logout or token rotation)
+   * @deprecated Single-slot storage kept only for tokens issued before device sessions
    */
   async invalidateRefreshToken(userId: string): Promise<boolean> {
     try {
@@ -91,6 +124,203 @@ class TokenService {
     }
   }
 
+  /**
+   * Generate a new device session id
+   */
+  generateSessionId(): string {
+    return randomUUID();
+  }
+
+  /**
+   * Create a device session holding its own refresh token
+   */
+  async createSession(
+    sessionId: string,
+    userId: string,
+    refreshToken: string,
+    accessToken: string,
+    device: DeviceInfo = {}
+  ): Promise<DeviceSession | null> {
+    try {
+      const now = new Date().toISOString();
+      const session: DeviceSession = {
+        id: sessionId,
+        userId,
+        deviceName: device.deviceName || device.platform || 'Unknown device',
+        platform: device.platform,
+        userAgent: device.userAgent,
+        ipAddress: device.ipAddress,
+        refreshToken,
+        accessTokens: [accessToken],
+        createdAt: now,
+        lastUsedAt: now,
+      };
+
+      await cacheSet(
+        `${this.SESSION_PREFIX}${sessionId}`,
+        session,
+        this.REFRESH_TOKEN_EXPIRY
+      );
+
+      const client = getRedisClient();
+      const userSessionsKey = `${this.USER_SESSIONS_PREFIX}${userId}`;
+      await client.sAdd(userSessionsKey, sessionId);
+      await client.expire(userSessionsKey, this.REFRESH_TOKEN_EXPIRY);
+
+      logger.info(`Session ${sessionId} created for user ${userId}`);
+      return session;
+    } catch (error) {
+      logger.error('Failed to create session:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get a device session by id
+   */
+  async getSession(sessionId: string): Promise<DeviceSession | null> {
+    return cacheGet<DeviceSession>(`${this.SESSION_PREFIX}${sessionId}`);
+  }
+
+  /**
+   * Replace the session's tokens after a refresh (rotation)
+   * The swap only happens while the session still holds the refresh token it
+   * was read with, so two refreshes racing with the same token can't both win.
+   * Returns false when the token was already rotated (or the session is gone).
+   */
+  async rotateSessionTokens(
+    session: DeviceSession,
+    refreshToken: string,
+    accessToken: string
+  ): Promise<boolean> {
+    // Keep previously issued access tokens until they expire so the family can be revoked as a whole
+    const outstanding = (session.accessTokens || []).filter((token) => {
+      const expiration = JWTUtil.getTokenExpiration(token);
+      return !!expiration && this.getSecondsUntilExpiration(expiration) > 0;
+    });
+
+    const updated: DeviceSession = {
+      ...session,
+      refreshToken,
+      accessTokens: [...outstanding, accessToken],
+      lastUsedAt: new Date().toISOString(),
+    };
+
+    let swapped: unknown;
+    try {
+      swapped = await getRedisClient().eval(ROTATE_SESSION_SCRIPT, {
+        keys: [`${this.SESSION_PREFIX}${session.id}`],
+        arguments: [session.refreshToken, JSON.stringify(updated), String(this.REFRESH_TOKEN_EXPIRY)],
+      });
+    } catch (error) {
+      logger.error('Failed to rotate session tokens:', error);
+      return false;
+    }
+
+    if (Number(swapped) !== 1) {
+      return false;
+    }
+
+    try {
+      await getRedisClient().expire(
+        `${this.USER_SESSIONS_PREFIX}${session.userId}`,
+        this.REFRESH_TOKEN_EXPIRY
+      );
+    } catch (error) {
+      logger.warn('Failed to extend user sessions index:', error);
+    }
+
+    return true;
+  }
+
+  /**
+   * List active sessions for a user, pruning ids whose session has expired
+   */
+  async listSessions(userId: string): Promise<DeviceSession[]> {
+    try {
+      const client = getRedisClient();
+      const userSessionsKey = `${this.USER_SESSIONS_PREFIX}${userId}`;
+      const sessionIds = Array.from(await client.sMembers(userSessionsKey), String);
+
+      const sessions: DeviceSession[] = [];
+      for (const sessionId of sessionIds) {
+        const session = await this.getSession(sessionId);
+        if (session) {
+          sessions.push(session);
+        } else {
+          await client.sRem(userSessionsKey, sessionId);
+        }
+      }
+
+      return sessions.sort(
+        (a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime()
+      );
+    } catch (error) {
+      logger.error('Failed to list sessions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Revoke a single device session and blacklist its outstanding access tokens
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<boolean> {
+    try {
+      const session = await this.getSession(sessionId);
+
+      if (!session || session.userId !== userId) {
+        return false;
+      }
+
+      for (const accessToken of session.accessTokens || []) {
+        await this.blacklistAccessToken(accessToken);
+      }
+
+      await cacheDel(`${this.SESSION_PREFIX}${sessionId}`);
+      await getRedisClient().sRem(`${this.USER_SESSIONS_PREFIX}${userId}`, sessionId);
+
+      logger.info(`Session ${sessionId} revoked for user ${userId}`);
+      return true;
+    } catch (error) {
+      logger.error('Failed to revoke session:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Revoke every device session for a user (password reset, account deletion)
+   */
+  async revokeAllSessions(userId: string): Promise<number> {
+    const sessions = await this.listSessions(userId);
+
+    let revoked = 0;
+    for (const session of sessions) {
+      if (await this.revokeSession(userId, session.id)) {
+        revoked++;
+      }
+    }
+
+    await cacheDel(`${this.USER_SESSIONS_PREFIX}${userId}`);
+    await this.invalidateRefreshToken(userId);
+
+    return revoked;
+  }
+
+  /**
+   * Blacklist an access token until it would have expired anyway
+   */
+  private async blacklistAccessToken(token: string): Promise<void> {
+    const expiration = JWTUtil.getTokenExpiration(token);
+    if (!expiration) {
+      return;
+    }
+
+    const secondsUntilExpiry = this.getSecondsUntilExpiration(expiration);
+    if (secondsUntilExpiry > 0) {
+      await this.blacklistToken(token, secondsUntilExpiry);
+    }
+  }
+
   /**
    * Calculate seconds until token expiration
    */
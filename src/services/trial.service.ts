@@ -0,0 +1,174 @@
+import Stripe from 'stripe';
+import stripe from '../config/stripe';
+import { IPackage } from '../models/Package.model';
+import { Subscription } from '../models/Subscription.model';
+import { IUser, User } from '../models/User.model';
+import { TrialFingerprint } from '../models/TrialFingerprint.model';
+import { createNotification } from './notification.service';
+import { getNotificationTemplate, NOTIFICATION_TEMPLATES } from '../utils/notificationTemplates';
+import logger from '../utils/logger';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days before the trial ends that a reminder is sent
+const REMINDER_DAYS = [3, 1];
+
+/**
+ * Free trials
+ *
+ * A new user subscribing to a package with trialDays gets that many free days
+ * before the first charge; only a card is collected (Stripe SetupIntent).
+ * Each user gets one trial, and each card one trial across all accounts. The
+ * trial grants access only once its card is accepted; a card that was already
+ * used for a trial (or can't be identified) ends the new trial immediately.
+ */
+class TrialService {
+  /**
+   * Reserve the user's trial for a package subscription
+   * Returns the trial length in days, or 0 when the user doesn't get a trial
+   * (package has none, user already had one, or has subscribed before).
+   */
+  async claimTrial(user: IUser, pkg: IPackage): Promise<number> {
+    if (!pkg.trialDays || user.trialUsedAt) {
+      return 0;
+    }
+
+    if (await Subscription.exists({ userId: user._id })) {
+      return 0;
+    }
+
+    // Atomic so two concurrent subscribe requests can't both start a trial
+    const claimed = await User.updateOne(
+      { _id: user._id, trialUsedAt: null },
+      { trialUsedAt: new Date() }
+    );
+
+    return claimed.modifiedCount === 1 ? pkg.trialDays : 0;
+  }
+
+  /**
+   * Give the trial back when its subscription could not be created
+   */
+  async releaseTrial(user: IUser): Promise<void> {
+    await User.updateOne({ _id: user._id }, { $unset: { trialUsedAt: 1 } });
+    user.trialUsedAt = undefined;
+  }
+
+  /**
+   * Whether a Stripe subscription is a trial still waiting for an accepted card
+   * These don't grant access yet.
+   */
+  async isAwaitingCard(stripeSubscription: Stripe.Subscription): Promise<boolean> {
+    if (stripeSubscription.metadata.trial !== 'true' || stripeSubscription.status !== 'trialing') {
+      return false;
+    }
+    return !(await TrialFingerprint.exists({ stripeSubscriptionId: stripeSubscription.id }));
+  }
+
+  /**
+   * Accept the card added to a trial, or end the trial if that card already had one
+   * Called whenever a trialing Stripe subscription changes; a no-op until the
+   * SetupIntent has saved a card as the subscription's default payment method.
+   */
+  async checkTrialCard(stripeSubscription: Stripe.Subscription): Promise<void> {
+    const { userId, trial } = stripeSubscription.metadata;
+    const paymentMethodId =
+      typeof stripeSubscription.default_payment_method === 'string'
+        ? stripeSubscription.default_payment_method
+        : stripeSubscription.default_payment_method?.id;
+
+    if (stripeSubscription.status !== 'trialing' || trial !== 'true' || !userId || !paymentMethodId) {
+      return;
+    }
+
+    const paymentMethod = await stripe.paymentMethods.retrieve(paymentMethodId);
+    const fingerprint = paymentMethod.card?.fingerprint;
+
+    if (fingerprint) {
+      try {
+        await TrialFingerprint.create({
+          fingerprint,
+          userId,
+          stripeSubscriptionId: stripeSubscription.id,
+        });
+        return;
+      } catch (error) {
+        if ((error as { code?: number }).code !== 11000) {
+          throw error;
+        }
+      }
+
+      const previous = await TrialFingerprint.findOne({ fingerprint });
+      if (!previous || previous.stripeSubscriptionId === stripeSubscription.id) {
+        return;
+      }
+      logger.warn(
+        `Card on ${stripeSubscription.id} (user ${userId}) was already used for a trial by user ${previous.userId}`
+      );
+    } else {
+      logger.warn(`Payment method on ${stripeSubscription.id} has no card fingerprint; trial refused`);
+    }
+
+    // Bill the card now; the 'denied' marker keeps this out of trial metrics
+    await stripe.subscriptions.update(stripeSubscription.id, {
+      trial_end: 'now',
+      proration_behavior: 'none',
+      metadata: { ...stripeSubscription.metadata, trial: 'denied' },
+    });
+
+    const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.TRIAL_NOT_AVAILABLE, {});
+    if (notificationData) {
+      notificationData.data = {
+        stripeSubscriptionId: stripeSubscription.id,
+      };
+      await createNotification(userId, notificationData);
+    }
+
+    logger.info(`Ended trial ${stripeSubscription.id} for user ${userId}; billing starts now`);
+  }
+
+  /**
+   * Remind users whose trial ends in REMINDER_DAYS days
+   * Returns the number of reminders sent
+   */
+  async sendEndingReminders(): Promise<number> {
+    let sent = 0;
+
+    for (const days of REMINDER_DAYS) {
+      const dayStart = new Date(Date.now() + days * DAY_MS);
+      dayStart.setHours(0, 0, 0, 0);
+      const dayEnd = new Date(dayStart);
+      dayEnd.setHours(23, 59, 59, 999);
+
+      const subscriptions = await Subscription.find({
+        stripeStatus: 'trialing',
+        autoRenew: true,
+        trialEndsAt: { $gte: dayStart, $lte: dayEnd },
+      });
+
+      for (const subscription of subscriptions) {
+        try {
+          const notificationData = getNotificationTemplate(NOTIFICATION_TEMPLATES.TRIAL_ENDING, {
+            days,
+          });
+
+          if (notificationData) {
+            notificationData.data = {
+              subscriptionId: String(subscription._id),
+              trialEndsAt: subscription.trialEndsAt!.toISOString(),
+            };
+            await createNotification(String(subscription.userId), notificationData);
+          }
+
+          sent++;
+        } catch (error) {
+          logger.error(`Error sending trial reminder for subscription ${subscription._id}:`, error);
+        }
+      }
+    }
+
+    return sent;
+  }
+}
+
+export const trialService = new TrialService();
@@ -0,0 +1,280 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { cacheSet, cacheGet, cacheDel, getRedisClient } from '../config/redis';
+import { DeviceInfo } from './token.service';
+import logger from '../utils/logger';
+
+/**
+ * Pending second login step for an account with 2FA enabled
+ */
+export interface TwoFactorChallenge {
+  userId: string;
+  attempts: number;
+  device: DeviceInfo;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+class TwoFactorService {
+  private readonly ISSUER = 'NaturaCalm';
+  private readonly CHALLENGE_PREFIX = '2fa:challenge:';
+  private readonly SETUP_PREFIX = '2fa:setup:';
+  private readonly USED_CODE_PREFIX = '2fa:used:';
+
+  /**
+   * TOTP settings (RFC 6238 defaults understood by all authenticator apps)
+   */
+  private readonly PERIOD_SECONDS = 30;
+  private readonly DIGITS = 6;
+  private readonly WINDOW = 1; // Accept one step of clock drift either way
+
+  /**
+   * Second login step lifetime (5 minutes in seconds)
+   */
+  readonly CHALLENGE_EXPIRY = 5 * 60;
+  readonly MAX_CHALLENGE_ATTEMPTS = 5;
+
+  /**
+   * Unconfirmed enrollment lifetime (10 minutes in seconds)
+   */
+  readonly SETUP_EXPIRY = 10 * 60;
+
+  readonly RECOVERY_CODE_COUNT = 10;
+
+  /**
+   * Generate a new base32 TOTP secret
+   */
+  generateSecret(): string {
+    return this.base32Encode(randomBytes(20));
+  }
+
+  /**
+   * Build the otpauth:// URI rendered as a QR code by the client
+   */
+  getOtpAuthUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${this.ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: this.ISSUER,
+      algorithm: 'SHA1',
+      digits: String(this.DIGITS),
+      period: String(this.PERIOD_SECONDS),
+    });
+
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Verify a TOTP code against a secret, allowing small clock drift
+   */
+  verifyCode(secret: string, code: string): boolean {
+    if (!/^\d{6}$/.test(code)) {
+      return false;
+    }
+
+    const key = this.base32Decode(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / this.PERIOD_SECONDS);
+
+    for (let offset = -this.WINDOW; offset <= this.WINDOW; offset++) {
+      const expected = this.generateCode(key, currentStep + offset);
+      if (timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Verify a TOTP code and refuse it if it was already used by this user
+   */
+  async verifyCodeOnce(userId: string, secret: string, code: string): Promise<boolean> {
+    if (!this.verifyCode(secret, code)) {
+      return false;
+    }
+
+    // Claim the code for the whole drift window; only the first request to claim it succeeds
+    const claimed = await getRedisClient().set(`${this.USED_CODE_PREFIX}${userId}:${code}`, '1', {
+      condition: 'NX',
+      expiration: { type: 'EX', value: this.PERIOD_SECONDS * (this.WINDOW * 2 + 1) },
+    });
+
+    return !!claimed;
+  }
+
+  /**
+   * Generate one-time recovery codes and their hashes for storage
+   */
+  generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: this.RECOVERY_CODE_COUNT }, () => {
+      const raw = randomBytes(5).toString('hex');
+      return `${raw.substring(0, 5)}-${raw.substring(5)}`;
+    });
+
+    return {
+      codes,
+      hashes: codes.map((code) => this.hashRecoveryCode(code)),
+    };
+  }
+
+  /**
+   * Hash a recovery code (case and separator insensitive)
+   */
+  hashRecoveryCode(code: string): string {
+    const normalized = code.trim().toLowerCase().replace(/[^a-f0-9]/g, '');
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+
+  /**
+   * Store a secret waiting for its first code to confirm enrollment
+   */
+  async storePendingSecret(userId: string, secret: string): Promise<boolean> {
+    return cacheSet(`${this.SETUP_PREFIX}${userId}`, secret, this.SETUP_EXPIRY);
+  }
+
+  /**
+   * Get the secret waiting for enrollment confirmation
+   */
+  async getPendingSecret(userId: string): Promise<string | null> {
+    return cacheGet<string>(`${this.SETUP_PREFIX}${userId}`);
+  }
+
+  /**
+   * Drop the pending enrollment secret
+   */
+  async clearPendingSecret(userId: string): Promise<void> {
+    await cacheDel(`${this.SETUP_PREFIX}${userId}`);
+  }
+
+  /**
+   * Start the second login step and return its opaque token
+   */
+  async createChallenge(
+    userId: string,
+    device: DeviceInfo = {}
+  ): Promise<string | null> {
+    const challengeToken = randomBytes(32).toString('hex');
+    const challenge: TwoFactorChallenge = {
+      userId,
+      attempts: 0,
+      device,
+    };
+
+    const stored = await cacheSet(
+      `${this.CHALLENGE_PREFIX}${challengeToken}`,
+      challenge,
+      this.CHALLENGE_EXPIRY
+    );
+
+    if (!stored) {
+      logger.error(`Failed to store 2FA challenge for user ${userId}`);
+      return null;
+    }
+
+    return challengeToken;
+  }
+
+  /**
+   * Get a pending second login step
+   */
+  async getChallenge(challengeToken: string): Promise<TwoFactorChallenge | null> {
+    return cacheGet<TwoFactorChallenge>(`${this.CHALLENGE_PREFIX}${challengeToken}`);
+  }
+
+  /**
+   * Count a failed code against the challenge, dropping it after too many attempts
+   * Returns the number of attempts left
+   */
+  async recordFailedAttempt(
+    challengeToken: string,
+    challenge: TwoFactorChallenge
+  ): Promise<number> {
+    const attempts = challenge.attempts + 1;
+    const remaining = this.MAX_CHALLENGE_ATTEMPTS - attempts;
+
+    if (remaining <= 0) {
+      await this.deleteChallenge(challengeToken);
+      return 0;
+    }
+
+    await cacheSet(
+      `${this.CHALLENGE_PREFIX}${challengeToken}`,
+      { ...challenge, attempts },
+      this.CHALLENGE_EXPIRY
+    );
+
+    return remaining;
+  }
+
+  /**
+   * Remove a challenge once it is completed or exhausted
+   */
+  async deleteChallenge(challengeToken: string): Promise<void> {
+    await cacheDel(`${this.CHALLENGE_PREFIX}${challengeToken}`);
+  }
+
+  /**
+   * HOTP value for a counter (RFC 4226)
+   */
+  private generateCode(key: Buffer, counter: number): string {
+    const counterBuffer = Buffer.alloc(8);
+    counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = createHmac('sha1', key).update(counterBuffer).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return (binary % 10 ** this.DIGITS).toString().padStart(this.DIGITS, '0');
+  }
+
+  private base32Encode(buffer: Buffer): string {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  private base32Decode(input: string): Buffer {
+    const cleaned = input.toUpperCase().replace(/=+$/, '').replace(/\s/g, '');
+    let bits = 0;
+    let value = 0;
+    const bytes: number[] = [];
+
+    for (const char of cleaned) {
+      const index = BASE32_ALPHABET.indexOf(char);
+      if (index === -1) {
+        throw new Error('Invalid base32 secret');
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 0xff);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
@@ -7,7 +7,7 @@ import {
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
 import { randomUUID } from 'crypto';
 import sharp from 'sharp';
-import { getR2Client, getR2BucketName, getFileUrl } from '../config/r2';
+import { getR2Client, getR2BucketName, getR2PrivateBucketName, getFileUrl } from '../config/r2';
 import logger from './logger';
 
 export interface UploadResult {
@@ -55,12 +55,40 @@ export const uploadToR2 = async (
 };
 
 /**
- * Delete file from R2
+ * Upload a file to the private R2 bucket
+ * It has no public URL; use generateSignedUrl with the private bucket to share it
  */
-export const deleteFromR2 = async (key: string): Promise<void> => {
+export const uploadPrivateToR2 = async (
+  buffer: Buffer,
+  key: string,
+  contentType: string
+): Promise<void> => {
   try {
     const client = getR2Client();
-    const bucket = getR2BucketName();
+
+    await client.send(
+      new PutObjectCommand({
+        Bucket: getR2PrivateBucketName(),
+        Key: key,
+        Body: buffer,
+        ContentType: contentType,
+      })
+    );
+
+    logger.info(`File uploaded to private R2 bucket: ${key}`);
+  } catch (error) {
+    logger.error('Error uploading to private R2 bucket:', error);
+    throw new Error('Failed to upload file to storage');
+  }
+};
+
+/**
+ * Delete file from R2 (the public bucket unless another is given)
+ */
+export const deleteFromR2 = async (key: string, bucketName?: string): Promise<void> => {
+  try {
+    const client = getR2Client();
+    const bucket = bucketName || getR2BucketName();
 
     const command = new DeleteObjectCommand({
       Bucket: bucket,
@@ -102,15 +130,16 @@ export const fileExistsInR2 = async (key: string): Promise<boolean> => {
 
 /**
  * Generate signed URL for private file access
- * Default expiration: 1 hour
+ * Default expiration: 1 hour; the public bucket unless another is given
  */
 export const generateSignedUrl = async (
   key: string,
-  expiresIn: number = 3600
+  expiresIn: number = 3600,
+  bucketName?: string
 ): Promise<string> => {
   try {
     const client = getR2Client();
-    const bucket = getR2BucketName();
+    const bucket = bucketName || getR2BucketName();
 
     const command = new GetObjectCommand({
       Bucket: bucket,
@@ -0,0 +1,9 @@
+/**
+ * HTML helpers for email templates
+ */
+
+/**
+ * Escape user-provided text before putting it into HTML (element content or attribute)
+ */
+export const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
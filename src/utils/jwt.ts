@@ -1,10 +1,17 @@
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import { env } from '../config/env';
 
 export interface TokenPayload {
   id: string;
   phone?: string;
   role?: string;
+  sid?: string; // Device session id
+}
+
+export interface RefreshTokenPayload {
+  id: string;
+  sid?: string; // Device session id
 }
 
 export class JWTUtil {
@@ -20,9 +27,10 @@ export class JWTUtil {
   /**
    * Generate refresh token
    */
-  static generateRefreshToken(payload: { id: string }): string {
+  static generateRefreshToken(payload: RefreshTokenPayload): string {
     return jwt.sign(payload, env.JWT_REFRESH_SECRET, {
       expiresIn: env.JWT_REFRESH_EXPIRE,
+      jwtid: randomUUID(),
     } as jwt.SignOptions);
   }
 
@@ -47,11 +55,9 @@ export class JWTUtil {
   /**
    * Verify refresh token
    */
-  static verifyRefreshToken(token: string): { id: string } {
+  static verifyRefreshToken(token: string): RefreshTokenPayload {
     try {
-      const decoded = jwt.verify(token, env.JWT_REFRESH_SECRET) as {
-        id: string;
-      };
+      const decoded = jwt.verify(token, env.JWT_REFRESH_SECRET) as RefreshTokenPayload;
       return decoded;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
@@ -1,6 +1,7 @@
 import { ListeningSession } from '../models/ListeningSession.model';
 import { User } from '../models/User.model';
 import logger from './logger';
+import { getLocalHour, resolveTimezone } from './timezone';
 
 /**
  * Get total listening time for a user
@@ -225,10 +226,12 @@ export const getUserListeningPatterns = async (
       .sort((a, b) => b.count - a.count)
       .slice(0, 5);
 
-    // Calculate peak listening hours
+    // Calculate peak listening hours in the user's own timezone
+    const user = await User.findById(userId).select('timezone');
+    const timezone = resolveTimezone(user?.timezone);
     const hourCount: Record<number, number> = {};
     for (const session of sessions) {
-      const hour = new Date(session.startTime).getHours();
+      const hour = getLocalHour(new Date(session.startTime), timezone);
       hourCount[hour] = (hourCount[hour] || 0) + 1;
     }
 
@@ -15,6 +15,9 @@ export interface UploadResult {
 // Base upload directory
 const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
 
+// Private files (never served statically), e.g. personal data exports
+const PRIVATE_DIR = path.join(process.cwd(), 'storage', 'private');
+
 // Public URL base
 const getPublicUrl = (key: string): string => {
   const baseUrl = env.API_URL || 'http://localhost:5000';
@@ -226,6 +229,47 @@ export const uploadAudioLocal = async (
   }
 };
 
+/**
+ * Save a file outside the public uploads directory
+ */
+export const savePrivateFile = async (buffer: Buffer, key: string): Promise<void> => {
+  try {
+    const filePath = path.join(PRIVATE_DIR, key);
+    await ensureDir(path.dirname(filePath));
+    await fs.writeFile(filePath, buffer);
+
+    logger.info(`File saved to private storage: ${key}`);
+  } catch (error) {
+    logger.error('Error saving to private storage:', error);
+    throw new Error('Failed to save file to private storage');
+  }
+};
+
+/**
+ * Read a file from private storage
+ */
+export const readPrivateFile = async (key: string): Promise<Buffer> => {
+  return fs.readFile(path.join(PRIVATE_DIR, key));
+};
+
+/**
+ * Delete a file from private storage
+ */
+export const deletePrivateFile = async (key: string): Promise<void> => {
+  try {
+    await fs.unlink(path.join(PRIVATE_DIR, key));
+
+    logger.info(`File deleted from private storage: ${key}`);
+  } catch (error: unknown) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      logger.warn(`Private file not found for deletion: ${key}`);
+      return;
+    }
+    logger.error('Error deleting from private storage:', error);
+    throw new Error('Failed to delete file from private storage');
+  }
+};
+
 /**
  * Initialize local storage directory structure
  */
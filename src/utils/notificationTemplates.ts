@@ -161,6 +161,113 @@ export const getNotificationTemplate = (
       message: params.message as string || 'فتحت إنجازاً جديداً!',
     }),
 
+    refreshTokenReuse: (params) => ({
+      type: 'system',
+      icon: '🔒',
+      title: 'تنبيه أمني',
+      message: `تم رصد محاولة لاستخدام جلسة قديمة على ${params.deviceName || 'أحد أجهزتك'}، فقمنا بتسجيل الخروج منه احتياطياً. إذا لم تكن أنت، يرجى تغيير كلمة المرور`,
+    }),
+
+    newLoginAlert: (params) => ({
+      type: 'system',
+      icon: '🔐',
+      title: 'تسجيل دخول جديد',
+      message: `تم تسجيل الدخول إلى حسابك من ${params.deviceName || 'جهاز جديد'}${params.country ? ` (${params.country})` : ''}. إذا لم تكن أنت، يرجى تغيير كلمة المرور فوراً`,
+    }),
+
+    dataExportReady: () => ({
+      type: 'system',
+      icon: '📦',
+      title: 'نسخة بياناتك جاهزة',
+      message: 'تم تجهيز نسخة من بياناتك الشخصية. تحقق من بريدك الإلكتروني للحصول على رابط التنزيل',
+    }),
+
+    familyInvite: (params) => ({
+      type: 'subscription',
+      icon: '👨‍👩‍👧',
+      title: 'دعوة للباقة العائلية',
+      message: `دعاك ${params.ownerName || 'أحد أفراد عائلتك'} للانضمام إلى باقته العائلية. تحقق من بريدك الإلكتروني لقبول الدعوة`,
+    }),
+
+    familyMemberRemoved: () => ({
+      type: 'subscription',
+      icon: '👋',
+      title: 'تمت إزالتك من الباقة العائلية',
+      message: 'لم تعد عضواً في الباقة العائلية، ولن يكون لديك وصول إلى المحتوى المميز من خلالها',
+    }),
+
+    referralReward: (params) => ({
+      type: 'achievement',
+      icon: '🎁',
+      title: 'مكافأة دعوة صديق',
+      message: `شكراً لدعوتك! أضفنا ${params.days || ''} يوماً إلى اشتراكك لأن صديقك اشترك في التطبيق`,
+    }),
+
+    banLifted: () => ({
+      type: 'system',
+      icon: '🔓',
+      title: 'تم رفع الحظر عن حسابك',
+      message: 'لم يعد حسابك محظوراً ويمكنك الآن استخدامه كالمعتاد',
+    }),
+
+    banAppealApproved: (params) => ({
+      type: 'system',
+      icon: '✅',
+      title: 'تم قبول طلب الاعتراض',
+      message: `راجعنا طلبك ورفعنا الحظر عن حسابك${params.note ? `: ${params.note}` : ''}`,
+    }),
+
+    banAppealDenied: (params) => ({
+      type: 'system',
+      icon: '⛔',
+      title: 'تم رفض طلب الاعتراض',
+      message: `راجعنا طلبك وقررنا إبقاء الحظر على حسابك${params.note ? `: ${params.note}` : ''}`,
+    }),
+
+    paymentRetryReminder: (params) => ({
+      type: 'subscription',
+      icon: params.final ? '🚨' : '💳',
+      title: params.final ? 'تنبيه أخير: اشتراكك على وشك الانتهاء' : 'تعذر تجديد اشتراكك',
+      message: params.final
+        ? `فشلت جميع محاولات الدفع. سينتهي اشتراكك خلال ${params.days} يوم ما لم تحدّث وسيلة الدفع`
+        : `لم نتمكن من تحصيل رسوم التجديد وسنعيد المحاولة تلقائياً. حدّث وسيلة الدفع للاحتفاظ بوصولك (متبقي ${params.days} يوم)`,
+    }),
+
+    paymentRecovered: (params) => ({
+      type: 'subscription',
+      icon: '✅',
+      title: 'تم تجديد اشتراكك',
+      message: `تمت عملية الدفع بنجاح واستمر اشتراكك في ${params.packageNameAr || params.packageName || 'الباقة'}`,
+    }),
+
+    subscriptionExpiredUnpaid: (_params) => ({
+      type: 'subscription',
+      icon: '⚠️',
+      title: 'انتهى الاشتراك',
+      message: 'انتهى اشتراكك لتعذر تحصيل رسوم التجديد. اشترك من جديد للعودة إلى جميع المحتويات',
+    }),
+
+    trialStarted: (params) => ({
+      type: 'subscription',
+      icon: '🎁',
+      title: 'بدأت فترتك التجريبية',
+      message: `استمتع بجميع محتويات ${params.packageNameAr || params.packageName || 'الباقة'} مجاناً لمدة ${params.days} يوم`,
+    }),
+
+    trialEnding: (params) => ({
+      type: 'subscription',
+      icon: '⏳',
+      title: 'فترتك التجريبية على وشك الانتهاء',
+      message: `تنتهي فترتك التجريبية خلال ${params.days} يوم وسيبدأ اشتراكك المدفوع تلقائياً`,
+    }),
+
+    trialNotAvailable: (_params) => ({
+      type: 'subscription',
+      icon: '💳',
+      title: 'الفترة التجريبية غير متاحة',
+      message: 'لا يمكن استخدام وسيلة الدفع هذه لفترة تجريبية، لذا بدأ اشتراكك المدفوع مباشرة',
+    }),
+
     customNotification: (params) => ({
       type: (params.type as NotificationType) || 'system',
       icon: params.icon as string,
@@ -220,5 +327,20 @@ export const NOTIFICATION_TEMPLATES = {
   ACCOUNT_VERIFIED: 'accountVerified',
   PROGRAM_RECOMMENDATION: 'programRecommendation',
   ACHIEVEMENT_UNLOCKED: 'achievementUnlocked',
+  REFRESH_TOKEN_REUSE: 'refreshTokenReuse',
+  NEW_LOGIN_ALERT: 'newLoginAlert',
+  DATA_EXPORT_READY: 'dataExportReady',
+  FAMILY_INVITE: 'familyInvite',
+  FAMILY_MEMBER_REMOVED: 'familyMemberRemoved',
+  REFERRAL_REWARD: 'referralReward',
+  BAN_LIFTED: 'banLifted',
+  BAN_APPEAL_APPROVED: 'banAppealApproved',
+  BAN_APPEAL_DENIED: 'banAppealDenied',
+  PAYMENT_RETRY_REMINDER: 'paymentRetryReminder',
+  PAYMENT_RECOVERED: 'paymentRecovered',
+  SUBSCRIPTION_EXPIRED_UNPAID: 'subscriptionExpiredUnpaid',
+  TRIAL_STARTED: 'trialStarted',
+  TRIAL_ENDING: 'trialEnding',
+  TRIAL_NOT_AVAILABLE: 'trialNotAvailable',
   CUSTOM_NOTIFICATION: 'customNotification',
 } as const;
@@ -0,0 +1,125 @@
+/**
+ * Timezone helpers for computing a user's local "day" and "hour"
+ * Uses the built-in Intl API, so any IANA timezone name is supported
+ */
+
+export const DEFAULT_TIMEZONE = 'UTC';
+export const DEFAULT_LOCALE = 'ar';
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      weekday: 'short',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Check that a value is an IANA timezone name (e.g. "Asia/Riyadh")
+ */
+export const isValidTimezone = (timezone: unknown): timezone is string => {
+  if (typeof timezone !== 'string' || !timezone.trim()) return false;
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check that a value is a BCP 47 locale tag (e.g. "ar", "en-US")
+ */
+export const isValidLocale = (locale: unknown): locale is string => {
+  if (typeof locale !== 'string' || !locale.trim()) return false;
+  try {
+    return Intl.getCanonicalLocales(locale).length === 1;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Use the given timezone if valid, otherwise the default
+ */
+export const resolveTimezone = (timezone?: string | null): string => {
+  return timezone && isValidTimezone(timezone) ? timezone : DEFAULT_TIMEZONE;
+};
+
+/**
+ * Calendar parts of a date as seen in a timezone
+ * month is 1-12, weekday is 0 (Sunday) - 6 (Saturday)
+ */
+export const getZonedParts = (
+  date: Date,
+  timezone: string
+): {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+} => {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+};
+
+/**
+ * Local calendar day of a date (YYYY-MM-DD) in a timezone
+ */
+export const getLocalDateKey = (date: Date, timezone: string): string => {
+  const { year, month, day } = getZonedParts(date, timezone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Local hour of day (0-23) of a date in a timezone
+ */
+export const getLocalHour = (date: Date, timezone: string): number => {
+  return getZonedParts(date, timezone).hour;
+};
+
+/**
+ * Shift a YYYY-MM-DD day key by a number of days
+ */
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Whole days between two YYYY-MM-DD day keys (later minus earlier)
+ */
+export const diffDateKeys = (later: string, earlier: string): number => {
+  const ms =
+    new Date(`${later}T00:00:00.000Z`).getTime() -
+    new Date(`${earlier}T00:00:00.000Z`).getTime();
+  return Math.round(ms / (24 * 60 * 60 * 1000));
+};
@@ -44,6 +44,17 @@ const validators = {
     if (typeof otp !== 'string') return false;
     return /^\d{6}$/.test(otp);
   },
+
+  isValidTwoFactorCode(code: unknown): boolean {
+    if (typeof code !== 'string') return false;
+    // 6-digit TOTP code or a recovery code (xxxxx-xxxxx)
+    return /^\d{6}$/.test(code.trim()) || /^[a-f0-9]{5}-?[a-f0-9]{5}$/i.test(code.trim());
+  },
+
+  isValidReferralCode(code: unknown): boolean {
+    if (typeof code !== 'string') return false;
+    return /^[a-z0-9]{4,20}$/i.test(code.trim());
+  },
 };
 
 /**
@@ -101,6 +112,11 @@ export const validateRegister = (
         validator: validators.isValidPassword,
         message: 'Password must be at least 6 characters long',
       },
+      {
+        field: 'referralCode',
+        validator: validators.isValidReferralCode,
+        message: 'Invalid referral code',
+      },
     ]);
 
     next();
@@ -331,6 +347,108 @@ export const validateRefreshToken = (
   }
 };
 
+/**
+ * Two-factor login step validation middleware
+ */
+export const validateTwoFactorVerify = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.body, [
+      {
+        field: 'twoFactorToken',
+        required: true,
+        validator: (value) => typeof value === 'string' && /^[a-f0-9]{64}$/.test(value),
+        message: 'Valid two-factor token is required',
+      },
+      {
+        field: 'code',
+        required: true,
+        validator: validators.isValidTwoFactorCode,
+        message: 'Please provide a 6-digit code or a recovery code',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+/**
+ * Magic link request validation middleware
+ */
+export const validateMagicLinkRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.body, [
+      {
+        field: 'email',
+        required: true,
+        validator: validators.isValidEmail,
+        message: 'Please provide a valid email address',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+/**
+ * Magic link verification validation middleware
+ */
+export const validateMagicLinkVerify = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.query as Record<string, unknown>, [
+      {
+        field: 'token',
+        required: true,
+        validator: (value) => typeof value === 'string',
+        message: 'Sign-in token is required',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
 /**
  * Social auth validation middleware
  */
@@ -364,3 +482,127 @@ export const validateSocialAuth = (
     }
   }
 };
+
+/**
+ * Session id validation middleware
+ */
+export const validateSessionId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    if (!uuidRegex.test(req.params.id)) {
+      throw new ValidationError('Valid session ID is required', 'id');
+    }
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+/**
+ * Email change request validation middleware
+ */
+export const validateEmailChangeRequest = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.body, [
+      {
+        field: 'newEmail',
+        required: true,
+        validator: validators.isValidEmail,
+        message: 'Please provide a valid email address',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+/**
+ * Email change confirmation validation middleware
+ */
+export const validateEmailChangeConfirm = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.body, [
+      {
+        field: 'otp',
+        required: true,
+        validator: validators.isValidOTP,
+        message: 'OTP must be a 6-digit number',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+/**
+ * Email change revert validation middleware
+ */
+export const validateEmailChangeRevert = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.body, [
+      {
+        field: 'token',
+        required: true,
+        validator: (value) => typeof value === 'string',
+        message: 'Revert token is required',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
@@ -34,6 +34,10 @@ const validators = {
   isValidString(value: unknown): boolean {
     return typeof value === 'string' && value.trim().length > 0;
   },
+
+  isValidTime(value: unknown): boolean {
+    return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  },
 };
 
 /**
@@ -136,7 +140,15 @@ export const validateUpdatePreferences = (
   next: NextFunction
 ): void => {
   try {
-    const { newContent, achievements, reminders, subscription } = req.body;
+    const {
+      newContent,
+      achievements,
+      reminders,
+      subscription,
+      channels,
+      quietHours,
+      dailyPushLimit,
+    } = req.body;
 
     if (newContent !== undefined && !validators.isValidBoolean(newContent)) {
       throw new ValidationError('newContent must be a boolean', 'newContent');
@@ -154,6 +166,50 @@ export const validateUpdatePreferences = (
       throw new ValidationError('subscription must be a boolean', 'subscription');
     }
 
+    if (channels !== undefined) {
+      if (typeof channels !== 'object' || channels === null || Array.isArray(channels)) {
+        throw new ValidationError('channels must be an object keyed by notification type', 'channels');
+      }
+
+      for (const [type, settings] of Object.entries(channels)) {
+        if (!validators.isValidNotificationType(type)) {
+          throw new ValidationError(`Invalid notification type: ${type}`, 'channels');
+        }
+        if (typeof settings !== 'object' || settings === null) {
+          throw new ValidationError(`channels.${type} must be an object`, 'channels');
+        }
+        for (const [channel, value] of Object.entries(settings)) {
+          if (!['push', 'inApp', 'email'].includes(channel)) {
+            throw new ValidationError(`Invalid channel: ${channel}`, 'channels');
+          }
+          if (typeof value !== 'boolean') {
+            throw new ValidationError(`channels.${type}.${channel} must be a boolean`, 'channels');
+          }
+        }
+      }
+    }
+
+    if (quietHours !== undefined) {
+      if (typeof quietHours !== 'object' || quietHours === null) {
+        throw new ValidationError('quietHours must be an object', 'quietHours');
+      }
+      if (quietHours.enabled !== undefined && typeof quietHours.enabled !== 'boolean') {
+        throw new ValidationError('quietHours.enabled must be a boolean', 'quietHours');
+      }
+      for (const field of ['start', 'end']) {
+        if (quietHours[field] !== undefined && !validators.isValidTime(quietHours[field])) {
+          throw new ValidationError(`quietHours.${field} must be a time in HH:mm format`, 'quietHours');
+        }
+      }
+    }
+
+    if (
+      dailyPushLimit !== undefined &&
+      (!Number.isInteger(dailyPushLimit) || dailyPushLimit < 0 || dailyPushLimit > 100)
+    ) {
+      throw new ValidationError('dailyPushLimit must be an integer between 0 and 100', 'dailyPushLimit');
+    }
+
     next();
   } catch (error) {
     if (error instanceof ValidationError) {
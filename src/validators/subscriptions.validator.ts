@@ -22,6 +22,12 @@ const validators = {
     if (typeof id !== 'string') return false;
     return mongoose.Types.ObjectId.isValid(id);
   },
+
+  isValidEmail(email: unknown): boolean {
+    if (typeof email !== 'string') return false;
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    return emailRegex.test(email);
+  },
 };
 
 /**
@@ -66,9 +72,10 @@ export const validateSubscribe = (
         message: 'Valid package ID is required',
       },
       {
-        field: 'paymentMethodId',
-        required: true,
-        message: 'Payment method ID is required',
+        field: 'couponCode',
+        required: false,
+        validator: (value) => typeof value === 'string' && value.trim().length <= 50,
+        message: 'Coupon code must be a string of at most 50 characters',
       },
     ]);
 
@@ -136,6 +143,76 @@ export const validateUpgrade = (
         validator: validators.isValidObjectId,
         message: 'Valid new package ID is required',
       },
+      {
+        field: 'effective',
+        required: false,
+        validator: (value) => value === 'now' || value === 'period_end',
+        message: 'Effective must be now or period_end',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+/**
+ * Validate family invite request
+ */
+export const validateFamilyInvite = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.body, [
+      {
+        field: 'email',
+        required: true,
+        validator: validators.isValidEmail,
+        message: 'Valid email is required',
+      },
+    ]);
+
+    next();
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      res.status(400).json({
+        success: false,
+        message: error.message,
+        field: error.field,
+      });
+    } else {
+      next(error);
+    }
+  }
+};
+
+/**
+ * Validate family join request
+ */
+export const validateFamilyJoin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    validateFields(req.body, [
+      {
+        field: 'token',
+        required: true,
+        validator: (value) => typeof value === 'string',
+        message: 'Invitation token is required',
+      },
     ]);
 
     next();